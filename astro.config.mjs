@@ -21,6 +21,15 @@ const useNodeAdapter = process.env.ASTRO_ADAPTER === 'node';
  */
 const contentPageCache = { maxAge: 3600, swr: 86400 };
 
+/**
+ * The travel pages also list the hotel room blocks, whose sold-out / booking
+ * cutoff state comes from the Notion Hotel Blocks database at request time —
+ * not from a deploy. Keep the CDN window no longer than the in-memory block
+ * cache (HOTEL_BLOCKS_TTL_MS in src/lib/notion.ts), so a block that sells out
+ * stops showing its booking link within minutes.
+ */
+const hotelBlockPageCache = { maxAge: 300, swr: 300 };
+
 export default defineConfig({
   output: 'server',
   adapter: useNodeAdapter ? node({ mode: 'standalone' }) : netlify(),
@@ -43,12 +52,12 @@ export default defineConfig({
     // re-enables CDN caching of exactly the response the page opted out of.
     '/registry': contentPageCache,
     '/nyc': contentPageCache,
-    '/nyc/travel': contentPageCache,
+    '/nyc/travel': hotelBlockPageCache,
     '/nyc/faq': contentPageCache,
     '/nyc/lookbook': contentPageCache,
     '/france': contentPageCache,
     '/france/details': contentPageCache,
-    '/france/travel': contentPageCache,
+    '/france/travel': hotelBlockPageCache,
     '/france/lookbook': contentPageCache,
     // RSVP pages and confirmation pages are intentionally NOT cached: they
     // pre-fill live Notion RSVP state. /nyc/rsvp and /france/rsvp also set
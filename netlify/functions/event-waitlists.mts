@@ -0,0 +1,27 @@
+import type { Config } from '@netlify/functions';
+import { settleAllEventWaitlists } from '../../src/lib/event-waitlists';
+
+/**
+ * Tells parties moved on or off a limited event's waitlist by a change the
+ * site did not make — an answer recorded by hand or edited in Notion, or a
+ * new Capacity in the Event Catalog (see src/lib/event-waitlists.ts). Without
+ * limited events a run is two Event Catalog reads.
+ */
+export default async function handler() {
+  try {
+    const settled = await settleAllEventWaitlists();
+    for (const [wedding, { promoted, demoted }] of Object.entries(settled)) {
+      if (promoted + demoted > 0) {
+        console.log(`[event-waitlists] ${wedding}: promoted ${promoted}, demoted ${demoted}`);
+      }
+    }
+    return new Response(JSON.stringify(settled), { status: 200 });
+  } catch (err) {
+    console.error('[event-waitlists] Settle failed:', err);
+    return new Response(String(err), { status: 500 });
+  }
+}
+
+export const config: Config = {
+  schedule: '15 * * * *', // Every hour, a quarter past
+};
@@ -0,0 +1,48 @@
+import type { Config } from '@netlify/functions';
+import { refreshAllICS } from '../../src/lib/ics-generator';
+import {
+  fetchWeddingDates,
+  refreshCadence,
+  refreshDue,
+  refreshLeadTimes,
+  type RefreshCadence,
+} from '../../src/lib/refresh-schedule';
+
+/**
+ * Regenerates every guest's stored ICS calendar — weekly, daily as a wedding
+ * approaches, hourly over the wedding weekend (see src/lib/refresh-schedule.ts).
+ * Runs every hour; most runs only check the cadence and skip.
+ */
+export default async function handler() {
+  const now = new Date();
+  let cadence: RefreshCadence;
+  try {
+    cadence = refreshCadence(await fetchWeddingDates(), refreshLeadTimes(), now);
+  } catch (err) {
+    // Without the catalog, err towards refreshing: daily keeps feeds fresh
+    // near the weddings without running every hour.
+    console.error('[ics-refresh] Could not read event dates — assuming daily cadence:', err);
+    cadence = 'daily';
+  }
+
+  if (!refreshDue(cadence, now)) {
+    return new Response('Skipped', { status: 200 });
+  }
+
+  console.log(`[ics-refresh] Starting ${cadence} ICS refresh`);
+  try {
+    const result = await refreshAllICS();
+    console.log(
+      `[ics-refresh] Done: ${result.succeeded}/${result.total} succeeded, ${result.failed} failed, ` +
+        `${result.updated} changed, ${result.notified} notified`
+    );
+    return new Response(JSON.stringify(result), { status: 200 });
+  } catch (err) {
+    console.error('[ics-refresh] Refresh failed:', err);
+    return new Response(String(err), { status: 500 });
+  }
+}
+
+export const config: Config = {
+  schedule: '0 * * * *', // Every hour, on the hour
+};
@@ -0,0 +1,30 @@
+import type { Config } from '@netlify/functions';
+import { sendRSVPActivityDigest } from '../../src/lib/rsvp-activity';
+
+/**
+ * Emails the couple the day's RSVP activity (see src/lib/rsvp-activity.ts).
+ * A quiet day sends nothing; the feed only fills while the site records
+ * activity (FEATURE_GLOBAL_RSVP_ACTIVITY). While site email is off
+ * (FEATURE_GLOBAL_EMAIL_ENABLED) the day's activity is held for the next
+ * digest instead.
+ */
+export default async function handler() {
+  try {
+    const result = await sendRSVPActivityDigest();
+    console.log(
+      result.sent
+        ? `[rsvp-activity-digest] Sent ${result.count} update(s)`
+        : result.count > 0
+          ? `[rsvp-activity-digest] Email disabled — holding ${result.count} update(s) for the next digest`
+          : '[rsvp-activity-digest] No activity — nothing sent'
+    );
+    return new Response(JSON.stringify(result), { status: 200 });
+  } catch (err) {
+    console.error('[rsvp-activity-digest] Digest failed:', err);
+    return new Response(String(err), { status: 500 });
+  }
+}
+
+export const config: Config = {
+  schedule: '0 13 * * *', // Every day at 13:00 UTC (morning in New York)
+};
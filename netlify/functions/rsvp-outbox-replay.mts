@@ -0,0 +1,27 @@
+import type { Config } from '@netlify/functions';
+import { replayOutbox } from '../../src/lib/rsvp-outbox';
+
+/**
+ * Replays RSVP submissions that were accepted while Notion was unreachable
+ * (see src/lib/rsvp-outbox.ts). Entries carry their own backoff, so running
+ * often is cheap: an empty or not-yet-due outbox is one Blobs list call.
+ */
+export default async function handler() {
+  try {
+    const report = await replayOutbox();
+    if (report.pending > 0) {
+      console.log(
+        `[rsvp-outbox-replay] ${report.replayed} replayed, ${report.superseded} superseded, ` +
+          `${report.deferred} deferred, ${report.failed} failed, ${report.deadLettered} dead-lettered`
+      );
+    }
+    return new Response(JSON.stringify(report), { status: 200 });
+  } catch (err) {
+    console.error('[rsvp-outbox-replay] Replay failed:', err);
+    return new Response(String(err), { status: 500 });
+  }
+}
+
+export const config: Config = {
+  schedule: '*/5 * * * *', // Every 5 minutes
+};
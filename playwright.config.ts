@@ -136,6 +136,13 @@ export default defineConfig({
         process.env.FEATURE_GLOBAL_RSVP_DELETE_ENABLED ?? 'true',
       FEATURE_GLOBAL_ENVELOPE_LOGIN:
         process.env.FEATURE_GLOBAL_ENVELOPE_LOGIN ?? 'true',
+      FEATURE_GLOBAL_RSVP_DRAFTS: process.env.FEATURE_GLOBAL_RSVP_DRAFTS ?? 'true',
+      FEATURE_GLOBAL_CALENDAR_REMINDERS:
+        process.env.FEATURE_GLOBAL_CALENDAR_REMINDERS ?? 'true',
+      FEATURE_NYC_FLIGHT_COLLECTION:
+        process.env.FEATURE_NYC_FLIGHT_COLLECTION ?? 'true',
+      FEATURE_FRANCE_FLIGHT_COLLECTION:
+        process.env.FEATURE_FRANCE_FLIGHT_COLLECTION ?? 'true',
       FEATURE_NYC_RSVP_ENABLED: process.env.FEATURE_NYC_RSVP_ENABLED ?? 'true',
       FEATURE_FRANCE_RSVP_ENABLED:
         process.env.FEATURE_FRANCE_RSVP_ENABLED ?? 'true',
@@ -0,0 +1,47 @@
+#!/usr/bin/env tsx
+/**
+ * Check the live Notion databases against the schema the site parses them
+ * with (src/lib/notion-schema.ts): missing, renamed or mistyped properties and
+ * unexpected select options. Read-only.
+ *
+ * Usage:  npx tsx scripts/notion-schema-doctor.ts [--json]
+ *
+ * Requires in the environment (e.g. exported from .env.local):
+ *   NOTION_API_KEY, NOTION_GUEST_LIST_DB, NOTION_EVENT_CATALOG_DB,
+ *   NOTION_RSVP_RESPONSES_DB
+ * NOTION_HOTEL_BLOCKS_DB is checked when set; unset, it is only a warning. So
+ * is NOTION_GUEST_FLIGHTS_DB, unless FEATURE_NYC_FLIGHT_COLLECTION or
+ * FEATURE_FRANCE_FLIGHT_COLLECTION is on.
+ *
+ * Exits 1 when any error-severity issue is found, so it can gate a deploy.
+ * The same report is served by GET /api/admin/notion-schema.
+ */
+
+import { runSchemaDoctor } from '../src/lib/notion-schema-doctor';
+
+const json = process.argv.includes('--json');
+
+async function main(): Promise<void> {
+  const report = await runSchemaDoctor();
+
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    for (const db of report.databases) {
+      const errors = db.issues.filter((issue) => issue.severity === 'error').length;
+      const status = !db.checked ? 'NOT CHECKED' : errors > 0 ? 'BROKEN' : 'OK';
+      console.log(`\n${db.label} (${db.envVar}): ${status}`);
+      for (const issue of db.issues) {
+        console.log(`  ${issue.severity === 'error' ? '✗' : '!'} [${issue.kind}] ${issue.message}`);
+      }
+    }
+    console.log(`\n${report.ok ? 'Schema OK.' : 'Schema has errors — guests will hit them.'}\n`);
+  }
+
+  if (!report.ok) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
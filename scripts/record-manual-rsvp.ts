@@ -13,9 +13,15 @@
  * same function POST /api/rsvp calls, which owns all of it: the party-level
  * response row (related to every member), the per-member `attendance` blob that
  * makes attendance resolvable by page ID rather than by name, the split-household
- * detach, and the Guest List write-back (RSVP status, invite status → Received,
- * Last RSVP, Events Attending, Dietary Needs). Everything this script adds around
- * that call is resolution, validation, and read-back verification.
+ * detach, the Guest List write-back (RSVP status, invite status → Received,
+ * Last RSVP, Events Attending, Dietary Needs), and the revision history entry —
+ * tagged `manual`, so the history shows this answer did not come from the form.
+ * Everything this script adds around that call is resolution, validation,
+ * read-back verification, and the couple's activity feed entry (see
+ * src/lib/rsvp-activity.ts). The history and the feed live in Netlify Blobs,
+ * out of reach from here, so the sync step posts both to production; history
+ * the sync could not post is saved next to the entries file, and the run
+ * fails, until it is posted by hand.
  *
  * Two steps, because guest names are fuzzy and Notion writes are not:
  *
@@ -35,7 +41,8 @@
  *
  * Flags (apply):
  *   --write             actually write (default is a dry run that writes nothing)
- *   --no-sync           skip the post-run production cache warm + calendar refresh
+ *   --no-sync           skip the post-run production cache warm, calendar refresh,
+ *                       activity feed and revision history update
  *   --site <url>        target for that sync (default https://sargaux.com)
  *   --skip-mx           don't DNS-check the domain of any email given
  *   --allow-test-guests don't skip the synthetic 🤖 party
@@ -63,11 +70,13 @@ import {
   findHouseholdByEnvelopeName,
   updateGuestEmail,
   getLatestRSVPForParty,
-} from '../src/lib/notion';
+} from '../src/lib/data-store';
 import { generateAndStoreICSForGuest } from '../src/lib/ics-generator';
 import { normalize } from '../src/lib/normalize';
 import { isTestGuest } from '../src/lib/test-guests';
-import type { GuestRecord, EventRecord, RSVPSubmission, RSVPDetails } from '../src/types';
+import { buildRSVPActivity, type RSVPActivity } from '../src/lib/rsvp-activity';
+import { collectRSVPRevisions, type RSVPRevision } from '../src/lib/rsvp-history';
+import type { GuestRecord, EventRecord, RSVPSubmission, RSVPDetails, RSVPResponse } from '../src/types';
 
 // ── Limits mirrored from src/pages/api/rsvp.ts ──────────────────────────────
 // This script bypasses the endpoint, so it has to enforce the endpoint's caps
@@ -275,6 +284,8 @@ interface EntryPlan {
   /** Members whose recorded email differs from what the entry supplies. */
   emailWrites: { guestId: string; name: string; email: string }[];
   status: 'Attending' | 'Declined' | 'Partial';
+  /** The party's stored answer this replaces, for the couple's activity feed. */
+  previous: RSVPResponse | null;
   /** Non-fatal observations worth printing before a write. */
   warnings: string[];
 }
@@ -435,7 +446,7 @@ async function planEntry(
     sendConfirmation: false,
   };
 
-  return { entry, primary, party, catalog, submission, emailWrites, status, warnings };
+  return { entry, primary, party, catalog, submission, emailWrites, status, previous: existing, warnings };
 }
 
 function printPlan(plan: EntryPlan): void {
@@ -675,16 +686,60 @@ async function scaffold(): Promise<void> {
 
 // ── apply ──────────────────────────────────────────────────────────────────
 
-async function syncProduction(site: string): Promise<void> {
+/**
+ * Save revisions production has not stored next to the entries file, and
+ * mark the run failed: without them the party's RSVP history skips this
+ * answer. Returns the command that posts them.
+ */
+function keepUnpostedRevisions(entriesPath: string, revisions: RSVPRevision[], historyUrl: string): string {
+  const revisionsPath = `${entriesPath.replace(/\.json$/, '')}.revisions.json`;
+  writeFileSync(revisionsPath, `${JSON.stringify({ revisions }, null, 2)}\n`);
+  bad(`${revisions.length} revision(s) NOT in the RSVP history — saved to ${revisionsPath}`);
+  process.exitCode = 1;
+  return (
+    `  curl -X POST -H "Content-Type: application/json" -H "Authorization: Bearer \\$SECRET" ${historyUrl} \\\n` +
+    `    -d @${revisionsPath}`
+  );
+}
+
+/**
+ * Save activity entries that could not be posted next to the entries file,
+ * and return the command that posts them. A file rather than an inline `-d`:
+ * names and messages carry apostrophes, and guests' answers have no place in
+ * terminal scrollback. Unlike a revision, an entry missing from the feed only
+ * leaves it out of the digest, so the run does not fail.
+ */
+function keepUnpostedActivity(entriesPath: string, activity: RSVPActivity[], activityUrl: string): string {
+  const activityPath = `${entriesPath.replace(/\.json$/, '')}.activity.json`;
+  writeFileSync(activityPath, `${JSON.stringify({ activity }, null, 2)}\n`);
+  warn(`${activity.length} activity entr${activity.length === 1 ? 'y' : 'ies'} not in the feed — saved to ${activityPath}`);
+  return (
+    `  curl -X POST -H "Content-Type: application/json" -H "Authorization: Bearer \\$SECRET" ${activityUrl} \\\n` +
+    `    -d @${activityPath}`
+  );
+}
+
+async function syncProduction(
+  site: string,
+  activity: RSVPActivity[],
+  revisions: RSVPRevision[],
+  entriesPath: string
+): Promise<void> {
   const secret = process.env.RESEND_ADMIN_SECRET;
   const warmUrl = `${site}/api/warm`;
   const refreshUrl = `${site}/api/admin/refresh-calendars`;
+  const activityUrl = `${site}/api/admin/rsvp-activity`;
+  const historyUrl = `${site}/api/admin/rsvp-history`;
 
   if (!secret) {
+    const postActivity = activity.length > 0 ? keepUnpostedActivity(entriesPath, activity, activityUrl) : null;
+    const postHistory = revisions.length > 0 ? keepUnpostedRevisions(entriesPath, revisions, historyUrl) : null;
     console.log(
       `\nRESEND_ADMIN_SECRET not in .env.local — run these yourself so production picks the writes up:\n` +
         `  curl -H "Authorization: Bearer \\$SECRET" ${warmUrl}\n` +
-        `  curl -X POST -H "Content-Type: application/json" -H "Authorization: Bearer \\$SECRET" ${refreshUrl}`
+        `  curl -X POST -H "Content-Type: application/json" -H "Authorization: Bearer \\$SECRET" ${refreshUrl}` +
+        (postActivity ? `\n${postActivity}` : '') +
+        (postHistory ? `\n${postHistory}` : '')
     );
     return;
   }
@@ -711,6 +766,42 @@ async function syncProduction(site: string): Promise<void> {
   } catch (error) {
     warn(`calendar refresh failed: ${String(error)}`);
   }
+  // The couple's activity feed lives in a blob too; these entries reach it
+  // here and show up in the next daily digest.
+  if (activity.length > 0) {
+    try {
+      const recorded = await fetch(activityUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${secret}` },
+        body: JSON.stringify({ activity }),
+      });
+      console.log(
+        `  activity:    ${recorded.status} ${recorded.ok ? await recorded.text() : recorded.statusText}`
+      );
+    } catch (error) {
+      warn(`activity feed update failed: ${String(error)}`);
+    }
+  }
+  // Same for the revision history — but a revision lost here is a hole in
+  // the party's history, so a failure is kept and fails the run.
+  if (revisions.length > 0) {
+    let failure: string | null = null;
+    try {
+      const recorded = await fetch(historyUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${secret}` },
+        body: JSON.stringify({ revisions }),
+      });
+      if (recorded.ok) console.log(`  history:     ${recorded.status} ${await recorded.text()}`);
+      else failure = `${recorded.status} ${recorded.statusText}`;
+    } catch (error) {
+      failure = String(error);
+    }
+    if (failure) {
+      bad(`revision history update failed: ${failure}`);
+      console.log(`Post them once production is reachable:\n${keepUnpostedRevisions(entriesPath, revisions, historyUrl)}`);
+    }
+  }
 }
 
 async function apply(): Promise<void> {
@@ -770,8 +861,11 @@ async function apply(): Promise<void> {
   }
 
   console.log('\n─── writing ───');
+  // submitRSVP records a revision per write; held here for the sync step.
+  const revisions = collectRSVPRevisions();
   let succeeded = 0;
   const failed: string[] = [];
+  const activity: RSVPActivity[] = [];
 
   // Sequential: each submitRSVP writes the response row plus one Guest List
   // update per member and clears the shared cache. Running parties in parallel
@@ -784,9 +878,16 @@ async function apply(): Promise<void> {
         ok(`email recorded for ${emailWrite.name}`);
       }
 
-      const written = await submitRSVP(plan.primary.id, plan.submission);
+      const written = await submitRSVP(plan.primary.id, plan.submission, 'manual');
       ok(`submitRSVP wrote response ${shortId(written.id)}`);
 
+      const entry = buildRSVPActivity(plan.previous, plan.submission, {
+        party: plan.party,
+        submittedBy: plan.primary.id,
+        source: 'manual',
+      });
+      if (entry) activity.push(entry);
+
       // Regenerate calendars from the response just written, as POST /api/rsvp
       // does — Notion's query index lags a fresh write. Locally this needs a
       // Netlify Blobs context it does not have, so a failure here is expected
@@ -817,8 +918,11 @@ async function apply(): Promise<void> {
     for (const failure of failed) console.log(`  ✗ ${failure}`);
   }
 
+  const site = flagValue('--site') ?? DEFAULT_SITE;
   if (succeeded > 0 && !hasFlag('--no-sync')) {
-    await syncProduction(flagValue('--site') ?? DEFAULT_SITE);
+    await syncProduction(site, activity, revisions, filePath);
+  } else if (revisions.length > 0) {
+    console.log(keepUnpostedRevisions(filePath, revisions, `${site}/api/admin/rsvp-history`));
   }
 
   if (failed.length > 0) process.exit(1);
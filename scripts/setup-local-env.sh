@@ -23,6 +23,8 @@ read -r -p "Notion API key: " NOTION_API_KEY
 read -r -p "Guest List database page ID: " NOTION_GUEST_LIST_DB
 read -r -p "Event Catalog database page ID: " NOTION_EVENT_CATALOG_DB
 read -r -p "RSVP Responses database page ID: " NOTION_RSVP_RESPONSES_DB
+read -r -p "Hotel Blocks database page ID: " NOTION_HOTEL_BLOCKS_DB
+read -r -p "Guest Flights database page ID: " NOTION_GUEST_FLIGHTS_DB
 
 cat > "$ENV_FILE" <<EOT
 FEATURE_GLOBAL_WEDDING_SITE_ENABLED=true
@@ -37,6 +39,8 @@ NOTION_API_KEY=$NOTION_API_KEY
 NOTION_GUEST_LIST_DB=$NOTION_GUEST_LIST_DB
 NOTION_EVENT_CATALOG_DB=$NOTION_EVENT_CATALOG_DB
 NOTION_RSVP_RESPONSES_DB=$NOTION_RSVP_RESPONSES_DB
+NOTION_HOTEL_BLOCKS_DB=$NOTION_HOTEL_BLOCKS_DB
+NOTION_GUEST_FLIGHTS_DB=$NOTION_GUEST_FLIGHTS_DB
 
 # Generate fresh secrets for local signing (do not reuse across environments)
 SESSION_HMAC_SECRET=$(openssl rand -hex 32)
@@ -28,6 +28,15 @@ type FeatureFlags = {
     rsvpRequireAllEmails: boolean;
     /** When true, authenticated guests may DELETE /api/rsvp (local/test only). */
     rsvpDeleteEnabled: boolean;
+    /** Autosave RSVP form drafts per party and resume them on any device. */
+    rsvpDrafts: boolean;
+    /**
+     * Record RSVP activity for the couple: an immediate email for declines
+     * and changed answers, a daily digest and GET /api/admin/rsvp-activity.
+     */
+    rsvpActivity: boolean;
+    /** Let guests opt out of the reminders in their calendar feed from the RSVP page. */
+    calendarReminders: boolean;
     /** Accept envelope names and first-name combinations at login. */
     envelopeLogin: boolean;
     /**
@@ -51,21 +60,25 @@ type FeatureFlags = {
     travelBus: boolean;
     travelMta: boolean;
     travelMuseums: boolean;
-    wytheSoldOut: boolean;
-    arloSoldOut: boolean;
-    sevilleSoldOut: boolean;
     rsvpEnabled: boolean;
     rsvpPreview: boolean;
+    /** Travel Details (arrival/departure flights) on the RSVP form and /travel. */
+    flightCollection: boolean;
   };
   france: {
     calendarSubscribe: boolean;
     optionalExcursions: boolean;
     travelRestructured: boolean;
+    /** Nights, room type and roommates under the RSVP form's accommodation "yes". */
     accommodationRequest: boolean;
     euAllergens: boolean;
     locationMap: boolean;
     rsvpEnabled: boolean;
     stayingOverview: boolean;
+    /** Travel Details (arrival/departure flights) on the RSVP form and /travel. */
+    flightCollection: boolean;
+    /** Per-member seats on the Paris ↔ Village shuttles on the RSVP form. */
+    shuttleSeats: boolean;
   };
   registry: {
     enabled: boolean;
@@ -83,6 +96,9 @@ const features: FeatureFlags = {
     emailEnabled: flag(import.meta.env.FEATURE_GLOBAL_EMAIL_ENABLED, false),
     rsvpRequireAllEmails: flag(import.meta.env.FEATURE_GLOBAL_RSVP_REQUIRE_ALL_EMAILS, false),
     rsvpDeleteEnabled: flag(import.meta.env.FEATURE_GLOBAL_RSVP_DELETE_ENABLED, false),
+    rsvpDrafts: flag(import.meta.env.FEATURE_GLOBAL_RSVP_DRAFTS, false),
+    rsvpActivity: flag(import.meta.env.FEATURE_GLOBAL_RSVP_ACTIVITY, false),
+    calendarReminders: flag(import.meta.env.FEATURE_GLOBAL_CALENDAR_REMINDERS, false),
     envelopeLogin: flag(import.meta.env.FEATURE_GLOBAL_ENVELOPE_LOGIN, false),
     // Deliberately NOT listed in netlify.toml's deploy-preview environment:
     // previews are shareable URLs, so the bots must be refused there too.
@@ -103,11 +119,9 @@ const features: FeatureFlags = {
     travelBus: flag(import.meta.env.FEATURE_NYC_TRAVEL_BUS, false),
     travelMta: flag(import.meta.env.FEATURE_NYC_TRAVEL_MTA, false),
     travelMuseums: flag(import.meta.env.FEATURE_NYC_TRAVEL_MUSEUMS, false),
-    wytheSoldOut: flag(import.meta.env.FEATURE_NYC_WYTHE_SOLD_OUT, false),
-    arloSoldOut: flag(import.meta.env.FEATURE_NYC_ARLO_SOLD_OUT, false),
-    sevilleSoldOut: flag(import.meta.env.FEATURE_NYC_SEVILLE_SOLD_OUT, false),
     rsvpEnabled: flag(import.meta.env.FEATURE_NYC_RSVP_ENABLED, false),
     rsvpPreview: flag(import.meta.env.FEATURE_NYC_RSVP_PREVIEW, false),
+    flightCollection: flag(import.meta.env.FEATURE_NYC_FLIGHT_COLLECTION, false),
   },
   france: {
     calendarSubscribe: flag(import.meta.env.FEATURE_FRANCE_CALENDAR_SUBSCRIBE, false),
@@ -118,6 +132,8 @@ const features: FeatureFlags = {
     locationMap: flag(import.meta.env.FEATURE_FRANCE_LOCATION_MAP, false),
     rsvpEnabled: flag(import.meta.env.FEATURE_FRANCE_RSVP_ENABLED, false),
     stayingOverview: flag(import.meta.env.FEATURE_FRANCE_STAYING_OVERVIEW, false),
+    flightCollection: flag(import.meta.env.FEATURE_FRANCE_FLIGHT_COLLECTION, false),
+    shuttleSeats: flag(import.meta.env.FEATURE_FRANCE_SHUTTLE_SEATS, false),
   },
   registry: {
     enabled: flag(import.meta.env.FEATURE_REGISTRY_ENABLED, false),
@@ -41,7 +41,10 @@ function en(str: string): T {
   return { en: str, fr: str };
 }
 
-/** RSVP deadline dates — single source of truth for each event */
+/**
+ * RSVP deadline dates as shown to guests. The enforced dates are
+ * RSVP_DEADLINES in src/lib/rsvp-deadline.ts — change both together.
+ */
 export const RSVP_DEADLINE_NYC    = { en: 'September 1, 2026',  fr: '1er septembre 2026' } satisfies T;
 export const RSVP_DEADLINE_FRANCE = { en: 'April 1, 2027',      fr: '1er avril 2027'     } satisfies T;
 export const NYC_EVENT_TIME       = { en: '5:30 PM — 9 PM',     fr: '17 h 30 à 21 h'     } satisfies T;
@@ -72,6 +75,162 @@ export const strings = {
     sessionExpired:     s('Your session has expired — please log in again.', 'Votre session a expiré — veuillez vous reconnecter'),
     // French provided by Sam (2026-07-04) — do not machine-translate
     savingBtn:    s('Saving', 'Enregistrement'),
+    // RSVP pages: deadline countdown and after-deadline states (src/lib/rsvp-deadline.ts)
+    rsvpDeadline: {
+      // TODO(sam/margaux): French copy needed — English placeholder
+      daysLeft: s('days left to respond', 'days left to respond'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      dayLeft:  s('day left to respond', 'day left to respond'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      lastDay:  s('Today is the last day to respond', 'Today is the last day to respond'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      readOnly: s('The RSVP deadline has passed. Your response is shown below — to change it, please get in touch with us.', 'The RSVP deadline has passed. Your response is shown below — to change it, please get in touch with us.'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      late:     s("The RSVP deadline has passed, but you can still send us your response. We'll confirm it with you.", "The RSVP deadline has passed, but you can still send us your response. We'll confirm it with you."),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      closed:   s('The RSVP deadline has passed and responses are closed. Please get in touch with us directly.', 'The RSVP deadline has passed and responses are closed. Please get in touch with us directly.'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      latePending: s("Your response arrived after the deadline. We'll confirm it with you soon.", "Your response arrived after the deadline. We'll confirm it with you soon."),
+    },
+    // RSVP form drafts (src/lib/rsvp-drafts.ts), shared by the whole party
+    rsvpDraft: {
+      // TODO(sam/margaux): French copy needed — English placeholder
+      banner:  s('You have unsaved changes from', 'You have unsaved changes from'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      note:    s('Submit the form to save them.', 'Submit the form to save them.'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      discard: s('Discard changes', 'Discard changes'),
+    },
+    // Optional events with limited places (src/lib/event-capacity.ts)
+    eventCapacity: {
+      // TODO(sam/margaux): French copy needed — English placeholder
+      placesLeft: s('places left', 'places left'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      full:       s("Full — choosing it puts you on the waitlist", "Full — choosing it puts you on the waitlist"),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      waitlisted: s("You're on the waitlist: number", "You're on the waitlist: number"),
+    },
+    // Per-event add-to-calendar links (src/components/AddToCalendar.astro)
+    addToCalendar: {
+      label:     s('Add to calendar', "Ajouter à l'agenda"),
+      google:    s('Google', 'Google'),
+      outlook:   s('Outlook.com', 'Outlook.com'),
+      office365: s('Microsoft 365', 'Microsoft 365'),
+      ics:       s('Apple / .ics', 'Apple / .ics'),
+    },
+    // Event venues on the schedule pages (src/components/EventVenue.astro)
+    venues: {
+      appleMaps:  s('Apple Maps ↗', 'Apple Maps ↗'),
+      googleMaps: s('Google Maps ↗', 'Google Maps ↗'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      transit:    s('By transit:', 'By transit:'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      walk:       s('On foot from the previous event:', 'On foot from the previous event:'),
+    },
+    // Calendar alarms (VALARM) and the RSVP page opt-out
+    calendarReminders: {
+      // TODO(sam/margaux): French copy needed — English placeholder
+      alarm:  s('Reminder', 'Reminder'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      toggle: s('Include reminders in my calendar', 'Include reminders in my calendar'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      hint:   s('Your calendar app alerts you ahead of each event.', 'Your calendar app alerts you ahead of each event.'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      saved:  s('Saved — your calendar will update shortly.', 'Saved — your calendar will update shortly.'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      error:  s("We couldn't save that. Please try again.", "We couldn't save that. Please try again."),
+    },
+    // RSVP form: which hotel block the party booked (both weddings)
+    hotelBooked: {
+      heading:   s('Hotels', 'Hôtels'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      question:  s('Where are you staying? This helps us keep track of our hotel room blocks.', 'Where are you staying? This helps us keep track of our hotel room blocks.'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      elsewhere: s('Somewhere else', 'Somewhere else'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      notYet:    s("We haven't booked yet", "We haven't booked yet"),
+    },
+    // RSVP form + confirmation: per-attendee entrée for events with a seated meal
+    meals: {
+      // TODO(sam/margaux): French copy needed — English placeholder
+      heading:   s('Meal choice', 'Meal choice'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      required:  s('Please choose a meal', 'Please choose a meal'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      notChosen: s('No meal chosen', 'No meal chosen'),
+    },
+    // RSVP form + confirmation: per-attendee EU allergens (src/lib/allergens.ts).
+    // Allergen names follow the regulation's official EN/FR wording.
+    allergens: {
+      allergensLabel: s('Allergens', 'Allergènes'),
+      dietLabel:      s('Diet', 'Régime'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      notePlaceholder: s('Anything else we should know?', 'Anything else we should know?'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      none:           s('No dietary needs', 'No dietary needs'),
+      items: {
+        gluten:      s('Gluten', 'Gluten'),
+        crustaceans: s('Crustaceans', 'Crustacés'),
+        eggs:        s('Eggs', 'Œufs'),
+        fish:        s('Fish', 'Poisson'),
+        peanuts:     s('Peanuts', 'Arachides'),
+        soy:         s('Soy', 'Soja'),
+        milk:        s('Milk', 'Lait'),
+        nuts:        s('Tree nuts', 'Fruits à coque'),
+        celery:      s('Celery', 'Céleri'),
+        mustard:     s('Mustard', 'Moutarde'),
+        sesame:      s('Sesame', 'Sésame'),
+        sulphites:   s('Sulphites', 'Sulfites'),
+        lupin:       s('Lupin', 'Lupin'),
+        molluscs:    s('Molluscs', 'Mollusques'),
+      },
+      diets: {
+        vegetarian: s('Vegetarian', 'Végétarien'),
+        vegan:      s('Vegan', 'Végan'),
+        halal:      s('Halal', 'Halal'),
+      },
+    },
+    // RSVP form: naming an unnamed plus-one (src/lib/guest-name.ts)
+    plusOne: {
+      // TODO(sam/margaux): French copy needed — English placeholder
+      namePlaceholder: s("Your guest's full name", "Your guest's full name"),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      nameRequired:    s("Please tell us your guest's name", "Please tell us your guest's name"),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      emailLabel:      s('Your guest', 'Your guest'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      identity:        s("This name can't be used here — each person in your party keeps their own name.", "This name can't be used here — each person in your party keeps their own name."),
+    },
+    // Travel Details — RSVP form section and /travel page (F-013)
+    flights: {
+      // TODO(sam/margaux): French copy needed — English placeholder
+      heading:       s('Travel Details', 'Travel Details'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      note:          s('Not sure yet? You can add or update your travel info anytime at your travel page.', 'Not sure yet? You can add or update your travel info anytime at your travel page.'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      intro:         s("Booked your flights? Tell us when you land and leave, and we'll keep an eye on them.", "Booked your flights? Tell us when you land and leave, and we'll keep an eye on them."),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      pageTitle:     s('Your Travel', 'Your Travel'),
+      arrival:       s('Arrival', 'Arrivée'),
+      departure:     s('Departure', 'Départ'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      airline:       s('Airline', 'Airline'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      flightNumber:  s('Flight number', 'Flight number'),
+      date:          s('Date', 'Date'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      airport:       s('Airport', 'Airport'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      time:          s('Time', 'Time'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      incomplete:    s('Please complete each flight with its airline, flight number and date.', 'Please complete each flight with its airline, flight number and date.'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      saveBtn:       s('Save travel details', 'Save travel details'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      saved:         s('Your travel details are saved.', 'Your travel details are saved.'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      error:         s("We couldn't save your flights. Please check them and try again.", "We couldn't save your flights. Please check them and try again."),
+    },
     toggle: {
       nyc:    s('NYC', 'NYC'),
       france: s('France', 'France'),
@@ -250,21 +409,20 @@ export const strings = {
       subtitle:   s('October 11, 2026', '11 octobre 2026'),
       schedule: {
         heading: s('Schedule', 'Déroulé de la soirée'),
-        dinner: {
-          time:  s('5:30 PM', '17 h 30'),
-          title: s('Cocktails & Bites', 'Début de la Soirée'),
-          desc:  s("Cocktails, passed hors d'oeuvres, and small plates", 'Apéro Dinatoire'),
-        },
+        // Timed events come from the Event Catalog; sunset is not one.
         sunsetTime: s('6:23 PM', '18 h 23'),
         sunset: s('Sunset behind the Manhattan skyline', 'Coucher du soleil sur Manhattan'),
-        dancing: {
-          time:  s('9:30 PM', '21 h 30'),
-          title: s('After Party - Dancing', 'Soirée Dansante'),
-          desc:  s(
-            'Join us as we head to a nearby venue and keep the night going. No reservations, just dancing and continued celebration.',
-            'La soirée continue à quelques pas du Bar Blondeau. Rejoignez-nous pour danser !',
-          ),
-        },
+        // TODO(sam/margaux): French copy needed — English placeholder
+        optionalLabel:  s('Optional', 'Optional'),
+        // TODO(sam/margaux): French copy needed — English placeholder
+        attendingLabel: s("You're attending", "You're attending"),
+        // TODO(sam/margaux): French copy needed — English placeholder
+        dateTba:        s('Date to be announced', 'Date to be announced'),
+        // TODO(sam/margaux): French copy needed — English placeholder
+        loadError:      s(
+          "We couldn't load the schedule right now. Please refresh and try again.",
+          "We couldn't load the schedule right now. Please refresh and try again.",
+        ),
       },
       venues: {
         heading: s('The Venues', 'Les Lieux'),
@@ -309,12 +467,16 @@ export const strings = {
       hotels: {
         heading:    s('Hotels', 'Hôtels'),
         intro:      s('Suggested accommodations near the venues:', 'Hébergements suggérés à proximité des lieux :'),
-        hotel1:     s('The hotel that hosts our venue at', "L'hôtel où se déroule notre célébration, au"),
-        hotel1BookNow: s('Book now →', 'Réserver →'),
-        hotel2:     s('Just down the street from the Wythe at', 'À quelques pas du Wythe Hotel, au'),
-        hotel2BookNow: s('Book now →', 'Réserver →'),
-        hotel3:     s("Located in Manhattan's NoMad neighborhood at", "Situé dans le quartier de NoMad, à Manhattan, au"),
-        hotel3BookNow: s('Book now →', 'Réserver →'),
+        // Each hotel's name, address and blurb come from the Hotel Blocks database.
+        bookNow:    s('Book now →', 'Réserver →'),
+        // TODO(sam/margaux): French copy needed — English placeholder
+        bookBy:     s('Book by', 'Book by'),
+        // TODO(sam/margaux): French copy needed — English placeholder
+        soldOut:    s('Our room block is sold out', 'Our room block is sold out'),
+        // TODO(sam/margaux): French copy needed — English placeholder
+        closed:     s('Our room block is closed to new bookings', 'Our room block is closed to new bookings'),
+        // TODO(sam/margaux): French copy needed — English placeholder
+        loadError:  s('Hotel details are unavailable right now. Please check back soon.', 'Hotel details are unavailable right now. Please check back soon.'),
       },
       gettingThere: {
         heading: s('Getting There', 'Comment arriver'),
@@ -512,6 +674,8 @@ export const strings = {
           heading: s('No RSVP Found', 'Aucun RSVP trouvé'),
           text:    s('We could not find a saved NYC RSVP for your invitation yet.', "Nous n'avons pas encore trouvé de RSVP enregistré pour votre invitation New York."),
         },
+        // TODO(sam/margaux): French copy needed — English placeholder
+        syncing:      s("We've received your RSVP and are still syncing it — no need to submit again. This page will show it as saved shortly; a confirmation email, if you asked for one, follows then.", "We've received your RSVP and are still syncing it — no need to submit again. This page will show it as saved shortly; a confirmation email, if you asked for one, follows then."),
       },
       form: {
         whosComing: {
@@ -712,27 +876,28 @@ export const strings = {
         'Répondez à votre invitation pour ajouter votre programme personnalisé à votre calendrier.',
       ),
       dressCodeLabel: s('Dress Code', 'Dress Code'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      attendingLabel: s("You're attending", "You're attending"),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      dateTba:        s('Date to be announced', 'Date to be announced'),
+      // TODO(sam/margaux): French copy needed — English placeholder
+      loadError:      s(
+        "We couldn't load the schedule right now. Please refresh and try again.",
+        "We couldn't load the schedule right now. Please refresh and try again.",
+      ),
       weather: {
         heading: s('Weather', 'Météo'),
         value:   s('Late May: 60–72°F (15–22°C)', 'Fin mai : 15–22°C (60–72°F)'),
         note:    s('Spring weather varies widely and changes quickly. Layers are recommended to deal with the evening chill.', 'Les températures en mai peuvent varier au cours de la journée. Nous vous recommandons de prévoir une veste légère ou un pull pour les soirées plus fraîches.'),
       },
+      // Timed events come from the Event Catalog; these are the dress codes and
+      // the on-site logistics (check-in, breakfast) that are not catalog events.
       friday: {
-        heading: s('Friday, May 28', 'Vendredi 28 mai'),
         checkin: {
           time:  s('5:30 PM', '17 h 30'),
           title: s('Check-in Opens', 'Accueil au Village de Sully'),
           desc:  s('Settle into your accommodations at the Village.', 'Prenez le temps de vous installer avant le dîner.'),
         },
-        dinner: {
-          time:     s('7:00 PM', 'Vers 19 h'),
-          title:    s('Dinner at the Village Market', 'Dîner au Marché du Village'),
-          location: s('Village Square', 'La Place du Village'),
-          desc:     s(
-            'Join us for a relaxed evening inspired by a traditional French village market, with seasonal specialties, drinks, and plenty of time to mingle.',
-            "Rejoignez-nous pour une soirée conviviale inspirée d'un marché de village, avec des spécialités de saison, des boissons et tout le plaisir de se retrouver.",
-          ),
-        },
         dressCode: {
           code: s('Garden Party', 'Garden Party'),
           desc: s(
@@ -742,32 +907,11 @@ export const strings = {
         },
       },
       saturday: {
-        heading: s('Saturday, May 29', 'Samedi 29 mai'),
         breakfast: {
           time:  s('9:00 AM–11:00 AM', '9 h à 11 h'),
           title: s('Breakfast', 'Petit déjeuner'),
           desc:  s('Included for guests staying at Village de Sully.', 'Inclus pour les personnes logeant au Village de Sully.'),
         },
-        excursion: {
-          time:  s('10:00 AM', 'Matin'),
-          title: s('Optional Excursion to Giverny', 'Option excursion à Giverny'),
-          desc:  s("Explore Claude Monet's home and gardens.", 'Découvrez la maison et les jardins de Claude Monet.'),
-        },
-        ceremony: {
-          time:     s('5:00 PM', 'Vers 17 h'),
-          title:    s('Ceremony', 'Cérémonie'),
-          location: s('La Mairie du Village', 'La Mairie du Village'),
-        },
-        cocktail: {
-          time:     s('6:30 PM', 'Vers 18 h 30'),
-          title:    s('Cocktail Hour', 'Cocktail'),
-          location: s('Village Square', 'La Place du Village'),
-        },
-        reception: {
-          time:  s('Evening', 'Soirée'),
-          title: s('Dinner & Dancing', 'Dîner & soirée dansante'),
-          desc:  s('Dinner, speeches, and dancing late into the night.', 'Dîner, discours et soirée dansante jusque tard dans la nuit.'),
-        },
         dressCode: {
           code: s('Cocktail Attire', 'Cocktail'),
           desc: s(
@@ -777,29 +921,19 @@ export const strings = {
         },
       },
       sunday: {
-        heading: s('Sunday, May 30', 'Dimanche 30 mai'),
         breakfast: {
           time:  s('9:00 AM–11:00 AM', '9 h à 11 h'),
           title: s('Breakfast', 'Petit déjeuner'),
           desc:  s('Included for guests staying at Village de Sully.', 'Inclus pour les personnes logeant au Village de Sully.'),
         },
-        brunch: {
-          time:     s('11:30 AM–2:00 PM', '11 h 30–14 h'),
-          title:    s('Farewell Brunch & Games', 'Brunch & jeux'),
-          location: s('Village Square', 'La Place du Village'),
-          desc:     s(
-            'Join us for one last morning of brunch, games, and good company before the weekend comes to a close.',
-            'Rejoignez-nous pour un brunch, quelques parties de pétanque et pour profiter ensemble des derniers instants du week-end.',
-          ),
+        venueCloses: {
+          time:  s('4:00 PM', '16 h'),
+          title: s('Venue Closes', 'Fermeture du Village'),
         },
         dressCode: {
           code: s('Casual', 'Décontracté'),
           desc: s('', ''),
         },
-        venueCloses: {
-          time:  s('4:00 PM', '16 h'),
-          title: s('Venue Closes', 'Fermeture du Village'),
-        },
       },
     },
 
@@ -970,6 +1104,18 @@ export const strings = {
           tolls:                s('Please note that France uses automated speed cameras and many highways include tolls.', ''),
         },
       },
+      // Hotel room blocks — rows come from the Hotel Blocks database; the card
+      // is omitted while the France wedding has none.
+      hotels: {
+        heading: s('Hotels', 'Hôtels'),
+        bookNow: s('Book now →', 'Réserver →'),
+        // TODO(sam/margaux): French copy needed — English placeholder
+        bookBy:  s('Book by', 'Book by'),
+        // TODO(sam/margaux): French copy needed — English placeholder
+        soldOut: s('Our room block is sold out', 'Our room block is sold out'),
+        // TODO(sam/margaux): French copy needed — English placeholder
+        closed:  s('Our room block is closed to new bookings', 'Our room block is closed to new bookings'),
+      },
       // ETIAS & International Driving Permit — English site only (French page omits both)
       etias: {
         heading:      en('ETIAS Travel Authorization'),
@@ -1030,6 +1176,8 @@ export const strings = {
           heading: s('No RSVP Found', 'Aucun RSVP trouvé'),
           text:    s('We could not find a saved France RSVP for your invitation yet.', "Nous n'avons pas encore trouvé de RSVP enregistré pour votre invitation France."),
         },
+        // TODO(sam/margaux): French copy needed — English placeholder
+        syncing:      s("We've received your RSVP and are still syncing it — no need to submit again. This page will show it as saved shortly; a confirmation email, if you asked for one, follows then.", "We've received your RSVP and are still syncing it — no need to submit again. This page will show it as saved shortly; a confirmation email, if you asked for one, follows then."),
       },
       form: {
         whosComing: {
@@ -1065,6 +1213,24 @@ export const strings = {
           // French provided by Sam (2026-07-18) — provisional, shared with the event error for now
           required: s("Please let us know if you'd like to reserve accommodations.", 'Merci de choisir votre réponse'),
           followup: s("We'll be in touch after the RSVP deadline to confirm your room assignment and accommodation details.", 'Nous vous contacterons après la date limite des RSVP pour confirmer les détails de votre chambre.'),
+          // On-site room request (src/lib/accommodation.ts), shown under "Yes" when
+          // features.france.accommodationRequest is on. Room type names come from
+          // details.roomTypes.
+          stay: {
+            nightsLabel:    s('Which nights?', 'Quelles nuits ?'),
+            friday:         s('Friday night', 'Vendredi soir'),
+            saturday:       s('Saturday night', 'Samedi soir'),
+            roomTypeLabel:  s('Room type', 'Type de chambre'),
+            roommatesLabel: s('Who is sharing the room?', 'Qui partage la chambre ?'),
+            left:           s('left', 'restante(s)'),
+            full:           s("This room type is full for the nights you chose — we'll add you to the waitlist.", "Ce type de chambre est complet pour les nuits choisies — nous vous inscrirons sur la liste d'attente."),
+            estimate:       s('Estimated cost', 'Coût estimé'),
+            estimateNote:   s('per guest per night, breakfast included, paid to the Village.', 'par personne et par nuit, petit-déjeuner inclus, à régler au Village.'),
+            required:       s('Please choose your nights, a room type and who is sharing the room.', 'Merci de choisir vos nuits, un type de chambre et les personnes qui la partagent.'),
+            tooMany:        s('Too many guests for this room type.', 'Trop de personnes pour ce type de chambre.'),
+            requested:      s("Room requested — we'll confirm it after the RSVP deadline.", 'Chambre demandée — nous vous la confirmerons après la date limite des RSVP.'),
+            waitlisted:     s('On the waitlist — position', "Sur liste d'attente — position"),
+          },
         },
         transport: {
           heading: s('Transport Help', 'Aide au transport'),
@@ -1072,6 +1238,27 @@ export const strings = {
           unsure:  s('Not sure yet', 'Pas encore sûr(e)'),
           yes:     s('Yes, I need assistance', "Oui, j'ai besoin d'aide"),
           no:      s('No, I will arrange my own', "Non, je m'en occupe"),
+          // Shuttle seats (src/lib/shuttles.ts). Leg names double as the
+          // calendar entry titles.
+          shuttle: {
+            heading:    s('Shuttles', 'Navettes'),
+            note:       s('Reserve a seat on our coaches between Paris and the Village for everyone who needs one.', 'Réservez une place dans nos navettes entre Paris et le Village pour chaque personne qui en a besoin.'),
+            legs: {
+              'paris-sully': {
+                name:   s('Shuttle: Paris → Village de Sully', 'Navette : Paris → Village de Sully'),
+                // TODO(sam/margaux): confirm pickup point
+                pickup: s('Paris, pickup point to be confirmed', 'Paris, point de départ à confirmer'),
+              },
+              'sully-paris': {
+                name:   s('Shuttle: Village de Sully → Paris', 'Navette : Village de Sully → Paris'),
+                pickup: s('Village de Sully', 'Village de Sully'),
+              },
+            },
+            departs:    s('Departs', 'Départ'),
+            seatsLeft:  s('seats left', 'place(s) restante(s)'),
+            tooMany:    s('Not enough seats left on this shuttle.', 'Il ne reste pas assez de places dans cette navette.'),
+            full:       s('A shuttle filled up while you were choosing — please check your seats.', 'Une navette s\'est remplie pendant votre choix — merci de vérifier vos places.'),
+          },
         },
         message: {
           heading:     s('Message for Us', 'Message pour nous'),
@@ -18,7 +18,12 @@ declare namespace NodeJS {
     NOTION_GUEST_LIST_DB?: string; // Guest List database page ID
     NOTION_EVENT_CATALOG_DB?: string; // Event Catalog database page ID
     NOTION_RSVP_RESPONSES_DB?: string; // RSVP Responses database page ID
+    NOTION_HOTEL_BLOCKS_DB?: string; // Hotel Blocks database page ID
+    NOTION_GUEST_FLIGHTS_DB?: string; // Guest Flights database page ID
+    WEDDING_DATA_STORE?: string; // "local" serves guests/events/RSVPs from JSON fixtures instead of Notion (dev/tests only)
+    WEDDING_DATA_DIR?: string; // Local data store directory; writes persist here (defaults to the read-only fixtures/wedding-data seed)
     CALENDAR_HMAC_SECRET?: string; // Signing secret for personalized calendar tokens (never commit)
+    CALENDAR_HMAC_PREVIOUS_SECRETS?: string; // Retired calendar secrets, comma-separated — still verify existing links
     SESSION_HMAC_SECRET?: string; // Signing secret for sargaux_auth session cookies (never commit; do NOT reuse CALENDAR_HMAC_SECRET)
     RESEND_API_KEY?: string; // Resend transactional email API key (never commit)
     RESEND_FROM_ADDRESS?: string; // e.g. "Sargaux Wedding <hello@sargaux.com>"
@@ -46,9 +51,6 @@ interface ImportMetaEnv {
   readonly FEATURE_NYC_TRAVEL_BUS?: string;
   readonly FEATURE_NYC_TRAVEL_MTA?: string;
   readonly FEATURE_NYC_TRAVEL_MUSEUMS?: string;
-  readonly FEATURE_NYC_WYTHE_SOLD_OUT?: string;
-  readonly FEATURE_NYC_ARLO_SOLD_OUT?: string;
-  readonly FEATURE_NYC_SEVILLE_SOLD_OUT?: string;
   readonly FEATURE_FRANCE_CALENDAR_SUBSCRIBE?: string;
   readonly FEATURE_FRANCE_OPTIONAL_EXCURSIONS?: string;
   readonly FEATURE_FRANCE_TRAVEL_RESTRUCTURED?: string;
@@ -59,10 +61,16 @@ interface ImportMetaEnv {
   readonly FEATURE_NYC_RSVP_PREVIEW?: string;
   readonly FEATURE_FRANCE_RSVP_ENABLED?: string;
   readonly FEATURE_FRANCE_STAYING_OVERVIEW?: string;
+  readonly FEATURE_NYC_FLIGHT_COLLECTION?: string;
+  readonly FEATURE_FRANCE_FLIGHT_COLLECTION?: string;
+  readonly FEATURE_FRANCE_SHUTTLE_SEATS?: string;
   readonly FEATURE_REGISTRY_ENABLED?: string;
   readonly FEATURE_GLOBAL_EMAIL_ENABLED?: string;
   readonly FEATURE_GLOBAL_RSVP_REQUIRE_ALL_EMAILS?: string;
   readonly FEATURE_GLOBAL_RSVP_DELETE_ENABLED?: string;
+  readonly FEATURE_GLOBAL_RSVP_DRAFTS?: string;
+  readonly FEATURE_GLOBAL_RSVP_ACTIVITY?: string;
+  readonly FEATURE_GLOBAL_CALENDAR_REMINDERS?: string;
   readonly FEATURE_GLOBAL_ENVELOPE_LOGIN?: string;
   readonly FEATURE_GLOBAL_TEST_GUEST_LOGIN?: string;
 }
@@ -0,0 +1,279 @@
+/**
+ * On-site rooms at Village de Sully (France).
+ *
+ * Guests who answer "yes" to the accommodation question request a stay on the
+ * RSVP form when `features.france.accommodationRequest` is on: the nights
+ * (Friday and/or Saturday), a room type and the party members sharing the
+ * room. The request is stored in the response's Details JSON as `stay`.
+ *
+ * Rooms are not booked at request time. allocateStays replays every party's
+ * latest request in queue order (`requestedAt`, kept across edits that leave
+ * the nights and room type alone) against roomTypes(): a request that fits on
+ * every night it asks for is allocated, the rest are waitlisted. The RSVP form
+ * shows what is left from the same replay, and GET /api/admin/accommodation
+ * exports it as the Village's rooming list.
+ */
+
+import type { GuestRecord, RSVPResponse, StayNight, StayRequest } from '../types';
+import { strings, type Lang } from '../content/strings';
+import { latestEventResponses } from './event-capacity';
+import { csvSheet } from './csv';
+import { positiveWholeNumber, wholeNumber, withInventoryOverrides } from './inventory-config';
+
+export const STAY_NIGHTS: readonly StayNight[] = ['friday', 'saturday'];
+
+/** Per guest per night — rooms are "€150 a night for double occupancy". */
+export const NIGHTLY_RATE_EUR = 75;
+
+export type RoomTypeId = 'village' | 'orient' | 'louisiana';
+
+export interface RoomType {
+  id: RoomTypeId;
+  /** Most guests one room takes. */
+  sleeps: number;
+  /** Rooms of this type the Village holds for us, each night. */
+  rooms: number;
+}
+
+/**
+ * Our working numbers until the Village confirms them. FRANCE_ROOM_INVENTORY
+ * overrides `rooms` and `sleeps` per room type (src/lib/inventory-config.ts).
+ */
+export const DEFAULT_ROOM_TYPES: readonly RoomType[] = [
+  { id: 'village', sleeps: 2, rooms: 10 },
+  { id: 'orient', sleeps: 2, rooms: 8 },
+  { id: 'louisiana', sleeps: 4, rooms: 6 },
+];
+
+/** The room types on offer, in form order, with any configured overrides. */
+export function roomTypes(): RoomType[] {
+  return withInventoryOverrides(DEFAULT_ROOM_TYPES, 'FRANCE_ROOM_INVENTORY', {
+    rooms: wholeNumber,
+    sleeps: positiveWholeNumber,
+  });
+}
+
+export function roomType(id: string): RoomType | undefined {
+  return roomTypes().find((type) => type.id === id);
+}
+
+export function roomTypeLabel(id: RoomTypeId, lang: Lang): string {
+  return strings.france.details.roomTypes[id].title[lang];
+}
+
+export function stayNightLabel(night: StayNight, lang: Lang): string {
+  return strings.france.rsvp.form.accommodation.stay[night][lang];
+}
+
+/** The estimate shown to the guest: every roommate, every night. */
+export function stayCost(stay: Pick<StayRequest, 'nights' | 'guestIds'>): number {
+  return stay.nights.length * stay.guestIds.length * NIGHTLY_RATE_EUR;
+}
+
+export function formatEuros(amount: number, lang: Lang): string {
+  return new Intl.NumberFormat(lang === 'fr' ? 'fr-FR' : 'en-US', {
+    style: 'currency',
+    currency: 'EUR',
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+/**
+ * Check a submission's `details.stay`. Only a party that answered "yes" may
+ * send one; it must name at least one night, a known room type, and attending
+ * members who fit in the room. Returns an error message, or null when the
+ * request is valid (or absent).
+ */
+export function validateStayRequest(
+  value: unknown,
+  input: { accommodation: unknown; attendingGuestIds: string[] }
+): string | null {
+  if (value === undefined) return null;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return 'stay must be an object';
+  if (input.accommodation !== 'yes') return 'stay requires accommodation "yes"';
+  const { nights, roomType: typeId, guestIds } = value as Record<string, unknown>;
+
+  if (!Array.isArray(nights) || nights.length === 0) return 'stay must include at least one night';
+  if (nights.some((night) => !STAY_NIGHTS.includes(night as StayNight))) return 'stay includes an unknown night';
+  if (new Set(nights).size !== nights.length) return 'stay lists a night twice';
+
+  const type = typeof typeId === 'string' ? roomType(typeId) : undefined;
+  if (!type) return 'stay includes an unknown room type';
+
+  if (!Array.isArray(guestIds) || guestIds.length === 0) return 'stay must include at least one guest';
+  const attending = new Set(input.attendingGuestIds);
+  if (guestIds.some((id) => typeof id !== 'string' || !attending.has(id))) {
+    return 'stay includes a guest who is not attending';
+  }
+  if (new Set(guestIds).size !== guestIds.length) return 'stay lists a guest twice';
+  if (guestIds.length > type.sleeps) return 'stay has more guests than the room sleeps';
+  return null;
+}
+
+/**
+ * When the request joined the queue. A resubmission keeps the previous
+ * request's place unless it changed the nights or the room type — adding a
+ * roommate or fixing a typo elsewhere on the form does not cost the party
+ * their room.
+ */
+export function stayRequestedAt(
+  stay: Pick<StayRequest, 'nights' | 'roomType'>,
+  previous: RSVPResponse | null,
+  now = new Date()
+): string {
+  const before = previous?.details?.accommodation === 'yes' ? previous.details.stay : undefined;
+  const sameNights =
+    before !== undefined &&
+    before.nights.length === stay.nights.length &&
+    before.nights.every((night) => stay.nights.includes(night));
+  if (before && sameNights && before.roomType === stay.roomType) {
+    return before.requestedAt ?? previous!.submittedAt;
+  }
+  return now.toISOString();
+}
+
+/**
+ * Each party's latest France response, once per response row, without test
+ * guests. `latestRSVPs` is fetchAllLatestRSVPs(), which is keyed per guest.
+ */
+export function latestFranceResponses(
+  guests: GuestRecord[],
+  latestRSVPs: Map<string, RSVPResponse[]>
+): RSVPResponse[] {
+  return latestEventResponses(guests, latestRSVPs, 'france');
+}
+
+export type StayStatus = 'allocated' | 'waitlisted';
+
+export interface StayAllocation {
+  responseId: string;
+  stay: StayRequest;
+  requestedAt: string;
+  status: StayStatus;
+  /** 1-based place on the room type's waitlist. */
+  waitlistPosition?: number;
+}
+
+/**
+ * Replay the requests in queue order. A request is allocated one room of its
+ * type on each of its nights if every one of them has a room left; otherwise
+ * it is waitlisted whole — half a weekend is not what the party asked for. A
+ * later one-night request can still take a room a two-night request could not.
+ */
+export function allocateStays(responses: RSVPResponse[]): StayAllocation[] {
+  const requests = responses
+    .filter(
+      (response) =>
+        response.status !== 'Declined' &&
+        response.details?.accommodation === 'yes' &&
+        response.details.stay !== undefined
+    )
+    .map((response) => ({
+      responseId: response.id,
+      stay: response.details!.stay!,
+      requestedAt: response.details!.stay!.requestedAt ?? response.submittedAt,
+    }))
+    .sort((a, b) => a.requestedAt.localeCompare(b.requestedAt) || a.responseId.localeCompare(b.responseId));
+
+  const taken = new Map<string, number>();
+  const waitlists = new Map<string, number>();
+  return requests.map((request) => {
+    const type = roomType(request.stay.roomType);
+    const key = (night: StayNight) => `${request.stay.roomType}:${night}`;
+    if (type && request.stay.nights.every((night) => (taken.get(key(night)) ?? 0) < type.rooms)) {
+      for (const night of request.stay.nights) taken.set(key(night), (taken.get(key(night)) ?? 0) + 1);
+      return { ...request, status: 'allocated' as const };
+    }
+    const position = (waitlists.get(request.stay.roomType) ?? 0) + 1;
+    waitlists.set(request.stay.roomType, position);
+    return { ...request, status: 'waitlisted' as const, waitlistPosition: position };
+  });
+}
+
+export interface RoomAvailability {
+  id: RoomTypeId;
+  sleeps: number;
+  rooms: number;
+  /** Rooms not yet allocated, per night. */
+  remaining: Record<StayNight, number>;
+  waitlisted: number;
+}
+
+export function roomAvailability(allocations: StayAllocation[]): RoomAvailability[] {
+  return roomTypes().map((type) => {
+    const ofType = allocations.filter((allocation) => allocation.stay.roomType === type.id);
+    const remaining = Object.fromEntries(
+      STAY_NIGHTS.map((night) => [
+        night,
+        type.rooms -
+          ofType.filter((allocation) => allocation.status === 'allocated' && allocation.stay.nights.includes(night))
+            .length,
+      ])
+    ) as Record<StayNight, number>;
+    return {
+      id: type.id,
+      sleeps: type.sleeps,
+      rooms: type.rooms,
+      remaining,
+      waitlisted: ofType.filter((allocation) => allocation.status === 'waitlisted').length,
+    };
+  });
+}
+
+export interface RoomingListRow {
+  status: StayStatus;
+  waitlistPosition?: number;
+  roomType: string;
+  nights: StayNight[];
+  guests: string[];
+  estimateEur: number;
+  requestedAt: string;
+}
+
+/**
+ * The rooming list for the Village: allocated rooms by type and then queue
+ * order, followed by the waitlist. `guests` supplies current names.
+ */
+export function buildRoomingList(
+  allocations: StayAllocation[],
+  guests: Pick<GuestRecord, 'id' | 'name'>[]
+): RoomingListRow[] {
+  const names = new Map(guests.map((guest) => [guest.id, guest.name]));
+  const types = roomTypes();
+  const typeOrder = (id: string) => types.findIndex((type) => type.id === id);
+  return [...allocations]
+    .sort(
+      (a, b) =>
+        Number(a.status === 'waitlisted') - Number(b.status === 'waitlisted') ||
+        typeOrder(a.stay.roomType) - typeOrder(b.stay.roomType) ||
+        a.requestedAt.localeCompare(b.requestedAt)
+    )
+    .map((allocation) => ({
+      status: allocation.status,
+      ...(allocation.waitlistPosition ? { waitlistPosition: allocation.waitlistPosition } : {}),
+      roomType: allocation.stay.roomType,
+      nights: STAY_NIGHTS.filter((night) => allocation.stay.nights.includes(night)),
+      guests: allocation.stay.guestIds.map((id) => names.get(id) ?? 'Guest'),
+      estimateEur: stayCost(allocation.stay),
+      requestedAt: allocation.requestedAt,
+    }));
+}
+
+/** The rooming list as the CSV sheet sent to the Village, English headers. */
+export function roomingListCsv(rows: RoomingListRow[]): string {
+  const lines = [['Status', 'Waitlist', 'Room Type', 'Friday', 'Saturday', 'Guests', 'Estimate (EUR)', 'Requested At']];
+  for (const row of rows) {
+    const type = roomType(row.roomType);
+    lines.push([
+      row.status === 'allocated' ? 'Allocated' : 'Waitlisted',
+      row.waitlistPosition ? String(row.waitlistPosition) : '',
+      type ? roomTypeLabel(type.id, 'en') : row.roomType,
+      row.nights.includes('friday') ? 'x' : '',
+      row.nights.includes('saturday') ? 'x' : '',
+      row.guests.join('; '),
+      String(row.estimateEur),
+      row.requestedAt,
+    ]);
+  }
+  return csvSheet(lines);
+}
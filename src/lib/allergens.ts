@@ -0,0 +1,247 @@
+/**
+ * Structured, per-guest dietary needs for the France wedding.
+ *
+ * EU food law (Regulation 1169/2011, Annex II) makes caterers declare 14
+ * allergens, so the France form asks each attending member to tick the ones
+ * they must avoid, plus vegetarian / vegan / halal flags and a free-text note
+ * for anything the list does not cover. Answers are stored in the response's
+ * Details JSON as `dietaryByGuest` — one `GuestDietary` entry per attending
+ * member, keyed by Guest List page ID, beside `meals` and `attendance`.
+ *
+ * Each member's entry is summarized in English into their own Guest List
+ * `Dietary Needs` cell, and the party's entries into the response's
+ * `Dietary Needs` text, so Notion views and the confirmation email keep
+ * reading plain text. Responses written before this (and the form with
+ * `features.france.euAllergens` off) carry the party-wide free-text
+ * `allergens` / `dietary` note instead.
+ */
+
+import type { EUAllergen, DietFlag, EventRecord, GuestDietary, GuestRecord, RSVPResponse } from '../types';
+import { strings, type Lang } from '../content/strings';
+import { getAttendingNames } from './rsvp-display';
+import { csvSheet } from './csv';
+
+/** Annex II order, which is also the order caterers' matrices use. */
+export const EU_ALLERGENS: readonly EUAllergen[] = [
+  'gluten',
+  'crustaceans',
+  'eggs',
+  'fish',
+  'peanuts',
+  'soy',
+  'milk',
+  'nuts',
+  'celery',
+  'mustard',
+  'sesame',
+  'sulphites',
+  'lupin',
+  'molluscs',
+];
+
+export const DIET_FLAGS: readonly DietFlag[] = ['vegetarian', 'vegan', 'halal'];
+
+/** Longest free-text note per guest — it lands in a Notion rich_text cell. */
+export const DIETARY_NOTE_MAX_CHARS = 500;
+
+export function allergenLabel(allergen: EUAllergen, lang: Lang): string {
+  return strings.global.allergens.items[allergen][lang];
+}
+
+export function dietFlagLabel(flag: DietFlag, lang: Lang): string {
+  return strings.global.allergens.diets[flag][lang];
+}
+
+/** Whether the entry records anything at all. */
+export function hasDietaryNeeds(entry: GuestDietary | undefined): boolean {
+  if (!entry) return false;
+  return entry.allergens.length > 0 || DIET_FLAGS.some((flag) => entry[flag]) || Boolean(entry.note?.trim());
+}
+
+/** A party's entries by guest ID. */
+export function dietaryByGuestId(entries: GuestDietary[] | undefined): Map<string, GuestDietary> {
+  return new Map((entries ?? []).map((entry) => [entry.guestId, entry]));
+}
+
+/**
+ * One line for a guest: "Vegetarian, Halal; Allergens: Peanuts, Milk; no
+ * coriander". Empty when the entry records nothing.
+ */
+export function formatDietaryNeeds(entry: GuestDietary | undefined, lang: Lang = 'en'): string {
+  if (!entry) return '';
+  const copy = strings.global.allergens;
+  const parts: string[] = [];
+  const flags = DIET_FLAGS.filter((flag) => entry[flag]).map((flag) => dietFlagLabel(flag, lang));
+  if (flags.length > 0) parts.push(flags.join(', '));
+  const allergens = EU_ALLERGENS.filter((allergen) => entry.allergens.includes(allergen));
+  if (allergens.length > 0) {
+    parts.push(`${copy.allergensLabel[lang]}: ${allergens.map((allergen) => allergenLabel(allergen, lang)).join(', ')}`);
+  }
+  const note = entry.note?.trim();
+  if (note) parts.push(note);
+  return parts.join('; ');
+}
+
+/**
+ * The party's needs as "Name: …" lines, in party order — the response's
+ * `Dietary Needs` text and the confirmation email's dietary section.
+ * Members with nothing to report are left out.
+ */
+export function formatPartyDietary(
+  entries: GuestDietary[] | undefined,
+  party: Pick<GuestRecord, 'id' | 'name'>[],
+  lang: Lang = 'en'
+): string {
+  const byId = dietaryByGuestId(entries);
+  return party
+    .flatMap((member) => {
+      const line = formatDietaryNeeds(byId.get(member.id), lang);
+      return line ? [`${member.name}: ${line}`] : [];
+    })
+    .join('\n');
+}
+
+/**
+ * Check a submission's `details.dietaryByGuest`. Entries are optional — a
+ * member with no needs may be left out — but each one must name an attending
+ * member once, list only EU allergens, and keep its note short. Returns an
+ * error message, or null when the entries are valid.
+ */
+export function validateDietaryByGuest(
+  value: unknown,
+  input: { attendingGuestIds: string[] }
+): string | null {
+  if (value === undefined) return null;
+  if (!Array.isArray(value)) return 'dietaryByGuest must be an array';
+
+  const attending = new Set(input.attendingGuestIds);
+  const seen = new Set<string>();
+
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object') return 'dietaryByGuest entries must be objects';
+    const { guestId, allergens, note } = entry as Record<string, unknown>;
+    if (typeof guestId !== 'string') return 'dietaryByGuest entries must include a guestId';
+    if (!attending.has(guestId)) return 'dietaryByGuest includes a guest who is not attending';
+    if (seen.has(guestId)) return 'dietaryByGuest includes more than one entry for a guest';
+    seen.add(guestId);
+
+    if (!Array.isArray(allergens)) return 'dietaryByGuest allergens must be an array';
+    for (const allergen of allergens) {
+      if (!EU_ALLERGENS.includes(allergen as EUAllergen)) return 'dietaryByGuest includes an unknown allergen';
+    }
+    if (new Set(allergens).size !== allergens.length) return 'dietaryByGuest lists an allergen twice';
+
+    for (const flag of DIET_FLAGS) {
+      const flagValue = (entry as Record<string, unknown>)[flag];
+      if (flagValue !== undefined && typeof flagValue !== 'boolean') return `dietaryByGuest ${flag} must be a boolean`;
+    }
+    if (note !== undefined && typeof note !== 'string') return 'dietaryByGuest note must be a string';
+    if (typeof note === 'string' && note.length > DIETARY_NOTE_MAX_CHARS) return 'dietaryByGuest note is too long';
+  }
+  return null;
+}
+
+export interface AllergenMatrixRow {
+  guestId: string;
+  name: string;
+  allergens: EUAllergen[];
+  vegetarian: boolean;
+  vegan: boolean;
+  halal: boolean;
+  note?: string;
+}
+
+export interface AllergenMatrix {
+  eventId: string;
+  eventName: string;
+  /** Attending guests per allergen and per diet flag. */
+  totals: Record<EUAllergen | DietFlag, number>;
+  /** Attending guests with at least one recorded need, by name. */
+  guests: AllergenMatrixRow[];
+  /** Attending guests with no structured answer (older or free-text responses). */
+  unanswered: number;
+}
+
+/**
+ * The caterer's allergen matrix for each event. `responses` is each party's
+ * latest response for the wedding (one per row — not one per guest); `guests`
+ * supplies current names.
+ */
+export function buildAllergenMatrix(
+  events: EventRecord[],
+  responses: RSVPResponse[],
+  guests: Pick<GuestRecord, 'id' | 'name'>[]
+): AllergenMatrix[] {
+  const names = new Map(guests.map((guest) => [guest.id, guest.name]));
+
+  return events.map((event) => {
+    const totals = Object.fromEntries(
+      [...EU_ALLERGENS, ...DIET_FLAGS].map((key) => [key, 0])
+    ) as Record<EUAllergen | DietFlag, number>;
+    const rows: AllergenMatrixRow[] = [];
+    let unanswered = 0;
+
+    for (const response of responses) {
+      if (response.status === 'Declined' || !response.eventsAttending?.includes(event.id)) continue;
+      const entries = response.details?.dietaryByGuest;
+      // Without recorded attendance there are no IDs to match entries to.
+      if (!response.attendanceById || !entries) {
+        unanswered += response.attendanceById
+          ? Object.values(response.attendanceById).filter(Boolean).length
+          : getAttendingNames(response).size;
+        continue;
+      }
+      const byId = dietaryByGuestId(entries);
+      for (const [guestId, attending] of Object.entries(response.attendanceById)) {
+        if (!attending) continue;
+        const entry = byId.get(guestId);
+        if (!entry) {
+          unanswered++;
+          continue;
+        }
+        if (!hasDietaryNeeds(entry)) continue;
+        for (const allergen of entry.allergens) totals[allergen]++;
+        for (const flag of DIET_FLAGS) if (entry![flag]) totals[flag]++;
+        rows.push({
+          guestId,
+          name: names.get(guestId) ?? 'Guest',
+          allergens: EU_ALLERGENS.filter((allergen) => entry.allergens.includes(allergen)),
+          vegetarian: entry.vegetarian === true,
+          vegan: entry.vegan === true,
+          halal: entry.halal === true,
+          ...(entry.note?.trim() ? { note: entry.note.trim() } : {}),
+        });
+      }
+    }
+
+    rows.sort((a, b) => a.name.localeCompare(b.name));
+    return { eventId: event.id, eventName: event.name, totals, guests: rows, unanswered };
+  });
+}
+
+/**
+ * The matrices as one CSV sheet for the caterer: a row per event and guest,
+ * an "x" column per allergen and diet, English headers.
+ */
+export function allergenMatrixCsv(matrices: AllergenMatrix[]): string {
+  const header = [
+    'Event',
+    'Guest',
+    ...EU_ALLERGENS.map((allergen) => allergenLabel(allergen, 'en')),
+    ...DIET_FLAGS.map((flag) => dietFlagLabel(flag, 'en')),
+    'Note',
+  ];
+  const lines = [header];
+  for (const matrix of matrices) {
+    for (const row of matrix.guests) {
+      lines.push([
+        matrix.eventName,
+        row.name,
+        ...EU_ALLERGENS.map((allergen) => (row.allergens.includes(allergen) ? 'x' : '')),
+        ...DIET_FLAGS.map((flag) => (row[flag] ? 'x' : '')),
+        row.note ?? '',
+      ]);
+    }
+  }
+  return csvSheet(lines);
+}
@@ -0,0 +1,63 @@
+/**
+ * Netlify Blobs, behind the five calls our stores make.
+ *
+ * Under CALENDAR_TEST_MODE=true or the local data store we run outside the
+ * Netlify runtime, where getStore() throws, so each store is an in-memory map
+ * instead. The maps are module-level: they persist across requests within a
+ * single server process, and one store never sees another's keys.
+ */
+
+import { getStore } from '@netlify/blobs';
+import { isLocalDataStore } from './data-store';
+
+export interface BlobStore {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<void>;
+  /** Write `key` only if it does not exist yet; false when it already did. */
+  create(key: string, value: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  /** Keys starting with `prefix`. */
+  list(prefix: string): Promise<string[]>;
+}
+
+const memoryStores = new Map<string, Map<string, string>>();
+
+function memoryStore(name: string): Map<string, string> {
+  let entries = memoryStores.get(name);
+  if (!entries) {
+    entries = new Map();
+    memoryStores.set(name, entries);
+  }
+  return entries;
+}
+
+/** The named blob store, or its in-memory stand-in in test and local modes. */
+export function blobStore(name: string): BlobStore {
+  if (process.env.CALENDAR_TEST_MODE === 'true' || isLocalDataStore()) {
+    const entries = memoryStore(name);
+    return {
+      get: async (key) => entries.get(key) ?? null,
+      set: async (key, value) => { entries.set(key, value); },
+      create: async (key, value) => {
+        if (entries.has(key)) return false;
+        entries.set(key, value);
+        return true;
+      },
+      delete: async (key) => { entries.delete(key); },
+      list: async (prefix) => [...entries.keys()].filter((key) => key.startsWith(prefix)),
+    };
+  }
+  const blobs = getStore(name);
+  return {
+    get: async (key) => (await blobs.get(key, { type: 'text' })) ?? null,
+    set: async (key, value) => { await blobs.set(key, value); },
+    create: async (key, value) => (await blobs.set(key, value, { onlyIfNew: true })).modified,
+    delete: async (key) => { await blobs.delete(key); },
+    list: async (prefix) => (await blobs.list({ prefix })).blobs.map((blob) => blob.key),
+  };
+}
+
+/** Empty a store's in-memory stand-in (test/local modes only). */
+export function resetMemoryBlobStore(name: string): void {
+  memoryStores.get(name)?.clear();
+}
@@ -0,0 +1,37 @@
+/**
+ * Per-guest calendar preferences in Netlify Blobs.
+ *
+ * Today that is one choice: whether the personalized feed carries reminders
+ * (the VALARMs buildICS emits from the Event Catalog's Reminders). Guests opt
+ * out from their RSVP page (POST /api/calendar-reminders), which regenerates
+ * their feed. Only opt-outs are stored — a guest with no entry gets
+ * reminders — so the full refresh reads them with a single listing.
+ */
+
+import { blobStore, resetMemoryBlobStore } from './blob-store';
+
+const STORE_NAME = 'calendar-preferences';
+const OPT_OUT_PREFIX = 'reminders-off/';
+
+/** Empty the in-memory preferences (test/local modes only). */
+export function resetCalendarPreferencesTestStore(): void {
+  resetMemoryBlobStore(STORE_NAME);
+}
+
+/** Whether the guest's feed carries reminders. */
+export async function remindersEnabled(guestId: string): Promise<boolean> {
+  return (await blobStore(STORE_NAME).get(`${OPT_OUT_PREFIX}${guestId}`)) === null;
+}
+
+/** Record the guest's choice. The caller regenerates their feed. */
+export async function setRemindersEnabled(guestId: string, enabled: boolean, now = new Date()): Promise<void> {
+  const key = `${OPT_OUT_PREFIX}${guestId}`;
+  if (enabled) await blobStore(STORE_NAME).delete(key);
+  else await blobStore(STORE_NAME).set(key, JSON.stringify({ optedOutAt: now.toISOString() }));
+}
+
+/** Every guest who opted out of reminders, for the full refresh. */
+export async function reminderOptOuts(): Promise<Set<string>> {
+  const keys = await blobStore(STORE_NAME).list(OPT_OUT_PREFIX);
+  return new Set(keys.map((key) => key.slice(OPT_OUT_PREFIX.length)));
+}
@@ -0,0 +1,195 @@
+/**
+ * Calendar change tracking for personalized feeds.
+ *
+ * Calendar apps decide whether a re-fetched event replaces their copy by its
+ * SEQUENCE, not its DTSTAMP, and an event that silently disappears from a
+ * feed can linger in some of them. So every time a guest's feed is built,
+ * reviseCalendar compares its events with the revisions stored beside the
+ * guest's ICS blob (src/lib/ics-store.ts):
+ *
+ * - a new event starts at SEQUENCE 0;
+ * - a change of time or location bumps SEQUENCE and LAST-MODIFIED;
+ * - an event the guest no longer attends, or that left the catalog, is kept
+ *   as a cancelled entry with a bumped SEQUENCE, which buildICS emits as a
+ *   STATUS:CANCELLED VEVENT. If it comes back it is bumped again.
+ *
+ * The first build for a guest is the baseline: nothing is reported as
+ * changed. Each later build that changes something appends to the guest's
+ * history. The full refresh (scheduled, or POST /api/admin/refresh-calendars)
+ * can email the changes it finds (SCHEDULE_UPDATE_EMAILS) — those come from
+ * the catalog or the couple; the ones an RSVP submission makes are the
+ * guest's own and are not emailed.
+ */
+
+import { eventWindow, type EventWindow, type EventWithDate } from './calendar';
+import { reminderGeneral, type EmailTemplate } from './email-templates';
+import { venueById, venueLocation } from './venues';
+
+/** Entries kept in a guest's history, newest last. */
+const HISTORY_LIMIT = 50;
+
+/** What the feed last said about an event. */
+export interface EventSnapshot {
+  name: string;
+  nameFr?: string;
+  timing: EventWindow;
+  /** The Event Catalog's free-text Location — on a venue, the space there. */
+  location?: string;
+  /** The Event Catalog Venue (src/lib/venues.ts). */
+  venueId?: string;
+}
+
+export interface EventRevision {
+  sequence: number;
+  /** ISO; when SEQUENCE last changed. */
+  lastModified: string;
+  snapshot: EventSnapshot;
+  cancelled?: boolean;
+}
+
+export type EventChangeKind = 'added' | 'updated' | 'cancelled';
+
+export interface EventChange {
+  eventId: string;
+  kind: EventChangeKind;
+  before?: EventSnapshot;
+  after?: EventSnapshot;
+}
+
+export interface CalendarRevisions {
+  /** By event ID, cancelled events included. */
+  events: Record<string, EventRevision>;
+  history: { at: string; changes: EventChange[] }[];
+}
+
+export function snapshotEvent(event: EventWithDate): EventSnapshot | null {
+  const timing = eventWindow(event);
+  if (!timing) return null;
+  return {
+    name: event.name,
+    ...(event.nameFr ? { nameFr: event.nameFr } : {}),
+    timing,
+    ...(event.location ? { location: event.location } : {}),
+    ...(event.venueId ? { venueId: event.venueId } : {}),
+  };
+}
+
+function sameTiming(a: EventWindow, b: EventWindow): boolean {
+  return a.timezone === b.timezone && a.allDay === b.allDay && a.start === b.start && a.end === b.end;
+}
+
+/**
+ * A move is a new free-text location or a different venue. A venue set on
+ * an event that had none, with the same text, is the same place described
+ * better — how feeds built before venues existed catch up — and not a change.
+ */
+function isSignificantChange(before: EventSnapshot, after: EventSnapshot): boolean {
+  return (
+    !sameTiming(before.timing, after.timing) ||
+    (before.location ?? '') !== (after.location ?? '') ||
+    (!!before.venueId && !!after.venueId && before.venueId !== after.venueId)
+  );
+}
+
+/** Where a snapshot says the event is, as the feed shows it. */
+function describePlace(snapshot: EventSnapshot): string | undefined {
+  const venue = venueById(snapshot.venueId);
+  return venue ? venueLocation(venue, snapshot.location, 'en') : snapshot.location;
+}
+
+/**
+ * The guest's revisions after a build with `events`, and what changed since
+ * the previous one (`previous`, null for the guest's first build).
+ */
+export function reviseCalendar(
+  previous: CalendarRevisions | null,
+  events: EventWithDate[],
+  now = new Date()
+): { revisions: CalendarRevisions; changes: EventChange[] } {
+  const at = now.toISOString();
+  const revised: Record<string, EventRevision> = { ...previous?.events };
+  const changes: EventChange[] = [];
+  const current = new Set<string>();
+
+  for (const event of events) {
+    const after = snapshotEvent(event);
+    if (!after) continue;
+    current.add(event.id);
+    const before = previous?.events[event.id];
+    if (!before) {
+      revised[event.id] = { sequence: 0, lastModified: at, snapshot: after };
+      if (previous) changes.push({ eventId: event.id, kind: 'added', after });
+    } else if (before.cancelled) {
+      revised[event.id] = { sequence: before.sequence + 1, lastModified: at, snapshot: after };
+      changes.push({ eventId: event.id, kind: 'added', after });
+    } else if (isSignificantChange(before.snapshot, after)) {
+      revised[event.id] = { sequence: before.sequence + 1, lastModified: at, snapshot: after };
+      changes.push({ eventId: event.id, kind: 'updated', before: before.snapshot, after });
+    } else {
+      // A new name or description alone keeps the SEQUENCE.
+      revised[event.id] = { ...before, snapshot: after };
+    }
+  }
+
+  for (const [eventId, before] of Object.entries(previous?.events ?? {})) {
+    if (current.has(eventId) || before.cancelled) continue;
+    revised[eventId] = { ...before, sequence: before.sequence + 1, lastModified: at, cancelled: true };
+    changes.push({ eventId, kind: 'cancelled', before: before.snapshot });
+  }
+
+  const history = [...(previous?.history ?? [])];
+  if (changes.length > 0) history.push({ at, changes });
+  return { revisions: { events: revised, history: history.slice(-HISTORY_LIMIT) }, changes };
+}
+
+/** "Sat, May 29, 4:00 PM" — the snapshot's local time, as the feed shows it. */
+function describeTiming(timing: EventWindow): string {
+  const [, y, mo, d, h = '0', mi = '0'] = timing.start.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2}))?/) ?? [];
+  const local = new Date(Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi)));
+  return local.toLocaleString('en-US', {
+    timeZone: 'UTC',
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    ...(timing.allDay ? {} : { hour: 'numeric', minute: '2-digit' }),
+  });
+}
+
+/** One line per change, for the "Schedule updated" email. */
+export function describeChange(change: EventChange): string {
+  const snapshot = (change.after ?? change.before)!;
+  if (change.kind === 'added') {
+    return `Added: ${snapshot.name} — ${[describeTiming(snapshot.timing), describePlace(snapshot)].filter(Boolean).join(' · ')}`;
+  }
+  if (change.kind === 'cancelled') {
+    return `Removed: ${snapshot.name} (was ${describeTiming(snapshot.timing)})`;
+  }
+  const { before, after } = change as Required<EventChange>;
+  const parts: string[] = [];
+  if (!sameTiming(before.timing, after.timing)) {
+    parts.push(`${describeTiming(before.timing)} → ${describeTiming(after.timing)}`);
+  }
+  const [beforePlace, afterPlace] = [describePlace(before), describePlace(after)];
+  if ((beforePlace ?? '') !== (afterPlace ?? '')) {
+    parts.push(`${beforePlace || 'no location'} → ${afterPlace || 'no location'}`);
+  }
+  return `Changed: ${after.name} — ${parts.join('; ')}`;
+}
+
+/** The "Schedule updated" email for one guest. */
+export function scheduleUpdatedEmail(guestName: string, changes: EventChange[]): EmailTemplate {
+  return reminderGeneral({
+    guestName,
+    subject: 'Schedule updated',
+    body:
+      'A few things have changed on your wedding schedule:\n\n' +
+      changes.map((change) => `• ${describeChange(change)}`).join('\n') +
+      '\n\nIf you subscribed to your calendar, it updates on its own. ' +
+      'The latest schedule is always on the website.',
+  });
+}
+
+/** Whether the scheduled refresh emails the changes it finds (runtime setting). */
+export function scheduleUpdateEmailsEnabled(): boolean {
+  return process.env.SCHEDULE_UPDATE_EMAILS === 'true';
+}
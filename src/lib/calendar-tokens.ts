@@ -0,0 +1,96 @@
+/**
+ * Calendar token generations in Netlify Blobs.
+ *
+ * A calendar token (src/lib/calendar.ts) is signed over the guest ID and a
+ * generation. Every guest starts at generation 0 — the original token format,
+ * so links issued before rotation existed keep working — and nothing is stored
+ * until their link is first reissued (POST /api/admin/calendar-token). A
+ * reissue bumps the generation; the previous one stays valid for a grace
+ * window so a guest who asked for a new link is not cut off before they
+ * resubscribe. A leaked link is revoked with no grace. Only the generation
+ * just replaced is kept — older ones are invalid as soon as they are replaced.
+ */
+
+import { blobStore, resetMemoryBlobStore } from './blob-store';
+import { reminderGeneral, type EmailTemplate } from './email-templates';
+
+const STORE_NAME = 'calendar-tokens';
+
+/** Grace window when the reissue does not name one. */
+export const DEFAULT_GRACE_HOURS = 48;
+/** Longest grace a reissue may give the previous link. */
+export const MAX_GRACE_HOURS = 30 * 24;
+
+export interface TokenGeneration {
+  generation: number;
+  reissuedAt: string;
+  /** The generation this one replaced, while its grace window lasts. */
+  previous?: { generation: number; validUntil: string };
+}
+
+/** Empty the in-memory generations (test/local modes only). */
+export function resetCalendarTokensTestStore(): void {
+  resetMemoryBlobStore(STORE_NAME);
+}
+
+/**
+ * The guest's token generation; null if their link was never reissued.
+ * Throws if the blob store is unreachable.
+ */
+export async function getTokenGeneration(guestId: string): Promise<TokenGeneration | null> {
+  const raw = await blobStore(STORE_NAME).get(guestId);
+  return raw ? (JSON.parse(raw) as TokenGeneration) : null;
+}
+
+/** Whether a token of `generation` is still accepted for a guest in `state`. */
+export function acceptsGeneration(state: TokenGeneration | null, generation: number, now = new Date()): boolean {
+  const current = state?.generation ?? 0;
+  if (generation === current) return true;
+  return (
+    state?.previous?.generation === generation &&
+    now.getTime() < new Date(state.previous.validUntil).getTime()
+  );
+}
+
+/**
+ * Move the guest to a new generation. The current link stays valid for
+ * `graceHours` (0 revokes it at once); any older one is dropped.
+ */
+export async function reissueTokenGeneration(
+  guestId: string,
+  graceHours = DEFAULT_GRACE_HOURS,
+  now = new Date()
+): Promise<TokenGeneration> {
+  const current = (await getTokenGeneration(guestId))?.generation ?? 0;
+  const next: TokenGeneration = {
+    generation: current + 1,
+    reissuedAt: now.toISOString(),
+    ...(graceHours > 0
+      ? {
+          previous: {
+            generation: current,
+            validUntil: new Date(now.getTime() + graceHours * 60 * 60 * 1000).toISOString(),
+          },
+        }
+      : {}),
+  };
+  await blobStore(STORE_NAME).set(guestId, JSON.stringify(next));
+  return next;
+}
+
+/** The email with a guest's new calendar link. */
+export function calendarLinkReissuedEmail(guestName: string, calendarUrl: string, state: TokenGeneration): EmailTemplate {
+  const previousEnds = state.previous
+    ? `Your previous link keeps working until ${new Date(state.previous.validUntil).toUTCString()}.`
+    : 'Your previous link no longer works.';
+  return reminderGeneral({
+    guestName,
+    subject: 'Your new calendar link',
+    body:
+      'We have issued you a new link to your personalized wedding calendar:\n\n' +
+      `${calendarUrl}\n\n` +
+      `${previousEnds} To keep your calendar up to date, remove the old subscription ` +
+      'from your calendar app and subscribe with the link above.\n\n' +
+      'Please keep this link to yourself — anyone who has it can see your schedule.',
+  });
+}
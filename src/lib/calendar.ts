@@ -5,71 +5,126 @@
  * Tokens are URL-safe and do not require session cookies — designed
  * for webcal:// subscription URLs that calendar apps poll directly.
  *
+ * Also builds per-event "add to calendar" links for guests who cannot
+ * subscribe (work Outlook and Google accounts often block it): a single-event
+ * .ics download, signed with the same token, and Google Calendar and Outlook
+ * web deep links.
+ *
+ * Tokens carry a per-guest generation (src/lib/calendar-tokens.ts), so one
+ * guest's link can be revoked and reissued without touching anyone else's.
+ *
  * CALENDAR_HMAC_SECRET is a runtime secret (process.env, never committed).
  */
 
 import type { EventRecord } from '../types';
-import type { Lang } from '../content/strings';
+import { strings, type Lang } from '../content/strings';
 import { localizeEvent } from './event-i18n';
+import type { CalendarRevisions } from './calendar-revisions';
 import { toBase64Url, fromBase64Url, hmacSha256Hex, timingSafeEqualString } from './hmac';
+import { acceptsGeneration, getTokenGeneration } from './calendar-tokens';
+import { eventVenue, localizeVenue, type Venue } from './venues';
 
 /**
- * Compute HMAC-SHA256 of guestId using CALENDAR_HMAC_SECRET.
- * Returns first 32 hex characters.
+ * The signing key ring: CALENDAR_HMAC_SECRET signs new tokens, and any retired
+ * secrets in CALENDAR_HMAC_PREVIOUS_SECRETS (comma-separated) still verify, so
+ * the global secret can rotate without breaking existing subscriptions.
  */
-function computeHmac(guestId: string): string {
+function calendarKeys(): string[] {
   const secret = process.env.CALENDAR_HMAC_SECRET;
   if (!secret) throw new Error('CALENDAR_HMAC_SECRET is not set.');
-  return hmacSha256Hex(secret, guestId, 32);
+  const previous = (process.env.CALENDAR_HMAC_PREVIOUS_SECRETS ?? '')
+    .split(',')
+    .map((key) => key.trim())
+    .filter(Boolean);
+  return [secret, ...previous];
 }
 
 /**
- * Generate a calendar subscription token for a guest.
- * Format: base64url(guestId).hmac[0:32]
+ * Compute HMAC-SHA256 of guestId (and generation, from 1 up) with `secret`.
+ * Returns first 32 hex characters.
  */
-export function generateToken(guestId: string): string {
+function computeHmac(secret: string, guestId: string, generation: number): string {
+  return hmacSha256Hex(secret, generation === 0 ? guestId : `${guestId}.${generation}`, 32);
+}
+
+/**
+ * Build a token for a guest's generation, signed with the current secret.
+ * Format: base64url(guestId).hmac[0:32] for generation 0 (the original
+ * format), base64url(guestId).generation.hmac[0:32] after a reissue.
+ */
+export function signToken(guestId: string, generation: number): string {
   const encoded = toBase64Url(guestId);
-  const hmac = computeHmac(guestId);
-  return `${encoded}.${hmac}`;
+  const hmac = computeHmac(calendarKeys()[0], guestId, generation);
+  return generation === 0 ? `${encoded}.${hmac}` : `${encoded}.${generation}.${hmac}`;
+}
+
+/**
+ * Generate the calendar subscription token for a guest's current generation
+ * (src/lib/calendar-tokens.ts). Throws if the secret is missing or the token
+ * store is unreachable.
+ */
+export async function generateToken(guestId: string): Promise<string> {
+  const state = await getTokenGeneration(guestId);
+  return signToken(guestId, state?.generation ?? 0);
 }
 
 /**
  * Generate a calendar token when runtime config allows it.
- * Returns null instead of throwing when the signing secret is unavailable.
+ * Returns null instead of throwing when the signing secret or the token store
+ * is unavailable.
  */
-export function generateTokenIfPossible(guestId?: string | null): string | null {
+export async function generateTokenIfPossible(guestId?: string | null): Promise<string | null> {
   if (!guestId) return null;
   try {
-    return generateToken(guestId);
+    return await generateToken(guestId);
   } catch {
     return null;
   }
 }
 
 /**
- * Verify a calendar token and return the guestId, or null if invalid.
+ * Verify a calendar token and return the guestId, or null if invalid —
+ * badly signed, or of a generation the guest no longer accepts.
+ * Throws if the token store is unreachable: callers answer 503, not 404, so
+ * calendar apps keep the subscription.
  */
-export function verifyToken(token: string): string | null {
-  const dotIndex = token.indexOf('.');
-  if (dotIndex === -1) return null;
+export async function verifyToken(token: string, now = new Date()): Promise<string | null> {
+  const parts = token.split('.');
+  if (parts.length !== 2 && parts.length !== 3) return null;
 
-  const encoded = token.slice(0, dotIndex);
-  const providedHmac = token.slice(dotIndex + 1);
+  const encoded = parts[0];
+  const providedHmac = parts[parts.length - 1];
+  const generation = parts.length === 3 ? Number(parts[1]) : 0;
+  // Generation 0 only ever appears in the two-part form
+  if (parts.length === 3 && (!/^[1-9]\d*$/.test(parts[1]) || !Number.isSafeInteger(generation))) return null;
 
   const guestId = fromBase64Url(encoded);
   if (!guestId) return null;
 
-  let expectedHmac: string;
+  let keys: string[];
   try {
-    expectedHmac = computeHmac(guestId);
+    keys = calendarKeys();
   } catch {
     return null;
   }
 
-  if (!timingSafeEqualString(providedHmac, expectedHmac)) return null;
+  const signed = keys.some((secret) =>
+    timingSafeEqualString(providedHmac, computeHmac(secret, guestId, generation))
+  );
+  if (!signed) return null;
+
+  if (!acceptsGeneration(await getTokenGeneration(guestId), generation, now)) return null;
   return guestId;
 }
 
+/**
+ * The CDN cache tag on a guest's feed responses. Invalidating it purges every
+ * URL the guest's feed is served under — any generation, any signing key.
+ */
+export function calendarCacheTag(guestId: string): string {
+  return `calendar-${guestId}`;
+}
+
 /**
  * Parse a duration string like "3h", "90m", or "2h30m" into total minutes.
  * Returns undefined if the string is empty or cannot be parsed.
@@ -83,6 +138,32 @@ export function parseDuration(duration: string): number | undefined {
   return total > 0 ? total : undefined;
 }
 
+const REMINDER_UNITS: Record<string, number> = {
+  m: 1, min: 1, mins: 1, minute: 1, minutes: 1,
+  h: 60, hr: 60, hrs: 60, hour: 60, hours: 60,
+  d: 1440, day: 1440, days: 1440,
+  w: 10080, week: 10080, weeks: 10080,
+};
+
+/**
+ * Parse an Event Catalog "Reminders" cell — entries like "1 day before",
+ * "2 hours" or "30m", separated by commas or new lines — into minutes before
+ * the start, longest first. Returns undefined for an empty cell, or when any
+ * entry cannot be read: a half-applied list would go unnoticed.
+ */
+export function parseReminders(text: string | undefined): number[] | undefined {
+  const entries = (text ?? '').split(/[,;\n]/).map((entry) => entry.trim()).filter(Boolean);
+  if (entries.length === 0) return undefined;
+  const minutes: number[] = [];
+  for (const entry of entries) {
+    const match = entry.toLowerCase().match(/^(\d+)\s*([a-z]+)(?:\s+before)?$/);
+    const unit = match ? REMINDER_UNITS[match[2]] : undefined;
+    if (!match || !unit || parseInt(match[1], 10) === 0) return undefined;
+    minutes.push(parseInt(match[1], 10) * unit);
+  }
+  return [...new Set(minutes)].sort((a, b) => b - a);
+}
+
 /**
  * Parse a time string like "6:00 PM", "6 PM", or "14:00" into
  * { hour, minute }. Returns undefined if the string cannot be parsed or is
@@ -124,10 +205,9 @@ function formatDate(dateStr: string): string {
 }
 
 /**
- * Current UTC timestamp in ICS format: "20260220T120000Z"
+ * UTC timestamp in ICS format: "20260220T120000Z" (default: now)
  */
-function dtstamp(): string {
-  const now = new Date();
+function dtstamp(now = new Date()): string {
   const pad = (n: number) => String(n).padStart(2, '0');
   return (
     `${now.getUTCFullYear()}${pad(now.getUTCMonth() + 1)}${pad(now.getUTCDate())}` +
@@ -243,6 +323,144 @@ const VTIMEZONES: Record<string, string[]> = {
   ],
 };
 
+function timezoneFor(event: EventRecord): string {
+  return event.wedding === 'nyc' ? 'America/New_York' : 'Europe/Paris';
+}
+
+/**
+ * When an event happens, in its wedding's time zone. Timed events carry local
+ * "YYYYMMDDTHHMMSS" times, and may end on a later day; events without a
+ * parseable Start Time are all-day, with "YYYYMMDD" dates and an exclusive
+ * end (the day after the last one).
+ */
+export interface EventWindow {
+  timezone: string;
+  allDay: boolean;
+  start: string;
+  end: string;
+}
+
+/** Whole days from one "YYYY-MM-DD" date to another. */
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+}
+
+/** Local "YYYYMMDDTHHMMSS", `minutes` after midnight starting `dateStr` (may run past it). */
+function localDateTime(dateStr: string, minutes: number): string {
+  const d = new Date(Date.parse(`${dateStr}T00:00:00Z`) + minutes * 60_000);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return (
+    `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}` +
+    `T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}00`
+  );
+}
+
+/**
+ * Resolve an event's start and end — shared by buildICS, the add-to-calendar
+ * links and the schedule pages so every calendar shows the same times.
+ * Returns null for events without a date.
+ *
+ * The end is, in order: the End Time (on the End Date, or else the first time
+ * it comes round after the start — "1:00 AM" after a 9:30 PM start is the
+ * next morning); the end of the End Date; the start plus the Duration
+ * (default 2h). Any of these may cross midnight. An End Date before the
+ * Event Date is ignored.
+ */
+export function eventWindow(event: EventWithDate): EventWindow | null {
+  if (!event.date) return null;
+  const timezone = timezoneFor(event);
+  const endDate = event.endDate && event.endDate > event.date ? event.endDate : undefined;
+  const parsed = event.startTime ? parseTime(event.startTime) : undefined;
+  if (!parsed) {
+    return { timezone, allDay: true, start: formatDate(event.date), end: nextDay(endDate ?? event.date) };
+  }
+
+  const startMinutes = parsed.hour * 60 + parsed.minute;
+  const endTime = event.endTime ? parseTime(event.endTime) : undefined;
+  let endMinutes: number;
+  if (endTime) {
+    const clock = endTime.hour * 60 + endTime.minute;
+    const days = endDate ? daysBetween(event.date, endDate) : clock <= startMinutes ? 1 : 0;
+    endMinutes = days * 1440 + clock;
+  } else if (endDate) {
+    endMinutes = (daysBetween(event.date, endDate) + 1) * 1440;
+  } else {
+    endMinutes = startMinutes + ((event.duration ? parseDuration(event.duration) : undefined) ?? 120);
+  }
+  return {
+    timezone,
+    allDay: false,
+    start: localDateTime(event.date, startMinutes),
+    end: localDateTime(event.date, endMinutes),
+  };
+}
+
+/** RFC 5545 duration for an alarm `minutes` before the start: "-P1D", "-PT2H30M". */
+function alarmTrigger(minutes: number): string {
+  if (minutes % 1440 === 0) return `-P${minutes / 1440}D`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `-PT${hours ? `${hours}H` : ''}${rest ? `${rest}M` : ''}`;
+}
+
+/** The event's VALARM components — display alarms with a localized text. */
+function alarmLines(event: EventRecord, name: string, lang: Lang): string[] {
+  const label = strings.global.calendarReminders.alarm[lang];
+  return (event.reminders ?? []).flatMap((minutes) => [
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    `TRIGGER:${alarmTrigger(minutes)}`,
+    `DESCRIPTION:${escapeICS(`${label}: ${name}`)}`,
+    'END:VALARM',
+  ]);
+}
+
+export interface BuildICSOptions {
+  /** Emit the events' reminders as VALARMs (default true); guests can opt out. */
+  reminders?: boolean;
+  /**
+   * The guest's revisions (src/lib/calendar-revisions.ts): SEQUENCE and
+   * LAST-MODIFIED for each event, and its cancelled events.
+   */
+  revisions?: CalendarRevisions;
+  /** X-WR-CALNAME / X-WR-CALDESC; default to the guest's personal schedule. */
+  calendarName?: string;
+  calendarDescription?: string;
+  /**
+   * Prepended to each UID, so a feed subscribed beside a guest's (the master
+   * calendar, src/lib/master-calendar.ts) does not collide with its events.
+   */
+  uidPrefix?: string;
+}
+
+/** A quoted property parameter value: no DQUOTEs or line breaks allowed (RFC 5545 §3.1). */
+function quoteParam(value: string): string {
+  return `"${value.replace(/["\r\n]/g, ' ')}"`;
+}
+
+/** GEO and Apple's structured location for an event at a venue; none without a pin. */
+function geoLines(venue: Venue, lang: Lang): string[] {
+  if (!venue.pin) return [];
+  const { latitude, longitude } = venue.pin;
+  const { name, address } = localizeVenue(venue, lang);
+  return [
+    `GEO:${latitude};${longitude}`,
+    `X-APPLE-STRUCTURED-LOCATION;VALUE=URI;X-ADDRESS=${quoteParam(address)};X-APPLE-RADIUS=100;` +
+      `X-TITLE=${quoteParam(name)}:geo:${latitude},${longitude}`,
+  ];
+}
+
+/** DTSTART/DTEND lines for a resolved event time. */
+function timingLines(timing: EventWindow): [string, string] {
+  if (timing.allDay) {
+    return [`DTSTART;VALUE=DATE:${timing.start}`, `DTEND;VALUE=DATE:${timing.end}`];
+  }
+  return [
+    `DTSTART;TZID=${timing.timezone}:${timing.start}`,
+    `DTEND;TZID=${timing.timezone}:${timing.end}`,
+  ];
+}
+
 /**
  * Build an RFC 5545 ICS calendar string from a list of events.
  * Events without a date are skipped.
@@ -252,80 +470,86 @@ const VTIMEZONES: Record<string, string[]> = {
  * description, location), falling back per field to English. Timing is
  * language-neutral: DTSTART/DTEND always come from the canonical
  * startTime/duration.
+ *
+ * An event at a pinned venue (src/lib/venues.ts) also gets GEO and an
+ * X-APPLE-STRUCTURED-LOCATION, so calendar apps place its pin exactly.
+ *
+ * Events with Reminders get one VALARM each, unless `options.reminders` is
+ * false (the guest opted out — src/lib/calendar-preferences.ts).
+ *
+ * With `options.revisions`, each event carries its SEQUENCE and
+ * LAST-MODIFIED, and the guest's cancelled events follow as STATUS:CANCELLED
+ * VEVENTs so calendar apps drop their copies.
  */
-export function buildICS(events: EventWithDate[], lang: Lang = 'en'): string {
+export function buildICS(events: EventWithDate[], lang: Lang = 'en', options: BuildICSOptions = {}): string {
   const stamp = dtstamp();
   const usedTimezones = new Set<string>();
 
   const vevents = events
     .map((event) => {
-      if (!event.date) return null;
+      const timing = eventWindow(event);
+      if (!timing) return null;
 
-      const timezone = event.wedding === 'nyc' ? 'America/New_York' : 'Europe/Paris';
-      const uid = `${event.id}@sargaux.com`;
+      const uid = `${options.uidPrefix ?? ''}${event.id}@sargaux.com`;
       const loc = localizeEvent(event, lang);
 
-      let dtstart: string;
-      let dtend: string;
-
-      const parsed = event.startTime ? parseTime(event.startTime) : undefined;
-      if (event.startTime && !parsed) {
+      if (event.startTime && timing.allDay) {
         // A Start Time that fails to parse silently downgrades the event to
         // all-day — visible only to guests, not in any log. Say so.
         console.warn(
           `[ics] Event ${event.id} ("${event.name}") has an unparseable Start Time ${JSON.stringify(event.startTime)} — emitting as all-day`
         );
       }
-      if (parsed) {
-        usedTimezones.add(timezone);
-        const [year, month, day] = event.date.split('-').map(Number);
-        const pad = (n: number) => String(n).padStart(2, '0');
-        const localStr = `${year}${pad(month)}${pad(day)}T${pad(parsed.hour)}${pad(parsed.minute)}00`;
-        // Use explicit duration if provided, otherwise fall back to 2h default
-        const durationMinutes =
-          (event.duration ? parseDuration(event.duration) : undefined) ?? 120;
-        // Clamp to 23:59 only when the event would cross midnight — the old
-        // formula rounded ANY event ending in the 23:00 hour up to 23:59
-        // (a 21:30 dinner + 2h showed as ending at 23:59, not 23:30).
-        const endMinutes = Math.min(
-          parsed.hour * 60 + parsed.minute + durationMinutes,
-          23 * 60 + 59
-        );
-        const endH = Math.floor(endMinutes / 60);
-        const endM = endMinutes % 60;
-        const endStr = `${year}${pad(month)}${pad(day)}T${pad(endH)}${pad(endM)}00`;
-        dtstart = `DTSTART;TZID=${timezone}:${localStr}`;
-        dtend = `DTEND;TZID=${timezone}:${endStr}`;
-      } else {
-        const d = formatDate(event.date);
-        dtstart = `DTSTART;VALUE=DATE:${d}`;
-        dtend = `DTEND;VALUE=DATE:${nextDay(event.date)}`;
-      }
+      if (!timing.allDay) usedTimezones.add(timing.timezone);
+      const revision = options.revisions?.events[event.id];
 
       const lines = [
         'BEGIN:VEVENT',
         `UID:${uid}`,
         `DTSTAMP:${stamp}`,
-        dtstart,
-        dtend,
+        ...timingLines(timing),
+        ...(revision
+          ? [`SEQUENCE:${revision.sequence}`, `LAST-MODIFIED:${dtstamp(new Date(revision.lastModified))}`]
+          : []),
         `SUMMARY:${escapeICS(loc.name)}`,
       ];
 
       if (loc.description) lines.push(`DESCRIPTION:${escapeICS(loc.description)}`);
       if (loc.location) lines.push(`LOCATION:${escapeICS(loc.location)}`);
+      const venue = eventVenue(event);
+      if (venue) lines.push(...geoLines(venue, lang));
+      if (options.reminders !== false) lines.push(...alarmLines(event, loc.name, lang));
 
       lines.push('END:VEVENT');
       return lines.map(foldLine).join('\r\n');
     })
-    .filter(Boolean)
-    .join('\r\n');
+    .filter((vevent): vevent is string => vevent !== null);
+
+  for (const [eventId, revision] of Object.entries(options.revisions?.events ?? {})) {
+    if (!revision.cancelled) continue;
+    const { snapshot } = revision;
+    if (!snapshot.timing.allDay) usedTimezones.add(snapshot.timing.timezone);
+    const name = lang === 'fr' ? snapshot.nameFr || snapshot.name : snapshot.name;
+    const lines = [
+      'BEGIN:VEVENT',
+      `UID:${options.uidPrefix ?? ''}${eventId}@sargaux.com`,
+      `DTSTAMP:${stamp}`,
+      ...timingLines(snapshot.timing),
+      `SEQUENCE:${revision.sequence}`,
+      `LAST-MODIFIED:${dtstamp(new Date(revision.lastModified))}`,
+      `SUMMARY:${escapeICS(name)}`,
+      'STATUS:CANCELLED',
+      'END:VEVENT',
+    ];
+    vevents.push(lines.map(foldLine).join('\r\n'));
+  }
 
   const lines = [
     'BEGIN:VCALENDAR',
     'VERSION:2.0',
     'PRODID:-//Sargaux Wedding//sargaux.com//EN',
-    'X-WR-CALNAME:Sargaux Wedding',
-    "X-WR-CALDESC:Your personal schedule for Sam & Margaux's wedding",
+    `X-WR-CALNAME:${escapeICS(options.calendarName ?? 'Sargaux Wedding')}`,
+    `X-WR-CALDESC:${escapeICS(options.calendarDescription ?? "Your personal schedule for Sam & Margaux's wedding")}`,
     'CALSCALE:GREGORIAN',
     'METHOD:PUBLISH',
   ].map(foldLine);
@@ -336,8 +560,99 @@ export function buildICS(events: EventWithDate[], lang: Lang = 'en'): string {
     if (block) lines.push(block.join('\r\n'));
   }
 
-  if (vevents) lines.push(vevents);
+  if (vevents.length > 0) lines.push(vevents.join('\r\n'));
   lines.push('END:VCALENDAR');
 
   return lines.join('\r\n');
 }
+
+// ─── Add-to-calendar links ───────────────────────────────────────────────────
+
+export interface EventCalendarLinks {
+  /** Single-event .ics download; null without a calendar token. */
+  ics: string | null;
+  google: string;
+  /** Outlook.com (personal accounts). */
+  outlook: string;
+  /** Outlook on the web for work and school (Microsoft 365) accounts. */
+  office365: string;
+}
+
+/** Single-event .ics download URL, signed with the guest's calendar token. */
+export function eventICSUrl(token: string, eventId: string, lang: Lang): string {
+  return `https://sargaux.com/api/calendar/${token}/${encodeURIComponent(eventId)}.ics?lang=${lang}`;
+}
+
+/** "YYYYMMDDTHHMMSS" local time in `timeZone` → the UTC instant. */
+function localToUtc(local: string, timeZone: string): Date {
+  const [, y, mo, d, h, mi] = local.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})/)!.map(Number);
+  const guess = Date.UTC(y, mo - 1, d, h, mi);
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+      .formatToParts(new Date(guess))
+      .map((part) => [part.type, Number(part.value)])
+  );
+  const shown = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  return new Date(guess - (shown - guess));
+}
+
+/** "YYYYMMDD" → "YYYY-MM-DD" */
+function isoDate(date: string): string {
+  return `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}`;
+}
+
+function outlookLink(host: string, timing: EventWindow, loc: ReturnType<typeof localizeEvent>): string {
+  const url = new URL(`https://${host}/calendar/0/deeplink/compose`);
+  url.searchParams.set('path', '/calendar/action/compose');
+  url.searchParams.set('rru', 'addevent');
+  url.searchParams.set('subject', loc.name);
+  if (timing.allDay) {
+    url.searchParams.set('startdt', isoDate(timing.start));
+    url.searchParams.set('enddt', isoDate(timing.end));
+    url.searchParams.set('allday', 'true');
+  } else {
+    url.searchParams.set('startdt', localToUtc(timing.start, timing.timezone).toISOString());
+    url.searchParams.set('enddt', localToUtc(timing.end, timing.timezone).toISOString());
+  }
+  if (loc.description) url.searchParams.set('body', loc.description);
+  if (loc.location) url.searchParams.set('location', loc.location);
+  return url.toString();
+}
+
+/**
+ * "Add to calendar" links for one event, localized like the feed. Returns
+ * null for undated events, which no calendar can hold. The .ics link needs
+ * the guest's calendar token — pass null when none could be generated.
+ */
+export function eventCalendarLinks(
+  event: EventWithDate,
+  lang: Lang,
+  token: string | null
+): EventCalendarLinks | null {
+  const timing = eventWindow(event);
+  if (!timing) return null;
+  const loc = localizeEvent(event, lang);
+
+  const google = new URL('https://calendar.google.com/calendar/render');
+  google.searchParams.set('action', 'TEMPLATE');
+  google.searchParams.set('text', loc.name);
+  google.searchParams.set('dates', `${timing.start}/${timing.end}`);
+  if (!timing.allDay) google.searchParams.set('ctz', timing.timezone);
+  if (loc.description) google.searchParams.set('details', loc.description);
+  if (loc.location) google.searchParams.set('location', loc.location);
+
+  return {
+    ics: token ? eventICSUrl(token, event.id, lang) : null,
+    google: google.toString(),
+    outlook: outlookLink('outlook.live.com', timing, loc),
+    office365: outlookLink('outlook.office.com', timing, loc),
+  };
+}
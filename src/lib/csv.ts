@@ -0,0 +1,23 @@
+/**
+ * CSV sheets for the admin exports (allergens, arrivals, rooming list,
+ * shuttle manifests). They are opened in Excel, Numbers or Google Sheets,
+ * and most cells hold text a guest typed — so a cell that a spreadsheet
+ * would read as a formula is written as text instead.
+ */
+
+/** Leading characters that make a spreadsheet evaluate the cell. */
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * One cell: a `'` before anything that would start a formula, then quoted
+ * when it holds a quote, comma or line break.
+ */
+export function csvCell(value: string): string {
+  const text = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Rows of cells as a CSV sheet, header first, ending in a newline. */
+export function csvSheet(rows: string[][]): string {
+  return rows.map((row) => row.map(csvCell).join(',')).join('\n') + '\n';
+}
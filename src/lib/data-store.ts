@@ -0,0 +1,184 @@
+/**
+ * The guest/event/RSVP data store every page, endpoint and script reads and
+ * writes through.
+ *
+ * Two backends implement the same `WeddingDataStore` contract:
+ *
+ *  - **notion** (default) — the Guest List, Event Catalog, RSVP Responses,
+ *    Hotel Blocks and Guest Flights databases, via src/lib/notion.ts. Production always runs on
+ *    this.
+ *  - **local** — JSON fixtures on disk (src/lib/local-store.ts), so the full
+ *    RSVP, calendar and email flows run in `npm run dev` and Playwright without
+ *    Notion keys. Selected with `WEDDING_DATA_STORE=local`.
+ *
+ * The hardcoded `AUTHORIZED_GUESTS` list in src/lib/auth.ts is a separate,
+ * older fallback: it only covers login with `FEATURE_GLOBAL_NOTION_BACKEND`
+ * off, and cannot RSVP. The local store sits behind the *on* position of that
+ * flag and behaves like Notion end to end.
+ *
+ * Callers import the named functions below rather than `getDataStore()` so a
+ * call site reads the same whichever backend is active. The backend is chosen
+ * per call from `process.env` (a runtime secret-style setting, like the Notion
+ * keys), so tests can flip it without a rebuild.
+ */
+
+import type {
+  GuestRecord,
+  EventRecord,
+  RSVPSubmission,
+  RSVPResponse,
+  HotelBlock,
+  GuestFlight,
+  GuestFlightUpdate,
+} from '../types';
+import type { RSVPRevisionSource } from './rsvp-history';
+import * as notion from './notion';
+import { getLocalDataStore } from './local-store';
+
+export interface WeddingDataStore {
+  /** Which backend this is — surfaced by health checks and script output. */
+  readonly kind: 'notion' | 'local';
+
+  // ── Guest List ──
+  fetchAllGuests(): Promise<GuestRecord[]>;
+  clearGuestCache(): Promise<void>;
+  getGuestById(guestId: string): Promise<GuestRecord | null>;
+  getGuestByIdUncached(guestId: string): Promise<GuestRecord | null>;
+  findGuestsByName(name: string): Promise<GuestRecord[]>;
+  findHouseholdByEnvelopeName(name: string): Promise<GuestRecord[] | null>;
+  updateGuestEmail(guestId: string, email: string | null): Promise<void>;
+  markInviteSent(guestId: string, event: 'nyc' | 'france'): Promise<void>;
+  getGuestParty(guestId: string): Promise<GuestRecord[]>;
+
+  // ── Event Catalog ──
+  getEventCatalog(wedding: 'nyc' | 'france'): Promise<EventRecord[]>;
+  getInternalEvents(wedding: 'nyc' | 'france'): Promise<EventRecord[]>;
+  clearEventCache(): void;
+  getGuestEvents(guestId: string): Promise<EventRecord[]>;
+  getAttendingEvents(guestId: string, justSubmitted?: RSVPResponse): Promise<EventRecord[]>;
+  fetchDayDate(dayId: string): Promise<string | undefined>;
+  clearDayDateCache(): void;
+
+  // ── Hotel Blocks ──
+  getHotelBlocks(wedding: 'nyc' | 'france'): Promise<HotelBlock[]>;
+  clearHotelBlockCache(): void;
+
+  // ── Guest Flights ──
+  getGuestFlights(guestId: string, event: 'nyc' | 'france'): Promise<GuestFlight[]>;
+  /**
+   * Bring a guest's rows for one wedding in line with `update` — see
+   * planFlightUpsert in src/lib/flights.ts. Returns the guest's legs after.
+   */
+  upsertGuestFlights(
+    guestId: string,
+    event: 'nyc' | 'france',
+    update: GuestFlightUpdate
+  ): Promise<GuestFlight[]>;
+  fetchAllGuestFlights(event: 'nyc' | 'france'): Promise<GuestFlight[]>;
+
+  // ── RSVP Responses ──
+  /**
+   * Write a party's response and record it in the revision history
+   * (src/lib/rsvp-history.ts). `source` says which path submitted it;
+   * defaults to 'website'.
+   */
+  submitRSVP(
+    guestId: string,
+    submission: RSVPSubmission,
+    source?: RSVPRevisionSource
+  ): Promise<RSVPResponse>;
+  getLatestRSVPForParty(partyIds: string[], event: 'nyc' | 'france'): Promise<RSVPResponse | null>;
+  getLatestRSVP(guestId: string, event: 'nyc' | 'france'): Promise<RSVPResponse | null>;
+  fetchAllLatestRSVPs(): Promise<Map<string, RSVPResponse[]>>;
+  deleteRSVP(guestId: string, event: 'nyc' | 'france'): Promise<boolean>;
+}
+
+const notionDataStore: WeddingDataStore = {
+  kind: 'notion',
+  fetchAllGuests: notion.fetchAllGuests,
+  clearGuestCache: notion.clearGuestCache,
+  getGuestById: notion.getGuestById,
+  getGuestByIdUncached: notion.getGuestByIdUncached,
+  findGuestsByName: notion.findGuestsByName,
+  findHouseholdByEnvelopeName: notion.findHouseholdByEnvelopeName,
+  updateGuestEmail: notion.updateGuestEmail,
+  markInviteSent: notion.markInviteSent,
+  getGuestParty: notion.getGuestParty,
+  getEventCatalog: notion.getEventCatalog,
+  getInternalEvents: notion.getInternalEvents,
+  clearEventCache: notion.clearEventCache,
+  getGuestEvents: notion.getGuestEvents,
+  getAttendingEvents: notion.getAttendingEvents,
+  fetchDayDate: notion.fetchDayDate,
+  clearDayDateCache: notion.clearDayDateCache,
+  getHotelBlocks: notion.getHotelBlocks,
+  clearHotelBlockCache: notion.clearHotelBlockCache,
+  getGuestFlights: notion.getGuestFlights,
+  upsertGuestFlights: notion.upsertGuestFlights,
+  fetchAllGuestFlights: notion.fetchAllGuestFlights,
+  submitRSVP: notion.submitRSVP,
+  getLatestRSVPForParty: notion.getLatestRSVPForParty,
+  getLatestRSVP: notion.getLatestRSVP,
+  fetchAllLatestRSVPs: notion.fetchAllLatestRSVPs,
+  deleteRSVP: notion.deleteRSVP,
+};
+
+/** True when `WEDDING_DATA_STORE=local` selects the JSON fixture backend. */
+export function isLocalDataStore(): boolean {
+  return process.env.WEDDING_DATA_STORE === 'local';
+}
+
+/** The active backend. Unknown values fall back to Notion, never to fixtures. */
+export function getDataStore(): WeddingDataStore {
+  return isLocalDataStore() ? getLocalDataStore() : notionDataStore;
+}
+
+// ── Call-site API — same names and signatures as the Notion functions ──
+
+export const fetchAllGuests = () => getDataStore().fetchAllGuests();
+export const clearGuestCache = () => getDataStore().clearGuestCache();
+export const getGuestById = (guestId: string) => getDataStore().getGuestById(guestId);
+export const getGuestByIdUncached = (guestId: string) =>
+  getDataStore().getGuestByIdUncached(guestId);
+export const findGuestsByName = (name: string) => getDataStore().findGuestsByName(name);
+export const findHouseholdByEnvelopeName = (name: string) =>
+  getDataStore().findHouseholdByEnvelopeName(name);
+export const updateGuestEmail = (guestId: string, email: string | null) =>
+  getDataStore().updateGuestEmail(guestId, email);
+export const markInviteSent = (guestId: string, event: 'nyc' | 'france') =>
+  getDataStore().markInviteSent(guestId, event);
+export const getGuestParty = (guestId: string) => getDataStore().getGuestParty(guestId);
+export const getEventCatalog = (wedding: 'nyc' | 'france') =>
+  getDataStore().getEventCatalog(wedding);
+export const getInternalEvents = (wedding: 'nyc' | 'france') =>
+  getDataStore().getInternalEvents(wedding);
+export const clearEventCache = () => getDataStore().clearEventCache();
+export const getGuestEvents = (guestId: string) => getDataStore().getGuestEvents(guestId);
+export const getAttendingEvents = (guestId: string, justSubmitted?: RSVPResponse) =>
+  getDataStore().getAttendingEvents(guestId, justSubmitted);
+export const fetchDayDate = (dayId: string) => getDataStore().fetchDayDate(dayId);
+export const clearDayDateCache = () => getDataStore().clearDayDateCache();
+export const getHotelBlocks = (wedding: 'nyc' | 'france') =>
+  getDataStore().getHotelBlocks(wedding);
+export const clearHotelBlockCache = () => getDataStore().clearHotelBlockCache();
+export const getGuestFlights = (guestId: string, event: 'nyc' | 'france') =>
+  getDataStore().getGuestFlights(guestId, event);
+export const upsertGuestFlights = (
+  guestId: string,
+  event: 'nyc' | 'france',
+  update: GuestFlightUpdate
+) => getDataStore().upsertGuestFlights(guestId, event, update);
+export const fetchAllGuestFlights = (event: 'nyc' | 'france') =>
+  getDataStore().fetchAllGuestFlights(event);
+export const submitRSVP = (
+  guestId: string,
+  submission: RSVPSubmission,
+  source?: RSVPRevisionSource
+) => getDataStore().submitRSVP(guestId, submission, source);
+export const getLatestRSVPForParty = (partyIds: string[], event: 'nyc' | 'france') =>
+  getDataStore().getLatestRSVPForParty(partyIds, event);
+export const getLatestRSVP = (guestId: string, event: 'nyc' | 'france') =>
+  getDataStore().getLatestRSVP(guestId, event);
+export const fetchAllLatestRSVPs = () => getDataStore().fetchAllLatestRSVPs();
+export const deleteRSVP = (guestId: string, event: 'nyc' | 'france') =>
+  getDataStore().deleteRSVP(guestId, event);
@@ -6,6 +6,9 @@
  * Design mirrors the NYC (dark moss) and France (prussian blue) site themes.
  */
 
+import type { RSVPActivity } from './rsvp-activity';
+import type { EventCalendarLinks } from './calendar';
+
 export interface EmailTemplate {
   subject: string;
   html: string;
@@ -28,6 +31,18 @@ export interface EventInfo {
   name: string;
   time?: string;
   location?: string;
+  meals?: string[];          // "Guest Name: Entrée", one per attending guest
+  calendarLinks?: EventCalendarLinks; // per-event add-to-calendar links
+}
+
+/** The add-to-calendar links of an event, labelled, in display order. */
+function calendarLinkList(links: EventCalendarLinks): { label: string; href: string }[] {
+  return [
+    { label: 'Google', href: links.google },
+    { label: 'Outlook.com', href: links.outlook },
+    { label: 'Microsoft 365', href: links.office365 },
+    ...(links.ics ? [{ label: 'Apple / .ics', href: links.ics }] : []),
+  ];
 }
 
 // ─── RSVP Confirmation ───────────────────────────────────────────────────────
@@ -42,6 +57,7 @@ export interface RSVPConfirmationParams {
   dietary?: string;
   updateUrl: string;
   calendarUrl?: string;      // personalised .ics subscription URL
+  travelUrl?: string;        // /travel, when flight collection is on
 }
 
 export function rsvpConfirmation({
@@ -54,6 +70,7 @@ export function rsvpConfirmation({
   dietary,
   updateUrl,
   calendarUrl,
+  travelUrl,
 }: RSVPConfirmationParams): EmailTemplate {
   const isNYC = event === 'nyc';
 
@@ -107,6 +124,8 @@ export function rsvpConfirmation({
           <td${isLast ? '' : ' style="padding-bottom:12px;"'}>
             <p style="margin:0;font-family:${bodyStack};font-size:14px;font-weight:600;letter-spacing:0.04em;text-transform:uppercase;color:${bodyText};line-height:1.3;">${escHtml(ev.name)}</p>
             ${meta ? `<p style="margin:2px 0 0;font-family:${bodyStack};font-size:13px;line-height:1.4;color:${textMuted};">${escHtml(meta)}</p>` : ''}
+            ${ev.meals?.length ? `<p style="margin:4px 0 0;font-family:${bodyStack};font-size:13px;line-height:1.5;color:${bodyText};">${ev.meals.map(escHtml).join('<br/>')}</p>` : ''}
+            ${ev.calendarLinks ? `<p style="margin:4px 0 0;font-family:${bodyStack};font-size:12px;line-height:1.5;color:${textMuted};">Add to calendar: ${calendarLinkList(ev.calendarLinks).map((link) => `<a href="${escHtml(link.href)}" style="color:${amber};text-decoration:underline;">${link.label}</a>`).join(' \u00b7 ')}</p>` : ''}
           </td>
         </tr>`;
     }).join('');
@@ -154,6 +173,12 @@ export function rsvpConfirmation({
       <td style="background:${cream};padding:0 40px 32px;">
         <a href="${escHtml(calendarUrl)}" style="display:inline-block;padding:13px 28px;background:${amber};color:${cream};font-family:${sansStack};font-size:11px;font-weight:700;text-transform:uppercase;letter-spacing:0.1em;text-decoration:none;line-height:1;">Add to Calendar</a>
       </td>
+    </tr>` : ''}
+    ${travelUrl ? `
+    <tr>
+      <td style="background:${cream};padding:0 40px 28px;">
+        <p style="margin:0;font-family:${bodyStack};font-size:15px;line-height:1.65;color:${bodyText};">Flying in? <a href="${escHtml(travelUrl)}" style="color:${amber};text-decoration:underline;">Add your flight details &rarr;</a></p>
+      </td>
     </tr>` : ''}` : '';
 
   // ── Full HTML ────────────────────────────────────────────────────────────────
@@ -238,6 +263,12 @@ export function rsvpConfirmation({
       for (const ev of coreEvents) {
         const meta = [ev.time, ev.location].filter(Boolean).join(' \u00b7 ');
         textLines.push(`  - ${ev.name}${meta ? ` (${meta})` : ''}`);
+        for (const meal of ev.meals ?? []) textLines.push(`      ${meal}`);
+        if (ev.calendarLinks) {
+          for (const link of calendarLinkList(ev.calendarLinks)) {
+            textLines.push(`      Add to ${link.label}: ${link.href}`);
+          }
+        }
       }
       textLines.push('');
     }
@@ -246,6 +277,12 @@ export function rsvpConfirmation({
       for (const ev of optionalEvents) {
         const meta = [ev.time, ev.location].filter(Boolean).join(' \u00b7 ');
         textLines.push(`  - ${ev.name}${meta ? ` (${meta})` : ''}`);
+        for (const meal of ev.meals ?? []) textLines.push(`      ${meal}`);
+        if (ev.calendarLinks) {
+          for (const link of calendarLinkList(ev.calendarLinks)) {
+            textLines.push(`      Add to ${link.label}: ${link.href}`);
+          }
+        }
       }
       textLines.push('');
     }
@@ -259,6 +296,9 @@ export function rsvpConfirmation({
         ''
       );
     }
+    if (travelUrl) {
+      textLines.push(`Flying in? Add your flight details: ${travelUrl}`, '');
+    }
   }
 
   textLines.push(
@@ -476,6 +516,85 @@ export function reminderGeneral({
   return { subject, html, text: plainText };
 }
 
+// ─── RSVP activity (to the couple) ──────────────────────────────────────────
+//
+// Not in TEMPLATES: these go to the couple's inbox (src/lib/rsvp-activity.ts),
+// never to guests, so the admin send-email endpoint must not offer them.
+
+const EVENT_LABEL = { nyc: 'NYC', france: 'France' } as const;
+
+function activityHeadline(activity: RSVPActivity): string {
+  const names = activity.party.map((member) => member.name).join(', ');
+  const what =
+    activity.kind === 'new'
+      ? activity.status === 'Declined'
+        ? 'declined'
+        : `answered ${activity.status} (${activity.attendingCount} attending)`
+      : activity.status === 'Declined'
+        ? 'changed their answer to Declined'
+        : 'changed their answer';
+  return `${names} ${what} — ${EVENT_LABEL[activity.event]}`;
+}
+
+function activityLines(activity: RSVPActivity): string[] {
+  return [
+    ...activity.changes,
+    ...(activity.message ? [`Message: “${activity.message}”`] : []),
+    ...(activity.source === 'manual' ? ['Recorded by hand'] : []),
+  ];
+}
+
+function activityHtml(title: string, activities: RSVPActivity[]): string {
+  const sans = "'Helvetica Neue',Helvetica,Arial,sans-serif";
+  const bodyText = '#17320b';
+  const items = activities
+    .map((activity) => {
+      const lines = activityLines(activity)
+        .map((line) => `<li style="margin:0;">${escHtml(line)}</li>`)
+        .join('');
+      return `<p style="margin:16px 0 4px;font-weight:600;">${escHtml(activityHeadline(activity))}</p>${
+        lines ? `<ul style="margin:0;padding-left:20px;">${lines}</ul>` : ''
+      }`;
+    })
+    .join('\n');
+  return `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="UTF-8" /></head>
+<body style="margin:0;padding:24px;font-family:${sans};font-size:15px;line-height:1.6;color:${bodyText};">
+  <p style="margin:0;font-size:18px;font-weight:700;">${escHtml(title)}</p>
+${items}
+</body>
+</html>`;
+}
+
+function activityText(activities: RSVPActivity[]): string {
+  return activities
+    .map((activity) =>
+      [activityHeadline(activity), ...activityLines(activity).map((line) => `  - ${line}`)].join('\n')
+    )
+    .join('\n\n');
+}
+
+/** One activity entry, emailed to the couple as it happens. */
+export function rsvpActivityAlert(activity: RSVPActivity): EmailTemplate {
+  const subject = `RSVP: ${activityHeadline(activity)}`;
+  return { subject, html: activityHtml(subject, [activity]), text: activityText([activity]) };
+}
+
+export interface RSVPActivityDigestParams {
+  activity: RSVPActivity[];
+  since: string; // ISO
+  until: string; // ISO
+}
+
+/** Everything recorded since the last digest, oldest first. */
+export function rsvpActivityDigest({ activity, since, until }: RSVPActivityDigestParams): EmailTemplate {
+  const day = (iso: string) => iso.slice(0, 10);
+  const range = day(since) === day(until) ? day(until) : `${day(since)} – ${day(until)}`;
+  const subject = `RSVP digest: ${activity.length} update${activity.length === 1 ? '' : 's'} (${range})`;
+  return { subject, html: activityHtml(subject, activity), text: `${subject}\n\n${activityText(activity)}` };
+}
+
 // ─── Template registry ───────────────────────────────────────────────────────
 
 export const TEMPLATES = {
@@ -0,0 +1,297 @@
+/**
+ * Capacity limits and waitlists for optional events.
+ *
+ * An Optional event in the Event Catalog may set a Capacity: the most guests
+ * it takes. Core events are never limited. Seats are not booked at submit
+ * time. allocateEventSeats replays every party's latest response in queue
+ * order — when the party first chose the event (`details.eventsRequestedAt`,
+ * kept across re-submissions that still choose it with no more attending
+ * members; a party that grows joins the back) — and confirms each party
+ * whose attending members all fit in what is left; the rest are waitlisted,
+ * whole parties, as with rooms (src/lib/accommodation.ts). A smaller party
+ * further down the queue can still take the last seats.
+ *
+ * Because the allocation is derived, a seat that frees up (a decline, a
+ * dropped event, a smaller party) promotes the next waitlisted party on the
+ * next replay, and a smaller Capacity or an answer that reached Notion late
+ * with an earlier place can push a confirmed party back onto it.
+ * src/lib/event-waitlists.ts compares each replay with the one before and
+ * tells the parties it moved either way.
+ */
+
+import type { EventRecord, GuestRecord, RSVPResponse, RSVPSubmission } from '../types';
+import { reminderGeneral, type EmailTemplate } from './email-templates';
+import { excludeTestGuests } from './test-guests';
+
+export type EventSeatStatus = 'confirmed' | 'waitlisted';
+
+export interface EventSeatAllocation {
+  responseId: string;
+  guestIds: string[];
+  eventId: string;
+  /** Attending members — the seats the party takes. */
+  seats: number;
+  requestedAt: string;
+  status: EventSeatStatus;
+  /** 1-based place on the event's waitlist. */
+  waitlistPosition?: number;
+}
+
+export interface EventAvailability {
+  id: string;
+  capacity: number;
+  /** Seats held by confirmed parties. */
+  confirmed: number;
+  remaining: number;
+  waitlisted: number;
+}
+
+/** The events whose places are limited: Optional, with a positive capacity. */
+export function limitedEvents(events: EventRecord[]): (EventRecord & { capacity: number })[] {
+  return events.filter(
+    (event): event is EventRecord & { capacity: number } =>
+      event.type === 'Optional' && typeof event.capacity === 'number' && event.capacity > 0
+  );
+}
+
+/** Members attending a response: recorded attendance first, then the attendee list. */
+export function responseSeats(response: RSVPResponse): number {
+  if (response.status === 'Declined') return 0;
+  if (response.attendanceById) return Object.values(response.attendanceById).filter(Boolean).length;
+  return response.guestsAttending.split(',').filter((name) => name.trim()).length;
+}
+
+/**
+ * Each party's latest response for `event`, once per response row, without
+ * test guests — they must never take a real guest's seat. `latestRSVPs` is
+ * fetchAllLatestRSVPs(), which is keyed per guest.
+ */
+export function latestEventResponses(
+  guests: GuestRecord[],
+  latestRSVPs: Map<string, RSVPResponse[]>,
+  event: 'nyc' | 'france'
+): RSVPResponse[] {
+  const responses = new Map<string, RSVPResponse>();
+  for (const guest of excludeTestGuests(guests)) {
+    for (const rsvp of latestRSVPs.get(guest.id) ?? []) {
+      if (rsvp.event === event) responses.set(rsvp.id, rsvp);
+    }
+  }
+  return [...responses.values()];
+}
+
+/**
+ * The queue places to store with a submission: for each limited event it
+ * chooses, when the party first chose it. A re-submission that still chooses
+ * an event keeps the place its previous response held — unless it brings
+ * more attending members, whose seats would otherwise jump the queue: then
+ * the whole party joins the back, as parties are seated whole.
+ */
+export function eventsRequestedAt(
+  submission: Pick<RSVPSubmission, 'eventsAttending' | 'guestsAttending'>,
+  events: EventRecord[],
+  previous: RSVPResponse | null,
+  now = new Date()
+): Record<string, string> | undefined {
+  const limited = new Set(limitedEvents(events).map((event) => event.id));
+  const seats = submission.guestsAttending.filter((guest) => guest.attending).length;
+  const before = previous && previous.status !== 'Declined' && seats <= responseSeats(previous) ? previous : null;
+  const places = Object.fromEntries(
+    submission.eventsAttending
+      .filter((id) => limited.has(id))
+      .map((id) => [
+        id,
+        before?.eventsAttending?.includes(id)
+          ? (before.details?.eventsRequestedAt?.[id] ?? before.submittedAt)
+          : now.toISOString(),
+      ])
+  );
+  return Object.keys(places).length > 0 ? places : undefined;
+}
+
+/**
+ * Replay the responses in queue order, per limited event. A party is
+ * confirmed if all its attending members fit in the seats left, otherwise
+ * waitlisted whole.
+ */
+export function allocateEventSeats(responses: RSVPResponse[], events: EventRecord[]): EventSeatAllocation[] {
+  return limitedEvents(events).flatMap((event) => {
+    const requests = responses
+      .filter((response) => response.eventsAttending?.includes(event.id) && responseSeats(response) > 0)
+      .map((response) => ({
+        responseId: response.id,
+        guestIds: response.guestIds,
+        eventId: event.id,
+        seats: responseSeats(response),
+        requestedAt: response.details?.eventsRequestedAt?.[event.id] ?? response.submittedAt,
+      }))
+      .sort((a, b) => a.requestedAt.localeCompare(b.requestedAt) || a.responseId.localeCompare(b.responseId));
+
+    let taken = 0;
+    let position = 0;
+    return requests.map((request): EventSeatAllocation => {
+      if (taken + request.seats <= event.capacity) {
+        taken += request.seats;
+        return { ...request, status: 'confirmed' };
+      }
+      position += 1;
+      return { ...request, status: 'waitlisted', waitlistPosition: position };
+    });
+  });
+}
+
+export function eventAvailability(allocations: EventSeatAllocation[], events: EventRecord[]): EventAvailability[] {
+  return limitedEvents(events).map((event) => {
+    const ofEvent = allocations.filter((allocation) => allocation.eventId === event.id);
+    const confirmed = ofEvent
+      .filter((allocation) => allocation.status === 'confirmed')
+      .reduce((sum, allocation) => sum + allocation.seats, 0);
+    return {
+      id: event.id,
+      capacity: event.capacity,
+      confirmed,
+      remaining: Math.max(0, event.capacity - confirmed),
+      waitlisted: ofEvent.filter((allocation) => allocation.status === 'waitlisted').length,
+    };
+  });
+}
+
+/**
+ * What the RSVP form shows per limited event: the places left for the party
+ * (its own seats do not count against it) and its place on each waitlist it
+ * is on. `stored` is the party's latest response, possibly still queued.
+ */
+export function eventPlacesForParty(
+  responses: RSVPResponse[],
+  partyIds: string[],
+  stored: RSVPResponse | null,
+  events: EventRecord[]
+): { availability: EventAvailability[]; waitlist: Map<string, number> } {
+  const others = responses.filter((response) => !response.guestIds.some((id) => partyIds.includes(id)));
+  const waitlist = new Map(
+    partyWaitlist(allocateEventSeats(stored ? [...others, stored] : others, events), partyIds).map(
+      (allocation) => [allocation.eventId, allocation.waitlistPosition ?? 0]
+    )
+  );
+  return { availability: eventAvailability(allocateEventSeats(others, events), events), waitlist };
+}
+
+/** The party's waitlisted allocations, by any member's guest ID. */
+export function partyWaitlist(allocations: EventSeatAllocation[], partyIds: string[]): EventSeatAllocation[] {
+  return allocations.filter(
+    (allocation) => allocation.status === 'waitlisted' && allocation.guestIds.some((id) => partyIds.includes(id))
+  );
+}
+
+/** Allocations waitlisted in `before` and confirmed in `after`: the parties a change promoted. */
+export function promotedAllocations(
+  before: EventSeatAllocation[],
+  after: EventSeatAllocation[]
+): EventSeatAllocation[] {
+  return movedAllocations(before, after, 'waitlisted', 'confirmed');
+}
+
+/** Allocations confirmed in `before` and waitlisted in `after`: the parties a change demoted. */
+export function demotedAllocations(
+  before: EventSeatAllocation[],
+  after: EventSeatAllocation[]
+): EventSeatAllocation[] {
+  return movedAllocations(before, after, 'confirmed', 'waitlisted');
+}
+
+function movedAllocations(
+  before: EventSeatAllocation[],
+  after: EventSeatAllocation[],
+  from: EventSeatStatus,
+  to: EventSeatStatus
+): EventSeatAllocation[] {
+  const held = new Set(
+    before
+      .filter((allocation) => allocation.status === from)
+      .map((allocation) => `${allocation.responseId}:${allocation.eventId}`)
+  );
+  return after.filter(
+    (allocation) => allocation.status === to && held.has(`${allocation.responseId}:${allocation.eventId}`)
+  );
+}
+
+/** `response` without the events it is waitlisted for — what its calendar should hold. */
+export function withoutWaitlisted(response: RSVPResponse, allocations: EventSeatAllocation[]): RSVPResponse {
+  const waitlisted = new Set(
+    allocations
+      .filter((allocation) => allocation.responseId === response.id && allocation.status === 'waitlisted')
+      .map((allocation) => allocation.eventId)
+  );
+  if (waitlisted.size === 0) return response;
+  return { ...response, eventsAttending: response.eventsAttending?.filter((id) => !waitlisted.has(id)) };
+}
+
+type SeatEmail = { id: string; name: string; email: string; template: EmailTemplate };
+
+/**
+ * The "a place opened up" emails for promoted parties: one per member with an
+ * email on file, per event, never twice to a shared address.
+ */
+export function waitlistPromotionEmails(
+  promoted: EventSeatAllocation[],
+  guests: GuestRecord[],
+  events: EventRecord[]
+): SeatEmail[] {
+  return seatEmails(promoted, guests, events, (event) => ({
+    subject: `A place opened up: ${event.name}`,
+    body:
+      `Good news — a place opened up at ${event.name}, and your party is off the waitlist. ` +
+      `It is now on your RSVP and your calendar.`,
+  }));
+}
+
+/**
+ * The "you are back on the waitlist" emails for demoted parties, addressed as
+ * the promotion emails are.
+ */
+export function waitlistDemotionEmails(
+  demoted: EventSeatAllocation[],
+  guests: GuestRecord[],
+  events: EventRecord[]
+): SeatEmail[] {
+  return seatEmails(demoted, guests, events, (event, allocation) => ({
+    subject: `Now on the waitlist: ${event.name}`,
+    body:
+      `We're sorry — ${event.name} has fewer places than we could hold for everyone, and your party ` +
+      `is now number ${allocation.waitlistPosition ?? 1} on its waitlist. We've taken it off your calendar, ` +
+      `and we'll write again if a place opens up.`,
+  }));
+}
+
+function seatEmails(
+  allocations: EventSeatAllocation[],
+  guests: GuestRecord[],
+  events: EventRecord[],
+  message: (event: EventRecord, allocation: EventSeatAllocation) => { subject: string; body: string }
+): SeatEmail[] {
+  const guestById = new Map(guests.map((guest) => [guest.id, guest]));
+  const emails: SeatEmail[] = [];
+  const sent = new Set<string>();
+  for (const allocation of allocations) {
+    const event = events.find((candidate) => candidate.id === allocation.eventId);
+    if (!event) continue;
+    const { subject, body } = message(event, allocation);
+    for (const memberId of allocation.guestIds) {
+      const guest = guestById.get(memberId);
+      const key = `${allocation.eventId}:${guest?.email?.toLowerCase()}`;
+      if (!guest?.email || sent.has(key)) continue;
+      sent.add(key);
+      emails.push({
+        id: guest.id,
+        name: guest.name,
+        email: guest.email,
+        template: reminderGeneral({
+          guestName: guest.name,
+          subject,
+          body: `${body}\n\nIf your plans have changed, you can update your answer at https://sargaux.com/${event.wedding}/rsvp`,
+        }),
+      });
+    }
+  }
+  return emails;
+}
@@ -7,11 +7,17 @@
  * unset — a partially translated event is always safe to render.
  *
  * Only display text is localized. Timing (startTime/duration/date) is
- * language-neutral and always read from the canonical English fields.
+ * language-neutral and always read from the canonical English fields — but
+ * an event that ends on a later day than it starts (past midnight, or over
+ * several days) has its end added to the displayed time, from the same
+ * eventWindow the calendar feed uses. An event at a venue shows the venue's
+ * name and address in its location.
  */
 
 import type { EventRecord } from '../types';
 import type { Lang } from '../content/strings';
+import { eventWindow } from './calendar';
+import { eventVenue, venueLocation } from './venues';
 
 export interface LocalizedEventFields {
   name: string;
@@ -20,19 +26,88 @@ export interface LocalizedEventFields {
   description?: string;
 }
 
+/** "1:00 AM" / "1 h", "9:30 PM" / "21 h 30" — the catalog's own styles. */
+function formatClock(hhmm: string, lang: Lang): string {
+  const hour = Number(hhmm.slice(0, 2));
+  const minute = hhmm.slice(2, 4);
+  if (lang === 'fr') return minute === '00' ? `${hour} h` : `${hour} h ${minute}`;
+  return `${hour % 12 || 12}:${minute} ${hour < 12 ? 'AM' : 'PM'}`;
+}
+
+/** "Sun, May 30" / "dim. 30 mai", from an ICS "YYYYMMDD" date. */
+function formatDay(yyyymmdd: string, lang: Lang): string {
+  const date = new Date(Date.UTC(Number(yyyymmdd.slice(0, 4)), Number(yyyymmdd.slice(4, 6)) - 1, Number(yyyymmdd.slice(6, 8))));
+  return new Intl.DateTimeFormat(lang === 'fr' ? 'fr-FR' : 'en-US', {
+    timeZone: 'UTC',
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  }).format(date);
+}
+
+/** The ICS "YYYYMMDD" date `days` after another. */
+function addDays(yyyymmdd: string, days: number): string {
+  const date = new Date(Date.UTC(Number(yyyymmdd.slice(0, 4)), Number(yyyymmdd.slice(4, 6)) - 1, Number(yyyymmdd.slice(6, 8)) + days));
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+/**
+ * The displayed time, with the event's end when it falls on a later day:
+ * "9:30 PM – 1:00 AM", "3:00 PM – Sun, May 30, 11:00 AM", "3:00 PM – Sun,
+ * May 30" (through the end of that day), or for an all-day
+ * span with no Time "Fri, May 28 – Sun, May 30". A Time already written as a
+ * range ("11:30 AM–2:00 PM") is shown as written.
+ */
+function displayTime(event: EventRecord, time: string | undefined, lang: Lang): string | undefined {
+  const timing = eventWindow(event);
+  if (!timing || (time && /[–-]/.test(time))) return time;
+
+  if (timing.allDay) {
+    const last = addDays(timing.end, -1);
+    if (last === timing.start || time) return time;
+    return `${formatDay(timing.start, lang)} – ${formatDay(last, lang)}`;
+  }
+
+  const startDay = timing.start.slice(0, 8);
+  const endDay = timing.end.slice(0, 8);
+  // An end at midnight belongs to the day before it
+  const atMidnight = timing.end.endsWith('T000000');
+  const lastDay = atMidnight ? addDays(endDay, -1) : endDay;
+  if (lastDay <= startDay) return time;
+
+  const endClock = formatClock(timing.end.slice(9, 13), lang);
+  // Into the small hours of the next day, the clock alone reads unambiguously
+  const overnight = lastDay === addDays(startDay, 1) && timing.end.slice(9) < timing.start.slice(9);
+  const end = atMidnight
+    ? formatDay(lastDay, lang)
+    : overnight
+      ? endClock
+      : `${formatDay(lastDay, lang)}, ${endClock}`;
+  return `${time ?? formatClock(timing.start.slice(9, 13), lang)} – ${end}`;
+}
+
+/**
+ * The event's location on one line. At a venue (src/lib/venues.ts) that is
+ * the space, the venue and its address; otherwise the free-text Location.
+ */
+function displayLocation(event: EventRecord, location: string | undefined, lang: Lang): string | undefined {
+  const venue = eventVenue(event);
+  return venue ? venueLocation(venue, location, lang) : location;
+}
+
 export function localizeEvent(event: EventRecord, lang: Lang): LocalizedEventFields {
   if (lang !== 'fr') {
     return {
       name: event.name,
-      time: event.time,
-      location: event.location,
+      time: displayTime(event, event.time, lang),
+      location: displayLocation(event, event.location, lang),
       description: event.description,
     };
   }
   return {
     name: event.nameFr || event.name,
-    time: event.timeFr || event.time,
-    location: event.locationFr || event.location,
+    time: displayTime(event, event.timeFr || event.time, lang),
+    location: displayLocation(event, event.locationFr || event.location, lang),
     description: event.descriptionFr || event.description,
   };
 }
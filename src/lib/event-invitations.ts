@@ -0,0 +1,36 @@
+/**
+ * Which Event Catalog events a party may RSVP to.
+ *
+ * `Event Invitations` (nyc/france) only says which weddings a guest is invited
+ * to. Within a wedding, the Guest List `Events Invited` relation names the
+ * exact events — a dancing-only invite lists just the after party, an add-on
+ * invite lists the Core events plus the extra one.
+ *
+ * The RSVP form answers for the whole party, so the lists of every member are
+ * unioned: a household sees the same events whichever member logs in, and one
+ * member's answer can't drop an event another member was invited to.
+ *
+ * A wedding for which no member lists any event falls back to its Core events.
+ * Optional events are never offered without an explicit invitation.
+ */
+
+import type { EventRecord, GuestRecord } from '../types';
+
+/**
+ * Narrow `catalog` — the catalogs of the weddings the guest is invited to — to
+ * the events their party is invited to.
+ */
+export function scopeInvitedEvents(
+  catalog: EventRecord[],
+  party: Pick<GuestRecord, 'eventsInvited'>[]
+): EventRecord[] {
+  const explicit = new Set(party.flatMap((member) => member.eventsInvited ?? []));
+
+  const listed = new Set(
+    catalog.filter((event) => explicit.has(event.id)).map((event) => event.wedding)
+  );
+
+  return catalog.filter((event) =>
+    listed.has(event.wedding) ? explicit.has(event.id) : event.type === 'Core'
+  );
+}
@@ -0,0 +1,206 @@
+/**
+ * Telling parties when a place on a limited event opens up.
+ *
+ * Seat allocations are derived (src/lib/event-capacity.ts), so a party can
+ * be promoted off a waitlist by anything that changes the inputs: another
+ * party's answer or deleted RSVP, a queued answer the outbox replays, an
+ * answer recorded by scripts/record-manual-rsvp.ts, or a larger Capacity in
+ * the Event Catalog. Rather than each path working out its own promotions,
+ * the allocation last seen is stored per wedding, and settleEventWaitlists
+ * compares the current one with it: parties waitlisted then and confirmed now
+ * get the event on their calendar and, with email on, a note that their place
+ * is confirmed. Parties confirmed then and waitlisted now — after a smaller
+ * Capacity, or an answer that reached Notion late holding an earlier place —
+ * lose it from their calendar and are told the same way. Then the current
+ * allocation is stored.
+ *
+ * Every site write path settles right after it writes — POST and DELETE
+ * /api/rsvp, and the outbox replay. Whatever reached Notion another way is
+ * settled by netlify/functions/event-waitlists.mts every hour, and by the
+ * calendar refresh (refreshAllICS), which a manual RSVP sync triggers. The
+ * first settle for a wedding only stores the allocation: there is nothing to
+ * compare it with.
+ *
+ * The stored allocation is also what keeps waitlisted events off a party's
+ * calendar (settledWaitlist, read by src/lib/ics-generator.ts), so each write
+ * path settles before it rebuilds calendars.
+ */
+
+import type { EventRecord, GuestRecord, RSVPResponse } from '../types';
+import { blobStore, resetMemoryBlobStore } from './blob-store';
+import { fetchAllGuests, fetchAllLatestRSVPs, getEventCatalog } from './data-store';
+import { sendToGuests, withRecipient } from './email';
+import {
+  allocateEventSeats,
+  demotedAllocations,
+  latestEventResponses,
+  limitedEvents,
+  partyWaitlist,
+  promotedAllocations,
+  waitlistDemotionEmails,
+  waitlistPromotionEmails,
+  type EventSeatAllocation,
+} from './event-capacity';
+import { generateAndStoreICSForGuest } from './ics-generator';
+
+const STORE_NAME = 'event-waitlists';
+
+/** Everything an allocation is derived from, for one wedding. */
+export interface WaitlistSnapshot {
+  guests: GuestRecord[];
+  /** Each party's latest response — latestEventResponses(). */
+  responses: RSVPResponse[];
+  events: EventRecord[];
+}
+
+/** The parties a settle moved on or off limited events' waitlists. */
+export interface WaitlistChanges {
+  promoted: EventSeatAllocation[];
+  demoted: EventSeatAllocation[];
+}
+
+/** Empty the in-memory store (test/local modes only). */
+export function resetEventWaitlistTestStore(): void {
+  resetMemoryBlobStore(STORE_NAME);
+}
+
+/**
+ * Whether promotion and demotion emails go out. The site's email flag, read at runtime:
+ * the outbox replay and the calendar refresh also run as scheduled functions,
+ * outside the Astro build that bakes in src/config/features.ts.
+ */
+function seatEmailsEnabled(): boolean {
+  return process.env.FEATURE_GLOBAL_EMAIL_ENABLED === 'true';
+}
+
+async function readAllocations(wedding: 'nyc' | 'france'): Promise<EventSeatAllocation[] | null> {
+  const raw = await blobStore(STORE_NAME).get(wedding);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as EventSeatAllocation[];
+  } catch (err) {
+    console.error(`[event-waitlists] Unreadable allocation for ${wedding} — starting over:`, err);
+    return null;
+  }
+}
+
+/**
+ * The events `guestId`'s party is waitlisted for, by the allocation last
+ * settled for each of `weddings`. Matched by guest rather than response, so a
+ * re-submission written since the settle still finds its party.
+ */
+export async function settledWaitlist(guestId: string, weddings: ('nyc' | 'france')[]): Promise<Set<string>> {
+  const waitlisted = new Set<string>();
+  for (const wedding of weddings) {
+    for (const allocation of partyWaitlist((await readAllocations(wedding)) ?? [], [guestId])) {
+      waitlisted.add(allocation.eventId);
+    }
+  }
+  return waitlisted;
+}
+
+/**
+ * Compare the wedding's allocation with the one last seen, and tell the
+ * parties it moved. `answeredBy` is the party whose change is being settled:
+ * it sees where it stands on the RSVP page, has its calendar rebuilt by the
+ * caller, and is not emailed. Calendar and email failures are logged, not
+ * thrown — the new allocation is stored either way, so nobody is told twice.
+ */
+export async function settleEventWaitlists(
+  wedding: 'nyc' | 'france',
+  snapshot: WaitlistSnapshot,
+  options: { answeredBy?: string[] } = {}
+): Promise<WaitlistChanges> {
+  const none: WaitlistChanges = { promoted: [], demoted: [] };
+  const events = snapshot.events.filter((event) => event.wedding === wedding);
+  if (limitedEvents(events).length === 0) return none;
+
+  const allocations = allocateEventSeats(snapshot.responses, events);
+  const before = await readAllocations(wedding);
+  await blobStore(STORE_NAME).set(wedding, JSON.stringify(allocations));
+  if (!before) return none;
+
+  const answeredBy = options.answeredBy ?? [];
+  const others = (moved: EventSeatAllocation[]) =>
+    moved.filter((allocation) => !allocation.guestIds.some((id) => answeredBy.includes(id)));
+  const changes = {
+    promoted: others(promotedAllocations(before, allocations)),
+    demoted: others(demotedAllocations(before, allocations)),
+  };
+  const moved = [...changes.promoted, ...changes.demoted];
+  if (moved.length === 0) return changes;
+
+  // Rebuilt from the allocation just stored, which the calendar reads.
+  const responses = new Map(snapshot.responses.map((response) => [response.id, response]));
+  try {
+    for (const responseId of new Set(moved.map((allocation) => allocation.responseId))) {
+      const response = responses.get(responseId);
+      if (!response) continue;
+      await Promise.all(response.guestIds.map((memberId) => generateAndStoreICSForGuest(memberId, response)));
+    }
+  } catch (err) {
+    console.error('[event-waitlists] ICS regeneration after a waitlist change failed:', err);
+  }
+
+  if (seatEmailsEnabled()) {
+    const emails = [
+      ...waitlistPromotionEmails(changes.promoted, snapshot.guests, events),
+      ...waitlistDemotionEmails(changes.demoted, snapshot.guests, events),
+    ];
+    try {
+      await sendToGuests(emails, (recipient) => withRecipient(recipient, recipient.template));
+    } catch (err) {
+      console.error('[event-waitlists] Failed to send waitlist emails:', err);
+    }
+  }
+  return changes;
+}
+
+/**
+ * Settle after a party's answer was written (`response`) or deleted (null).
+ * The answer stands in for the party's stored one, which Notion's query
+ * index can still be serving. Reads nothing past the Event Catalog when the
+ * wedding has no limited events.
+ */
+export async function settleAfterAnswer(
+  wedding: 'nyc' | 'france',
+  partyIds: string[],
+  response: RSVPResponse | null
+): Promise<WaitlistChanges> {
+  const events = await getEventCatalog(wedding);
+  if (limitedEvents(events).length === 0) return { promoted: [], demoted: [] };
+
+  const [guests, latestRSVPs] = await Promise.all([fetchAllGuests(), fetchAllLatestRSVPs()]);
+  const others = latestEventResponses(guests, latestRSVPs, wedding).filter(
+    (stored) => !stored.guestIds.some((id) => partyIds.includes(id))
+  );
+  return settleEventWaitlists(
+    wedding,
+    { guests, responses: response ? [...others, response] : others, events },
+    { answeredBy: partyIds }
+  );
+}
+
+/**
+ * Settle both weddings from the data store, for the scheduled function.
+ * Reads the guests and responses only when a wedding has limited events.
+ * Returns the number of parties promoted and demoted per wedding.
+ */
+export async function settleAllEventWaitlists(): Promise<
+  Record<'nyc' | 'france', { promoted: number; demoted: number }>
+> {
+  const [nycEvents, franceEvents] = await Promise.all([getEventCatalog('nyc'), getEventCatalog('france')]);
+  const settled = { nyc: { promoted: 0, demoted: 0 }, france: { promoted: 0, demoted: 0 } };
+  if (limitedEvents([...nycEvents, ...franceEvents]).length === 0) return settled;
+
+  const [guests, latestRSVPs] = await Promise.all([fetchAllGuests(), fetchAllLatestRSVPs()]);
+  for (const [wedding, events] of [['nyc', nycEvents], ['france', franceEvents]] as const) {
+    const changes = await settleEventWaitlists(wedding, {
+      guests,
+      responses: latestEventResponses(guests, latestRSVPs, wedding),
+      events,
+    });
+    settled[wedding] = { promoted: changes.promoted.length, demoted: changes.demoted.length };
+  }
+  return settled;
+}
@@ -0,0 +1,292 @@
+/**
+ * Guest flights (F-013, docs/plans/2026-02-25-flight-collection-design.md).
+ *
+ * Guests enter an arrival and a departure flight per wedding — on the RSVP
+ * form's optional Travel Details section or on /travel — and each leg is one
+ * row in the Notion `Guest Flights` database (local fixture:
+ * fixtures/wedding-data/guest-flights.json). The Mac Mini sync adds every row
+ * with `Flighty Synced` unchecked to Flighty, so the couple can follow guests
+ * in the air.
+ *
+ * Submissions are upserts: at most one row per guest, wedding and leg. A leg
+ * that did not change is left alone; an edited leg is rewritten with
+ * `Flighty Synced` cleared so the sync picks up the new flight. Both backends
+ * apply a submission through planFlightUpsert.
+ *
+ * buildFlightBoard groups the legs by day and airport for
+ * GET /api/admin/arrivals — who to collect from CDG on Thursday afternoon.
+ */
+
+import type { FlightLeg, FlightLegType, GuestFlight, GuestFlightUpdate, GuestRecord } from '../types';
+import { csvSheet } from './csv';
+import type { WeddingDates } from './refresh-schedule';
+
+export const FLIGHT_LEG_TYPES: readonly FlightLegType[] = ['arrival', 'departure'];
+
+/**
+ * Flights are accepted from FLIGHT_WINDOW_DAYS before the wedding's first
+ * event (arrivals) to FLIGHT_WINDOW_DAYS after its last (departures) — enough
+ * for a holiday around the wedding, and it catches a mistyped year. The event
+ * dates come from the Event Catalog (fetchWeddingDateRange in
+ * src/lib/refresh-schedule.ts), so the window follows the wedding if it moves.
+ */
+const FLIGHT_WINDOW_DAYS = 30;
+
+/** Longest airline name — it lands in a Notion rich_text cell. */
+export const AIRLINE_MAX_CHARS = 60;
+
+/**
+ * IATA flight designator: a two-character carrier code (letters and digits,
+ * at least one letter — "AF", "U2", "9W") or a three-letter ICAO code, then
+ * 1–4 digits and an optional operational suffix letter.
+ */
+const FLIGHT_NUMBER_PATTERN = /^([A-Z]{3}|[A-Z][A-Z0-9]|[0-9][A-Z])(\d{1,4})([A-Z]?)$/;
+const CARRIER_CODE_PATTERN = /^([A-Z]{3}|[A-Z][A-Z0-9]|[0-9][A-Z])$/;
+const AIRPORT_PATTERN = /^[A-Z]{3}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * "af7" → "AF 7", "af-007" → "AF 007": case and separators are normalized,
+ * digits are kept as typed. Null when it is not a flight number.
+ */
+export function normalizeFlightNumber(raw: string): string | null {
+  const compact = raw.toUpperCase().replace(/[\s-]/g, '');
+  const match = FLIGHT_NUMBER_PATTERN.exec(compact);
+  if (!match) return null;
+  return `${match[1]} ${match[2]}${match[3]}`;
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Earliest and latest accepted date for a leg — also the form's date input
+ * bounds. Null when the catalog has no dated events yet: any real date is
+ * accepted until it does.
+ */
+export function flightDateRange(dates: WeddingDates | null, type: FlightLegType): { min: string; max: string } | null {
+  if (!dates) return null;
+  return type === 'arrival'
+    ? { min: addDays(dates.first, -FLIGHT_WINDOW_DAYS), max: dates.last }
+    : { min: dates.first, max: addDays(dates.last, FLIGHT_WINDOW_DAYS) };
+}
+
+function isRealDate(date: string): boolean {
+  return DATE_PATTERN.test(date) && new Date(`${date}T00:00:00Z`).toISOString().slice(0, 10) === date;
+}
+
+/**
+ * Check and normalize one submitted leg. Returns the leg to store, or an
+ * error message.
+ */
+export function parseFlightLeg(
+  value: unknown,
+  type: FlightLegType,
+  dates: WeddingDates | null
+): { leg: FlightLeg } | { error: string } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { error: `${type} must be an object` };
+  }
+  const { airline, flightNumber, date, airport, time } = value as Record<string, unknown>;
+
+  if (typeof airline !== 'string' || !airline.trim()) return { error: `${type} airline is required` };
+  const airlineText = airline.trim();
+  if (airlineText.length > AIRLINE_MAX_CHARS) return { error: `${type} airline is too long` };
+
+  if (typeof flightNumber !== 'string') return { error: `${type} flight number is required` };
+  const number = normalizeFlightNumber(flightNumber);
+  if (!number) return { error: `${type} flight number is not valid` };
+  // An airline given as a carrier code must be the flight number's carrier —
+  // "AF" with "BA 304" is a typo in one of the two.
+  const carrier = number.split(' ')[0];
+  if (CARRIER_CODE_PATTERN.test(airlineText.toUpperCase()) && airlineText.toUpperCase() !== carrier) {
+    return { error: `${type} airline does not match the flight number` };
+  }
+
+  if (typeof date !== 'string' || !isRealDate(date)) return { error: `${type} date must be YYYY-MM-DD` };
+  const range = flightDateRange(dates, type);
+  if (range && (date < range.min || date > range.max)) return { error: `${type} date is outside the wedding dates` };
+
+  let airportCode: string | undefined;
+  if (airport !== undefined && airport !== null && airport !== '') {
+    if (typeof airport !== 'string') return { error: `${type} airport must be a string` };
+    airportCode = airport.trim().toUpperCase();
+    if (!AIRPORT_PATTERN.test(airportCode)) return { error: `${type} airport must be a 3-letter code` };
+  }
+
+  let timeText: string | undefined;
+  if (time !== undefined && time !== null && time !== '') {
+    if (typeof time !== 'string' || !TIME_PATTERN.test(time)) return { error: `${type} time must be HH:MM` };
+    timeText = time;
+  }
+
+  return {
+    leg: {
+      type,
+      airline: airlineText,
+      flightNumber: number,
+      date,
+      ...(airportCode ? { airport: airportCode } : {}),
+      ...(timeText ? { time: timeText } : {}),
+    },
+  };
+}
+
+/**
+ * Check one guest's submission: `arrival` / `departure` are each a leg, null
+ * (remove it) or absent (keep it). A departure before the arrival is refused.
+ */
+export function parseFlightUpdate(
+  value: Record<string, unknown>,
+  dates: WeddingDates | null
+): { update: GuestFlightUpdate } | { error: string } {
+  const update: GuestFlightUpdate = {};
+  for (const type of FLIGHT_LEG_TYPES) {
+    const raw = value[type];
+    if (raw === undefined) continue;
+    if (raw === null) {
+      update[type] = null;
+      continue;
+    }
+    const parsed = parseFlightLeg(raw, type, dates);
+    if ('error' in parsed) return parsed;
+    update[type] = parsed.leg;
+  }
+  if (update.arrival && update.departure && update.departure.date < update.arrival.date) {
+    return { error: 'departure is before arrival' };
+  }
+  return { update };
+}
+
+/** Whether two legs describe the same flight (ignores row bookkeeping). */
+export function sameFlight(a: FlightLeg, b: FlightLeg): boolean {
+  return (
+    a.type === b.type &&
+    a.airline === b.airline &&
+    a.flightNumber === b.flightNumber &&
+    a.date === b.date &&
+    (a.airport ?? '') === (b.airport ?? '') &&
+    (a.time ?? '') === (b.time ?? '')
+  );
+}
+
+export interface FlightUpsertPlan {
+  create: FlightLeg[];
+  /** Rows to rewrite — each also gets `Flighty Synced` cleared. */
+  update: { id: string; leg: FlightLeg }[];
+  /** Row IDs to delete: removed legs, and duplicates left by hand edits. */
+  remove: string[];
+}
+
+/**
+ * The writes that take one guest's stored rows for a wedding to `update`.
+ * Unchanged legs produce no write, so re-saving the form does not make the
+ * sync re-add flights it already has.
+ */
+export function planFlightUpsert(existing: GuestFlight[], update: GuestFlightUpdate): FlightUpsertPlan {
+  const plan: FlightUpsertPlan = { create: [], update: [], remove: [] };
+  for (const type of FLIGHT_LEG_TYPES) {
+    const leg = update[type];
+    if (leg === undefined) continue;
+    const [current, ...duplicates] = existing.filter((row) => row.type === type);
+    plan.remove.push(...duplicates.map((row) => row.id));
+    if (leg === null) {
+      if (current) plan.remove.push(current.id);
+    } else if (!current) {
+      plan.create.push(leg);
+    } else if (!sameFlight(current, leg)) {
+      plan.update.push({ id: current.id, leg });
+    }
+  }
+  return plan;
+}
+
+/** A guest's legs for one wedding, as the forms pre-fill them. */
+export function flightsByType(flights: GuestFlight[]): Partial<Record<FlightLegType, GuestFlight>> {
+  const byType: Partial<Record<FlightLegType, GuestFlight>> = {};
+  for (const flight of flights) byType[flight.type] ??= flight;
+  return byType;
+}
+
+export interface FlightBoardGuest {
+  guestId: string;
+  name: string;
+  airline: string;
+  flightNumber: string;
+  time?: string;
+}
+
+export interface FlightBoardAirport {
+  /** IATA code, or null for legs entered without one. */
+  airport: string | null;
+  guests: FlightBoardGuest[];
+}
+
+export interface FlightBoardDay {
+  date: string;
+  guests: number;
+  airports: FlightBoardAirport[];
+}
+
+/**
+ * One wedding's arrivals (or departures) by day, then airport, then
+ * scheduled time — the pickup plan. Legs of guests not in `guests` are
+ * dropped, so passing a list without test guests leaves them off the board.
+ */
+export function buildFlightBoard(
+  flights: GuestFlight[],
+  guests: Pick<GuestRecord, 'id' | 'name'>[],
+  type: FlightLegType = 'arrival'
+): FlightBoardDay[] {
+  const names = new Map(guests.map((guest) => [guest.id, guest.name]));
+  const days = new Map<string, Map<string | null, FlightBoardGuest[]>>();
+
+  for (const flight of flights) {
+    const name = names.get(flight.guestId);
+    if (flight.type !== type || name === undefined) continue;
+    let airports = days.get(flight.date);
+    if (!airports) days.set(flight.date, (airports = new Map()));
+    const airport = flight.airport ?? null;
+    let rows = airports.get(airport);
+    if (!rows) airports.set(airport, (rows = []));
+    rows.push({
+      guestId: flight.guestId,
+      name,
+      airline: flight.airline,
+      flightNumber: flight.flightNumber,
+      ...(flight.time ? { time: flight.time } : {}),
+    });
+  }
+
+  return [...days.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, airports]) => {
+      const grouped = [...airports.entries()]
+        // Legs without an airport go last: they still need chasing up.
+        .sort(([a], [b]) => (a === null ? 1 : b === null ? -1 : a.localeCompare(b)))
+        .map(([airport, rows]) => ({
+          airport,
+          guests: rows.sort(
+            (a, b) => (a.time ?? '99:99').localeCompare(b.time ?? '99:99') || a.name.localeCompare(b.name)
+          ),
+        }));
+      return { date, guests: grouped.reduce((sum, group) => sum + group.guests.length, 0), airports: grouped };
+    });
+}
+
+/** The board as a CSV pickup sheet: a row per guest, in board order. */
+export function flightBoardCsv(board: FlightBoardDay[]): string {
+  const lines = [['Date', 'Airport', 'Time', 'Guest', 'Airline', 'Flight']];
+  for (const day of board) {
+    for (const group of day.airports) {
+      for (const guest of group.guests) {
+        lines.push([day.date, group.airport ?? '', guest.time ?? '', guest.name, guest.airline, guest.flightNumber]);
+      }
+    }
+  }
+  return csvSheet(lines);
+}
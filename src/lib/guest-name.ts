@@ -11,6 +11,8 @@
  * deliberately refuses to do.
  */
 
+import { normalize } from './normalize';
+
 /**
  * Split a typed full name into first and last.
  *
@@ -73,10 +75,10 @@ export function guestNameEdit(
  * The `Also Known As` text a renamed guest should carry, or null to leave it be.
  *
  * A rename overwrites the only copy of a guest's name. That is exactly right for
- * an unnamed plus-one — "<host> +1" is a slot, not a name — but not for someone
- * who simply typed what they go by: shortening "Matthew" to "Matt" on the RSVP
- * form would otherwise discard the formal name their invitation was addressed
- * with, and stop them logging in as it.
+ * an unnamed plus-one — "<host> +1" or "Guest" is a slot, not a name — but not
+ * for someone who simply typed what they go by: shortening "Matthew" to "Matt"
+ * on the RSVP form would otherwise discard the formal name their invitation was
+ * addressed with, and stop them logging in as it.
  *
  * Keeping the previous name here preserves both. `Also Known As` is read by
  * envelope login (src/lib/envelope-name.ts), so the old name keeps working, and
@@ -90,7 +92,7 @@ export function preserveFormerName(
   if (!previous) return null;
 
   // An unnamed plus-one placeholder is not a name worth keeping.
-  if (/\+\s*1$/.test(previous)) return null;
+  if (isPlusOnePlaceholder(previous)) return null;
 
   const lines = (existingAka ?? []).map((line) => line.trim()).filter(Boolean);
   const already = lines.some(
@@ -100,3 +102,89 @@ export function preserveFormerName(
 
   return [...lines, previous].join('\n');
 }
+
+/**
+ * An unnamed plus-one: a `+1` row still carrying its placeholder name —
+ * "<host> +1", or the bare "Guest" older rows were created with. The RSVP form
+ * asks the host to name them; once named they are an ordinary party member.
+ */
+export function isUnnamedPlusOne(member: { name: string; isPlusOne: boolean }): boolean {
+  return member.isPlusOne && isPlusOnePlaceholder(member.name);
+}
+
+/** A plus-one's placeholder name: blank, "<host> +1" or "Guest". */
+function isPlusOnePlaceholder(name: string): boolean {
+  const trimmed = name.trim();
+  return !trimmed || /\+\s*1$/.test(trimmed) || /^guest$/i.test(trimmed);
+}
+
+/**
+ * Whether `typedName` is still recognisably the person called `storedName` (or
+ * one of their `Also Known As` names): a spelling or accent fix, a shortened
+ * given name ("Matthew" → "Matt"), a married surname — anything that keeps at
+ * least one name in common. Accents and case are folded; a given name counts
+ * as kept when one is a prefix of the other.
+ */
+export function isSameIdentity(
+  storedName: string,
+  typedName: string,
+  aka: string[] = []
+): boolean {
+  const tokens = (value: string) => normalize(value).split(' ').filter(Boolean);
+  const typed = tokens(typedName);
+  return [storedName, ...aka].some((known) =>
+    tokens(known).some((knownToken) =>
+      typed.some(
+        (typedToken) =>
+          typedToken === knownToken ||
+          (Math.min(typedToken.length, knownToken.length) >= 3 &&
+            (typedToken.startsWith(knownToken) || knownToken.startsWith(typedToken)))
+      )
+    )
+  );
+}
+
+/**
+ * Why a submission's names may not be persisted, or null when they may.
+ *
+ * Name edits let a guest correct anyone in their party and name their
+ * plus-one, but not change who they are: the logged-in guest's own row only
+ * accepts corrections (`isSameIdentity`), and no edit may give a member a name
+ * another party member holds, before or after the submission — which is how a
+ * host would otherwise hand their own identity to the plus-one slot, or swap
+ * names with their partner.
+ *
+ * `typedNames` is the submitted name per guest ID; members without one keep
+ * their stored name.
+ */
+export function nameEditViolation(
+  party: { id: string; name: string; isPlusOne: boolean; aka?: string[] }[],
+  typedNames: Map<string, string>,
+  submitterId: string
+): { guestId: string; reason: 'self' | 'duplicate' } | null {
+  const finalNames = new Map(
+    party.map((member) => {
+      const edit = guestNameEdit(member.name, typedNames.get(member.id));
+      return [member.id, { edited: edit !== null, name: normalize(edit ? edit.title : member.name) }];
+    })
+  );
+
+  for (const member of party) {
+    const final = finalNames.get(member.id)!;
+    if (!final.edited) continue;
+    if (
+      member.id === submitterId &&
+      !isUnnamedPlusOne(member) &&
+      !isSameIdentity(member.name, typedNames.get(member.id)!, member.aka)
+    ) {
+      return { guestId: member.id, reason: 'self' };
+    }
+    const clash = party.some(
+      (other) =>
+        other.id !== member.id &&
+        (finalNames.get(other.id)!.name === final.name || normalize(other.name) === final.name)
+    );
+    if (clash) return { guestId: member.id, reason: 'duplicate' };
+  }
+  return null;
+}
@@ -0,0 +1,61 @@
+/**
+ * The logged-in guest, for the guest-facing API endpoints (/api/rsvp,
+ * /api/rsvp-draft, /api/flights, /api/calendar-reminders).
+ *
+ * A session cookie is signed, but it names the guest as of login. Each request
+ * binds it to the live Guest List record: the cookie's display name must still
+ * match the record it points at, which rejects a forged notionId carrying
+ * someone else's name. With `event`, the live record must also be invited to
+ * it — never the cookie's own copy of the invitations, which can be stale.
+ */
+
+import type { GuestRecord } from '../types';
+import { AUTH_COOKIE_NAME, getAuthenticatedGuest } from './auth';
+import { getGuestById } from './data-store';
+import { json } from './json-response';
+import { normalize } from './normalize';
+
+export type SessionCookies = Parameters<typeof getAuthenticatedGuest>[0];
+
+export interface SessionGuest {
+  auth: NonNullable<ReturnType<typeof getAuthenticatedGuest>>;
+  guestId: string;
+  record: GuestRecord;
+}
+
+/**
+ * The session's guest, or the error response to return. `purpose` names the
+ * feature in the 400 sent when the login did not come from the data store
+ * ("Notion backend required for flights").
+ */
+export async function loadSessionGuest(
+  cookies: SessionCookies,
+  options: { purpose: string; event?: 'nyc' | 'france' }
+): Promise<SessionGuest | { error: Response }> {
+  if (!cookies.get(AUTH_COOKIE_NAME)) {
+    return { error: json(401, { error: 'Unauthorized' }) };
+  }
+  const auth = getAuthenticatedGuest(cookies);
+  if (!auth) return { error: json(401, { error: 'Invalid session' }) };
+
+  const guestId = auth.notionId;
+  if (!guestId) {
+    return { error: json(400, { error: `Notion backend required for ${options.purpose}` }) };
+  }
+
+  let record: GuestRecord | null;
+  try {
+    record = await getGuestById(guestId);
+  } catch (error) {
+    console.error('Session Notion bind failed:', error);
+    return { error: json(500, { error: 'Failed to verify session' }) };
+  }
+  if (!record || normalize(auth.guest) !== record.normalizedName) {
+    return { error: json(401, { error: 'Invalid session' }) };
+  }
+  if (options.event && !record.eventInvitations.includes(options.event)) {
+    return { error: json(403, { error: 'Forbidden for this event' }) };
+  }
+
+  return { auth, guestId, record };
+}
@@ -0,0 +1,213 @@
+/**
+ * Hotel room blocks: the couple's negotiated-rate allotments, listed on the
+ * NYC and France travel pages.
+ *
+ * Blocks live in the Notion `Hotel Blocks` database (local fixture:
+ * fixtures/wedding-data/hotel-blocks.json), read through the data store. The
+ * travel pages used to hardcode each hotel and hide it with a build-time
+ * sold-out flag, so closing a block meant a redeploy. Here the state is worked
+ * out per request from the row itself:
+ *
+ *  - sold-out: `Rooms Claimed` has reached `Rooms Held`;
+ *  - closed:   the `Cutoff` date has passed in the wedding's time zone;
+ *  - open:     otherwise — the booking link is shown.
+ *
+ * Guests report which block they booked on the RSVP form (`details.hotelBooked`);
+ * summarizeBlockPickup sets those reports beside the hotel's own numbers for
+ * GET /api/admin/hotel-blocks.
+ *
+ * Until NOTION_HOTEL_BLOCKS_DB is set, the Notion store serves
+ * DEFAULT_HOTEL_BLOCKS — the three NYC hotels the travel page listed before
+ * the database existed — with no room counts or cutoffs, so they stay open.
+ */
+
+import type { HotelBlock, RSVPResponse } from '../types';
+import type { Lang } from '../content/strings';
+import { getAttendingNames } from './rsvp-display';
+
+export type HotelBlockState = 'open' | 'sold-out' | 'closed';
+
+/** `details.hotelBooked` values that are not a block ID. */
+export const HOTEL_BOOKED_ELSEWHERE = 'elsewhere';
+export const HOTEL_BOOKED_NOT_YET = 'not-yet';
+
+const NYC_BLOCK_DATES = { checkIn: '2026-10-10', checkOut: '2026-10-12' } as const;
+
+export const DEFAULT_HOTEL_BLOCKS: readonly HotelBlock[] = [
+  {
+    id: 'default-hotel-nyc-wythe',
+    wedding: 'nyc',
+    name: 'Wythe Hotel',
+    address: '80 Wythe Avenue, Brooklyn, NY 11249',
+    mapUrl: 'https://maps.app.goo.gl/kYLuYNuMUKNwkGRQA',
+    blurb: 'The hotel that hosts our venue at',
+    blurbFr: "L'hôtel où se déroule notre célébration, au",
+    ...NYC_BLOCK_DATES,
+    bookingUrl:
+      'https://app.mews.com/distributor/6b87e134-8c75-468a-82d4-aca900c43c70?mewsAvailabilityBlockId=81019661-425a-4bba-a1ff-b3fc0120bbfc&mewsStart=2026-10-10&mewsEnd=2026-10-12',
+    sortOrder: 1,
+  },
+  {
+    id: 'default-hotel-nyc-arlo',
+    wedding: 'nyc',
+    name: 'Arlo Williamsburg',
+    address: '96 Wythe Avenue, Brooklyn',
+    mapUrl: 'https://maps.app.goo.gl/d65Gn17JYfJHy4hB6',
+    blurb: 'Just down the street from the Wythe at',
+    blurbFr: 'À quelques pas du Wythe Hotel, au',
+    ...NYC_BLOCK_DATES,
+    bookingUrl:
+      'https://be.synxis.com/?Hotel=41850&Chain=19470&arrive=2026-10-10&depart=2026-10-12&adult=1&child=0&group=261010ANCE',
+    sortOrder: 2,
+  },
+  {
+    id: 'default-hotel-nyc-seville',
+    wedding: 'nyc',
+    name: 'Hotel Seville NoMad',
+    address: '22 E 29th St, New York, NY',
+    mapUrl: 'https://maps.app.goo.gl/XtUmtf1KYhEVdCjt7',
+    blurb: "Located in Manhattan's NoMad neighborhood at",
+    blurbFr: 'Situé dans le quartier de NoMad, à Manhattan, au',
+    ...NYC_BLOCK_DATES,
+    bookingUrl: 'https://www.hyatt.com/events/en-US/group-booking/NYCUD/G-MBO0',
+    sortOrder: 3,
+  },
+];
+
+/** The default blocks for `wedding`, in travel-page order. */
+export function defaultHotelBlocks(wedding: 'nyc' | 'france'): HotelBlock[] {
+  return sortHotelBlocks(DEFAULT_HOTEL_BLOCKS.filter((block) => block.wedding === wedding));
+}
+
+/** Cutoffs are dates, so "passed" depends on where the hotel is. */
+const WEDDING_TIME_ZONE = {
+  nyc: 'America/New_York',
+  france: 'Europe/Paris',
+} as const;
+
+function dateInTimeZone(now: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(now);
+}
+
+/** Rooms still available in the block, or null when the hotel gave no count. */
+export function roomsRemaining(block: HotelBlock): number | null {
+  if (block.roomsHeld === undefined) return null;
+  return Math.max(0, block.roomsHeld - (block.roomsClaimed ?? 0));
+}
+
+/**
+ * A block's state at `now`. Sold out wins over closed: once every room is
+ * gone, the cutoff no longer matters to a guest.
+ */
+export function hotelBlockState(block: HotelBlock, now = new Date()): HotelBlockState {
+  if (roomsRemaining(block) === 0) return 'sold-out';
+  if (block.cutoffDate && dateInTimeZone(now, WEDDING_TIME_ZONE[block.wedding]) > block.cutoffDate) {
+    return 'closed';
+  }
+  return 'open';
+}
+
+/** Travel-page order: `Sort` ascending, then name. */
+export function sortHotelBlocks(blocks: HotelBlock[]): HotelBlock[] {
+  return [...blocks].sort(
+    (a, b) =>
+      (a.sortOrder ?? Number.MAX_SAFE_INTEGER) - (b.sortOrder ?? Number.MAX_SAFE_INTEGER) ||
+      a.name.localeCompare(b.name)
+  );
+}
+
+/** The block's introduction in `lang`, falling back to English. */
+export function hotelBlurb(block: HotelBlock, lang: Lang): string | undefined {
+  return lang === 'fr' ? block.blurbFr || block.blurb : block.blurb;
+}
+
+/** Is `value` an answer the RSVP form may send as `details.hotelBooked`? */
+export function isValidHotelBooked(value: unknown, blocks: HotelBlock[]): boolean {
+  if (typeof value !== 'string') return false;
+  return (
+    value === HOTEL_BOOKED_ELSEWHERE ||
+    value === HOTEL_BOOKED_NOT_YET ||
+    blocks.some((block) => block.id === value)
+  );
+}
+
+export interface BlockPickup {
+  id: string;
+  name: string;
+  state: HotelBlockState;
+  cutoffDate: string | null;
+  roomsHeld: number | null;
+  roomsClaimed: number | null;
+  roomsRemaining: number | null;
+  /** Parties whose latest RSVP says they booked this block. */
+  reportedParties: number;
+  /** Attending guests in those parties. */
+  reportedGuests: number;
+}
+
+export interface PickupSummary {
+  blocks: BlockPickup[];
+  /** Parties that booked outside the blocks, or have not booked yet. */
+  elsewhere: number;
+  notYet: number;
+  /** Attending parties that have not answered the question. */
+  unanswered: number;
+}
+
+/** Attending members of a response: recorded attendance, else the name list. */
+function attendingCount(response: RSVPResponse): number {
+  if (response.attendanceById) {
+    return Object.values(response.attendanceById).filter(Boolean).length;
+  }
+  return getAttendingNames(response).size;
+}
+
+/**
+ * Self-reported block pickup for one wedding. `responses` is each party's
+ * latest response for the wedding (one per row — not one per guest).
+ */
+export function summarizeBlockPickup(
+  blocks: HotelBlock[],
+  responses: RSVPResponse[],
+  now = new Date()
+): PickupSummary {
+  const summary: PickupSummary = {
+    blocks: sortHotelBlocks(blocks).map((block) => ({
+      id: block.id,
+      name: block.name,
+      state: hotelBlockState(block, now),
+      cutoffDate: block.cutoffDate ?? null,
+      roomsHeld: block.roomsHeld ?? null,
+      roomsClaimed: block.roomsClaimed ?? null,
+      roomsRemaining: roomsRemaining(block),
+      reportedParties: 0,
+      reportedGuests: 0,
+    })),
+    elsewhere: 0,
+    notYet: 0,
+    unanswered: 0,
+  };
+
+  for (const response of responses) {
+    if (response.status === 'Declined') continue;
+    const booked = response.details?.hotelBooked;
+    const block = summary.blocks.find((candidate) => candidate.id === booked);
+    if (block) {
+      block.reportedParties++;
+      block.reportedGuests += attendingCount(response);
+    } else if (booked === HOTEL_BOOKED_ELSEWHERE) {
+      summary.elsewhere++;
+    } else if (booked === HOTEL_BOOKED_NOT_YET) {
+      summary.notYet++;
+    } else {
+      summary.unanswered++;
+    }
+  }
+
+  return summary;
+}
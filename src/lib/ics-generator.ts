@@ -1,10 +1,50 @@
-import { getAttendingEvents, getGuestById, fetchAllGuests, fetchAllLatestRSVPs, getEventCatalog } from './notion';
+import {
+  getAttendingEvents,
+  getGuestById,
+  getLatestRSVP,
+  fetchAllGuests,
+  fetchAllLatestRSVPs,
+  getEventCatalog,
+} from './data-store';
 import { memberAttendedResponse } from './rsvp-attendance';
-import { buildICS } from './calendar';
-import { setICS } from './ics-store';
+import { buildICS, type EventWithDate } from './calendar';
+import {
+  reviseCalendar,
+  scheduleUpdatedEmail,
+  scheduleUpdateEmailsEnabled,
+  type EventChange,
+} from './calendar-revisions';
+import { sendToGuests, withRecipient } from './email';
+import { shuttleEventsForGuest } from './shuttles';
+import { allocateEventSeats, latestEventResponses, limitedEvents, withoutWaitlisted } from './event-capacity';
+import { settleEventWaitlists, settledWaitlist } from './event-waitlists';
+import { getCalendarRevisions, setCalendarRevisions, setICS } from './ics-store';
+import { reminderOptOuts, remindersEnabled } from './calendar-preferences';
 import { getDefaultLocale } from './locale-routing';
 import { excludeTestGuests, isTestGuest } from './test-guests';
 import type { EventRecord, RSVPResponse } from '../types';
+import type { Lang } from '../content/strings';
+
+/**
+ * Build and store a guest's feed, revised against their previous build
+ * (src/lib/calendar-revisions.ts) so changed events carry a higher SEQUENCE
+ * and dropped ones are cancelled. Returns the ICS and what changed.
+ */
+async function storeGuestCalendar(
+  guestId: string,
+  events: EventWithDate[],
+  lang: Lang,
+  reminders: boolean
+): Promise<{ ics: string; changes: EventChange[] }> {
+  const previous = await getCalendarRevisions(guestId);
+  const { revisions, changes } = reviseCalendar(previous, events);
+  const ics = buildICS(events, lang, { reminders, revisions });
+  await setICS(guestId, ics);
+  if (JSON.stringify(revisions) !== JSON.stringify(previous)) {
+    await setCalendarRevisions(guestId, revisions);
+  }
+  return { ics, changes };
+}
 
 /**
  * Generate and store an ICS file for a single guest. Returns the ICS content
@@ -12,11 +52,15 @@ import type { EventRecord, RSVPResponse } from '../types';
  * serve it without a second blob read.
  *
  * The calendar contains only the events the guest has RSVP'd to attend
- * (latest non-declined response per wedding) — never the full invitation.
+ * (latest non-declined response per wedding) — never the full invitation —
+ * plus the shuttle legs they hold a seat on (src/lib/shuttles.ts), less the
+ * limited events the party is waitlisted for in the allocation last settled
+ * (src/lib/event-waitlists.ts) — callers that write an answer settle first.
  * Guests who have not RSVP'd get a valid empty calendar.
  * The calendar language follows the guest's locale (Country → locale rule,
  * same as the login default) since subscription feeds are polled without a
- * session.
+ * session. Reminders are left out for guests who opted out of them
+ * (src/lib/calendar-preferences.ts).
  * Used by the RSVP trigger, which passes the response it just wrote as
  * `justSubmitted` — Notion's query index can lag a fresh write, so
  * re-querying immediately after submit can regenerate the calendar from the
@@ -26,15 +70,50 @@ export async function generateAndStoreICSForGuest(
   guestId: string,
   justSubmitted?: RSVPResponse
 ): Promise<string> {
-  const [events, guest] = await Promise.all([
+  const [events, guest, reminders] = await Promise.all([
     getAttendingEvents(guestId, justSubmitted),
     getGuestById(guestId),
+    // A preferences outage keeps the default rather than failing the feed.
+    remindersEnabled(guestId).catch((err) => {
+      console.error(`[ics] Failed to read reminder preference for guest ${guestId}:`, err);
+      return true;
+    }),
   ]);
-  const ics = buildICS(events, getDefaultLocale(guest?.country));
-  await setICS(guestId, ics);
+  const waitlisted = await waitlistedEvents(guestId, events);
+  let shuttles: EventRecord[] = [];
+  if (guest?.eventInvitations.includes('france')) {
+    const france =
+      justSubmitted?.event === 'france' ? justSubmitted : await getLatestRSVP(guestId, 'france');
+    if (france && memberAttendedResponse(france, guest)) {
+      shuttles = shuttleEventsForGuest(france, guestId);
+    }
+  }
+  const { ics } = await storeGuestCalendar(
+    guestId,
+    [...events.filter((event) => !waitlisted.has(event.id)), ...shuttles],
+    getDefaultLocale(guest?.country),
+    reminders
+  );
   return ics;
 }
 
+/**
+ * The limited events among `events` that the guest's party is waitlisted
+ * for. A store outage keeps them on the calendar — the next full refresh,
+ * which allocates from every response, takes them off.
+ */
+async function waitlistedEvents(guestId: string, events: EventRecord[]): Promise<Set<string>> {
+  const limited = limitedEvents(events);
+  if (limited.length === 0) return new Set();
+  try {
+    const waitlist = await settledWaitlist(guestId, [...new Set(limited.map((event) => event.wedding))]);
+    return new Set(limited.filter((event) => waitlist.has(event.id)).map((event) => event.id));
+  } catch (err) {
+    console.error(`[ics] Failed to read the settled waitlist for guest ${guestId}:`, err);
+    return new Set();
+  }
+}
+
 /**
  * Full refresh: regenerate ICS for all guests.
  * Used by scheduled functions.
@@ -43,20 +122,32 @@ export async function generateAndStoreICSForGuest(
  * - fetchAllGuests(): 2–3 paginated queries
  * - getEventCatalog('nyc') + getEventCatalog('france'): 2–4 queries
  * - fetchAllLatestRSVPs(): 1+ paginated queries over the RSVP Responses DB
- * - No per-guest Notion calls
+ * - No per-guest Notion calls (reminder opt-outs are one Blobs listing)
  *
- * Returns a summary { total, succeeded, failed }.
+ * Returns a summary { total, succeeded, failed, updated, notified }: the
+ * guests whose calendars changed since their last build, and how many of
+ * them were emailed the changes (with SCHEDULE_UPDATE_EMAILS=true).
  */
-export async function refreshAllICS(): Promise<{ total: number; succeeded: number; failed: number }> {
+export async function refreshAllICS(): Promise<{
+  total: number;
+  succeeded: number;
+  failed: number;
+  updated: number;
+  notified: number;
+}> {
   // 1. Fetch all guests — always cold in a Netlify Function invocation
   const guests = await fetchAllGuests();
   const productionGuests = excludeTestGuests(guests);
 
   // 2. Fetch event catalog for both weddings + latest RSVP per guest/event
-  const [nycEvents, franceEvents, latestRSVPs] = await Promise.all([
+  const [nycEvents, franceEvents, latestRSVPs, optedOut] = await Promise.all([
     getEventCatalog('nyc'),
     getEventCatalog('france'),
     fetchAllLatestRSVPs(),
+    reminderOptOuts().catch((err) => {
+      console.error('[ics-refresh] Failed to list reminder opt-outs:', err);
+      return new Set<string>();
+    }),
   ]);
 
   // 3. Build event lookup map: eventId → EventRecord (date already populated)
@@ -65,33 +156,77 @@ export async function refreshAllICS(): Promise<{ total: number; succeeded: numbe
     eventMap.set(event.id, event);
   }
 
+  // Optional events a party is waitlisted for (src/lib/event-capacity.ts)
+  // stay off its calendar until a place opens up.
+  const seatAllocations = allocateEventSeats(
+    [
+      ...latestEventResponses(guests, latestRSVPs, 'nyc'),
+      ...latestEventResponses(guests, latestRSVPs, 'france'),
+    ],
+    [...nycEvents, ...franceEvents]
+  );
+
+  // Parties promoted or demoted since the last settle — by an answer recorded
+  // outside the site, or a new Capacity in the Event Catalog — are told here
+  // (src/lib/event-waitlists.ts). Their calendars are rebuilt below anyway.
+  for (const [wedding, events] of [['nyc', nycEvents], ['france', franceEvents]] as const) {
+    try {
+      await settleEventWaitlists(wedding, {
+        guests,
+        responses: latestEventResponses(guests, latestRSVPs, wedding),
+        events,
+      });
+    } catch (err) {
+      console.error(`[ics-refresh] Waitlist settle for ${wedding} failed:`, err);
+    }
+  }
+
   // 4. Generate and store ICS for every guest (sequential to avoid overwhelming Blobs)
   let succeeded = 0;
   let failed = 0;
+  const updates: { email?: string; name: string; changes: EventChange[] }[] = [];
 
   for (const guest of guests) {
     try {
-      const attendingIds = new Set(
-        (latestRSVPs.get(guest.id) ?? [])
-          // Recorded attendance, then Status, then names — see
-          // src/lib/rsvp-attendance.ts. Name-only matching emptied the calendar
-          // of any guest whose stored name had drifted from their response.
-          .filter((rsvp) => memberAttendedResponse(rsvp, guest))
-          .flatMap((rsvp) => rsvp.eventsAttending ?? [])
-      );
+      // Recorded attendance, then Status, then names — see
+      // src/lib/rsvp-attendance.ts. Name-only matching emptied the calendar
+      // of any guest whose stored name had drifted from their response.
+      const attended = (latestRSVPs.get(guest.id) ?? [])
+        .filter((rsvp) => memberAttendedResponse(rsvp, guest))
+        .map((rsvp) => withoutWaitlisted(rsvp, seatAllocations));
+      const attendingIds = new Set(attended.flatMap((rsvp) => rsvp.eventsAttending ?? []));
 
       const guestEvents: EventRecord[] = Array.from(attendingIds)
         .map((id) => eventMap.get(id))
         .filter((e): e is EventRecord => e !== undefined);
+      for (const rsvp of attended) {
+        if (rsvp.event === 'france') guestEvents.push(...shuttleEventsForGuest(rsvp, guest.id));
+      }
 
-      const ics = buildICS(guestEvents, getDefaultLocale(guest.country));
-      await setICS(guest.id, ics);
-      if (!isTestGuest(guest)) succeeded++;
+      const { changes } = await storeGuestCalendar(
+        guest.id,
+        guestEvents,
+        getDefaultLocale(guest.country),
+        !optedOut.has(guest.id)
+      );
+      if (!isTestGuest(guest)) {
+        succeeded++;
+        if (changes.length > 0) updates.push({ email: guest.email, name: guest.name, changes });
+      }
     } catch (err) {
       console.error(`[ics-refresh] Failed for guest ${guest.id}:`, err);
       if (!isTestGuest(guest)) failed++;
     }
   }
 
-  return { total: productionGuests.length, succeeded, failed };
+  // 5. Optionally tell each guest with an email what changed on their calendar
+  let notified = 0;
+  if (scheduleUpdateEmailsEnabled()) {
+    const recipients = updates.filter((update): update is typeof update & { email: string } => !!update.email);
+    ({ sent: notified } = await sendToGuests(recipients, (recipient) =>
+      withRecipient(recipient, scheduleUpdatedEmail(recipient.name, recipient.changes))
+    ));
+  }
+
+  return { total: productionGuests.length, succeeded, failed, updated: updates.length, notified };
 }
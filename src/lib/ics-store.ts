@@ -1,20 +1,9 @@
-import { getStore } from '@netlify/blobs';
+import { blobStore } from './blob-store';
+import type { CalendarRevisions } from './calendar-revisions';
 
 const STORE_NAME = 'ics';
-
-// In-memory store used when CALENDAR_TEST_MODE=true.
-// Module-level so it persists across requests within a single server process.
-const _testStore = new Map<string, string>();
-
-function store() {
-  if (process.env.CALENDAR_TEST_MODE === 'true') {
-    return {
-      get: async (key: string, _opts?: unknown) => _testStore.get(key) ?? null,
-      set: async (key: string, value: string) => { _testStore.set(key, value); },
-    };
-  }
-  return getStore(STORE_NAME);
-}
+/** Per-guest revision state (src/lib/calendar-revisions.ts), beside the ICS. */
+const REVISIONS_PREFIX = 'revisions/';
 
 /**
  * Read a stored ICS file for a guest.
@@ -22,7 +11,7 @@ function store() {
  * Throws if the blob store is unreachable.
  */
 export async function getICS(guestId: string): Promise<string | null> {
-  const result = await store().get(guestId, { type: 'text' });
+  const result = await blobStore(STORE_NAME).get(guestId);
   return result ?? null;
 }
 
@@ -30,7 +19,29 @@ export async function getICS(guestId: string): Promise<string | null> {
  * Write an ICS file for a guest.
  */
 export async function setICS(guestId: string, content: string): Promise<void> {
-  await store().set(guestId, content);
+  await blobStore(STORE_NAME).set(guestId, content);
+}
+
+/**
+ * Read a guest's calendar revisions; null before their first tracked build.
+ */
+export async function getCalendarRevisions(guestId: string): Promise<CalendarRevisions | null> {
+  const raw = await blobStore(STORE_NAME).get(`${REVISIONS_PREFIX}${guestId}`);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as CalendarRevisions;
+  } catch (err) {
+    // Unreadable state restarts tracking from a fresh baseline.
+    console.error(`[ics] Unreadable calendar revisions for guest ${guestId}:`, err);
+    return null;
+  }
+}
+
+/**
+ * Write a guest's calendar revisions.
+ */
+export async function setCalendarRevisions(guestId: string, revisions: CalendarRevisions): Promise<void> {
+  await blobStore(STORE_NAME).set(`${REVISIONS_PREFIX}${guestId}`, JSON.stringify(revisions));
 }
 
 /**
@@ -40,7 +51,7 @@ export async function setICS(guestId: string, content: string): Promise<void> {
  */
 export async function checkBlobStoreHealth(): Promise<boolean> {
   try {
-    await store().get('__health_probe__', { type: 'text' });
+    await blobStore(STORE_NAME).get('__health_probe__');
     return true;
   } catch {
     return false;
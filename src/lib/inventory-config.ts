@@ -0,0 +1,82 @@
+/**
+ * Runtime overrides for the France inventory: the Village's room types
+ * (src/lib/accommodation.ts) and the chartered shuttle legs
+ * (src/lib/shuttles.ts).
+ *
+ * The defaults live in code. An env var holds JSON keyed by ID with only the
+ * fields to change — FRANCE_ROOM_INVENTORY={"village":{"rooms":12}} — so a
+ * number confirmed by the Village or the coach operator is a settings change
+ * rather than a code change. An unknown ID or field, or a value of the wrong
+ * shape, is ignored with a warning and the default kept, as the calendar
+ * refresh lead times are (src/lib/refresh-schedule.ts).
+ */
+
+/** Whether an override value has the right shape for its field. */
+export type FieldCheck = (value: unknown) => boolean;
+
+export const wholeNumber: FieldCheck = (value) => Number.isInteger(value) && (value as number) >= 0;
+export const positiveWholeNumber: FieldCheck = (value) => Number.isInteger(value) && (value as number) > 0;
+export const isoDate: FieldCheck = (value) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+export const text: FieldCheck = (value) => typeof value === 'string' && value.trim().length > 0;
+
+// Parsed once per env value, so a bad setting warns once rather than per request.
+const parsed = new Map<string, { raw: string; items: unknown[] }>();
+
+/** `defaults` with the overrides in `process.env[envName]` applied. */
+export function withInventoryOverrides<T extends { id: string }>(
+  defaults: readonly T[],
+  envName: string,
+  fields: Partial<Record<keyof T, FieldCheck>>
+): T[] {
+  const raw = process.env[envName];
+  if (raw === undefined || raw.trim() === '') return [...defaults];
+  const cached = parsed.get(envName);
+  if (cached?.raw === raw) return cached.items as T[];
+
+  const items = applyOverrides(defaults, envName, raw, fields);
+  parsed.set(envName, { raw, items });
+  return items;
+}
+
+function applyOverrides<T extends { id: string }>(
+  defaults: readonly T[],
+  envName: string,
+  raw: string,
+  fields: Partial<Record<keyof T, FieldCheck>>
+): T[] {
+  let overrides: unknown;
+  try {
+    overrides = JSON.parse(raw);
+  } catch {
+    console.warn(`[inventory] Ignoring ${envName} — not valid JSON`);
+    return [...defaults];
+  }
+  if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+    console.warn(`[inventory] Ignoring ${envName} — expected an object keyed by ID`);
+    return [...defaults];
+  }
+
+  const byId = overrides as Record<string, unknown>;
+  for (const id of Object.keys(byId)) {
+    if (!defaults.some((item) => item.id === id)) console.warn(`[inventory] ${envName}: unknown ID "${id}"`);
+  }
+
+  return defaults.map((item) => {
+    const changes = byId[item.id];
+    if (changes === undefined) return item;
+    if (!changes || typeof changes !== 'object' || Array.isArray(changes)) {
+      console.warn(`[inventory] ${envName}: ignoring "${item.id}" — expected an object`);
+      return item;
+    }
+    const next = { ...item };
+    for (const [field, value] of Object.entries(changes)) {
+      const check = fields[field as keyof T];
+      if (!check || !check(value)) {
+        console.warn(`[inventory] ${envName}: ignoring ${item.id}.${field}=${JSON.stringify(value)}`);
+        continue;
+      }
+      (next as Record<string, unknown>)[field] = value;
+    }
+    return next;
+  });
+}
@@ -0,0 +1,474 @@
+/**
+ * File-backed WeddingDataStore (see src/lib/data-store.ts): JSON fixtures
+ * standing in for the Notion Guest List, Event Catalog and RSVP Responses
+ * databases, so RSVP, calendar and email flows run without Notion keys.
+ *
+ * Fixtures are read from `WEDDING_DATA_DIR` when set, falling back file by
+ * file to the committed seed in fixtures/wedding-data/:
+ *
+ *   guest-list.json        GuestRecord rows (`normalizedName` is derived)
+ *   event-catalog.json     EventRecord rows for both weddings
+ *   rsvp-responses.json    stored responses, one per party + event
+ *   wedding-timeline.json  Wedding Timeline day ID → YYYY-MM-DD
+ *   hotel-blocks.json      HotelBlock rows for both weddings
+ *   guest-flights.json     GuestFlight rows (arrival/departure legs)
+ *
+ * Writes (RSVPs, name edits, emails, invite status, flights) persist back to
+ * `WEDDING_DATA_DIR` when it is set, so a dev server keeps its state across
+ * restarts. Without it they live in memory for the life of the process — the
+ * committed seed is never modified, and every Playwright server starts from
+ * the same data.
+ *
+ * Every decision about what a submission *means* (status, per-member
+ * attendance, split households, name write-back) goes through the same pure
+ * helpers the Notion backend uses. Only the storage differs: there is no query
+ * index lag, no cache tier, and no Guest List reporting columns (`RSVP`,
+ * `Events Attending`, `Last RSVP`, `Dietary Needs`), which nothing in the app
+ * reads back.
+ *
+ * Never put real guest names in these fixtures — see docs/test-guests.md.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import type {
+  GuestRecord,
+  EventRecord,
+  RSVPSubmission,
+  RSVPResponse,
+  RSVPDetails,
+  HotelBlock,
+  GuestFlight,
+} from '../types';
+import type { WeddingDataStore } from './data-store';
+import { normalize } from './normalize';
+import { parseTime } from './calendar';
+import { isTestGuest } from './test-guests';
+import { findMatchingHousehold } from './envelope-name';
+import { matchGuestsFromRecords } from './auth';
+import { guestNameEdit, preserveFormerName } from './guest-name';
+import { strandedGuestIds, planDetachedResponse } from './rsvp-split';
+import { memberAttendedResponse } from './rsvp-attendance';
+import { submissionStatus, submissionAttendeeNames, submittedAttendance } from './rsvp-submission';
+import { recordRSVPRevision, type RSVPRevisionSource } from './rsvp-history';
+import { scopeInvitedEvents } from './event-invitations';
+import { sortHotelBlocks } from './hotel-blocks';
+import { planFlightUpsert } from './flights';
+
+/** Committed seed data, relative to the project root. */
+const SEED_DATA_DIR = 'fixtures/wedding-data';
+
+const GUEST_LIST_FILE = 'guest-list.json';
+const EVENT_CATALOG_FILE = 'event-catalog.json';
+const RSVP_RESPONSES_FILE = 'rsvp-responses.json';
+const WEDDING_TIMELINE_FILE = 'wedding-timeline.json';
+const HOTEL_BLOCKS_FILE = 'hotel-blocks.json';
+const GUEST_FLIGHTS_FILE = 'guest-flights.json';
+
+/** A guest-list.json row. `normalizedName` is always derived from `name`. */
+export type LocalGuestRow = Omit<GuestRecord, 'normalizedName'> & { normalizedName?: string };
+
+/**
+ * An rsvp-responses.json row. `guestId` is whichever member a lookup was made
+ * for, so it is filled in on read rather than stored.
+ */
+export type LocalRSVPRow = Omit<RSVPResponse, 'guestId'>;
+
+interface LocalData {
+  /** Directory writes persist to, or null for in-memory only. */
+  writeDir: string | null;
+  guests: GuestRecord[];
+  events: EventRecord[];
+  rsvps: LocalRSVPRow[];
+  days: Record<string, string>;
+  hotelBlocks: HotelBlock[];
+  flights: GuestFlight[];
+}
+
+let loaded: { key: string; data: LocalData } | null = null;
+
+/**
+ * Read one fixture file: from `WEDDING_DATA_DIR` if it has it, else from the
+ * committed seed. A malformed file throws — silently starting from an empty
+ * guest list would look like "nobody can log in" instead of a bad edit.
+ */
+function readFixture<T>(dataDir: string | null, file: string, fallback: T): T {
+  const candidates = [
+    ...(dataDir ? [path.resolve(process.cwd(), dataDir, file)] : []),
+    path.resolve(process.cwd(), SEED_DATA_DIR, file),
+  ];
+  for (const candidate of candidates) {
+    if (!fs.existsSync(candidate)) continue;
+    try {
+      return JSON.parse(fs.readFileSync(candidate, 'utf8')) as T;
+    } catch (err) {
+      throw new Error(`Local data store: ${candidate} is not valid JSON (${String(err)})`);
+    }
+  }
+  return fallback;
+}
+
+function toGuestRecord(row: LocalGuestRow): GuestRecord {
+  const normalizedName = normalize(row.name);
+  return {
+    ...row,
+    normalizedName,
+    eventInvitations: row.eventInvitations ?? [],
+    relatedGuestIds: row.relatedGuestIds ?? [],
+    isPlusOne: row.isPlusOne === true,
+    isTestGuest: row.isTestGuest === true || isTestGuest({ normalizedName }),
+  };
+}
+
+function loadData(): LocalData {
+  const dataDir = process.env.WEDDING_DATA_DIR?.trim() || null;
+  const key = dataDir ?? '';
+  if (loaded && loaded.key === key) return loaded.data;
+
+  const data: LocalData = {
+    writeDir: dataDir ? path.resolve(process.cwd(), dataDir) : null,
+    guests: readFixture<LocalGuestRow[]>(dataDir, GUEST_LIST_FILE, []).map(toGuestRecord),
+    events: readFixture<EventRecord[]>(dataDir, EVENT_CATALOG_FILE, []),
+    rsvps: readFixture<LocalRSVPRow[]>(dataDir, RSVP_RESPONSES_FILE, []),
+    days: readFixture<Record<string, string>>(dataDir, WEDDING_TIMELINE_FILE, {}),
+    hotelBlocks: readFixture<HotelBlock[]>(dataDir, HOTEL_BLOCKS_FILE, []),
+    flights: readFixture<GuestFlight[]>(dataDir, GUEST_FLIGHTS_FILE, []),
+  };
+  loaded = { key, data };
+  return data;
+}
+
+/** Write the mutable fixtures back to `WEDDING_DATA_DIR`, when one is set. */
+function persist(data: LocalData): void {
+  if (!data.writeDir) return;
+  fs.mkdirSync(data.writeDir, { recursive: true });
+  const guestRows: LocalGuestRow[] = data.guests.map(({ normalizedName: _derived, ...row }) => row);
+  fs.writeFileSync(
+    path.join(data.writeDir, GUEST_LIST_FILE),
+    `${JSON.stringify(guestRows, null, 2)}\n`
+  );
+  fs.writeFileSync(
+    path.join(data.writeDir, RSVP_RESPONSES_FILE),
+    `${JSON.stringify(data.rsvps, null, 2)}\n`
+  );
+  fs.writeFileSync(
+    path.join(data.writeDir, GUEST_FLIGHTS_FILE),
+    `${JSON.stringify(data.flights, null, 2)}\n`
+  );
+}
+
+/**
+ * Drop the loaded fixtures so the next call re-reads them from disk. For unit
+ * tests that point `WEDDING_DATA_DIR` at a scratch directory, and for picking
+ * up hand edits to the JSON without restarting the dev server.
+ */
+export function resetLocalDataStore(): void {
+  loaded = null;
+}
+
+function findGuest(data: LocalData, guestId: string): GuestRecord | null {
+  return data.guests.find((guest) => guest.id === guestId) ?? null;
+}
+
+/** Same ordering as the Notion catalog: Event Date, then parsed Start Time. */
+function compareEvents(a: EventRecord, b: EventRecord): number {
+  const dateA = a.date ?? '9999-12-31';
+  const dateB = b.date ?? '9999-12-31';
+  if (dateA !== dateB) return dateA < dateB ? -1 : 1;
+  const timeA = a.startTime ? parseTime(a.startTime) : undefined;
+  const timeB = b.startTime ? parseTime(b.startTime) : undefined;
+  const minutesA = timeA ? timeA.hour * 60 + timeA.minute : Number.MAX_SAFE_INTEGER;
+  const minutesB = timeB ? timeB.hour * 60 + timeB.minute : Number.MAX_SAFE_INTEGER;
+  return minutesA - minutesB;
+}
+
+/** Newest response for `event` related to any of `ids`, as seen by `lookupId`. */
+function latestRow(
+  data: LocalData,
+  ids: string[],
+  event: 'nyc' | 'france',
+  lookupId: string
+): RSVPResponse | null {
+  const wanted = new Set(ids);
+  const row = data.rsvps
+    .filter((rsvp) => rsvp.event === event && rsvp.guestIds.some((id) => wanted.has(id)))
+    .sort((a, b) => (a.submittedAt < b.submittedAt ? 1 : a.submittedAt > b.submittedAt ? -1 : 0))[0];
+  return row ? { ...row, guestId: lookupId } : null;
+}
+
+async function getGuestParty(guestId: string): Promise<GuestRecord[]> {
+  const data = loadData();
+  const primaryGuest = findGuest(data, guestId);
+  if (!primaryGuest) {
+    throw new Error(`Guest not found: ${guestId}`);
+  }
+
+  // Transitive closure over `Related Guests`, as in the Notion backend — a
+  // household wired as a star is still one party whoever logs in.
+  const members = new Map<string, GuestRecord>([[primaryGuest.id, primaryGuest]]);
+  let frontier = [primaryGuest];
+  while (frontier.length > 0) {
+    frontier = Array.from(new Set(frontier.flatMap((member) => member.relatedGuestIds)))
+      .filter((id) => !members.has(id))
+      .map((id) => findGuest(data, id))
+      .filter((guest): guest is GuestRecord => guest !== null);
+    for (const member of frontier) members.set(member.id, member);
+  }
+
+  // Primary first, then non-+1s, then +1s
+  return Array.from(members.values()).sort((a, b) => {
+    if (a.id === guestId) return -1;
+    if (b.id === guestId) return 1;
+    if (a.isPlusOne && !b.isPlusOne) return 1;
+    if (!a.isPlusOne && b.isPlusOne) return -1;
+    return 0;
+  });
+}
+
+async function getEventCatalog(wedding: 'nyc' | 'france'): Promise<EventRecord[]> {
+  return loadData()
+    .events.filter((event) => event.wedding === wedding && event.type !== 'Internal')
+    .sort(compareEvents);
+}
+
+async function getInternalEvents(wedding: 'nyc' | 'france'): Promise<EventRecord[]> {
+  return loadData()
+    .events.filter((event) => event.wedding === wedding && event.type === 'Internal')
+    .sort(compareEvents);
+}
+
+async function getLatestRSVP(
+  guestId: string,
+  event: 'nyc' | 'france'
+): Promise<RSVPResponse | null> {
+  return latestRow(loadData(), [guestId], event, guestId);
+}
+
+async function getLatestRSVPForParty(
+  partyIds: string[],
+  event: 'nyc' | 'france'
+): Promise<RSVPResponse | null> {
+  if (partyIds.length === 0) return null;
+  return latestRow(loadData(), partyIds, event, partyIds[0]);
+}
+
+/** Invited events, scoped by the party's `Events Invited` lists — as in Notion. */
+async function getGuestEvents(guestId: string): Promise<EventRecord[]> {
+  const weddings = findGuest(loadData(), guestId)?.eventInvitations ?? [];
+  if (weddings.length === 0) return [];
+  const catalogs = await Promise.all(weddings.map((wedding) => getEventCatalog(wedding)));
+  return scopeInvitedEvents(catalogs.flat(), await getGuestParty(guestId));
+}
+
+async function getAttendingEvents(
+  guestId: string,
+  justSubmitted?: RSVPResponse
+): Promise<EventRecord[]> {
+  const guest = findGuest(loadData(), guestId);
+  const weddings = guest?.eventInvitations ?? [];
+
+  const attendingIds = new Set<string>();
+  for (const wedding of weddings) {
+    const rsvp =
+      justSubmitted && justSubmitted.event === wedding
+        ? justSubmitted
+        : await getLatestRSVP(guestId, wedding);
+    if (!rsvp) continue;
+    if (guest && !memberAttendedResponse(rsvp, guest)) continue;
+    for (const eventId of rsvp.eventsAttending ?? []) attendingIds.add(eventId);
+  }
+
+  return (await getGuestEvents(guestId)).filter((event) => attendingIds.has(event.id));
+}
+
+async function submitRSVP(
+  guestId: string,
+  submission: RSVPSubmission,
+  source: RSVPRevisionSource = 'website'
+): Promise<RSVPResponse> {
+  const data = loadData();
+  const party = await getGuestParty(guestId);
+  const partyIds = party.map((member) => member.id);
+  const submittedBy = {
+    guestId,
+    name: party.find((member) => member.id === guestId)?.name ?? 'Unknown Guest',
+  };
+
+  const { byId: submittedById, attends } = submittedAttendance(submission.guestsAttending);
+  const status = submissionStatus(submission.guestsAttending);
+  const guestsAttending = submissionAttendeeNames(submission.guestsAttending);
+  const attendanceById = Object.fromEntries(party.map((member) => [member.id, attends(member)]));
+
+  // A row shared with members who have since left this household is handed
+  // back to them, and this party takes a fresh row (src/lib/rsvp-split.ts).
+  const existing = await getLatestRSVPForParty(partyIds, submission.event);
+  const stranded = existing ? strandedGuestIds(existing.guestIds, partyIds) : [];
+  let detached: { response: RSVPResponse; names: Record<string, string> } | null = null;
+  if (existing && stranded.length > 0) {
+    const row = data.rsvps.find((rsvp) => rsvp.id === existing.id);
+    if (row) {
+      const members = stranded
+        .map((id) => findGuest(data, id))
+        .filter((member): member is GuestRecord => member !== null);
+      const plan = members.length === stranded.length ? planDetachedResponse(members, existing) : null;
+      row.guestIds = stranded;
+      if (plan) {
+        row.guestsAttending = plan.guestsAttending;
+        row.status = plan.status;
+      }
+      detached = {
+        response: { ...row, guestId },
+        names: Object.fromEntries(members.map((member) => [member.id, member.name])),
+      };
+    }
+  }
+
+  const written: LocalRSVPRow = {
+    id: stranded.length === 0 && existing ? existing.id : `local-rsvp-${randomUUID()}`,
+    guestIds: partyIds,
+    event: submission.event,
+    submittedAt: new Date().toISOString(),
+    status,
+    guestsAttending,
+    dietary: submission.dietary || undefined,
+    message: submission.message || undefined,
+    details: submission.details as RSVPDetails | undefined,
+    eventsAttending: submission.eventsAttending,
+    attendanceById,
+  };
+  data.rsvps = [...data.rsvps.filter((rsvp) => rsvp.id !== written.id), written];
+  // Names as the party submitted them — the Guest List names are rewritten
+  // below when the form edited one.
+  const submittedNames = Object.fromEntries(
+    party.map((member) => [member.id, submittedById.get(member.id)?.name ?? member.name])
+  );
+
+  // Guest List write-back: invite status → Received (advance-forward only)
+  // and name edits, with the former name kept as an alias so the guest can
+  // still log in as it — the same rules submitRSVP applies in Notion.
+  for (const member of party) {
+    if (member.eventInvitations.includes(submission.event)) {
+      if (submission.event === 'nyc') member.nycInviteStatus = 'Received';
+      else member.franceSaveTheDateStatus = 'Received';
+    }
+
+    const nameEdit = guestNameEdit(member.name, submittedById.get(member.id)?.name);
+    if (nameEdit) {
+      const formerName = preserveFormerName(member.name, member.aka);
+      if (formerName) member.aka = formerName.split('\n');
+      member.firstName = nameEdit.first;
+      member.lastName = nameEdit.last;
+      member.invitationTitle = nameEdit.title;
+      member.name = [nameEdit.first, nameEdit.last].filter(Boolean).join(' ');
+      member.normalizedName = normalize(member.name);
+    }
+  }
+
+  persist(data);
+
+  if (detached) {
+    await recordRSVPRevision(detached.response, { kind: 'detach', source, submittedBy, names: detached.names });
+  }
+  await recordRSVPRevision(
+    { ...written, guestId },
+    { kind: 'submission', source, submittedBy, names: submittedNames }
+  );
+  return { ...written, guestId };
+}
+
+async function fetchAllLatestRSVPs(): Promise<Map<string, RSVPResponse[]>> {
+  const data = loadData();
+  const latestByGuest = new Map<string, RSVPResponse[]>();
+  const guestIds = new Set(data.rsvps.flatMap((rsvp) => rsvp.guestIds));
+  for (const guestId of guestIds) {
+    const responses = (['nyc', 'france'] as const)
+      .map((event) => latestRow(data, [guestId], event, guestId))
+      .filter((rsvp): rsvp is RSVPResponse => rsvp !== null);
+    if (responses.length > 0) latestByGuest.set(guestId, responses);
+  }
+  return latestByGuest;
+}
+
+const localDataStore: WeddingDataStore = {
+  kind: 'local',
+
+  fetchAllGuests: async () => [...loadData().guests],
+  // Reads are always live — there is no cache to drop.
+  clearGuestCache: async () => {},
+  getGuestById: async (guestId) => findGuest(loadData(), guestId),
+  getGuestByIdUncached: async (guestId) => findGuest(loadData(), guestId),
+  findGuestsByName: async (name) => matchGuestsFromRecords(name, loadData().guests),
+  findHouseholdByEnvelopeName: async (name) => {
+    const guests = loadData().guests;
+    const memberIds = findMatchingHousehold(name, guests);
+    if (!memberIds) return null;
+    return memberIds
+      .map((id) => guests.find((guest) => guest.id === id))
+      .filter((guest): guest is GuestRecord => guest !== undefined);
+  },
+  updateGuestEmail: async (guestId, email) => {
+    const data = loadData();
+    const guest = findGuest(data, guestId);
+    if (!guest) throw new Error(`Guest not found: ${guestId}`);
+    guest.email = email ?? undefined;
+    persist(data);
+  },
+  markInviteSent: async (guestId, event) => {
+    const data = loadData();
+    const guest = findGuest(data, guestId);
+    if (!guest) throw new Error(`Guest not found: ${guestId}`);
+    if (event === 'nyc') guest.nycInviteStatus = 'Sent';
+    else guest.franceSaveTheDateStatus = 'Sent';
+    persist(data);
+  },
+  getGuestParty,
+
+  getEventCatalog,
+  getInternalEvents,
+  clearEventCache: () => {},
+  getGuestEvents,
+  getAttendingEvents,
+  fetchDayDate: async (dayId) => loadData().days[dayId],
+  clearDayDateCache: () => {},
+  getHotelBlocks: async (wedding) =>
+    sortHotelBlocks(loadData().hotelBlocks.filter((block) => block.wedding === wedding)),
+  clearHotelBlockCache: () => {},
+  getGuestFlights: async (guestId, event) =>
+    loadData().flights.filter((flight) => flight.guestId === guestId && flight.event === event),
+  upsertGuestFlights: async (guestId, event, update) => {
+    const data = loadData();
+    const mine = (flight: GuestFlight) => flight.guestId === guestId && flight.event === event;
+    const plan = planFlightUpsert(data.flights.filter(mine), update);
+    const removed = new Set(plan.remove);
+    const rewritten = new Map(plan.update.map(({ id, leg }) => [id, leg]));
+    data.flights = [
+      ...data.flights.flatMap((flight) => {
+        if (removed.has(flight.id)) return [];
+        const leg = rewritten.get(flight.id);
+        return [leg ? { ...leg, id: flight.id, guestId, event, flightySynced: false } : flight];
+      }),
+      ...plan.create.map((leg) => ({ ...leg, id: randomUUID(), guestId, event, flightySynced: false })),
+    ];
+    persist(data);
+    return data.flights.filter(mine);
+  },
+  fetchAllGuestFlights: async (event) => loadData().flights.filter((flight) => flight.event === event),
+
+  submitRSVP,
+  getLatestRSVPForParty,
+  getLatestRSVP,
+  fetchAllLatestRSVPs,
+  deleteRSVP: async (guestId, event) => {
+    const data = loadData();
+    const existing = latestRow(data, [guestId], event, guestId);
+    if (!existing) return false;
+    data.rsvps = data.rsvps.filter((rsvp) => rsvp.id !== existing.id);
+    persist(data);
+    return true;
+  },
+};
+
+export function getLocalDataStore(): WeddingDataStore {
+  return localDataStore;
+}
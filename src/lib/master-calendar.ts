@@ -0,0 +1,266 @@
+/**
+ * The couple and planner's master calendar: one feed with every Event Catalog
+ * event of both weddings, Internal ones included (vendor arrival, setup,
+ * rehearsal — getInternalEvents; no guest feed ever lists them).
+ *
+ * Each event's description opens with live numbers from the latest responses
+ * (fetchAllLatestRSVPs): invited guests attending, declined and not yet
+ * answered, then the dietary totals and notes the caterer's matrix
+ * (src/lib/allergens.ts) has for it. Test guests are left out. The feed is
+ * rebuilt on every fetch, so a calendar app shows the numbers as of its last
+ * poll.
+ *
+ * Calendar apps cannot send an Authorization header, so the feed URL carries
+ * a token signed with the admin secret (RESEND_ADMIN_SECRET) over a stored
+ * generation, as guest calendar links are (src/lib/calendar-tokens.ts): GET
+ * /api/admin/master-calendar returns it to an admin, and POST reissues it —
+ * for a leaked link — without touching the admin secret. Rotating the secret
+ * still retires every generation.
+ */
+
+import {
+  fetchAllGuests,
+  fetchAllLatestRSVPs,
+  fetchDayDate,
+  getEventCatalog,
+  getInternalEvents,
+} from './data-store';
+import { buildICS, type EventWithDate } from './calendar';
+import {
+  allergenLabel,
+  buildAllergenMatrix,
+  dietFlagLabel,
+  formatDietaryNeeds,
+  DIET_FLAGS,
+  EU_ALLERGENS,
+  type AllergenMatrix,
+} from './allergens';
+import { allocateEventSeats, latestEventResponses, withoutWaitlisted } from './event-capacity';
+import { scopeInvitedEvents } from './event-invitations';
+import { buildHouseholds } from './envelope-name';
+import { memberAttendedResponse } from './rsvp-attendance';
+import { excludeTestGuests } from './test-guests';
+import { getAdminSecret } from './admin-auth';
+import { hmacSha256Hex, timingSafeEqualString } from './hmac';
+import {
+  acceptsGeneration,
+  getTokenGeneration,
+  reissueTokenGeneration,
+  type TokenGeneration,
+} from './calendar-tokens';
+import type { EventRecord, GuestRecord, RSVPResponse } from '../types';
+
+/** Invited guests by answer, for one event. */
+export interface EventHeadcount {
+  attending: number;
+  declined: number;
+  /** Invited guests whose party has not answered for the wedding. */
+  pending: number;
+  /** Attending guests whose party waits for a place (src/lib/event-capacity.ts). */
+  waitlisted: number;
+}
+
+/**
+ * Headcounts per guest-facing event. A guest counts toward the events their
+ * party is invited to (scopeInvitedEvents) at a wedding they are invited to;
+ * a party that answered without choosing an event has declined it.
+ */
+export function eventHeadcounts(
+  events: EventRecord[],
+  guests: GuestRecord[],
+  latestRSVPs: Map<string, RSVPResponse[]>
+): Map<string, EventHeadcount> {
+  const counts = new Map<string, EventHeadcount>(
+    events.map((event) => [event.id, { attending: 0, declined: 0, pending: 0, waitlisted: 0 }])
+  );
+  const allocations = allocateEventSeats(
+    [...latestEventResponses(guests, latestRSVPs, 'nyc'), ...latestEventResponses(guests, latestRSVPs, 'france')],
+    events
+  );
+
+  for (const household of buildHouseholds(excludeTestGuests(guests))) {
+    for (const event of scopeInvitedEvents(events, household)) {
+      const count = counts.get(event.id)!;
+      for (const member of household) {
+        if (!member.eventInvitations.includes(event.wedding)) continue;
+        const response = (latestRSVPs.get(member.id) ?? []).find((rsvp) => rsvp.event === event.wedding);
+        if (!response) {
+          count.pending++;
+        } else if (!memberAttendedResponse(response, member) || !response.eventsAttending?.includes(event.id)) {
+          count.declined++;
+        } else if (withoutWaitlisted(response, allocations).eventsAttending?.includes(event.id)) {
+          count.attending++;
+        } else {
+          count.waitlisted++;
+        }
+      }
+    }
+  }
+  return counts;
+}
+
+/**
+ * Free-text dietary notes for an event: the party-wide `dietary` text of
+ * attending responses with no per-guest answers (the NYC form, older France
+ * responses). Per-guest notes are in the matrix rows.
+ */
+function freeTextDietary(
+  event: EventRecord,
+  responses: RSVPResponse[],
+  names: Map<string, string>
+): string[] {
+  return responses.flatMap((response) => {
+    const text = response.dietary?.trim();
+    if (response.status === 'Declined' || !response.eventsAttending?.includes(event.id)) return [];
+    if (response.details?.dietaryByGuest || !text) return [];
+    return [`${names.get(response.guestId) ?? 'Guest'}'s party: ${text}`];
+  });
+}
+
+/** The description the master feed gives an event: numbers first, then the catalog's own text. */
+export function masterEventDescription(
+  event: EventRecord,
+  headcount: EventHeadcount | undefined,
+  matrix: AllergenMatrix | undefined,
+  partyNotes: string[] = []
+): string {
+  const lines: string[] = [];
+  if (event.type === 'Internal') {
+    lines.push('Internal — not on any guest calendar.');
+  } else {
+    const count = headcount ?? { attending: 0, declined: 0, pending: 0, waitlisted: 0 };
+    lines.push(
+      [
+        `Attending: ${count.attending}`,
+        `Declined: ${count.declined}`,
+        `Pending: ${count.pending}`,
+        ...(count.waitlisted > 0 ? [`Waitlisted: ${count.waitlisted}`] : []),
+      ].join(' · ')
+    );
+
+    if (matrix) {
+      const totals = [
+        ...DIET_FLAGS.map((flag) => [dietFlagLabel(flag, 'en'), matrix.totals[flag]] as const),
+        ...EU_ALLERGENS.map((allergen) => [allergenLabel(allergen, 'en'), matrix.totals[allergen]] as const),
+      ]
+        .filter(([, total]) => total > 0)
+        .map(([label, total]) => `${label} ${total}`);
+      const unanswered = matrix.unanswered > 0 ? ` (${matrix.unanswered} without a per-guest answer)` : '';
+      lines.push(`Dietary: ${totals.length > 0 ? totals.join(', ') : 'none recorded'}${unanswered}`);
+    }
+
+    const notes = [
+      ...(matrix?.guests ?? []).map((row) => `${row.name}: ${formatDietaryNeeds(row)}`),
+      ...partyNotes,
+    ];
+    if (notes.length > 0) lines.push('Notes:', ...notes.map((note) => `• ${note}`));
+  }
+
+  if (event.description) lines.push('', event.description);
+  return lines.join('\n');
+}
+
+/** The master feed, built from the live catalog and responses. */
+export async function buildMasterCalendar(): Promise<string> {
+  const [nycEvents, franceEvents, nycInternal, franceInternal, guests, latestRSVPs] = await Promise.all([
+    getEventCatalog('nyc'),
+    getEventCatalog('france'),
+    getInternalEvents('nyc'),
+    getInternalEvents('france'),
+    fetchAllGuests(),
+    fetchAllLatestRSVPs(),
+  ]);
+  const guestEvents = [...nycEvents, ...franceEvents];
+  const realGuests = excludeTestGuests(guests);
+  const names = new Map(realGuests.map((guest) => [guest.id, guest.name]));
+  const headcounts = eventHeadcounts(guestEvents, guests, latestRSVPs);
+
+  // Dietary needs of the guests who hold a place — not the waitlist.
+  const matrices = new Map<string, AllergenMatrix>();
+  const partyNotes = new Map<string, string[]>();
+  for (const [wedding, events] of [['nyc', nycEvents], ['france', franceEvents]] as const) {
+    const responses = latestEventResponses(guests, latestRSVPs, wedding);
+    const allocations = allocateEventSeats(responses, events);
+    const holding = responses.map((response) => withoutWaitlisted(response, allocations));
+    for (const matrix of buildAllergenMatrix(events, holding, realGuests)) matrices.set(matrix.eventId, matrix);
+    for (const event of events) partyNotes.set(event.id, freeTextDietary(event, holding, names));
+  }
+
+  const events: EventWithDate[] = [];
+  for (const event of [...guestEvents, ...nycInternal, ...franceInternal]) {
+    events.push({
+      ...event,
+      name: event.type === 'Internal' ? `[Internal] ${event.name}` : event.name,
+      date: event.date ?? (event.dayId ? await fetchDayDate(event.dayId) : undefined),
+      description: masterEventDescription(
+        event,
+        headcounts.get(event.id),
+        matrices.get(event.id),
+        partyNotes.get(event.id)
+      ),
+    });
+  }
+
+  return buildICS(events, 'en', {
+    reminders: false,
+    calendarName: 'Sargaux Wedding — Master',
+    calendarDescription: 'Every event of both weddings, with live headcounts',
+    uidPrefix: 'master-',
+  });
+}
+
+/** The master feed's key in the token generation store; no guest ID looks like it. */
+const MASTER_TOKEN_KEY = 'master-calendar';
+
+/**
+ * The token for a generation: the bare HMAC for generation 0 (the original
+ * format), `<generation>.<hmac>` after a reissue.
+ */
+function signMasterToken(secret: string, generation: number): string {
+  if (generation === 0) return hmacSha256Hex(secret, 'master-calendar', 32);
+  return `${generation}.${hmacSha256Hex(secret, `master-calendar.${generation}`, 32)}`;
+}
+
+/**
+ * The master feed's URL token at its current generation; null without an
+ * admin secret. Throws if the token store is unreachable.
+ */
+export async function masterCalendarToken(): Promise<string | null> {
+  const secret = getAdminSecret();
+  if (!secret) return null;
+  return signMasterToken(secret, (await getTokenGeneration(MASTER_TOKEN_KEY))?.generation ?? 0);
+}
+
+/**
+ * Whether `token` opens the master feed: signed with the admin secret, of a
+ * generation still accepted. Throws if the token store is unreachable.
+ */
+export async function verifyMasterCalendarToken(token: string, now = new Date()): Promise<boolean> {
+  const secret = getAdminSecret();
+  if (!secret) return false;
+  const match = /^(?:([1-9]\d*)\.)?[0-9a-f]{32}$/.exec(token);
+  if (!match) return false;
+  const generation = match[1] ? Number(match[1]) : 0;
+  if (!Number.isSafeInteger(generation) || !timingSafeEqualString(token, signMasterToken(secret, generation))) {
+    return false;
+  }
+  return acceptsGeneration(await getTokenGeneration(MASTER_TOKEN_KEY), generation, now);
+}
+
+/**
+ * Move the master feed to a new token. The current one stays valid for
+ * `graceHours` (0 revokes it at once). Null without an admin secret.
+ */
+export async function reissueMasterCalendarToken(
+  graceHours: number,
+  now = new Date()
+): Promise<{ token: string; state: TokenGeneration } | null> {
+  const secret = getAdminSecret();
+  if (!secret) return null;
+  const state = await reissueTokenGeneration(MASTER_TOKEN_KEY, graceHours, now);
+  return { token: signMasterToken(secret, state.generation), state };
+}
+
+export function masterCalendarUrl(token: string): string {
+  return `https://sargaux.com/api/admin/master-calendar/${token}.ics`;
+}
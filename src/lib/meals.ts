@@ -0,0 +1,182 @@
+/**
+ * Per-attendee meal selection for seated dinners.
+ *
+ * An Event Catalog row declares its entrées in `Meal Options` (one per line)
+ * and, optionally, `Meal Options FR` (the same options, same order). Events
+ * without options ask nothing. On the RSVP form every attending member picks
+ * one option for each such event the party attends; the answers are stored in
+ * the response's Details JSON as `meals` — one `{ guestId, eventId, optionId }`
+ * entry per member and event, beside the `attendance` array.
+ *
+ * Option IDs are derived from the English label, so re-ordering the lines in
+ * Notion keeps stored choices intact. Renaming an option orphans choices made
+ * under the old name — they are reported as missing, never miscounted.
+ *
+ * The party-level `dietary` note stays as it is: meals say what to serve,
+ * dietary notes say what to avoid.
+ */
+
+import type { EventRecord, GuestRecord, MealOption, MealChoice, RSVPResponse } from '../types';
+import type { Lang } from '../content/strings';
+import { normalize } from './normalize';
+import { getAttendingNames } from './rsvp-display';
+
+/** Stable option ID from its English label: "Roast Chicken" → "roast-chicken". */
+export function mealOptionId(label: string): string {
+  return normalize(label)
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Parse the `Meal Options` / `Meal Options FR` cells. French lines pair with
+ * English lines by position; a missing French line falls back to English.
+ * Returns undefined when the event offers no choice.
+ */
+export function parseMealOptions(en?: string, fr?: string): MealOption[] | undefined {
+  const lines = (text?: string) =>
+    (text ?? '').split('\n').map((line) => line.trim()).filter(Boolean);
+  const frLines = lines(fr);
+  const seen = new Set<string>();
+  const options: MealOption[] = [];
+  lines(en).forEach((label, i) => {
+    const id = mealOptionId(label);
+    if (!id || seen.has(id)) return;
+    seen.add(id);
+    options.push({ id, label, ...(frLines[i] ? { labelFr: frLines[i] } : {}) });
+  });
+  return options.length > 0 ? options : undefined;
+}
+
+export function mealOptionLabel(option: MealOption, lang: Lang): string {
+  return lang === 'fr' ? option.labelFr || option.label : option.label;
+}
+
+export function hasMealOptions(event: EventRecord): boolean {
+  return (event.mealOptions?.length ?? 0) > 0;
+}
+
+/** A party's choices for one event, by guest ID. */
+export function mealChoicesForEvent(
+  choices: MealChoice[] | undefined,
+  eventId: string
+): Map<string, string> {
+  return new Map(
+    (choices ?? [])
+      .filter((choice) => choice.eventId === eventId)
+      .map((choice) => [choice.guestId, choice.optionId])
+  );
+}
+
+/** Each party member's chosen entrée at `event`, in party order — for display. */
+export function describeMealChoices(
+  event: EventRecord,
+  choices: MealChoice[] | undefined,
+  party: Pick<GuestRecord, 'id' | 'name'>[],
+  lang: Lang
+): { guestId: string; name: string; meal: string }[] {
+  const chosen = mealChoicesForEvent(choices, event.id);
+  return party.flatMap((member) => {
+    const option = event.mealOptions?.find((candidate) => candidate.id === chosen.get(member.id));
+    return option ? [{ guestId: member.id, name: member.name, meal: mealOptionLabel(option, lang) }] : [];
+  });
+}
+
+/**
+ * Check a submission's `details.meals` against the events it attends.
+ * Every attending member needs exactly one valid option for every attended
+ * event that offers a choice; choices for anyone or anything else are
+ * rejected. Returns an error message, or null when the choices are complete.
+ */
+export function validateMealChoices(
+  value: unknown,
+  input: {
+    events: EventRecord[];
+    eventsAttending: string[];
+    attendingGuestIds: string[];
+  }
+): string | null {
+  if (value !== undefined && !Array.isArray(value)) return 'meals must be an array';
+  const choices = (value ?? []) as unknown[];
+
+  const mealEvents = new Map(
+    input.events
+      .filter((event) => input.eventsAttending.includes(event.id) && hasMealOptions(event))
+      .map((event) => [event.id, event])
+  );
+  const attending = new Set(input.attendingGuestIds);
+  const seen = new Set<string>();
+
+  for (const choice of choices) {
+    if (!choice || typeof choice !== 'object') return 'meals entries must be objects';
+    const { guestId, eventId, optionId } = choice as Record<string, unknown>;
+    if (typeof guestId !== 'string' || typeof eventId !== 'string' || typeof optionId !== 'string') {
+      return 'meals entries must include guestId, eventId and optionId';
+    }
+    const event = mealEvents.get(eventId);
+    if (!event) return 'meals includes an event that offers no meal choice';
+    if (!attending.has(guestId)) return 'meals includes a guest who is not attending';
+    if (!event.mealOptions!.some((option) => option.id === optionId)) {
+      return 'meals includes an unknown option';
+    }
+    const key = `${eventId}:${guestId}`;
+    if (seen.has(key)) return 'meals includes more than one choice for a guest';
+    seen.add(key);
+  }
+
+  for (const eventId of mealEvents.keys()) {
+    for (const guestId of attending) {
+      if (!seen.has(`${eventId}:${guestId}`)) return 'A meal choice is required for every attending guest';
+    }
+  }
+  return null;
+}
+
+export interface MealTotals {
+  eventId: string;
+  eventName: string;
+  options: { id: string; label: string; count: number }[];
+  /** Attending guests with no recorded choice (older responses, renamed options). */
+  missing: number;
+}
+
+/** Attending members of a response: recorded attendance, else the name list. */
+function attendingGuestCount(response: RSVPResponse): number {
+  if (response.attendanceById) {
+    return Object.values(response.attendanceById).filter(Boolean).length;
+  }
+  return getAttendingNames(response).size;
+}
+
+/**
+ * Caterer totals for each event that offers a choice. `responses` is each
+ * party's latest response for the wedding (one per row — not one per guest).
+ */
+export function summarizeMeals(events: EventRecord[], responses: RSVPResponse[]): MealTotals[] {
+  return events.filter(hasMealOptions).map((event) => {
+    const counts = new Map(event.mealOptions!.map((option) => [option.id, 0]));
+    let missing = 0;
+    for (const response of responses) {
+      if (response.status === 'Declined' || !response.eventsAttending?.includes(event.id)) continue;
+      const chosen = mealChoicesForEvent(response.details?.meals, event.id);
+      let counted = 0;
+      for (const [guestId, optionId] of chosen) {
+        if (response.attendanceById && !response.attendanceById[guestId]) continue;
+        if (!counts.has(optionId)) continue;
+        counts.set(optionId, counts.get(optionId)! + 1);
+        counted++;
+      }
+      missing += Math.max(0, attendingGuestCount(response) - counted);
+    }
+    return {
+      eventId: event.id,
+      eventName: event.name,
+      options: event.mealOptions!.map((option) => ({
+        id: option.id,
+        label: option.label,
+        count: counts.get(option.id)!,
+      })),
+      missing,
+    };
+  });
+}
@@ -0,0 +1,263 @@
+/**
+ * Notion schema doctor: compares the live Guest List, Event Catalog, RSVP
+ * Responses, Hotel Blocks and Guest Flights databases against the declared
+ * schema in src/lib/notion-schema.ts — the same declarations the parsers in
+ * src/lib/notion.ts read through.
+ *
+ * Reports, per database:
+ *  - missing properties, with a likely rename when an unclaimed property of
+ *    the same type has a near-identical name ("Related guests", "Envelope Name");
+ *  - mistyped properties (e.g. `Guest Email` turned into rich text);
+ *  - select/status options the code relies on that no longer exist, and
+ *    options the parser would not recognise.
+ *
+ * Read-only: it fetches each database's property definitions (one request per
+ * database) and never touches pages. Run it with scripts/notion-schema-doctor.ts
+ * or GET /api/admin/notion-schema.
+ */
+
+import { NOTION_DATABASES, type DatabaseSpec, type PropertySpec } from './notion-schema';
+
+/** A property definition as returned by `GET /v1/databases/{id}`. */
+export interface LivePropertyDefinition {
+  name?: string;
+  type: string;
+  select?: { options?: { name: string }[] };
+  multi_select?: { options?: { name: string }[] };
+  status?: { options?: { name: string }[] };
+}
+
+export type SchemaIssueKind =
+  | 'unconfigured'
+  | 'unreachable'
+  | 'missing'
+  | 'renamed'
+  | 'mistyped'
+  | 'missing-option'
+  | 'unexpected-option';
+
+export interface SchemaIssue {
+  kind: SchemaIssueKind;
+  /** `error`: login, RSVP or calendars break. `warning`: a feature degrades. */
+  severity: 'error' | 'warning';
+  /** Declared property name (absent for database-level issues). */
+  property?: string;
+  message: string;
+}
+
+export interface DatabaseReport {
+  label: string;
+  envVar: string;
+  /** False when the database could not be read — `issues` says why. */
+  checked: boolean;
+  issues: SchemaIssue[];
+}
+
+export interface SchemaReport {
+  /** True when no database has an error-severity issue. */
+  ok: boolean;
+  checkedAt: string;
+  databases: DatabaseReport[];
+}
+
+/** Lowercase alphanumerics only — "Related guests " and "related-guests" agree. */
+function squash(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9+]/g, '');
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+/**
+ * The unclaimed live property that a missing declared property was most
+ * likely renamed to: same type, and a name that differs only in case and
+ * punctuation or by a couple of characters.
+ */
+function likelyRename(
+  spec: PropertySpec,
+  unclaimed: [string, LivePropertyDefinition][]
+): string | null {
+  const target = squash(spec.name);
+  let best: { name: string; distance: number } | null = null;
+  for (const [name, def] of unclaimed) {
+    if (def.type !== spec.type) continue;
+    const candidate = squash(name);
+    const distance =
+      candidate === target
+        ? 0
+        : candidate.includes(target) || target.includes(candidate)
+          ? 1
+          : editDistance(candidate, target);
+    if (distance <= 2 && (!best || distance < best.distance)) best = { name, distance };
+  }
+  return best?.name ?? null;
+}
+
+function liveOptions(def: LivePropertyDefinition): string[] | null {
+  const holder =
+    def.type === 'select'
+      ? def.select
+      : def.type === 'multi_select'
+        ? def.multi_select
+        : def.type === 'status'
+          ? def.status
+          : undefined;
+  return holder?.options ? holder.options.map((option) => option.name) : null;
+}
+
+/**
+ * Check one database's live property definitions against its declared spec.
+ * Pure — the fetch lives in runSchemaDoctor — so it is unit-testable.
+ */
+export function checkDatabaseSchema(
+  spec: DatabaseSpec,
+  live: Record<string, LivePropertyDefinition>
+): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  const declared = Object.values(spec.properties);
+  const declaredNames = new Set(declared.map((property) => property.name));
+  const unclaimed = Object.entries(live).filter(([name]) => !declaredNames.has(name));
+
+  for (const property of declared) {
+    const severity = property.required ? 'error' : 'warning';
+    const def = live[property.name];
+
+    if (!def) {
+      const renamedTo = likelyRename(property, unclaimed);
+      issues.push(
+        renamedTo
+          ? {
+              kind: 'renamed',
+              severity,
+              property: property.name,
+              message: `"${property.name}" is missing — looks renamed to "${renamedTo}". Rename it back in Notion, or update src/lib/notion-schema.ts.`,
+            }
+          : {
+              kind: 'missing',
+              severity,
+              property: property.name,
+              message: `"${property.name}" (${property.type}) is missing.`,
+            }
+      );
+      continue;
+    }
+
+    if (def.type !== property.type) {
+      issues.push({
+        kind: 'mistyped',
+        severity,
+        property: property.name,
+        message: `"${property.name}" is ${def.type}; expected ${property.type}.`,
+      });
+      continue;
+    }
+
+    if (!property.options) continue;
+    const options = liveOptions(def) ?? [];
+    for (const expected of property.options) {
+      if (!options.includes(expected)) {
+        issues.push({
+          kind: 'missing-option',
+          severity,
+          property: property.name,
+          message: `"${property.name}" has no "${expected}" option.`,
+        });
+      }
+    }
+    if (!property.extraOptions) {
+      for (const option of options) {
+        if (!property.options.includes(option)) {
+          issues.push({
+            kind: 'unexpected-option',
+            severity: 'warning',
+            property: property.name,
+            message: `"${property.name}" has an unexpected "${option}" option — rows using it are ignored. Expected only: ${property.options.join(', ')}.`,
+          });
+        }
+      }
+    }
+  }
+
+  return issues;
+}
+
+async function fetchDatabaseProperties(
+  databaseId: string
+): Promise<Record<string, LivePropertyDefinition>> {
+  const apiKey = process.env.NOTION_API_KEY;
+  if (!apiKey) throw new Error('NOTION_API_KEY is not set.');
+
+  // Same stable REST version as queryDatabase in src/lib/notion.ts.
+  const response = await fetch(`https://api.notion.com/v1/databases/${databaseId}`, {
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      'Notion-Version': '2022-06-28',
+    },
+  });
+
+  if (!response.ok) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const err: any = await response.json().catch(() => ({}));
+    throw new Error(err.message || `Notion API error: ${response.status}`);
+  }
+
+  const body = (await response.json()) as { properties?: Record<string, LivePropertyDefinition> };
+  return body.properties ?? {};
+}
+
+function isOptional(spec: DatabaseSpec): boolean {
+  return typeof spec.optional === 'function' ? spec.optional() : spec.optional === true;
+}
+
+/** Inspect every declared database. Never throws; failures become issues. */
+export async function runSchemaDoctor(): Promise<SchemaReport> {
+  const databases: DatabaseReport[] = [];
+
+  for (const spec of NOTION_DATABASES) {
+    const report: DatabaseReport = {
+      label: spec.label,
+      envVar: spec.envVar,
+      checked: false,
+      issues: [],
+    };
+    databases.push(report);
+
+    const databaseId = process.env[spec.envVar];
+    if (!databaseId) {
+      report.issues.push({
+        kind: 'unconfigured',
+        severity: isOptional(spec) ? 'warning' : 'error',
+        message: `${spec.envVar} is not set.`,
+      });
+      continue;
+    }
+
+    try {
+      report.issues = checkDatabaseSchema(spec, await fetchDatabaseProperties(databaseId));
+      report.checked = true;
+    } catch (err) {
+      report.issues.push({
+        kind: 'unreachable',
+        severity: 'error',
+        message: `Could not read the database: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  }
+
+  return {
+    ok: databases.every((db) => db.issues.every((issue) => issue.severity !== 'error')),
+    checkedAt: new Date().toISOString(),
+    databases,
+  };
+}
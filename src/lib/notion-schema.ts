@@ -0,0 +1,263 @@
+/**
+ * The Notion properties this site reads and writes, declared once.
+ *
+ * src/lib/notion.ts parses and writes pages through these names (never string
+ * literals), and the schema doctor (src/lib/notion-schema-doctor.ts) checks the
+ * live databases against the same declarations. A property renamed in Notion
+ * used to surface only as guests failing to log in; now it is one edit here,
+ * and the doctor says which one before anyone notices.
+ *
+ * `required` is about what breaks when the property is absent — not about
+ * whether every row fills it in:
+ *  - required: login, RSVP or the calendar stops working (or a write fails).
+ *  - optional: the parser already tolerates absence (e.g. `Also Known As`,
+ *    the `* FR` display variants), so a missing column only loses a feature.
+ *
+ * `options` lists the select/status option names the code compares against or
+ * writes. Set `extraOptions` where Notion legitimately carries more (workflow
+ * states on the mail-status columns, the long tail of countries); elsewhere an
+ * unexpected option is reported, because the parser will ignore rows using it.
+ */
+
+import { VENUES } from './venues';
+
+export type NotionPropertyType =
+  | 'title'
+  | 'rich_text'
+  | 'formula'
+  | 'select'
+  | 'multi_select'
+  | 'status'
+  | 'checkbox'
+  | 'relation'
+  | 'email'
+  | 'date'
+  | 'number'
+  | 'url';
+
+export interface PropertySpec {
+  readonly name: string;
+  readonly type: NotionPropertyType;
+  readonly required: boolean;
+  readonly options?: readonly string[];
+  readonly extraOptions?: boolean;
+}
+
+export interface DatabaseSpec {
+  /** Display name used in reports. */
+  readonly label: string;
+  /** Environment variable holding the database page ID. */
+  readonly envVar: string;
+  /**
+   * The site has a stand-in until this database is configured, so an unset
+   * `envVar` only loses a feature. A function is asked at check time, for a
+   * database only some feature flags need.
+   */
+  readonly optional?: boolean | (() => boolean);
+  readonly properties: Readonly<Record<string, PropertySpec>>;
+}
+
+/** RSVP Responses `Event` select option per wedding. */
+export const RSVP_EVENT_OPTION = { nyc: 'NYC', france: 'France' } as const;
+
+/** Event Catalog `Wedding` select option per wedding — not the RSVP labels. */
+export const CATALOG_WEDDING_OPTION = { nyc: 'New York', france: 'France' } as const;
+
+/** RSVP status options, shared by the response `Status` and Guest List `RSVP`. */
+export const RSVP_STATUS_OPTIONS = ['Attending', 'Declined', 'Partial'] as const;
+
+/** Statuses the site writes to the per-event mail columns: after a send, and once a guest responds. */
+export const INVITE_SENT = 'Sent';
+export const INVITE_RECEIVED = 'Received';
+
+export const GUEST_LIST = {
+  label: 'Guest List',
+  envVar: 'NOTION_GUEST_LIST_DB',
+  properties: {
+    nameOfGuest: { name: 'Name of Guest', type: 'title', required: true },
+    fullName: { name: 'Full Name', type: 'formula', required: true },
+    firstName: { name: 'First Name', type: 'rich_text', required: true },
+    lastName: { name: 'Last Name', type: 'rich_text', required: true },
+    country: {
+      name: 'Country',
+      type: 'select',
+      required: false,
+      options: ['USA', 'CANADA', 'FRANCE', 'UNITED KINGDOM'],
+      extraOptions: true,
+    },
+    plusOne: { name: '+1', type: 'checkbox', required: true },
+    relatedGuests: { name: 'Related Guests', type: 'relation', required: true },
+    eventInvitations: {
+      name: 'Event Invitations',
+      type: 'multi_select',
+      required: true,
+      options: ['NYC', 'France'],
+    },
+    eventsInvited: { name: 'Events Invited', type: 'relation', required: false },
+    guestEmail: { name: 'Guest Email', type: 'email', required: true },
+    testGuest: { name: 'Test Guest', type: 'checkbox', required: false },
+    nycInviteSent: {
+      name: 'NYC Invite Sent',
+      type: 'status',
+      required: true,
+      options: [INVITE_SENT, INVITE_RECEIVED],
+      extraOptions: true,
+    },
+    franceSaveTheDateSent: {
+      name: 'France Save the Date Sent',
+      type: 'status',
+      required: true,
+      options: [INVITE_SENT, INVITE_RECEIVED],
+      extraOptions: true,
+    },
+    envelopeNames: { name: 'Envelope Names', type: 'rich_text', required: true },
+    alsoKnownAs: { name: 'Also Known As', type: 'rich_text', required: false },
+    rsvp: {
+      name: 'RSVP',
+      type: 'status',
+      required: true,
+      options: RSVP_STATUS_OPTIONS,
+      extraOptions: true,
+    },
+    lastRsvp: { name: 'Last RSVP', type: 'date', required: true },
+    eventsAttending: { name: 'Events Attending', type: 'relation', required: true },
+    dietaryNeeds: { name: 'Dietary Needs', type: 'rich_text', required: true },
+  },
+} as const satisfies DatabaseSpec;
+
+export const EVENT_CATALOG = {
+  label: 'Event Catalog',
+  envVar: 'NOTION_EVENT_CATALOG_DB',
+  properties: {
+    eventName: { name: 'Event Name', type: 'title', required: true },
+    wedding: {
+      name: 'Wedding',
+      type: 'select',
+      required: true,
+      options: Object.values(CATALOG_WEDDING_OPTION),
+    },
+    eventType: { name: 'Event Type', type: 'select', required: true, options: ['Core', 'Optional', 'Internal'] },
+    time: { name: 'Time', type: 'rich_text', required: true },
+    startTime: { name: 'Start Time', type: 'rich_text', required: true },
+    duration: { name: 'Duration', type: 'rich_text', required: true },
+    endTime: { name: 'End Time', type: 'rich_text', required: false },
+    location: { name: 'Location', type: 'rich_text', required: true },
+    venue: { name: 'Venue', type: 'select', required: false, options: VENUES.map((venue) => venue.id) },
+    description: { name: 'Description', type: 'rich_text', required: true },
+    eventNameFr: { name: 'Event Name FR', type: 'rich_text', required: false },
+    timeFr: { name: 'Time FR', type: 'rich_text', required: false },
+    locationFr: { name: 'Location FR', type: 'rich_text', required: false },
+    descriptionFr: { name: 'Description FR', type: 'rich_text', required: false },
+    mealOptions: { name: 'Meal Options', type: 'rich_text', required: false },
+    mealOptionsFr: { name: 'Meal Options FR', type: 'rich_text', required: false },
+    capacity: { name: 'Capacity', type: 'number', required: false },
+    reminders: { name: 'Reminders', type: 'rich_text', required: false },
+    eventDate: { name: 'Event Date', type: 'date', required: true },
+    day: { name: 'Day', type: 'relation', required: false },
+    showOnWebsite: { name: 'Show on Website', type: 'checkbox', required: true },
+  },
+} as const satisfies DatabaseSpec;
+
+export const RSVP_RESPONSES = {
+  label: 'RSVP Responses',
+  envVar: 'NOTION_RSVP_RESPONSES_DB',
+  properties: {
+    response: { name: 'Response', type: 'title', required: true },
+    guest: { name: 'Guest', type: 'relation', required: true },
+    event: {
+      name: 'Event',
+      type: 'select',
+      required: true,
+      options: Object.values(RSVP_EVENT_OPTION),
+    },
+    submittedAt: { name: 'Submitted At', type: 'date', required: true },
+    status: { name: 'Status', type: 'select', required: true, options: RSVP_STATUS_OPTIONS },
+    guestsAttending: { name: 'Guests Attending', type: 'rich_text', required: true },
+    dietaryNeeds: { name: 'Dietary Needs', type: 'rich_text', required: true },
+    message: { name: 'Message', type: 'rich_text', required: true },
+    details: { name: 'Details', type: 'rich_text', required: true },
+  },
+} as const satisfies DatabaseSpec;
+
+export const HOTEL_BLOCKS = {
+  label: 'Hotel Blocks',
+  envVar: 'NOTION_HOTEL_BLOCKS_DB',
+  // DEFAULT_HOTEL_BLOCKS (src/lib/hotel-blocks.ts) stand in until it is set.
+  optional: true,
+  properties: {
+    hotel: { name: 'Hotel', type: 'title', required: true },
+    wedding: {
+      name: 'Wedding',
+      type: 'select',
+      required: true,
+      options: Object.values(CATALOG_WEDDING_OPTION),
+    },
+    address: { name: 'Address', type: 'rich_text', required: true },
+    mapLink: { name: 'Map Link', type: 'url', required: false },
+    blurb: { name: 'Blurb', type: 'rich_text', required: false },
+    blurbFr: { name: 'Blurb FR', type: 'rich_text', required: false },
+    blockDates: { name: 'Block Dates', type: 'date', required: true },
+    bookingLink: { name: 'Booking Link', type: 'url', required: true },
+    cutoff: { name: 'Cutoff', type: 'date', required: true },
+    roomsHeld: { name: 'Rooms Held', type: 'number', required: true },
+    roomsClaimed: { name: 'Rooms Claimed', type: 'number', required: true },
+    sort: { name: 'Sort', type: 'number', required: false },
+  },
+} as const satisfies DatabaseSpec;
+
+/** Guest Flights `Type` select option per leg. */
+export const FLIGHT_TYPE_OPTION = { arrival: 'Arrival', departure: 'Departure' } as const;
+
+/**
+ * Whether either wedding collects guests' flights. Read from the runtime
+ * environment, like the database IDs: the doctor also runs as a script,
+ * outside the Astro build that bakes in src/config/features.ts.
+ */
+function flightCollectionEnabled(): boolean {
+  return (
+    process.env.FEATURE_NYC_FLIGHT_COLLECTION === 'true' ||
+    process.env.FEATURE_FRANCE_FLIGHT_COLLECTION === 'true'
+  );
+}
+
+export const GUEST_FLIGHTS = {
+  label: 'Guest Flights',
+  envVar: 'NOTION_GUEST_FLIGHTS_DB',
+  // Nothing reads or writes it until flight collection is switched on.
+  optional: () => !flightCollectionEnabled(),
+  properties: {
+    // "{Guest} — {Type} — {Event}", written by the site so rows read well in Notion.
+    title: { name: 'Title', type: 'title', required: false },
+    guest: { name: 'Guest', type: 'relation', required: true },
+    event: {
+      name: 'Event',
+      type: 'select',
+      required: true,
+      options: Object.values(RSVP_EVENT_OPTION),
+    },
+    type: {
+      name: 'Type',
+      type: 'select',
+      required: true,
+      options: Object.values(FLIGHT_TYPE_OPTION),
+    },
+    airline: { name: 'Airline', type: 'rich_text', required: true },
+    flightNumber: { name: 'Flight Number', type: 'rich_text', required: true },
+    date: { name: 'Date', type: 'date', required: true },
+    airport: { name: 'Airport', type: 'rich_text', required: false },
+    time: { name: 'Time', type: 'rich_text', required: false },
+    flightySynced: { name: 'Flighty Synced', type: 'checkbox', required: true },
+  },
+} as const satisfies DatabaseSpec;
+
+/** Wedding Timeline day pages, reached through the Event Catalog `Day` relation. */
+export const WEDDING_TIMELINE_DATE = 'Date';
+
+/** Every database the doctor checks, in report order. */
+export const NOTION_DATABASES: readonly DatabaseSpec[] = [
+  GUEST_LIST,
+  EVENT_CATALOG,
+  RSVP_RESPONSES,
+  HOTEL_BLOCKS,
+  GUEST_FLIGHTS,
+];
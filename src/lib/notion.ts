@@ -7,15 +7,54 @@
 
 import { Client } from '@notionhq/client';
 import { getStore } from '@netlify/blobs';
-import type { GuestRecord, EventRecord, RSVPSubmission, RSVPResponse, RSVPDetails } from '../types';
+import type {
+  GuestRecord,
+  EventRecord,
+  RSVPSubmission,
+  RSVPResponse,
+  RSVPDetails,
+  HotelBlock,
+  FlightLeg,
+  GuestFlight,
+  GuestFlightUpdate,
+} from '../types';
 import { normalize } from './normalize';
-import { parseTime } from './calendar';
+import { parseReminders, parseTime } from './calendar';
 import { isTestGuest, isTestGuestFromNotionProps } from './test-guests';
 import { envelopeTokens, findMatchingHousehold } from './envelope-name';
 import { matchGuestsFromRecords } from './auth';
 import { guestNameEdit, preserveFormerName } from './guest-name';
 import { strandedGuestIds, planDetachedResponse } from './rsvp-split';
+import { recordRSVPRevision, type RSVPRevisionSource } from './rsvp-history';
+import {
+  GUEST_LIST,
+  EVENT_CATALOG,
+  RSVP_RESPONSES,
+  HOTEL_BLOCKS,
+  GUEST_FLIGHTS,
+  FLIGHT_TYPE_OPTION,
+  RSVP_EVENT_OPTION,
+  CATALOG_WEDDING_OPTION,
+  INVITE_SENT,
+  INVITE_RECEIVED,
+  WEDDING_TIMELINE_DATE,
+} from './notion-schema';
 import { memberAttendedResponse } from './rsvp-attendance';
+import { submissionStatus, submissionAttendeeNames, submittedAttendance } from './rsvp-submission';
+import { scopeInvitedEvents } from './event-invitations';
+import { defaultHotelBlocks, sortHotelBlocks } from './hotel-blocks';
+import { parseMealOptions } from './meals';
+import { formatDietaryNeeds, dietaryByGuestId } from './allergens';
+import { planFlightUpsert } from './flights';
+import { venueById } from './venues';
+
+// Property names come from the declared schema (src/lib/notion-schema.ts),
+// which the schema doctor checks against the live databases.
+const G = GUEST_LIST.properties;
+const E = EVENT_CATALOG.properties;
+const R = RSVP_RESPONSES.properties;
+const H = HOTEL_BLOCKS.properties;
+const F = GUEST_FLIGHTS.properties;
 
 let notionClient: Client | null = null;
 
@@ -183,19 +222,19 @@ function parseGuestPage(page: any): GuestRecord | null {
   // The invitation title, joined across blocks — Notion splits a title into
   // several rich-text blocks whenever part of it is styled or was pasted, so
   // reading only `[0]` can silently truncate a name.
-  const invitationTitle = titleText(props['Name of Guest']);
+  const invitationTitle = titleText(props[G.nameOfGuest.name]);
 
   // Full Name is a formula property
-  const fullName = props['Full Name']?.formula?.string || invitationTitle || '';
+  const fullName = props[G.fullName.name]?.formula?.string || invitationTitle || '';
 
   if (!fullName) return null;
 
-  const country = props['Country']?.select?.name || null;
-  const isPlusOne = props['+1']?.checkbox === true;
+  const country = props[G.country.name]?.select?.name || null;
+  const isPlusOne = props[G.plusOne.name]?.checkbox === true;
 
   // Related Guests is a self-relation
   const relatedGuestIds: string[] = (
-    props['Related Guests']?.relation || []
+    props[G.relatedGuests.name]?.relation || []
   ).map((r: { id: string }) => r.id);
 
   // Event Invitations multi-select (Phase 2 addition).
@@ -206,7 +245,7 @@ function parseGuestPage(page: any): GuestRecord | null {
   // (which would reopen NYC/France). Only fall back to Country when the
   // property isn't on the page at all (legacy rows / pre-Phase-2).
   let eventInvitations: ('nyc' | 'france')[];
-  const eventInvProp = props['Event Invitations'];
+  const eventInvProp = props[G.eventInvitations.name];
   if (eventInvProp && Array.isArray(eventInvProp.multi_select)) {
     eventInvitations = eventInvProp.multi_select
       .map((opt: { name: string }) => opt.name.toLowerCase() as 'nyc' | 'france')
@@ -223,7 +262,13 @@ function parseGuestPage(page: any): GuestRecord | null {
     eventInvitations = deriveEventInvitations(country);
   }
 
-  const email: string | undefined = props['Guest Email']?.email ?? undefined;
+  // Events Invited relation → Event Catalog: the exact events within those
+  // weddings. Absent (or empty) means no explicit list.
+  const eventsInvited: string[] = (props[G.eventsInvited.name]?.relation || []).map(
+    (r: { id: string }) => r.id
+  );
+
+  const email: string | undefined = props[G.guestEmail.name]?.email ?? undefined;
   const normalizedName = normalize(fullName);
   const testGuest =
     isTestGuestFromNotionProps(props) || isTestGuest({ normalizedName });
@@ -231,24 +276,24 @@ function parseGuestPage(page: any): GuestRecord | null {
   // Per-event physical-mail status (Notion `status` props). Read so RSVP
   // write-back can advance them to 'Received' (advance-forward only) without a
   // second fetch. Absent props parse to null.
-  const nycInviteStatus: string | null = props['NYC Invite Sent']?.status?.name ?? null;
+  const nycInviteStatus: string | null = props[G.nycInviteSent.name]?.status?.name ?? null;
   const franceSaveTheDateStatus: string | null =
-    props['France Save the Date Sent']?.status?.name ?? null;
+    props[G.franceSaveTheDateSent.name]?.status?.name ?? null;
 
   // Name parts and household envelope strings for envelope-name login.
   // `Envelope Names` holds one addressee line per row — a household can have
   // two (NYC and France include different members). Rich text may arrive split
   // across blocks, so join before splitting on newlines.
-  const firstName: string | undefined = richText(props['First Name']) || undefined;
-  const lastName: string | undefined = richText(props['Last Name']) || undefined;
-  const envelopeNames = richText(props['Envelope Names'])
+  const firstName: string | undefined = richText(props[G.firstName.name]) || undefined;
+  const lastName: string | undefined = richText(props[G.lastName.name]) || undefined;
+  const envelopeNames = richText(props[G.envelopeNames.name])
     .split('\n')
     .map((line) => line.trim())
     .filter(Boolean);
   // `Also Known As` — alternate names the guest answers to, one per line.
   // Parsed identically; absent on records that need no alias, and on the whole
   // database until the property exists, in which case this is simply empty.
-  const aka = richText(props['Also Known As'])
+  const aka = richText(props[G.alsoKnownAs.name])
     .split('\n')
     .map((line) => line.trim())
     .filter(Boolean);
@@ -261,6 +306,7 @@ function parseGuestPage(page: any): GuestRecord | null {
     country,
     isPlusOne,
     relatedGuestIds,
+    eventsInvited: eventsInvited.length > 0 ? eventsInvited : undefined,
     email,
     isTestGuest: testGuest,
     nycInviteStatus,
@@ -310,10 +356,11 @@ let guestCachePromise: Promise<GuestRecord[]> | null = null;
 const GUEST_CACHE_STORE = 'guest-cache';
 // v2 adds firstName/lastName/envelopeNames (envelope-name login); v3 adds
 // invitationTitle (the invitation-title login fallback); v4 adds aka (the
-// `Also Known As` alternate-name property). Bumping the key retires blobs
-// written by older deploys — reusing it would leave the new matching silently
-// dead until the 15-minute TTL expired.
-const GUEST_CACHE_KEY = 'all-guests-v4';
+// `Also Known As` alternate-name property); v5 adds eventsInvited (the
+// `Events Invited` relation). Bumping the key retires blobs written by older
+// deploys — reusing it would leave the new fields silently missing until the
+// 15-minute TTL expired.
+const GUEST_CACHE_KEY = 'all-guests-v5';
 const GUEST_CACHE_TTL_MS = 15 * 60 * 1000; // 15 minutes
 
 interface GuestCacheBlob {
@@ -658,9 +705,9 @@ async function queryGuestCandidates(
   };
 
   const results = await Promise.allSettled([
-    runQuery({ property: 'Name of Guest', title: { contains: token } }),
-    runQuery({ property: 'Envelope Names', rich_text: { contains: token } }),
-    runQuery({ property: 'Also Known As', rich_text: { contains: token } }),
+    runQuery({ property: G.nameOfGuest.name, title: { contains: token } }),
+    runQuery({ property: G.envelopeNames.name, rich_text: { contains: token } }),
+    runQuery({ property: G.alsoKnownAs.name, rich_text: { contains: token } }),
   ]);
 
   const fulfilled = results.filter(
@@ -690,7 +737,7 @@ export async function updateGuestEmail(guestId: string, email: string | null): P
   await notion.pages.update({
     page_id: guestId,
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    properties: { 'Guest Email': { email } } as any,
+    properties: { [G.guestEmail.name]: { email } } as any,
   });
   // Invalidate cache so the next fetchAllGuests() reflects the new email
   await clearGuestCache();
@@ -706,11 +753,11 @@ export async function updateGuestEmail(guestId: string, email: string | null): P
  */
 export async function markInviteSent(guestId: string, event: 'nyc' | 'france'): Promise<void> {
   const notion = getClient();
-  const prop = event === 'nyc' ? 'NYC Invite Sent' : 'France Save the Date Sent';
+  const prop = event === 'nyc' ? G.nycInviteSent.name : G.franceSaveTheDateSent.name;
   await notion.pages.update({
     page_id: guestId,
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    properties: { [prop]: { status: { name: 'Sent' } } } as any,
+    properties: { [prop]: { status: { name: INVITE_SENT } } } as any,
   });
 }
 
@@ -724,10 +771,24 @@ const eventCatalogCache: Map<'nyc' | 'france', { at: number; events: EventRecord
   new Map();
 
 /**
- * Fetch all events from the Event Catalog for a specific wedding.
- * Results are cached in memory for EVENT_CATALOG_TTL_MS.
+ * Fetch the events a guest can see from the Event Catalog for a specific
+ * wedding — everything but Internal events (vendor arrival, setup, rehearsal),
+ * which only the master calendar lists (getInternalEvents).
  */
 export async function getEventCatalog(wedding: 'nyc' | 'france'): Promise<EventRecord[]> {
+  return (await fetchEventCatalog(wedding)).filter((event) => event.type !== 'Internal');
+}
+
+/** The wedding's Internal events — for the couple and planner only. */
+export async function getInternalEvents(wedding: 'nyc' | 'france'): Promise<EventRecord[]> {
+  return (await fetchEventCatalog(wedding)).filter((event) => event.type === 'Internal');
+}
+
+/**
+ * Fetch all events from the Event Catalog for a specific wedding, Internal
+ * ones included. Results are cached in memory for EVENT_CATALOG_TTL_MS.
+ */
+async function fetchEventCatalog(wedding: 'nyc' | 'france'): Promise<EventRecord[]> {
   const cached = eventCatalogCache.get(wedding);
   if (cached && Date.now() - cached.at <= EVENT_CATALOG_TTL_MS) {
     return cached.events;
@@ -746,7 +807,7 @@ export async function getEventCatalog(wedding: 'nyc' | 'france'): Promise<EventR
   let cursor: string | undefined = undefined;
 
   // Map our internal wedding key to the Notion select option name
-  const weddingLabel = wedding === 'nyc' ? 'New York' : 'France';
+  const weddingLabel = CATALOG_WEDDING_OPTION[wedding];
 
   do {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -761,48 +822,76 @@ export async function getEventCatalog(wedding: 'nyc' | 'france'): Promise<EventR
       const props = page.properties;
 
       // Event Name (title)
-      const name = props['Event Name']?.title?.[0]?.plain_text || '';
+      const name = props[E.eventName.name]?.title?.[0]?.plain_text || '';
       if (!name) continue;
 
       // Wedding (select) — stored as "New York" or "France", not "nyc"/"france"
-      const weddingProp = props['Wedding']?.select?.name;
+      const weddingProp = props[E.wedding.name]?.select?.name;
       if (weddingProp !== weddingLabel) continue; // Filter by wedding
 
       // Event Type (select)
-      const typeProp = props['Event Type']?.select?.name;
-      const type = typeProp === 'Optional' ? 'Optional' : 'Core';
+      const typeProp = props[E.eventType.name]?.select?.name;
+      const type = typeProp === 'Optional' || typeProp === 'Internal' ? typeProp : 'Core';
 
       // Time (text) — display only
-      const time = props['Time']?.rich_text?.[0]?.plain_text || undefined;
+      const time = props[E.time.name]?.rich_text?.[0]?.plain_text || undefined;
 
       // Start Time (text) — authoritative for ICS calendar
-      const startTime = props['Start Time']?.rich_text?.[0]?.plain_text || undefined;
+      const startTime = props[E.startTime.name]?.rich_text?.[0]?.plain_text || undefined;
 
       // Duration (text) — e.g. "3h", "2h30m", "90m"
-      const duration = props['Duration']?.rich_text?.[0]?.plain_text || undefined;
+      const duration = props[E.duration.name]?.rich_text?.[0]?.plain_text || undefined;
+
+      // End Time (text) — e.g. "1:00 AM"; takes precedence over Duration
+      const endTime = props[E.endTime.name]?.rich_text?.[0]?.plain_text || undefined;
 
       // Location (text)
-      const location = props['Location']?.rich_text?.[0]?.plain_text || undefined;
+      const location = props[E.location.name]?.rich_text?.[0]?.plain_text || undefined;
+
+      // Venue (select) — an ID in VENUES; unknown options are ignored
+      const venueProp = props[E.venue.name]?.select?.name;
+      const venueId = venueById(venueProp)?.id;
+      if (venueProp && !venueId) {
+        console.warn(`[notion] Event ${page.id} ("${name}") has unknown Venue ${JSON.stringify(venueProp)}`);
+      }
 
       // Description (rich text)
-      const description = props['Description']?.rich_text?.[0]?.plain_text || undefined;
+      const description = props[E.description.name]?.rich_text?.[0]?.plain_text || undefined;
 
       // French display variants ("* FR" rich_text properties) — optional;
       // display falls back to the English field when unset. Timing fields
-      // (Start Time/Duration/Event Date) intentionally have no FR variant.
-      const nameFr = props['Event Name FR']?.rich_text?.[0]?.plain_text || undefined;
-      const timeFr = props['Time FR']?.rich_text?.[0]?.plain_text || undefined;
-      const locationFr = props['Location FR']?.rich_text?.[0]?.plain_text || undefined;
-      const descriptionFr = props['Description FR']?.rich_text?.[0]?.plain_text || undefined;
+      // (Start Time/Duration/End Time/Event Date) intentionally have no FR variant.
+      const nameFr = props[E.eventNameFr.name]?.rich_text?.[0]?.plain_text || undefined;
+      const timeFr = props[E.timeFr.name]?.rich_text?.[0]?.plain_text || undefined;
+      const locationFr = props[E.locationFr.name]?.rich_text?.[0]?.plain_text || undefined;
+      const descriptionFr = props[E.descriptionFr.name]?.rich_text?.[0]?.plain_text || undefined;
 
       // Date (date property — YYYY-MM-DD)
-      const date: string | undefined = props['Event Date']?.date?.start ?? undefined;
+      const date: string | undefined = props[E.eventDate.name]?.date?.start ?? undefined;
+      // A date range ("Fri → Sun") ends the event on its last day
+      const endDate: string | undefined = props[E.eventDate.name]?.date?.end ?? undefined;
 
       // Day (relation to Wedding Timeline)
-      const dayId = props['Day']?.relation?.[0]?.id || undefined;
+      const dayId = props[E.day.name]?.relation?.[0]?.id || undefined;
 
       // Show on Website (checkbox)
-      const showOnWebsite = props['Show on Website']?.checkbox === true;
+      const showOnWebsite = props[E.showOnWebsite.name]?.checkbox === true;
+
+      // Meal Options (text, one per line) — seated meals only
+      const mealOptions = parseMealOptions(
+        getRichTextPlainText(props[E.mealOptions.name]),
+        getRichTextPlainText(props[E.mealOptionsFr.name])
+      );
+
+      // Capacity (number) — optional events with limited places only
+      const capacity = numberValue(props[E.capacity.name]);
+
+      // Reminders (text, e.g. "1 day, 2 hours") — calendar alarms
+      const remindersText = getRichTextPlainText(props[E.reminders.name]);
+      const reminders = parseReminders(remindersText);
+      if (remindersText?.trim() && !reminders) {
+        console.warn(`[notion] Event ${page.id} ("${name}") has unreadable Reminders ${JSON.stringify(remindersText)}`);
+      }
 
       events.push({
         id: page.id,
@@ -813,6 +902,8 @@ export async function getEventCatalog(wedding: 'nyc' | 'france'): Promise<EventR
         startTime,
         duration,
         date,
+        ...(endDate ? { endDate } : {}),
+        ...(endTime ? { endTime } : {}),
         location,
         description,
         nameFr,
@@ -820,7 +911,11 @@ export async function getEventCatalog(wedding: 'nyc' | 'france'): Promise<EventR
         locationFr,
         descriptionFr,
         dayId,
+        ...(venueId ? { venueId } : {}),
         showOnWebsite,
+        ...(mealOptions ? { mealOptions } : {}),
+        ...(capacity !== undefined ? { capacity } : {}),
+        ...(reminders ? { reminders } : {}),
       });
     }
 
@@ -846,10 +941,10 @@ export async function getEventCatalog(wedding: 'nyc' | 'france'): Promise<EventR
 }
 
 /**
- * Fetch the events a guest can RSVP to: the full Event Catalog for each
- * wedding they are invited to (per the live Notion record). The deprecated
- * 'Events Invited' relation is intentionally not consulted — every guest
- * invited to a wedding gets that wedding's whole catalog.
+ * Fetch the events a guest can RSVP to: for each wedding they are invited to
+ * (per the live Notion record), the events their party's `Events Invited`
+ * relation lists — or that wedding's Core events when nobody in the party has
+ * an explicit list. See src/lib/event-invitations.ts.
  */
 export async function getGuestEvents(guestId: string): Promise<EventRecord[]> {
   // Targeted lookup: memory/blob cache, or a single direct page retrieve —
@@ -861,8 +956,11 @@ export async function getGuestEvents(guestId: string): Promise<EventRecord[]> {
     return [];
   }
 
-  const catalogs = await Promise.all(weddings.map((wedding) => getEventCatalog(wedding)));
-  return catalogs.flat();
+  const [catalogs, party] = await Promise.all([
+    Promise.all(weddings.map((wedding) => getEventCatalog(wedding))),
+    getGuestParty(guestId),
+  ]);
+  return scopeInvitedEvents(catalogs.flat(), party);
 }
 
 /**
@@ -887,8 +985,10 @@ export async function getAttendingEvents(
     return [];
   }
 
-  const [catalogs, rsvps] = await Promise.all([
-    Promise.all(weddings.map((wedding) => getEventCatalog(wedding))),
+  // Invited events only: an answer recorded before an event was taken off the
+  // party's `Events Invited` list must not keep it on the calendar.
+  const [invited, rsvps] = await Promise.all([
+    getGuestEvents(guestId),
     Promise.all(
       weddings.map((wedding) =>
         justSubmitted && justSubmitted.event === wedding
@@ -913,7 +1013,7 @@ export async function getAttendingEvents(
     }
   }
 
-  return catalogs.flat().filter((event) => attendingIds.has(event.id));
+  return invited.filter((event) => attendingIds.has(event.id));
 }
 
 // `rsvpIncludesGuest` lived here: name-only attendance matching, called from
@@ -999,7 +1099,8 @@ async function detachFromSharedResponse(
   notion: any,
   existing: RSVPResponse,
   strandedIds: string[],
-  eventLabel: 'NYC' | 'France'
+  eventLabel: (typeof RSVP_EVENT_OPTION)[keyof typeof RSVP_EVENT_OPTION],
+  revision: { source: RSVPRevisionSource; submittedBy: { guestId: string; name: string } }
 ): Promise<void> {
   const members = (
     await Promise.all(
@@ -1016,7 +1117,7 @@ async function detachFromSharedResponse(
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const properties: Record<string, any> = {
-    Guest: { relation: strandedIds.map((id) => ({ id })) },
+    [R.guest.name]: { relation: strandedIds.map((id) => ({ id })) },
   };
 
   const plan =
@@ -1025,11 +1126,11 @@ async function detachFromSharedResponse(
       : null;
 
   if (plan) {
-    properties['Guests Attending'] = {
+    properties[R.guestsAttending.name] = {
       rich_text: [{ text: { content: plan.guestsAttending } }],
     };
-    properties.Status = { select: { name: plan.status } };
-    properties.Response = {
+    properties[R.status.name] = { select: { name: plan.status } };
+    properties[R.response.name] = {
       title: [{ text: { content: `${members[0].name} — ${eventLabel}` } }],
     };
   }
@@ -1040,7 +1141,22 @@ async function detachFromSharedResponse(
     // Concurrent delete already archived this row — the caller creates a
     // fresh response for the submitting party either way.
     if (!isArchivedEditError(err)) throw err;
+    return;
   }
+
+  await recordRSVPRevision(
+    {
+      ...existing,
+      guestIds: strandedIds,
+      guestsAttending: plan?.guestsAttending ?? existing.guestsAttending,
+      status: plan?.status ?? existing.status,
+    },
+    {
+      kind: 'detach',
+      ...revision,
+      names: Object.fromEntries(members.map((member) => [member.id, member.name])),
+    }
+  );
 }
 
 /**
@@ -1070,7 +1186,8 @@ export function toRichTextItems(content: string): { text: { content: string } }[
  */
 export async function submitRSVP(
   guestId: string,
-  submission: RSVPSubmission
+  submission: RSVPSubmission,
+  source: RSVPRevisionSource = 'website'
 ): Promise<RSVPResponse> {
   const notion = getClient();
   const dataSourceId = process.env.NOTION_RSVP_RESPONSES_DB;
@@ -1089,44 +1206,13 @@ export async function submitRSVP(
   const guest = party.find((member) => member.id === guestId) ?? null;
   const guestName = guest?.name || 'Unknown Guest';
 
-  // Index submitted attendance by member page ID when the form threads it, so
-  // name edits and attendance resolve to the right member even if the displayed
-  // name was changed on the form. Entries without a guestId (legacy clients)
-  // fall back to normalized-name matching.
-  const submittedById = new Map<string, { name: string; attending: boolean }>();
-  for (const entry of submission.guestsAttending) {
-    if (entry.guestId) {
-      submittedById.set(entry.guestId, { name: entry.name, attending: entry.attending });
-    }
-  }
-  const submittedAttendingNamesLegacy = new Set(
+  // Attendance is matched by member page ID when the form threads it, then by
+  // normalized name for legacy clients — see src/lib/rsvp-submission.ts.
+  const { byId: submittedById, attends: memberAttendsSubmitted } = submittedAttendance(
     submission.guestsAttending
-      .filter((g) => g.attending && !g.guestId)
-      .map((g) => normalize(g.name))
   );
-  const memberAttendsSubmitted = (member: GuestRecord): boolean => {
-    const byId = submittedById.get(member.id);
-    if (byId) return byId.attending;
-    return submittedAttendingNamesLegacy.has(member.normalizedName);
-  };
-
-  // Determine status
-  const attendingCount = submission.guestsAttending.filter(g => g.attending).length;
-  const totalCount = submission.guestsAttending.length;
-  let status: 'Attending' | 'Declined' | 'Partial';
-  if (attendingCount === 0) {
-    status = 'Declined';
-  } else if (attendingCount === totalCount) {
-    status = 'Attending';
-  } else {
-    status = 'Partial';
-  }
-
-  // Guests Attending: comma-separated names
-  const guestsAttending = submission.guestsAttending
-    .filter(g => g.attending)
-    .map(g => g.name)
-    .join(', ');
+  const status = submissionStatus(submission.guestsAttending);
+  const guestsAttending = submissionAttendeeNames(submission.guestsAttending);
 
   // Details JSON blob. `attendance` records each member's answer against their
   // page ID, so every later reader — the ICS calendar, the Guest List
@@ -1146,7 +1232,7 @@ export async function submitRSVP(
   };
 
   // Event label must match the Notion select options: 'NYC' or 'France'
-  const eventLabel = submission.event === 'nyc' ? 'NYC' : 'France';
+  const eventLabel = RSVP_EVENT_OPTION[submission.event];
 
   // Check if an existing RSVP exists for this party + event — matched against
   // any party member, so a partner updating the RSVP lands on the same row
@@ -1160,40 +1246,43 @@ export async function submitRSVP(
     ? strandedGuestIds(existingRSVP.guestIds, partyIds)
     : [];
   if (existingRSVP && stranded.length > 0) {
-    await detachFromSharedResponse(notion, existingRSVP, stranded, eventLabel);
+    await detachFromSharedResponse(notion, existingRSVP, stranded, eventLabel, {
+      source,
+      submittedBy: { guestId, name: guestName },
+    });
   }
   const rowToUpdate = stranded.length === 0 ? existingRSVP : null;
 
   const properties = {
-    Response: {
+    [R.response.name]: {
       title: [{ text: { content: `${guestName} — ${eventLabel}` } }],
     },
-    Guest: {
+    [R.guest.name]: {
       relation: party.map((member) => ({ id: member.id })),
     },
-    Event: {
+    [R.event.name]: {
       select: { name: eventLabel },
     },
-    'Submitted At': {
+    [R.submittedAt.name]: {
       date: { start: new Date().toISOString() },
     },
-    Status: {
+    [R.status.name]: {
       select: { name: status },
     },
-    'Guests Attending': {
+    [R.guestsAttending.name]: {
       rich_text: [{ text: { content: guestsAttending } }],
     },
-    'Dietary Needs': {
-      rich_text: submission.dietary
-        ? [{ text: { content: submission.dietary } }]
-        : [],
+    // Composed from per-guest allergens, a large party's text can pass the
+    // per-item limit.
+    [R.dietaryNeeds.name]: {
+      rich_text: submission.dietary ? toRichTextItems(submission.dietary) : [],
     },
-    Message: {
+    [R.message.name]: {
       rich_text: submission.message
         ? [{ text: { content: submission.message } }]
         : [],
     },
-    Details: {
+    [R.details.name]: {
       // Chunked: the JSON grows with party size and free-text detail fields
       // (France allergens), and a single item over 2,000 chars makes Notion
       // reject the whole write — which surfaced to guests as a 500 on submit.
@@ -1230,6 +1319,36 @@ export async function submitRSVP(
     responseId = response.id as string;
   }
 
+  // The response as written — the same shape parseRSVPPage would read back.
+  const written: RSVPResponse = {
+    id: responseId,
+    guestId,
+    guestIds: partyIds,
+    event: submission.event,
+    submittedAt: properties[R.submittedAt.name].date.start,
+    status,
+    guestsAttending,
+    dietary: submission.dietary,
+    message: submission.message,
+    details: submission.details,
+    eventsAttending: submission.eventsAttending,
+    attendanceById: Object.fromEntries(
+      (details.attendance ?? []).map((entry) => [entry.guestId, entry.attending])
+    ),
+  };
+
+  // Recorded as soon as the row is saved — before the Guest List write-back,
+  // whose failure still leaves this answer standing.
+  await recordRSVPRevision(written, {
+    kind: 'submission',
+    source,
+    submittedBy: { guestId, name: guestName },
+    // Names as the party submitted them, ahead of the Guest List rename below
+    names: Object.fromEntries(
+      party.map((member) => [member.id, submittedById.get(member.id)?.name ?? member.name])
+    ),
+  });
+
   // Sync RSVP status back to every party member's Guest List record.
   // Per member: gather their personal attendance from this submission plus the
   // party's latest response for any other event they're invited to, then
@@ -1319,25 +1438,30 @@ export async function submitRSVP(
     const props: Record<string, any> = {};
 
     const rsvpStatus = memberRsvpStatus(member);
-    if (rsvpStatus) props.RSVP = { status: { name: rsvpStatus } };
+    if (rsvpStatus) props[G.rsvp.name] = { status: { name: rsvpStatus } };
 
     if (member.eventInvitations.includes(submission.event)) {
-      if (submission.event === 'nyc' && member.nycInviteStatus !== 'Received') {
-        props['NYC Invite Sent'] = { status: { name: 'Received' } };
+      if (submission.event === 'nyc' && member.nycInviteStatus !== INVITE_RECEIVED) {
+        props[G.nycInviteSent.name] = { status: { name: INVITE_RECEIVED } };
       } else if (
         submission.event === 'france' &&
-        member.franceSaveTheDateStatus !== 'Received'
+        member.franceSaveTheDateStatus !== INVITE_RECEIVED
       ) {
-        props['France Save the Date Sent'] = { status: { name: 'Received' } };
+        props[G.franceSaveTheDateSent.name] = { status: { name: INVITE_RECEIVED } };
       }
     }
 
-    props['Last RSVP'] = { date: { start: nowIso } };
-    props['Events Attending'] = {
+    props[G.lastRsvp.name] = { date: { start: nowIso } };
+    props[G.eventsAttending.name] = {
       relation: eventsAttendingForMember(member).map((id) => ({ id })),
     };
-    props['Dietary Needs'] = {
-      rich_text: submission.dietary ? [{ text: { content: submission.dietary } }] : [],
+    // Per-guest allergens (src/lib/allergens.ts) give each member their own
+    // needs; older forms only have the party text.
+    const dietary = submission.details?.dietaryByGuest
+      ? formatDietaryNeeds(dietaryByGuestId(submission.details.dietaryByGuest).get(member.id))
+      : submission.dietary;
+    props[G.dietaryNeeds.name] = {
+      rich_text: dietary ? [{ text: { content: dietary } }] : [],
     };
 
     // Persist a name edit only when the form threaded this member's guestId
@@ -1346,17 +1470,17 @@ export async function submitRSVP(
     // unnamed plus-one gets a real name — see src/lib/guest-name.ts.
     const nameEdit = guestNameEdit(member.name, submittedById.get(member.id)?.name);
     if (nameEdit) {
-      props['First Name'] = { rich_text: [{ text: { content: nameEdit.first } }] };
-      props['Last Name'] = { rich_text: [{ text: { content: nameEdit.last } }] };
-      props['Name of Guest'] = { title: [{ text: { content: nameEdit.title } }] };
+      props[G.firstName.name] = { rich_text: [{ text: { content: nameEdit.first } }] };
+      props[G.lastName.name] = { rich_text: [{ text: { content: nameEdit.last } }] };
+      props[G.nameOfGuest.name] = { title: [{ text: { content: nameEdit.title } }] };
 
       // A rename overwrites the only copy of the name their invitation was
       // addressed with. Keep it in `Also Known As` so they can still log in
-      // as it — but not for an unnamed plus-one, whose "<host> +1" is a slot
-      // rather than a name.
+      // as it — but not for an unnamed plus-one, whose "<host> +1" or "Guest"
+      // is a slot rather than a name.
       const formerName = preserveFormerName(member.name, member.aka);
       if (formerName) {
-        props['Also Known As'] = { rich_text: [{ text: { content: formerName } }] };
+        props[G.alsoKnownAs.name] = { rich_text: [{ text: { content: formerName } }] };
       }
     }
 
@@ -1396,23 +1520,6 @@ export async function submitRSVP(
   // Awaited so the blob delete lands before the endpoint's follow-up reads.
   await clearGuestCache();
 
-  // The response as written — the same shape parseRSVPPage would read back.
-  const written: RSVPResponse = {
-    id: responseId,
-    guestId,
-    guestIds: partyIds,
-    event: submission.event,
-    submittedAt: properties['Submitted At'].date.start,
-    status,
-    guestsAttending,
-    dietary: submission.dietary,
-    message: submission.message,
-    details: submission.details,
-    eventsAttending: submission.eventsAttending,
-    attendanceById: Object.fromEntries(
-      (details.attendance ?? []).map((entry) => [entry.guestId, entry.attending])
-    ),
-  };
   rememberRecentRsvp(written);
   return written;
 }
@@ -1432,7 +1539,7 @@ export async function getLatestRSVPForParty(
     return null;
   }
 
-  const eventLabel = event === 'nyc' ? 'NYC' : 'France';
+  const eventLabel = RSVP_EVENT_OPTION[event];
 
   // page_size > 1 so we can skip archived rows: Notion's query index can
   // briefly still surface a page that DELETE just archived, and updating it
@@ -1444,19 +1551,19 @@ export async function getLatestRSVPForParty(
       and: [
         {
           or: partyIds.map((id) => ({
-            property: 'Guest',
+            property: R.guest.name,
             relation: { contains: id },
           })),
         },
         {
-          property: 'Event',
+          property: R.event.name,
           select: { equals: eventLabel },
         },
       ],
     },
     sorts: [
       {
-        property: 'Submitted At',
+        property: R.submittedAt.name,
         direction: 'descending',
       },
     ],
@@ -1490,7 +1597,7 @@ export async function getLatestRSVP(
   }
 
   // Event stored as 'NYC' or 'France' in the database (not 'nyc'/'france')
-  const eventLabel = event === 'nyc' ? 'NYC' : 'France';
+  const eventLabel = RSVP_EVENT_OPTION[event];
 
   // Query for latest response matching guest + event (server-side filter + sort)
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -1499,18 +1606,18 @@ export async function getLatestRSVP(
     filter: {
       and: [
         {
-          property: 'Guest',
+          property: R.guest.name,
           relation: { contains: guestId },
         },
         {
-          property: 'Event',
+          property: R.event.name,
           select: { equals: eventLabel },
         },
       ],
     },
     sorts: [
       {
-        property: 'Submitted At',
+        property: R.submittedAt.name,
         direction: 'descending',
       },
     ],
@@ -1546,13 +1653,13 @@ export function parseRSVPPage(
   const props = page.properties ?? {};
 
   const submittedAt =
-    props['Submitted At']?.date?.start || new Date().toISOString();
-  const status = props['Status']?.select?.name || 'Attending';
-  const guestsAttending = getRichTextPlainText(props['Guests Attending']) || '';
-  const dietary = getRichTextPlainText(props['Dietary Needs']);
-  const message = getRichTextPlainText(props['Message']);
+    props[R.submittedAt.name]?.date?.start || new Date().toISOString();
+  const status = props[R.status.name]?.select?.name || 'Attending';
+  const guestsAttending = getRichTextPlainText(props[R.guestsAttending.name]) || '';
+  const dietary = getRichTextPlainText(props[R.dietaryNeeds.name]);
+  const message = getRichTextPlainText(props[R.message.name]);
 
-  const detailsText = getRichTextPlainText(props['Details']);
+  const detailsText = getRichTextPlainText(props[R.details.name]);
   const hasDetailsText =
     typeof detailsText === 'string' && detailsText.trim().length > 0;
   const detailsJson = hasDetailsText ? detailsText : '{}';
@@ -1604,7 +1711,7 @@ export function parseRSVPPage(
     // The whole relation, not just the id this was looked up by: submitRSVP
     // needs it to tell a response covering exactly this party from one left
     // over by a household that has since been split (see rsvp-split.ts).
-    guestIds: (props['Guest']?.relation ?? []).map(
+    guestIds: (props[R.guest.name]?.relation ?? []).map(
       (relation: { id: string }) => relation.id
     ),
     event,
@@ -1645,7 +1752,7 @@ export async function fetchAllLatestRSVPs(): Promise<Map<string, RSVPResponse[]>
       page_size: 100,
       sorts: [
         {
-          property: 'Submitted At',
+          property: R.submittedAt.name,
           direction: 'descending',
         },
       ],
@@ -1658,11 +1765,16 @@ export async function fetchAllLatestRSVPs(): Promise<Map<string, RSVPResponse[]>
 
       // Responses are party-level: index under every related guest so each
       // party member's calendar refresh finds the shared response.
-      const relatedGuestIds: string[] = (props['Guest']?.relation ?? []).map(
+      const relatedGuestIds: string[] = (props[R.guest.name]?.relation ?? []).map(
         (r: { id: string }) => r.id
       );
-      const eventLabel = props['Event']?.select?.name;
-      const event = eventLabel === 'NYC' ? 'nyc' : eventLabel === 'France' ? 'france' : null;
+      const eventLabel = props[R.event.name]?.select?.name;
+      const event =
+        eventLabel === RSVP_EVENT_OPTION.nyc
+          ? 'nyc'
+          : eventLabel === RSVP_EVENT_OPTION.france
+            ? 'france'
+            : null;
       if (relatedGuestIds.length === 0 || !event) continue;
 
       for (const guestId of relatedGuestIds) {
@@ -1753,19 +1865,24 @@ export async function backfillGuestListFromRSVPs(
       .sort()
       .at(-1) ?? null;
 
-    // Party-level dietary text from their most recent response that carries one.
+    // Dietary text from their most recent response that carries one: their
+    // own per-guest allergens when recorded, else the party-level text.
     const dietary =
       [...responses]
         .sort((a, b) => (a.submittedAt < b.submittedAt ? 1 : -1))
-        .map((r) => r.dietary)
+        .map((r) =>
+          r.details?.dietaryByGuest
+            ? formatDietaryNeeds(dietaryByGuestId(r.details.dietaryByGuest).get(guest.id))
+            : r.dietary
+        )
         .find((d) => d && d.trim().length > 0) ?? null;
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const props: Record<string, any> = {
-      'Events Attending': { relation: Array.from(attendingIds).map((id) => ({ id })) },
+      [G.eventsAttending.name]: { relation: Array.from(attendingIds).map((id) => ({ id })) },
     };
-    if (lastRSVP) props['Last RSVP'] = { date: { start: lastRSVP } };
-    if (dietary) props['Dietary Needs'] = { rich_text: [{ text: { content: dietary } }] };
+    if (lastRSVP) props[G.lastRsvp.name] = { date: { start: lastRSVP } };
+    if (dietary) props[G.dietaryNeeds.name] = { rich_text: [{ text: { content: dietary } }] };
 
     report.changes.push({
       id: guest.id,
@@ -1830,6 +1947,249 @@ export function clearEventCache(): void {
   eventCatalogCache.clear();
 }
 
+// Hotel block cache — shorter than the catalog's: `Rooms Claimed` is updated
+// from the hotels' pickup reports, and a sold-out block should stop offering
+// its booking link soon after.
+const HOTEL_BLOCKS_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const hotelBlockCache: Map<'nyc' | 'france', { at: number; blocks: HotelBlock[] }> = new Map();
+
+/** Read an optional Notion number property (undefined when empty). */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function numberValue(prop: any): number | undefined {
+  return typeof prop?.number === 'number' ? prop.number : undefined;
+}
+
+/**
+ * Fetch the hotel room blocks for a wedding from the Hotel Blocks database,
+ * in travel-page order. Results are cached in memory for HOTEL_BLOCKS_TTL_MS.
+ * State (open / sold out / closed) is derived per request — see
+ * src/lib/hotel-blocks.ts. Until NOTION_HOTEL_BLOCKS_DB is set, the
+ * DEFAULT_HOTEL_BLOCKS stand in.
+ */
+export async function getHotelBlocks(wedding: 'nyc' | 'france'): Promise<HotelBlock[]> {
+  const cached = hotelBlockCache.get(wedding);
+  if (cached && Date.now() - cached.at <= HOTEL_BLOCKS_TTL_MS) {
+    return cached.blocks;
+  }
+
+  const dataSourceId = process.env.NOTION_HOTEL_BLOCKS_DB;
+  if (!dataSourceId) {
+    return defaultHotelBlocks(wedding);
+  }
+
+  const blocks: HotelBlock[] = [];
+  let cursor: string | undefined = undefined;
+
+  do {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const response: any = await queryDatabase(dataSourceId, {
+      start_cursor: cursor,
+      page_size: 100,
+      filter: {
+        property: H.wedding.name,
+        select: { equals: CATALOG_WEDDING_OPTION[wedding] },
+      },
+    });
+
+    for (const page of response.results) {
+      if (page.object !== 'page') continue;
+      const props = page.properties;
+
+      const name = titleText(props[H.hotel.name]);
+      if (!name) continue;
+
+      const blockDates = props[H.blockDates.name]?.date;
+      blocks.push({
+        id: page.id,
+        wedding,
+        name,
+        address: richText(props[H.address.name]) || undefined,
+        mapUrl: props[H.mapLink.name]?.url || undefined,
+        blurb: richText(props[H.blurb.name]) || undefined,
+        blurbFr: richText(props[H.blurbFr.name]) || undefined,
+        checkIn: blockDates?.start ?? undefined,
+        checkOut: blockDates?.end ?? undefined,
+        bookingUrl: props[H.bookingLink.name]?.url || undefined,
+        cutoffDate: props[H.cutoff.name]?.date?.start ?? undefined,
+        roomsHeld: numberValue(props[H.roomsHeld.name]),
+        roomsClaimed: numberValue(props[H.roomsClaimed.name]),
+        sortOrder: numberValue(props[H.sort.name]),
+      });
+    }
+
+    cursor = response.has_more ? response.next_cursor : undefined;
+  } while (cursor);
+
+  const sorted = sortHotelBlocks(blocks);
+  hotelBlockCache.set(wedding, { at: Date.now(), blocks: sorted });
+  return sorted;
+}
+
+/**
+ * Clear the hotel block cache (useful for testing or manual refresh).
+ */
+export function clearHotelBlockCache(): void {
+  hotelBlockCache.clear();
+}
+
+function guestFlightsDatabaseId(): string {
+  const dataSourceId = process.env.NOTION_GUEST_FLIGHTS_DB;
+  if (!dataSourceId) {
+    throw new Error(
+      'NOTION_GUEST_FLIGHTS_DB is not set. Add it to Netlify environment variables.'
+    );
+  }
+  return dataSourceId;
+}
+
+/** Parse a Guest Flights page, or null when a required cell is empty. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function parseGuestFlightPage(page: any, event: 'nyc' | 'france'): GuestFlight | null {
+  const props = page.properties;
+  const guestId: string | undefined = props[F.guest.name]?.relation?.[0]?.id;
+  const typeName: string | undefined = props[F.type.name]?.select?.name;
+  const type =
+    typeName === FLIGHT_TYPE_OPTION.arrival
+      ? 'arrival'
+      : typeName === FLIGHT_TYPE_OPTION.departure
+        ? 'departure'
+        : null;
+  const date: string | undefined = props[F.date.name]?.date?.start?.slice(0, 10);
+  if (!guestId || !type || !date) return null;
+
+  return {
+    id: page.id,
+    guestId,
+    event,
+    type,
+    airline: richText(props[F.airline.name]),
+    flightNumber: richText(props[F.flightNumber.name]),
+    date,
+    airport: richText(props[F.airport.name]) || undefined,
+    time: richText(props[F.time.name]) || undefined,
+    flightySynced: props[F.flightySynced.name]?.checkbox === true,
+  };
+}
+
+async function queryGuestFlights(
+  event: 'nyc' | 'france',
+  guestId?: string
+): Promise<GuestFlight[]> {
+  const dataSourceId = guestFlightsDatabaseId();
+  const eventFilter = { property: F.event.name, select: { equals: RSVP_EVENT_OPTION[event] } };
+  const flights: GuestFlight[] = [];
+  let cursor: string | undefined = undefined;
+
+  do {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const response: any = await queryDatabase(dataSourceId, {
+      start_cursor: cursor,
+      page_size: 100,
+      filter: guestId
+        ? { and: [eventFilter, { property: F.guest.name, relation: { contains: guestId } }] }
+        : eventFilter,
+      sorts: [{ timestamp: 'created_time', direction: 'ascending' }],
+    });
+
+    for (const page of response.results) {
+      if (page.object !== 'page' || isArchivedPage(page)) continue;
+      const flight = parseGuestFlightPage(page, event);
+      if (flight) flights.push(flight);
+    }
+
+    cursor = response.has_more ? response.next_cursor : undefined;
+  } while (cursor);
+
+  return flights;
+}
+
+/**
+ * Fetch a guest's flight legs for one wedding from the Guest Flights
+ * database — at most one per leg unless the table was edited by hand.
+ * Not cached: the travel page pre-fills from it right after a save.
+ */
+export async function getGuestFlights(
+  guestId: string,
+  event: 'nyc' | 'france'
+): Promise<GuestFlight[]> {
+  return queryGuestFlights(event, guestId);
+}
+
+/** Every guest's flight legs for one wedding (the admin arrivals board). */
+export async function fetchAllGuestFlights(event: 'nyc' | 'france'): Promise<GuestFlight[]> {
+  return queryGuestFlights(event);
+}
+
+/**
+ * Create, rewrite or archive a guest's Guest Flights rows for one wedding so
+ * they match `update` (src/lib/flights.ts planFlightUpsert). Every row written
+ * has `Flighty Synced` cleared; unchanged legs are not touched. Returns the
+ * guest's legs as stored afterwards.
+ */
+export async function upsertGuestFlights(
+  guestId: string,
+  event: 'nyc' | 'france',
+  update: GuestFlightUpdate
+): Promise<GuestFlight[]> {
+  const dataSourceId = guestFlightsDatabaseId();
+  const notion = getClient();
+  const existing = await getGuestFlights(guestId, event);
+  const plan = planFlightUpsert(existing, update);
+  const guestName = (await getGuestById(guestId))?.name ?? 'Guest';
+
+  const properties = (leg: FlightLeg) => ({
+    [F.title.name]: {
+      title: [
+        {
+          text: {
+            content: `${guestName} — ${FLIGHT_TYPE_OPTION[leg.type]} — ${RSVP_EVENT_OPTION[event]}`,
+          },
+        },
+      ],
+    },
+    [F.guest.name]: { relation: [{ id: guestId }] },
+    [F.event.name]: { select: { name: RSVP_EVENT_OPTION[event] } },
+    [F.type.name]: { select: { name: FLIGHT_TYPE_OPTION[leg.type] } },
+    [F.airline.name]: { rich_text: [{ text: { content: leg.airline } }] },
+    [F.flightNumber.name]: { rich_text: [{ text: { content: leg.flightNumber } }] },
+    [F.date.name]: { date: { start: leg.date } },
+    [F.airport.name]: { rich_text: leg.airport ? [{ text: { content: leg.airport } }] : [] },
+    [F.time.name]: { rich_text: leg.time ? [{ text: { content: leg.time } }] : [] },
+    [F.flightySynced.name]: { checkbox: false },
+  });
+
+  for (const id of plan.remove) {
+    await notion.pages.update({ page_id: id, archived: true });
+  }
+  for (const { id, leg } of plan.update) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await notion.pages.update({ page_id: id, properties: properties(leg) as any });
+  }
+  const created: GuestFlight[] = [];
+  for (const leg of plan.create) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const page: any = await notion.pages.create({
+      parent: { type: 'database_id', database_id: dataSourceId },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      properties: properties(leg) as any,
+    });
+    created.push({ ...leg, id: page.id as string, guestId, event, flightySynced: false });
+  }
+
+  // Built from the plan rather than re-queried: the query index can lag the
+  // writes just made.
+  const removed = new Set(plan.remove);
+  const rewritten = new Map(plan.update.map(({ id, leg }) => [id, leg]));
+  return [
+    ...existing.flatMap((flight) => {
+      if (removed.has(flight.id)) return [];
+      const leg = rewritten.get(flight.id);
+      return [leg ? { ...leg, id: flight.id, guestId, event, flightySynced: false } : flight];
+    }),
+    ...created,
+  ];
+}
+
 // Day date cache — maps Wedding Timeline page ID to "YYYY-MM-DD" (or undefined)
 const dayDateCache: Map<string, string | undefined> = new Map();
 
@@ -1848,7 +2208,7 @@ export async function fetchDayDate(dayId: string): Promise<string | undefined> {
   try {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const page: any = await notion.pages.retrieve({ page_id: dayId });
-    const dateProp = page.properties?.['Date'];
+    const dateProp = page.properties?.[WEDDING_TIMELINE_DATE];
     const dateStr: string | undefined = dateProp?.date?.start ?? undefined;
     dayDateCache.set(dayId, dateStr);
     return dateStr;
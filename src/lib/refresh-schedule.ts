@@ -0,0 +1,108 @@
+/**
+ * When the scheduled calendar refresh runs.
+ *
+ * The refresh (refreshAllICS) rebuilds every guest's feed, so it runs more
+ * often as a wedding approaches: weekly by default, daily from a lead time
+ * before the wedding's first event, and hourly over the wedding weekend
+ * itself. The windows come from the Event Catalog — the earliest and latest
+ * event date per wedding — so they follow the wedding if its date moves.
+ *
+ * Lead times are runtime settings (days before the first event):
+ * ICS_REFRESH_DAILY_LEAD_DAYS (default 14) and ICS_REFRESH_HOURLY_LEAD_DAYS
+ * (default 1, so the hourly window opens the day before). Each window runs
+ * to two days after the last event, in UTC — a day of slack for the
+ * weddings' own timezones.
+ *
+ * netlify/functions/ics-refresh.mts runs every hour and asks refreshDue
+ * whether this hour is one to refresh in.
+ */
+
+import { fetchDayDate, getEventCatalog } from './data-store';
+
+export type RefreshCadence = 'hourly' | 'daily' | 'weekly';
+
+/** The UTC hour the daily and weekly refreshes run in. */
+const REFRESH_HOUR_UTC = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_DAILY_LEAD_DAYS = 14;
+export const DEFAULT_HOURLY_LEAD_DAYS = 1;
+
+/** A wedding's first and last event dates (YYYY-MM-DD). */
+export interface WeddingDates {
+  wedding: 'nyc' | 'france';
+  first: string;
+  last: string;
+}
+
+export interface RefreshLeadTimes {
+  dailyLeadDays: number;
+  hourlyLeadDays: number;
+}
+
+function leadDays(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const days = Number(raw);
+  if (!Number.isInteger(days) || days < 0) {
+    console.warn(`[ics-refresh] Ignoring ${name}="${raw}" — expected a whole number of days`);
+    return fallback;
+  }
+  return days;
+}
+
+/** The configured lead times. */
+export function refreshLeadTimes(): RefreshLeadTimes {
+  return {
+    dailyLeadDays: leadDays('ICS_REFRESH_DAILY_LEAD_DAYS', DEFAULT_DAILY_LEAD_DAYS),
+    hourlyLeadDays: leadDays('ICS_REFRESH_HOURLY_LEAD_DAYS', DEFAULT_HOURLY_LEAD_DAYS),
+  };
+}
+
+/**
+ * A wedding's first and last event dates, from the catalog, or null when it
+ * has no dated events. An event's date is its Event Date, else its Day's, as
+ * on the schedule pages; a multi-day event counts its End Date too. Flight
+ * collection (src/lib/flights.ts) takes its date window from here as well.
+ */
+export async function fetchWeddingDateRange(wedding: 'nyc' | 'france'): Promise<WeddingDates | null> {
+  const dates: string[] = [];
+  for (const event of await getEventCatalog(wedding)) {
+    const date = event.date ?? (event.dayId ? await fetchDayDate(event.dayId) : undefined);
+    if (date) dates.push(date);
+    if (date && event.endDate) dates.push(event.endDate);
+  }
+  if (dates.length === 0) return null;
+  dates.sort();
+  return { wedding, first: dates[0], last: dates[dates.length - 1] };
+}
+
+/** Both weddings' date ranges; a wedding with no dated events has no window. */
+export async function fetchWeddingDates(): Promise<WeddingDates[]> {
+  const weddings: WeddingDates[] = [];
+  for (const wedding of ['nyc', 'france'] as const) {
+    const dates = await fetchWeddingDateRange(wedding);
+    if (dates) weddings.push(dates);
+  }
+  return weddings;
+}
+
+function inWindow(dates: WeddingDates, leadDaysBefore: number, now: Date): boolean {
+  const start = Date.parse(`${dates.first}T00:00:00Z`) - leadDaysBefore * DAY_MS;
+  const end = Date.parse(`${dates.last}T00:00:00Z`) + 2 * DAY_MS;
+  return now.getTime() >= start && now.getTime() < end;
+}
+
+/** How often the refresh runs at `now`: the most frequent window it falls in. */
+export function refreshCadence(weddings: WeddingDates[], leadTimes: RefreshLeadTimes, now = new Date()): RefreshCadence {
+  if (weddings.some((dates) => inWindow(dates, leadTimes.hourlyLeadDays, now))) return 'hourly';
+  if (weddings.some((dates) => inWindow(dates, leadTimes.dailyLeadDays, now))) return 'daily';
+  return 'weekly';
+}
+
+/** Whether the hourly run at `now` should refresh, at `cadence`. */
+export function refreshDue(cadence: RefreshCadence, now = new Date()): boolean {
+  if (cadence === 'hourly') return true;
+  if (now.getUTCHours() !== REFRESH_HOUR_UTC) return false;
+  return cadence === 'daily' || now.getUTCDay() === 0;
+}
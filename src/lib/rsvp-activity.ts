@@ -0,0 +1,225 @@
+/**
+ * RSVP activity feed for the couple, in Netlify Blobs.
+ *
+ * Notion holds every party's latest answer, but not the news: who just
+ * answered, who changed their mind, who left a message. Each accepted
+ * submission is compared with the party's previous answer and, when there is
+ * something to tell, recorded here as one activity entry — a first response,
+ * or a change of status, party size, dietary note or message.
+ *
+ * Recorded by POST /api/rsvp and, through POST /api/admin/rsvp-activity, by
+ * scripts/record-manual-rsvp.ts. Declines and changed answers from the website
+ * are emailed to the couple straight away; everything lands in the daily
+ * digest (netlify/functions/rsvp-activity-digest.mts) and is readable at
+ * GET /api/admin/rsvp-activity. Test guests never reach the feed.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { GuestRecord, RSVPResponse, RSVPSubmission } from '../types';
+import { blobStore, resetMemoryBlobStore } from './blob-store';
+import { sendEmail } from './email';
+import { rsvpActivityAlert, rsvpActivityDigest } from './email-templates';
+import { submissionStatus } from './rsvp-submission';
+import { excludeTestGuests } from './test-guests';
+import type { RSVPRevisionSource } from './rsvp-history';
+
+const STORE_NAME = 'rsvp-activity';
+const ENTRY_PREFIX = 'entries/';
+const DIGEST_STATE_KEY = 'state/digest';
+
+/** Where activity mail goes when RSVP_ACTIVITY_TO is unset: the couple's inbox. */
+const DEFAULT_RECIPIENT = 'hello@sargaux.com';
+
+type RSVPStatus = RSVPResponse['status'];
+
+export interface RSVPActivity {
+  /** Unique and time-ordered: `<recordedAt ms>-<uuid>`. */
+  id: string;
+  recordedAt: string;
+  event: 'nyc' | 'france';
+  source: RSVPRevisionSource;
+  /** `new` — the party's first answer. `changed` — it replaced an earlier one. */
+  kind: 'new' | 'changed';
+  /** Every member, under the name they were submitted with. */
+  party: { id: string; name: string }[];
+  submittedBy: { guestId: string; name: string };
+  status: RSVPStatus;
+  /** Members attending after this answer. */
+  attendingCount: number;
+  /** What changed, one line each. Empty for a first answer. */
+  changes: string[];
+  /** The party's message, when this answer added or rewrote it. */
+  message?: string;
+  /** Emailed to the couple as it happens: declines and changed answers. */
+  immediate: boolean;
+}
+
+/** Empty the in-memory feed (test/local modes only). */
+export function resetActivityTestStore(): void {
+  resetMemoryBlobStore(STORE_NAME);
+}
+
+/** Members attending a stored response: recorded attendance, else the attendee list. */
+function attendingOn(response: RSVPResponse): number {
+  if (response.attendanceById) return Object.values(response.attendanceById).filter(Boolean).length;
+  return response.guestsAttending.split(',').filter((name) => name.trim()).length;
+}
+
+function trimmed(value: string | undefined): string {
+  return value?.trim() ?? '';
+}
+
+/**
+ * The activity entry for `submission`, compared with the party's previous
+ * answer (`previous`, null for a first one) — or null when there is nothing
+ * to tell: a test party, or a re-submission that changed none of the fields
+ * the couple follows.
+ */
+export function buildRSVPActivity(
+  previous: RSVPResponse | null,
+  submission: RSVPSubmission,
+  meta: {
+    party: Pick<GuestRecord, 'id' | 'name' | 'normalizedName' | 'isTestGuest'>[];
+    submittedBy: string;
+    source: RSVPRevisionSource;
+    now?: Date;
+  }
+): RSVPActivity | null {
+  if (excludeTestGuests(meta.party).length < meta.party.length) return null;
+
+  const submittedNames = new Map(
+    submission.guestsAttending.filter((entry) => entry.guestId).map((entry) => [entry.guestId!, entry.name])
+  );
+  const party = meta.party.map((member) => ({ id: member.id, name: submittedNames.get(member.id) ?? member.name }));
+  const status = submissionStatus(submission.guestsAttending);
+  const attendingCount = submission.guestsAttending.filter((entry) => entry.attending).length;
+
+  const changes: string[] = [];
+  if (previous) {
+    if (previous.status !== status) changes.push(`Status: ${previous.status} → ${status}`);
+    const before = attendingOn(previous);
+    if (before !== attendingCount) changes.push(`Party size: ${before} → ${attendingCount}`);
+    const dietary = trimmed(submission.dietary);
+    if (trimmed(previous.dietary) !== dietary) {
+      changes.push(dietary ? `Dietary: ${dietary}` : 'Dietary: cleared');
+    }
+  }
+
+  const message = trimmed(submission.message);
+  const newMessage = message && message !== trimmed(previous?.message) ? message : undefined;
+  if (previous && changes.length === 0 && !newMessage) return null;
+
+  const now = meta.now ?? new Date();
+  const kind = previous ? 'changed' : 'new';
+  return {
+    id: `${String(now.getTime()).padStart(15, '0')}-${randomUUID()}`,
+    recordedAt: now.toISOString(),
+    event: submission.event,
+    source: meta.source,
+    kind,
+    party,
+    submittedBy: {
+      guestId: meta.submittedBy,
+      name: party.find((member) => member.id === meta.submittedBy)?.name ?? meta.submittedBy,
+    },
+    status,
+    attendingCount,
+    changes,
+    ...(newMessage ? { message: newMessage } : {}),
+    immediate: status === 'Declined' || (kind === 'changed' && changes.length > 0),
+  };
+}
+
+/** Whether `value` has the shape of an activity entry (for entries posted by the manual-RSVP script). */
+export function isRSVPActivity(value: unknown): value is RSVPActivity {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Partial<RSVPActivity>;
+  return (
+    typeof entry.id === 'string' &&
+    /^\d{15}-[0-9a-f-]{36}$/.test(entry.id) &&
+    typeof entry.recordedAt === 'string' &&
+    !Number.isNaN(Date.parse(entry.recordedAt)) &&
+    (entry.event === 'nyc' || entry.event === 'france') &&
+    (entry.kind === 'new' || entry.kind === 'changed') &&
+    Array.isArray(entry.party) &&
+    Array.isArray(entry.changes) &&
+    typeof entry.immediate === 'boolean'
+  );
+}
+
+/** Append an entry to the feed. Re-recording the same ID overwrites it. */
+export async function recordRSVPActivity(activity: RSVPActivity): Promise<void> {
+  await blobStore(STORE_NAME).set(`${ENTRY_PREFIX}${activity.id}`, JSON.stringify(activity));
+}
+
+/** The recording time in an entry key (ms), or NaN for a key of another shape. */
+function keyRecordedAt(key: string): number {
+  const match = /^\d{15}-/.exec(key.slice(ENTRY_PREFIX.length));
+  return match ? Number(match[0].slice(0, 15)) : NaN;
+}
+
+/** The feed, oldest first, optionally only entries recorded after `since`. */
+export async function listRSVPActivity(
+  options: { since?: string; event?: 'nyc' | 'france' } = {}
+): Promise<RSVPActivity[]> {
+  const s = blobStore(STORE_NAME);
+  const since = options.since ? Date.parse(options.since) : -Infinity;
+  const entries: RSVPActivity[] = [];
+  for (const key of (await s.list(ENTRY_PREFIX)).sort()) {
+    // Keys start with the time the entry was recorded, so older entries are
+    // skipped without being fetched.
+    if (keyRecordedAt(key) <= since) continue;
+    const raw = await s.get(key);
+    if (!raw) continue;
+    try {
+      const entry = JSON.parse(raw) as RSVPActivity;
+      if (Date.parse(entry.recordedAt) <= since) continue;
+      if (options.event && entry.event !== options.event) continue;
+      entries.push(entry);
+    } catch (err) {
+      console.error(`[rsvp-activity] Unreadable entry ${key}:`, err);
+    }
+  }
+  return entries;
+}
+
+function recipient(): string {
+  return process.env.RSVP_ACTIVITY_TO || DEFAULT_RECIPIENT;
+}
+
+/** Email the couple about one entry as it happens. */
+export async function sendRSVPActivityAlert(activity: RSVPActivity): Promise<void> {
+  await sendEmail({ to: recipient(), ...rsvpActivityAlert(activity) });
+}
+
+/**
+ * Whether site email is switched on. Read from the runtime environment: the
+ * digest runs as a scheduled function, outside the Astro build that bakes in
+ * src/config/features.ts.
+ */
+function digestEnabled(): boolean {
+  return process.env.FEATURE_GLOBAL_EMAIL_ENABLED === 'true';
+}
+
+/**
+ * Email the couple everything recorded since the last digest, then move the
+ * mark forward. The first digest covers the past day. Nothing is sent when
+ * the feed is quiet; a failed send leaves the mark where it was, so the next
+ * run picks the same entries up. While site email is switched off
+ * (FEATURE_GLOBAL_EMAIL_ENABLED) nothing is sent and the mark stays put too:
+ * the first digest after email comes back covers everything held meanwhile.
+ */
+export async function sendRSVPActivityDigest(now = new Date()): Promise<{ sent: boolean; count: number }> {
+  const s = blobStore(STORE_NAME);
+  const since =
+    (await s.get(DIGEST_STATE_KEY)) ?? new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString();
+  const activity = (await listRSVPActivity({ since })).filter(
+    (entry) => Date.parse(entry.recordedAt) <= now.getTime()
+  );
+  if (!digestEnabled()) return { sent: false, count: activity.length };
+  if (activity.length > 0) {
+    await sendEmail({ to: recipient(), ...rsvpActivityDigest({ activity, since, until: now.toISOString() }) });
+  }
+  await s.set(DIGEST_STATE_KEY, now.toISOString());
+  return { sent: activity.length > 0, count: activity.length };
+}
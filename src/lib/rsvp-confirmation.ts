@@ -0,0 +1,129 @@
+/**
+ * The RSVP confirmation email: one per distinct address in the party, each
+ * with that recipient's own calendar links.
+ *
+ * Sent once the answer is saved — by POST /api/rsvp when the data store
+ * write succeeds, or by the outbox replay (src/lib/rsvp-outbox.ts) once a
+ * queued answer lands — so a guest is never told about an answer that was
+ * later dead-lettered.
+ */
+
+import type { EventRecord, RSVPSubmission } from '../types';
+import { getGuestEvents } from './data-store';
+import { sendToGuests, withRecipient } from './email';
+import { rsvpConfirmation, type EventInfo } from './email-templates';
+import { eventCalendarLinks, generateTokenIfPossible } from './calendar';
+import { localizeEvent } from './event-i18n';
+import { mealChoicesForEvent, mealOptionLabel } from './meals';
+
+export interface ConfirmationContact {
+  id: string;
+  name: string;
+  email?: string;
+}
+
+/**
+ * Email the party the answers in `submission`, submitted by `guestId`.
+ * `travelUrl` links the flight form when the wedding collects flights.
+ * Throws if sending fails outright; a failed event lookup only drops the
+ * event list.
+ */
+export async function sendRSVPConfirmation(input: {
+  guestId: string;
+  submission: RSVPSubmission;
+  contacts: ConfirmationContact[];
+  travelUrl?: string;
+}): Promise<void> {
+  const { guestId, submission: body, contacts, travelUrl } = input;
+  const recipients = Array.from(
+    contacts
+      .filter((guest) => guest.email)
+      .reduce((map, guest) => {
+        const key = guest.email!.toLowerCase();
+        if (!map.has(key)) {
+          map.set(key, { id: guest.id, email: guest.email!, name: guest.name });
+        }
+        return map;
+      }, new Map<string, { id: string; email: string; name: string }>())
+      .values()
+  );
+  if (recipients.length === 0) return;
+
+  const attending = (body.guestsAttending ?? []).some((g) => g.attending);
+  const guestsAttendingStr = (body.guestsAttending ?? [])
+    .filter((g) => g.attending)
+    .map((g) => g.name)
+    .join(', ');
+
+  let coreEvents: EventRecord[] | undefined;
+  let optionalEvents: EventRecord[] | undefined;
+  const attendingEventIds = new Set(body.eventsAttending ?? []);
+  // Names as submitted, for the per-guest meal lines
+  const submittedNames = new Map(
+    (body.guestsAttending ?? [])
+      .filter((g) => g.guestId)
+      .map((g) => [g.guestId!, g.name])
+  );
+  const contactById = new Map(contacts.map((contact) => [contact.id, contact]));
+  const toEventInfo = (e: EventRecord, token: string | null): EventInfo => {
+    const chosen = mealChoicesForEvent(body.details?.meals, e.id);
+    const meals = [...chosen].flatMap(([memberId, optionId]) => {
+      const option = e.mealOptions?.find((candidate) => candidate.id === optionId);
+      return option
+        ? [`${submittedNames.get(memberId) ?? contactById.get(memberId)?.name ?? 'Guest'}: ${mealOptionLabel(option, 'en')}`]
+        : [];
+    });
+    const calendarLinks = eventCalendarLinks(e, 'en', token);
+    const display = localizeEvent(e, 'en');
+    return {
+      name: e.name,
+      time: display.time,
+      location: display.location,
+      ...(meals.length > 0 ? { meals } : {}),
+      ...(calendarLinks ? { calendarLinks } : {}),
+    };
+  };
+  if (attendingEventIds.size > 0) {
+    try {
+      const allEvents = await getGuestEvents(guestId);
+      const attended = allEvents.filter((e) => attendingEventIds.has(e.id));
+      coreEvents = attended.filter((e) => e.type === 'Core');
+      optionalEvents = attended.filter((e) => e.type === 'Optional');
+    } catch (err) {
+      console.error('Failed to fetch event names for confirmation email:', err);
+    }
+  }
+
+  const updateUrl = `https://sargaux.com/${body.event}/rsvp`;
+  // Null when CALENDAR_HMAC_SECRET is not set or the token store is down —
+  // the email then goes out without calendar links.
+  const calendarTokens = new Map(
+    await Promise.all(
+      recipients.map(async (recipient) => [recipient.id, await generateTokenIfPossible(recipient.id)] as const)
+    )
+  );
+  await sendToGuests(recipients, (recipient) => {
+    // Calendar links are per-guest capability URLs whose ICS holds only
+    // that guest's attending events — each recipient must get their own,
+    // never the submitter's (a Partial RSVP would show a partner the
+    // wrong schedule, permanently, in their subscribed calendar).
+    // The per-event .ics downloads are signed with the same token.
+    const calendarToken = calendarTokens.get(recipient.id) ?? null;
+    const calendarUrl = calendarToken ? `https://sargaux.com/api/calendar/${calendarToken}.ics` : undefined;
+
+    const template = rsvpConfirmation({
+      guestName: recipient.name,
+      event: body.event,
+      attending,
+      guestsAttending: guestsAttendingStr,
+      coreEvents: coreEvents?.map((e) => toEventInfo(e, calendarToken)),
+      optionalEvents: optionalEvents?.map((e) => toEventInfo(e, calendarToken)),
+      dietary: body.dietary,
+      updateUrl,
+      calendarUrl,
+      travelUrl,
+    });
+
+    return withRecipient(recipient, template);
+  });
+}
@@ -0,0 +1,281 @@
+/**
+ * RSVP deadlines, enforced by POST /api/rsvp and shown on the RSVP pages.
+ *
+ * Each wedding's deadline is a calendar date in that wedding's time zone:
+ * guests may answer through the whole of that day, wherever they are. Until
+ * then a party can submit and change its response freely. Afterwards:
+ *
+ *  - a party that already responded sees its answer read-only;
+ *  - a party that never responded is refused (`afterDeadline: 'refuse'`) or
+ *    may still send a late response (`afterDeadline: 'flag'`), which is
+ *    stored like any other and listed for the couple to approve.
+ *
+ * The couple can reopen the form for one party with an override
+ * (POST /api/admin/rsvp-deadline), optionally until a later date. Overrides
+ * and the late-response ledger live in Netlify Blobs, keyed like the RSVP
+ * outbox: per guest for overrides (any member's override opens the form for
+ * the whole party), per party + event for late responses.
+ *
+ * Synthetic 🤖 test guests are never held to a deadline, so the Playwright
+ * suite and post-deadline smoke tests keep working.
+ *
+ * The display dates (`RSVP_DEADLINE_NYC` / `RSVP_DEADLINE_FRANCE` in
+ * src/content/strings.ts) are hand-translated copy and must be kept in step
+ * with RSVP_DEADLINES — tests/rsvp-deadline-unit.spec.ts checks they agree.
+ */
+
+import type { GuestRecord } from '../types';
+import { blobStore, resetMemoryBlobStore } from './blob-store';
+import { outboxEntryId } from './rsvp-outbox';
+import { isTestGuest } from './test-guests';
+
+const STORE_NAME = 'rsvp-deadline';
+const OVERRIDE_PREFIX = 'override/';
+const LATE_PREFIX = 'late/';
+
+export interface RSVPDeadline {
+  /** Last day responses are accepted, YYYY-MM-DD in `timeZone`. */
+  date: string;
+  timeZone: string;
+  /** What happens to a party that has not responded once the deadline passes. */
+  afterDeadline: 'refuse' | 'flag';
+}
+
+export const RSVP_DEADLINES: Record<'nyc' | 'france', RSVPDeadline> = {
+  nyc: { date: '2026-09-01', timeZone: 'America/New_York', afterDeadline: 'flag' },
+  france: { date: '2027-04-01', timeZone: 'Europe/Paris', afterDeadline: 'flag' },
+};
+
+/** The countdown banner appears once the deadline is this close. */
+export const COUNTDOWN_DAYS = 30;
+
+/**
+ * What a party may do with the RSVP form right now:
+ *  - open:      submit or change a response;
+ *  - late:      past the deadline, no response yet — may send one, flagged late;
+ *  - read-only: past the deadline with a response — it can no longer change;
+ *  - closed:    past the deadline, no response, late responses refused.
+ */
+export type RSVPAccess = 'open' | 'late' | 'read-only' | 'closed';
+
+export interface DeadlineOverride {
+  event: 'nyc' | 'france';
+  /** The guest the override was granted for; it opens their whole party. */
+  guestId: string;
+  grantedAt: string;
+  /** Last day the override applies, YYYY-MM-DD in the wedding time zone. Open-ended when unset. */
+  until?: string;
+  note?: string;
+}
+
+export interface LateRSVP {
+  /** Party + event key (outboxEntryId). */
+  id: string;
+  event: 'nyc' | 'france';
+  /** The guest who submitted. */
+  guestId: string;
+  partyIds: string[];
+  receivedAt: string;
+  status: 'pending' | 'approved';
+  approvedAt?: string;
+}
+
+function dateInTimeZone(now: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(now);
+}
+
+function dayNumber(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / 86_400_000;
+}
+
+/**
+ * Whole days left to respond: 0 on the deadline day itself, negative once it
+ * has passed.
+ */
+export function daysUntilDeadline(event: 'nyc' | 'france', now = new Date()): number {
+  const { date, timeZone } = RSVP_DEADLINES[event];
+  return dayNumber(date) - dayNumber(dateInTimeZone(now, timeZone));
+}
+
+export function isDeadlinePassed(event: 'nyc' | 'france', now = new Date()): boolean {
+  return daysUntilDeadline(event, now) < 0;
+}
+
+/**
+ * Days left for the countdown banner, or null when it should not show: the
+ * deadline is still more than COUNTDOWN_DAYS away, or the form is not open
+ * under the normal deadline.
+ */
+export function countdownDays(
+  event: 'nyc' | 'france',
+  access: RSVPAccess,
+  now = new Date()
+): number | null {
+  const days = daysUntilDeadline(event, now);
+  return access === 'open' && days >= 0 && days <= COUNTDOWN_DAYS ? days : null;
+}
+
+/** Does `override` still apply at `now`? */
+export function overrideActive(override: DeadlineOverride | null, now = new Date()): boolean {
+  if (!override) return false;
+  if (!override.until) return true;
+  return dateInTimeZone(now, RSVP_DEADLINES[override.event].timeZone) <= override.until;
+}
+
+/** Decide what the party may do. Pure — callers look up the override. */
+export function rsvpAccess(input: {
+  event: 'nyc' | 'france';
+  hasResponse: boolean;
+  override?: DeadlineOverride | null;
+  testParty?: boolean;
+  now?: Date;
+}): RSVPAccess {
+  const now = input.now ?? new Date();
+  if (input.testParty || !isDeadlinePassed(input.event, now)) return 'open';
+  if (overrideActive(input.override ?? null, now)) return 'open';
+  if (input.hasResponse) return 'read-only';
+  return RSVP_DEADLINES[input.event].afterDeadline === 'flag' ? 'late' : 'closed';
+}
+
+/** Empty the in-memory override and late-response store (test/local modes only). */
+export function resetDeadlineTestStore(): void {
+  resetMemoryBlobStore(STORE_NAME);
+}
+
+async function readJSON<T>(key: string): Promise<T | null> {
+  const raw = await blobStore(STORE_NAME).get(key);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch (err) {
+    console.error(`[rsvp-deadline] Unreadable entry ${key}:`, err);
+    return null;
+  }
+}
+
+async function readAll<T>(prefix: string): Promise<T[]> {
+  const entries: T[] = [];
+  for (const key of await blobStore(STORE_NAME).list(prefix)) {
+    const entry = await readJSON<T>(key);
+    if (entry) entries.push(entry);
+  }
+  return entries;
+}
+
+const overrideKey = (event: 'nyc' | 'france', guestId: string) =>
+  `${OVERRIDE_PREFIX}${event}/${guestId}`;
+const lateKey = (partyIds: string[], event: 'nyc' | 'france') =>
+  `${LATE_PREFIX}${event}/${outboxEntryId(partyIds, event)}`;
+
+/** Reopen the RSVP form for `guestId`'s party. Replaces any earlier override. */
+export async function grantDeadlineOverride(input: {
+  event: 'nyc' | 'france';
+  guestId: string;
+  until?: string;
+  note?: string;
+}): Promise<DeadlineOverride> {
+  const override: DeadlineOverride = { ...input, grantedAt: new Date().toISOString() };
+  await blobStore(STORE_NAME).set(overrideKey(input.event, input.guestId), JSON.stringify(override));
+  return override;
+}
+
+/** Returns false when the guest had no override. */
+export async function revokeDeadlineOverride(
+  event: 'nyc' | 'france',
+  guestId: string
+): Promise<boolean> {
+  const key = overrideKey(event, guestId);
+  if (!(await blobStore(STORE_NAME).get(key))) return false;
+  await blobStore(STORE_NAME).delete(key);
+  return true;
+}
+
+/** The first active override held by any party member, if any. */
+export async function getPartyOverride(
+  partyIds: string[],
+  event: 'nyc' | 'france',
+  now = new Date()
+): Promise<DeadlineOverride | null> {
+  for (const guestId of partyIds) {
+    const override = await readJSON<DeadlineOverride>(overrideKey(event, guestId));
+    if (overrideActive(override, now)) return override;
+  }
+  return null;
+}
+
+export async function listDeadlineOverrides(event: 'nyc' | 'france'): Promise<DeadlineOverride[]> {
+  return readAll<DeadlineOverride>(`${OVERRIDE_PREFIX}${event}/`);
+}
+
+/** Flag a party's response as received after the deadline. */
+export async function recordLateRSVP(input: {
+  event: 'nyc' | 'france';
+  guestId: string;
+  partyIds: string[];
+}): Promise<LateRSVP> {
+  const late: LateRSVP = {
+    id: outboxEntryId(input.partyIds, input.event),
+    ...input,
+    receivedAt: new Date().toISOString(),
+    status: 'pending',
+  };
+  await blobStore(STORE_NAME).set(lateKey(input.partyIds, input.event), JSON.stringify(late));
+  return late;
+}
+
+export function getLateRSVP(partyIds: string[], event: 'nyc' | 'france'): Promise<LateRSVP | null> {
+  return readJSON<LateRSVP>(lateKey(partyIds, event));
+}
+
+export async function listLateRSVPs(event: 'nyc' | 'france'): Promise<LateRSVP[]> {
+  const entries = await readAll<LateRSVP>(`${LATE_PREFIX}${event}/`);
+  return entries.sort((a, b) => (a.receivedAt < b.receivedAt ? -1 : 1));
+}
+
+/** Mark a party's late response approved. Returns null when it has none. */
+export async function approveLateRSVP(
+  partyIds: string[],
+  event: 'nyc' | 'france'
+): Promise<LateRSVP | null> {
+  const late = await getLateRSVP(partyIds, event);
+  if (!late) return null;
+  const approved: LateRSVP = { ...late, status: 'approved', approvedAt: new Date().toISOString() };
+  await blobStore(STORE_NAME).set(lateKey(partyIds, event), JSON.stringify(approved));
+  return approved;
+}
+
+/**
+ * Resolve a party's access for a page or the RSVP endpoint. Blobs is only
+ * consulted once the deadline has passed; a failed lookup counts as "no
+ * override", so an outage can never open the form — only fail to reopen it.
+ */
+export async function resolvePartyAccess(
+  party: Pick<GuestRecord, 'id' | 'normalizedName' | 'isTestGuest'>[],
+  event: 'nyc' | 'france',
+  hasResponse: boolean,
+  now = new Date()
+): Promise<{ access: RSVPAccess; late: LateRSVP | null }> {
+  const testParty = party.length > 0 && party.every((member) => isTestGuest(member));
+  if (testParty || !isDeadlinePassed(event, now)) {
+    return { access: 'open', late: null };
+  }
+
+  const partyIds = party.map((member) => member.id);
+  let override: DeadlineOverride | null = null;
+  let late: LateRSVP | null = null;
+  try {
+    [override, late] = await Promise.all([
+      getPartyOverride(partyIds, event, now),
+      getLateRSVP(partyIds, event),
+    ]);
+  } catch (err) {
+    console.error('[rsvp-deadline] Override lookup failed (treating as none):', err);
+  }
+  return { access: rsvpAccess({ event, hasResponse, override, now }), late };
+}
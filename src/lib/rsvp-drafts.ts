@@ -0,0 +1,216 @@
+/**
+ * RSVP drafts in Netlify Blobs.
+ *
+ * The RSVP form autosaves its answers to PUT /api/rsvp-draft a moment after
+ * the guest stops typing, so a form half-filled on a phone can be finished on
+ * a laptop. Drafts are per party: every member's guest ID keys a copy, so
+ * whichever member logs in next sees the same draft, even after the party
+ * changed. The pages pre-fill from a draft ahead of the stored response as
+ * long as it is newer, with a banner saying when it was saved.
+ *
+ * A draft is only ever pre-fill — POST /api/rsvp validates the submission as
+ * usual and discards the party's draft once it is accepted. Drafts hold no
+ * email addresses; those stay on the Guest List.
+ */
+
+import type { EUAllergen, RSVPDetails, RSVPResponse, RSVPSubmission, StayNight } from '../types';
+import { blobStore, resetMemoryBlobStore } from './blob-store';
+import { EU_ALLERGENS, DIETARY_NOTE_MAX_CHARS } from './allergens';
+import { STAY_NIGHTS } from './accommodation';
+import { submissionAttendeeNames, submissionStatus } from './rsvp-submission';
+
+const STORE_NAME = 'rsvp-drafts';
+
+/** Cap on a serialized draft — a little over the submission's details cap. */
+export const DRAFT_MAX_BYTES = 16_384;
+
+/** The answers a draft keeps: the submission without emails or the confirmation opt-in. */
+export type DraftAnswers = Pick<RSVPSubmission, 'event' | 'guestsAttending' | 'eventsAttending' | 'dietary' | 'message' | 'details'>;
+
+export interface RSVPDraft {
+  /** Party member IDs when it was saved — each keys a copy. */
+  partyIds: string[];
+  /** The member whose session saved it. */
+  savedBy: string;
+  savedAt: string;
+  answers: DraftAnswers;
+}
+
+/** Empty the in-memory drafts (test/local modes only). */
+export function resetDraftTestStore(): void {
+  resetMemoryBlobStore(STORE_NAME);
+}
+
+function draftKey(guestId: string, event: 'nyc' | 'france'): string {
+  return `${event}/${guestId}`;
+}
+
+function text(value: unknown, max: number): string | undefined {
+  return typeof value === 'string' ? value.slice(0, max) : undefined;
+}
+
+function strings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+function records(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is Record<string, unknown> => !!item && typeof item === 'object' && !Array.isArray(item))
+    : [];
+}
+
+function answer(value: unknown): 'yes' | 'no' | 'unsure' | undefined {
+  return value === 'yes' || value === 'no' || value === 'unsure' ? value : undefined;
+}
+
+/**
+ * Keep only the well-typed parts of a draft's details. Drafts are not
+ * validated like submissions — half an answer is the point — but the form
+ * renders straight from them, so every field must have the shape it expects.
+ */
+function draftDetails(value: unknown): RSVPDetails {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  const raw = value as Record<string, unknown>;
+  const details: RSVPDetails = {};
+
+  const accommodation = answer(raw.accommodation);
+  if (accommodation) details.accommodation = accommodation;
+  const transport = answer(raw.transport);
+  if (transport) details.transport = transport;
+  const allergens = text(raw.allergens, 2_000);
+  if (allergens !== undefined) details.allergens = allergens;
+  const hotelBooked = text(raw.hotelBooked, 100);
+  if (hotelBooked) details.hotelBooked = hotelBooked;
+
+  if (Array.isArray(raw.meals)) {
+    details.meals = records(raw.meals)
+      .filter((m) => typeof m.guestId === 'string' && typeof m.eventId === 'string' && typeof m.optionId === 'string')
+      .map((m) => ({ guestId: m.guestId as string, eventId: m.eventId as string, optionId: m.optionId as string }));
+  }
+  if (Array.isArray(raw.dietaryByGuest)) {
+    details.dietaryByGuest = records(raw.dietaryByGuest)
+      .filter((d) => typeof d.guestId === 'string')
+      .map((d) => ({
+        guestId: d.guestId as string,
+        allergens: strings(d.allergens).filter((a): a is EUAllergen => EU_ALLERGENS.includes(a as EUAllergen)),
+        ...(d.vegetarian === true ? { vegetarian: true } : {}),
+        ...(d.vegan === true ? { vegan: true } : {}),
+        ...(d.halal === true ? { halal: true } : {}),
+        ...(typeof d.note === 'string' && d.note ? { note: d.note.slice(0, DIETARY_NOTE_MAX_CHARS) } : {}),
+      }));
+  }
+  if (raw.stay && typeof raw.stay === 'object' && !Array.isArray(raw.stay)) {
+    const stay = raw.stay as Record<string, unknown>;
+    details.stay = {
+      nights: strings(stay.nights).filter((night): night is StayNight => STAY_NIGHTS.includes(night as StayNight)),
+      roomType: text(stay.roomType, 50) ?? '',
+      guestIds: strings(stay.guestIds),
+    };
+  }
+  if (Array.isArray(raw.shuttleSeats)) {
+    details.shuttleSeats = records(raw.shuttleSeats)
+      .filter((seat) => typeof seat.guestId === 'string' && typeof seat.legId === 'string')
+      .map((seat) => ({ guestId: seat.guestId as string, legId: seat.legId as string }));
+  }
+  return details;
+}
+
+/**
+ * A request body as draft answers for `partyIds`, or an error message.
+ * Entries for anyone outside the party are dropped rather than refused: the
+ * party can change between autosaves.
+ */
+export function parseDraftAnswers(body: unknown, partyIds: string[]): { answers: DraftAnswers } | { error: string } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return { error: 'Draft must be an object' };
+  const raw = body as Record<string, unknown>;
+  if (raw.event !== 'nyc' && raw.event !== 'france') return { error: 'Invalid event (must be "nyc" or "france")' };
+  if (JSON.stringify(body).length > DRAFT_MAX_BYTES) return { error: 'Draft is too large' };
+
+  const members = new Set(partyIds);
+  const guestsAttending = records(raw.guestsAttending)
+    .filter((entry) => typeof entry.guestId === 'string' && members.has(entry.guestId))
+    .map((entry) => ({
+      guestId: entry.guestId as string,
+      name: text(entry.name, 200) ?? '',
+      attending: entry.attending === true,
+    }));
+
+  return {
+    answers: {
+      event: raw.event,
+      guestsAttending,
+      eventsAttending: strings(raw.eventsAttending),
+      dietary: text(raw.dietary, 2_000),
+      message: text(raw.message, 2_000),
+      details: draftDetails(raw.details),
+    },
+  };
+}
+
+/** Save `answers` as the party's draft, one copy per member. */
+export async function saveDraft(
+  guestId: string,
+  partyIds: string[],
+  answers: DraftAnswers,
+  now = new Date()
+): Promise<RSVPDraft> {
+  const draft: RSVPDraft = { partyIds, savedBy: guestId, savedAt: now.toISOString(), answers };
+  const s = blobStore(STORE_NAME);
+  const raw = JSON.stringify(draft);
+  await Promise.all(partyIds.map((id) => s.set(draftKey(id, answers.event), raw)));
+  return draft;
+}
+
+/** The draft `guestId` sees for `event`, if any. */
+export async function getDraft(guestId: string, event: 'nyc' | 'france'): Promise<RSVPDraft | null> {
+  const raw = await blobStore(STORE_NAME).get(draftKey(guestId, event));
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as RSVPDraft;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Drop the party's draft: every copy keyed by a current member, and any
+ * member the draft was saved for since.
+ */
+export async function discardDraft(partyIds: string[], event: 'nyc' | 'france'): Promise<void> {
+  const s = blobStore(STORE_NAME);
+  const keys = new Set(partyIds);
+  for (const id of partyIds) {
+    const draft = await getDraft(id, event);
+    for (const member of draft?.partyIds ?? []) keys.add(member);
+  }
+  await Promise.all([...keys].map((id) => s.delete(draftKey(id, event))));
+}
+
+/**
+ * The draft in the shape pages pre-fill a stored response from, or null when
+ * there is none or the stored response (`stored`, possibly still in the
+ * outbox) is newer — an answer submitted from another device wins.
+ */
+export function draftAsResponse(draft: RSVPDraft | null, stored: RSVPResponse | null): RSVPResponse | null {
+  if (!draft) return null;
+  if (stored && Date.parse(stored.submittedAt) >= Date.parse(draft.savedAt)) return null;
+  const { answers } = draft;
+  return {
+    id: `draft:${answers.event}`,
+    guestId: draft.savedBy,
+    guestIds: draft.partyIds,
+    event: answers.event,
+    submittedAt: draft.savedAt,
+    status: submissionStatus(answers.guestsAttending),
+    guestsAttending: submissionAttendeeNames(answers.guestsAttending),
+    dietary: answers.dietary,
+    message: answers.message,
+    details: answers.details,
+    eventsAttending: answers.eventsAttending,
+    attendanceById: Object.fromEntries(
+      answers.guestsAttending
+        .filter((member) => member.guestId)
+        .map((member) => [member.guestId!, member.attending])
+    ),
+  };
+}
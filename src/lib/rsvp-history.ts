@@ -0,0 +1,274 @@
+/**
+ * Immutable RSVP revision history in Netlify Blobs.
+ *
+ * `submitRSVP` updates a party's response row in place — that is what keeps
+ * one row per party + event for every reader — so the row alone cannot say
+ * what a household answered before, or when it changed its mind. Every write
+ * to a response row therefore also appends a revision here: a snapshot of the
+ * row as written, who wrote it, and through which path.
+ *
+ * Both WeddingDataStore backends record revisions from inside `submitRSVP`, so
+ * every path that submits — POST /api/rsvp, the outbox replay, and
+ * scripts/record-manual-rsvp.ts — is covered without each caller remembering
+ * to. The split-household detach (src/lib/rsvp-split.ts) records a `detach`
+ * revision on the row it hands back, since it rewrites that row too. The
+ * manual script runs where this blob store is out of reach: it collects its
+ * revisions instead (collectRSVPRevisions) and posts them to
+ * POST /api/admin/rsvp-history.
+ *
+ * Revisions are append-only: nothing in the app updates or deletes one, and
+ * the store refuses to write an ID it already holds. They are for the
+ * couple's eyes (GET /api/admin/rsvp-history); no guest-facing
+ * page reads them.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { RSVPResponse, RSVPDetails } from '../types';
+import { blobStore, resetMemoryBlobStore } from './blob-store';
+
+const STORE_NAME = 'rsvp-history';
+
+/** How a revision reached the data store. */
+export type RSVPRevisionSource = 'website' | 'manual' | 'outbox';
+
+export interface RSVPRevision {
+  /** Unique and time-ordered: `<recordedAt ms>-<sequence>-<uuid>`. */
+  id: string;
+  /** The response row this is a snapshot of. */
+  responseId: string;
+  event: 'nyc' | 'france';
+  /**
+   * `submission` — a party answered (website, manual entry or replay).
+   * `detach` — a split household's submission handed this row back to the
+   * members who stayed on it, rewriting its relation and attendee list.
+   */
+  kind: 'submission' | 'detach';
+  source: RSVPRevisionSource;
+  /** The guest whose submission produced this revision. */
+  submittedBy: { guestId: string; name: string };
+  recordedAt: string;
+  /** Members the row related to after this write, with their names at the time. */
+  guestIds: string[];
+  names: Record<string, string>;
+  status: RSVPResponse['status'];
+  guestsAttending: string;
+  attendanceById?: Record<string, boolean>;
+  eventsAttending?: string[];
+  dietary?: string;
+  message?: string;
+  details?: RSVPDetails;
+}
+
+/** What changed between two revisions of a party's response. */
+export interface RSVPRevisionDiff {
+  status?: { before: RSVPResponse['status'] | null; after: RSVPResponse['status'] };
+  /** Members whose attendance changed. `null` = not on the response. */
+  attendance: { guestId: string; name: string; before: boolean | null; after: boolean | null }[];
+  eventsAdded: string[];
+  eventsRemoved: string[];
+  dietary?: { before: string | null; after: string | null };
+  message?: { before: string | null; after: string | null };
+  /** Top-level Details keys whose value changed. */
+  details: { key: string; before: unknown; after: unknown }[];
+}
+
+// Orders revisions recorded by this process within the same millisecond (a
+// split-household detach and the submission that caused it, for one).
+let _sequence = 0;
+
+// Set by collectRSVPRevisions: revisions are held here instead of written.
+let _collected: RSVPRevision[] | null = null;
+
+/** Empty the in-memory history and stop collecting (test/local modes only). */
+export function resetHistoryTestStore(): void {
+  resetMemoryBlobStore(STORE_NAME);
+  _collected = null;
+}
+
+/**
+ * From now on, hold every revision in the returned list instead of writing
+ * it. For scripts/record-manual-rsvp.ts, which has no Netlify Blobs context
+ * and posts the list to production when it is done.
+ */
+export function collectRSVPRevisions(): RSVPRevision[] {
+  _collected = [];
+  return _collected;
+}
+
+/**
+ * Append a revision for a response row that was just written.
+ *
+ * Never throws: by the time this runs the row is already saved, and failing
+ * the guest's submission because its audit copy could not be written would
+ * be the wrong way round. Failures are logged for follow-up instead.
+ */
+export async function recordRSVPRevision(
+  response: RSVPResponse,
+  meta: {
+    kind: RSVPRevision['kind'];
+    source: RSVPRevisionSource;
+    submittedBy: RSVPRevision['submittedBy'];
+    names: Record<string, string>;
+  }
+): Promise<RSVPRevision | null> {
+  const recordedAt = new Date();
+  const revision: RSVPRevision = {
+    // Zero-padded so keys sort chronologically as strings
+    id: [
+      String(recordedAt.getTime()).padStart(15, '0'),
+      String(_sequence++ % 1_000_000).padStart(6, '0'),
+      randomUUID(),
+    ].join('-'),
+    responseId: response.id,
+    event: response.event,
+    kind: meta.kind,
+    source: meta.source,
+    submittedBy: meta.submittedBy,
+    recordedAt: recordedAt.toISOString(),
+    guestIds: response.guestIds,
+    names: Object.fromEntries(response.guestIds.map((id) => [id, meta.names[id] ?? id])),
+    status: response.status,
+    guestsAttending: response.guestsAttending,
+    attendanceById: response.attendanceById,
+    eventsAttending: response.eventsAttending,
+    dietary: response.dietary || undefined,
+    message: response.message || undefined,
+    details: response.details,
+  };
+  if (_collected) {
+    _collected.push(revision);
+    return revision;
+  }
+  try {
+    await storeRSVPRevision(revision);
+    return revision;
+  } catch (err) {
+    console.error(
+      `[rsvp-history] Failed to record ${meta.kind} revision of ${response.id} (non-fatal):`,
+      err
+    );
+    return null;
+  }
+}
+
+/**
+ * Whether a posted value has the shape of a revision, down to its time-ordered
+ * ID — whose time must be the revision's own `recordedAt`.
+ */
+export function isRSVPRevision(value: unknown): value is RSVPRevision {
+  if (!value || typeof value !== 'object') return false;
+  const revision = value as Partial<RSVPRevision>;
+  return (
+    typeof revision.id === 'string' &&
+    /^\d{15}-\d{6}-[0-9a-f-]{36}$/.test(revision.id) &&
+    typeof revision.responseId === 'string' &&
+    (revision.event === 'nyc' || revision.event === 'france') &&
+    (revision.kind === 'submission' || revision.kind === 'detach') &&
+    (revision.source === 'website' || revision.source === 'manual' || revision.source === 'outbox') &&
+    typeof revision.submittedBy?.guestId === 'string' &&
+    typeof revision.recordedAt === 'string' &&
+    Date.parse(revision.recordedAt) === Number(revision.id.slice(0, 15)) &&
+    Array.isArray(revision.guestIds) &&
+    !!revision.names &&
+    typeof revision.names === 'object' &&
+    typeof revision.status === 'string' &&
+    typeof revision.guestsAttending === 'string'
+  );
+}
+
+/**
+ * Store a revision as recorded. An ID already stored is left as it was:
+ * returns false, so a retried post skips what it already delivered.
+ */
+export async function storeRSVPRevision(revision: RSVPRevision): Promise<boolean> {
+  return blobStore(STORE_NAME).create(`${revision.event}/${revision.id}`, JSON.stringify(revision));
+}
+
+/**
+ * Every revision, oldest first, of any response that related to one of these
+ * guests for the event. A household that split shows the shared row's history
+ * up to the split and its own row after it.
+ */
+export async function listRSVPRevisions(
+  partyIds: string[],
+  event: 'nyc' | 'france'
+): Promise<RSVPRevision[]> {
+  const s = blobStore(STORE_NAME);
+  const inParty = new Set(partyIds);
+  const revisions: RSVPRevision[] = [];
+  for (const key of (await s.list(`${event}/`)).sort()) {
+    const raw = await s.get(key);
+    if (!raw) continue;
+    try {
+      const revision = JSON.parse(raw) as RSVPRevision;
+      if (revision.guestIds.some((id) => inParty.has(id))) revisions.push(revision);
+    } catch (err) {
+      console.error(`[rsvp-history] Unreadable revision ${key}:`, err);
+    }
+  }
+  return revisions;
+}
+
+/**
+ * A member's answer on a revision: recorded attendance first, then whether
+ * their name is in the attendee list. `null` when they were not on the row.
+ */
+function memberAttendance(revision: RSVPRevision, guestId: string): boolean | null {
+  if (!revision.guestIds.includes(guestId)) return null;
+  const recorded = revision.attendanceById?.[guestId];
+  if (recorded !== undefined) return recorded;
+  const attending = new Set(revision.guestsAttending.split(',').map((name) => name.trim()));
+  return attending.has(revision.names[guestId]);
+}
+
+function textChange(
+  before: string | undefined,
+  after: string | undefined
+): { before: string | null; after: string | null } | undefined {
+  const a = before?.trim() || null;
+  const b = after?.trim() || null;
+  return a === b ? undefined : { before: a, after: b };
+}
+
+/**
+ * What `after` changed relative to `before` (the party's previous revision,
+ * or null for its first answer).
+ */
+export function diffRSVPRevisions(
+  before: RSVPRevision | null,
+  after: RSVPRevision
+): RSVPRevisionDiff {
+  const memberIds = Array.from(new Set([...(before?.guestIds ?? []), ...after.guestIds]));
+  const attendance = memberIds
+    .map((guestId) => ({
+      guestId,
+      name: after.names[guestId] ?? before?.names[guestId] ?? guestId,
+      before: before ? memberAttendance(before, guestId) : null,
+      after: memberAttendance(after, guestId),
+    }))
+    .filter((change) => change.before !== change.after);
+
+  const eventsBefore = new Set(before?.eventsAttending ?? []);
+  const eventsAfter = new Set(after.eventsAttending ?? []);
+
+  const detailsBefore = (before?.details ?? {}) as Record<string, unknown>;
+  const detailsAfter = (after.details ?? {}) as Record<string, unknown>;
+  const details = Array.from(new Set([...Object.keys(detailsBefore), ...Object.keys(detailsAfter)]))
+    .filter((key) => JSON.stringify(detailsBefore[key]) !== JSON.stringify(detailsAfter[key]))
+    .map((key) => ({ key, before: detailsBefore[key] ?? null, after: detailsAfter[key] ?? null }));
+
+  const diff: RSVPRevisionDiff = {
+    attendance,
+    eventsAdded: [...eventsAfter].filter((id) => !eventsBefore.has(id)),
+    eventsRemoved: [...eventsBefore].filter((id) => !eventsAfter.has(id)),
+    details,
+  };
+  if (before?.status !== after.status) {
+    diff.status = { before: before?.status ?? null, after: after.status };
+  }
+  const dietary = textChange(before?.dietary, after.dietary);
+  if (dietary) diff.dietary = dietary;
+  const message = textChange(before?.message, after.message);
+  if (message) diff.message = message;
+  return diff;
+}
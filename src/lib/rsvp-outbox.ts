@@ -0,0 +1,478 @@
+/**
+ * Durable RSVP outbox in Netlify Blobs.
+ *
+ * `POST /api/rsvp` writes every accepted submission here *before* it calls
+ * `submitRSVP`. When the Notion write succeeds the entry is removed again in
+ * the same request; when it fails (a Notion outage, a rate limit, a timeout)
+ * the entry stays, the guest is told their answers were received and are
+ * syncing, and the scheduled `rsvp-outbox-replay` function retries it.
+ *
+ * Entries are keyed by party + event, so a guest who resubmits while an
+ * earlier attempt is still queued replaces it instead of queueing a second
+ * write — only the latest answer is ever replayed. Replay also drops an entry
+ * whose party already has a newer response in Notion (the guest resubmitted
+ * successfully after the outage cleared), so an old answer can never overwrite
+ * a new one.
+ *
+ * A queued answer is confirmed by email only once replay has written it
+ * (src/lib/rsvp-confirmation.ts), so a guest is never told about an answer
+ * that never landed.
+ *
+ * When POST could not read the other parties' answers to check shuttle seats
+ * and event places, it queues the submission unwritten with
+ * `recheckCapacity`, and replay makes those checks before writing it. An
+ * answer whose shuttle seats no longer fit is dead-lettered for the couple
+ * rather than written over a full coach.
+ *
+ * Entries that keep failing move to a dead-letter list after MAX_ATTEMPTS,
+ * where they wait for a human (GET/POST /api/admin/rsvp-outbox). A dead entry
+ * is still the guest's only record of their answer — never delete one without
+ * recording it by hand (scripts/record-manual-rsvp.ts).
+ */
+
+import { createHash } from 'node:crypto';
+import type { RSVPSubmission, RSVPResponse } from '../types';
+import { blobStore, resetMemoryBlobStore } from './blob-store';
+import {
+  fetchAllGuests,
+  fetchAllLatestRSVPs,
+  getGuestEvents,
+  getGuestParty,
+  getLatestRSVPForParty,
+  submitRSVP,
+  updateGuestEmail,
+} from './data-store';
+import { latestFranceResponses } from './accommodation';
+import { eventsRequestedAt } from './event-capacity';
+import { settleAfterAnswer } from './event-waitlists';
+import { fullShuttleLeg, type ShuttleLegId } from './shuttles';
+import { generateAndStoreICSForGuest } from './ics-generator';
+import { sendRSVPConfirmation } from './rsvp-confirmation';
+import { submissionStatus, submissionAttendeeNames } from './rsvp-submission';
+
+const STORE_NAME = 'rsvp-outbox';
+const PENDING_PREFIX = 'pending/';
+const DEAD_PREFIX = 'dead/';
+
+/** Attempts (including the original request) before an entry is dead-lettered. */
+export const MAX_ATTEMPTS = 8;
+
+/** First retry delay; doubles per attempt up to MAX_RETRY_DELAY_MS. */
+const BASE_RETRY_DELAY_MS = 5 * 60 * 1000; // 5 minutes
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000; // 6 hours
+
+export interface OutboxEntry {
+  /** Stable per party + event — the dedupe key. */
+  id: string;
+  /** The guest who submitted (the session's guest). */
+  guestId: string;
+  /** Party member IDs at submission time. */
+  partyIds: string[];
+  submission: RSVPSubmission;
+  /** Guest List email changes submitted with the RSVP, written before it. */
+  emailUpdates: { guestId: string; email: string | null }[];
+  /** Set when the guest asked for a confirmation email and email is on. */
+  confirmation?: { travelUrl?: string };
+  /**
+   * Set when POST could not check shuttle seats and event places: the entry
+   * was queued unwritten, and replay checks them before writing it.
+   */
+  recheckCapacity?: boolean;
+  /** When the guest submitted — the time their answer was accepted. */
+  receivedAt: string;
+  /** Failed writes so far, counting the original request. */
+  attempts: number;
+  /** Replay skips the entry until this time (ISO). */
+  nextAttemptAt: string;
+  lastError?: string;
+  /** Set when the entry moved to the dead-letter list. */
+  deadLetteredAt?: string;
+  /**
+   * Dead-letter key suffix. Unlike `id` it is unique per submission, so a party
+   * whose answers fail twice keeps both dead entries instead of the second
+   * overwriting the first.
+   */
+  deadLetterId?: string;
+}
+
+export interface OutboxReplayReport {
+  pending: number;
+  replayed: number;
+  superseded: number;
+  deferred: number;
+  failed: number;
+  deadLettered: number;
+}
+
+/** Empty the in-memory outbox (test/local modes only). */
+export function resetOutboxTestStore(): void {
+  resetMemoryBlobStore(STORE_NAME);
+}
+
+/** Dedupe key for a party + event: order-independent over member IDs. */
+export function outboxEntryId(partyIds: string[], event: 'nyc' | 'france'): string {
+  const digest = createHash('sha256').update([...partyIds].sort().join(',')).digest('hex');
+  return `${event}-${digest.slice(0, 32)}`;
+}
+
+/** Backoff before the next replay after `attempts` failures. */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+function errorText(err: unknown): string {
+  return (err instanceof Error ? err.message : String(err)).slice(0, 500);
+}
+
+async function readEntries(prefix: string): Promise<OutboxEntry[]> {
+  const s = blobStore(STORE_NAME);
+  const entries: OutboxEntry[] = [];
+  for (const key of await s.list(prefix)) {
+    const raw = await s.get(key);
+    if (!raw) continue;
+    try {
+      entries.push(JSON.parse(raw) as OutboxEntry);
+    } catch (err) {
+      console.error(`[rsvp-outbox] Unreadable entry ${key}:`, err);
+    }
+  }
+  return entries.sort((a, b) => (a.receivedAt < b.receivedAt ? -1 : 1));
+}
+
+/**
+ * Record an accepted submission before it is written to Notion. Replaces any
+ * entry already queued for the same party + event.
+ */
+export async function enqueueRSVP(input: {
+  guestId: string;
+  partyIds: string[];
+  submission: RSVPSubmission;
+  emailUpdates: { guestId: string; email: string | null }[];
+  confirmation?: { travelUrl?: string };
+  recheckCapacity?: boolean;
+}): Promise<OutboxEntry> {
+  const now = new Date().toISOString();
+  const entry: OutboxEntry = {
+    id: outboxEntryId(input.partyIds, input.submission.event),
+    guestId: input.guestId,
+    partyIds: input.partyIds,
+    submission: input.submission,
+    emailUpdates: input.emailUpdates,
+    ...(input.confirmation ? { confirmation: input.confirmation } : {}),
+    ...(input.recheckCapacity ? { recheckCapacity: true } : {}),
+    receivedAt: now,
+    attempts: 0,
+    nextAttemptAt: now,
+  };
+  await blobStore(STORE_NAME).set(PENDING_PREFIX + entry.id, JSON.stringify(entry));
+  return entry;
+}
+
+/**
+ * Remove a pending entry once its submission reached Notion. Only removes the
+ * entry if it is still the one `receivedAt` identifies — a resubmission that
+ * replaced it while this write was in flight must stay queued.
+ */
+export async function completeOutboxEntry(entry: Pick<OutboxEntry, 'id' | 'receivedAt'>): Promise<void> {
+  const s = blobStore(STORE_NAME);
+  const raw = await s.get(PENDING_PREFIX + entry.id);
+  if (!raw) return;
+  try {
+    const current = JSON.parse(raw) as OutboxEntry;
+    if (current.receivedAt !== entry.receivedAt) return;
+  } catch {
+    // Unreadable — replace-by-delete is the only way forward
+  }
+  await s.delete(PENDING_PREFIX + entry.id);
+}
+
+/** Record a failed write attempt: reschedule, or dead-letter after MAX_ATTEMPTS. */
+export async function recordOutboxFailure(entry: OutboxEntry, err: unknown): Promise<OutboxEntry> {
+  const s = blobStore(STORE_NAME);
+
+  // A resubmission replaced this entry while the write was in flight — the
+  // newer answer stands, and this one must not be written back over it.
+  const raw = await s.get(PENDING_PREFIX + entry.id);
+  if (raw) {
+    try {
+      if ((JSON.parse(raw) as OutboxEntry).receivedAt !== entry.receivedAt) return entry;
+    } catch {
+      // Unreadable — overwrite it with the entry we do have
+    }
+  }
+
+  const attempts = entry.attempts + 1;
+  const now = Date.now();
+  const updated: OutboxEntry = {
+    ...entry,
+    attempts,
+    lastError: errorText(err),
+    nextAttemptAt: new Date(now + retryDelayMs(attempts)).toISOString(),
+  };
+  if (attempts >= MAX_ATTEMPTS) {
+    console.error(
+      `[rsvp-outbox] Entry ${entry.id} dead-lettered after ${attempts} attempts: ${updated.lastError}`
+    );
+    return deadLetter(updated, now);
+  }
+  await s.set(PENDING_PREFIX + entry.id, JSON.stringify(updated));
+  return updated;
+}
+
+/** Move a pending entry to the dead-letter list. */
+async function deadLetter(entry: OutboxEntry, now: number = Date.now()): Promise<OutboxEntry> {
+  const s = blobStore(STORE_NAME);
+  const dead: OutboxEntry = {
+    ...entry,
+    deadLetteredAt: new Date(now).toISOString(),
+    deadLetterId: `${entry.id}-${Date.parse(entry.receivedAt)}`,
+  };
+  await s.set(DEAD_PREFIX + dead.deadLetterId, JSON.stringify(dead));
+  await s.delete(PENDING_PREFIX + entry.id);
+  return dead;
+}
+
+export function listPendingRSVPs(): Promise<OutboxEntry[]> {
+  return readEntries(PENDING_PREFIX);
+}
+
+export function listDeadLetterRSVPs(): Promise<OutboxEntry[]> {
+  return readEntries(DEAD_PREFIX);
+}
+
+/**
+ * Move a dead-lettered entry back to the pending list for an immediate retry
+ * with a fresh attempt budget. Returns false when no such entry exists. A
+ * newer submission already queued for the party wins: the dead entry is left
+ * where it is rather than replacing it.
+ */
+export async function requeueDeadLetter(deadLetterId: string): Promise<boolean> {
+  const s = blobStore(STORE_NAME);
+  const raw = await s.get(DEAD_PREFIX + deadLetterId);
+  if (!raw) return false;
+  const entry = JSON.parse(raw) as OutboxEntry;
+  const queued = await getPendingEntry(entry.id);
+  if (queued && queued.receivedAt > entry.receivedAt) return false;
+
+  const requeued: OutboxEntry = {
+    ...entry,
+    attempts: 0,
+    nextAttemptAt: new Date().toISOString(),
+    deadLetteredAt: undefined,
+    deadLetterId: undefined,
+  };
+  await s.set(PENDING_PREFIX + entry.id, JSON.stringify(requeued));
+  await s.delete(DEAD_PREFIX + deadLetterId);
+  return true;
+}
+
+async function getPendingEntry(id: string): Promise<OutboxEntry | null> {
+  const raw = await blobStore(STORE_NAME).get(PENDING_PREFIX + id);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as OutboxEntry;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The submission still queued for this party + event, if any. Pages use it to
+ * show the guest what they sent while it syncs, rather than the older answer
+ * Notion still holds (or "no RSVP found").
+ */
+export function getPendingRSVP(
+  partyIds: string[],
+  event: 'nyc' | 'france'
+): Promise<OutboxEntry | null> {
+  return getPendingEntry(outboxEntryId(partyIds, event));
+}
+
+/** A queued submission in the shape pages render a stored response in. */
+export function pendingAsResponse(entry: OutboxEntry): RSVPResponse {
+  const { submission } = entry;
+  return {
+    id: `outbox:${entry.id}`,
+    guestId: entry.guestId,
+    guestIds: entry.partyIds,
+    event: submission.event,
+    submittedAt: entry.receivedAt,
+    status: submissionStatus(submission.guestsAttending),
+    guestsAttending: submissionAttendeeNames(submission.guestsAttending),
+    dietary: submission.dietary,
+    message: submission.message,
+    details: submission.details,
+    eventsAttending: submission.eventsAttending,
+    attendanceById: Object.fromEntries(
+      submission.guestsAttending
+        .filter((member) => member.guestId)
+        .map((member) => [member.guestId!, member.attending])
+    ),
+  };
+}
+
+/**
+ * The response a page should show: a still-queued submission when it is newer
+ * than what the data store holds, else the stored response. Outbox read
+ * failures fall back to the stored response — the page must not break because
+ * Blobs is down.
+ */
+export async function withPendingRSVP(
+  stored: RSVPResponse | null,
+  partyIds: string[],
+  event: 'nyc' | 'france'
+): Promise<{ rsvp: RSVPResponse | null; syncing: boolean }> {
+  try {
+    const pending = await getPendingRSVP(partyIds, event);
+    if (pending && (!stored || Date.parse(stored.submittedAt) < Date.parse(pending.receivedAt))) {
+      return { rsvp: pendingAsResponse(pending), syncing: true };
+    }
+  } catch (err) {
+    console.error('[rsvp-outbox] Pending lookup failed (non-fatal):', err);
+  }
+  return { rsvp: stored, syncing: false };
+}
+
+/** Write one entry to the data store. Throws on failure. */
+async function deliver(entry: OutboxEntry): Promise<RSVPResponse> {
+  await Promise.all(
+    entry.emailUpdates.map((update) => updateGuestEmail(update.guestId, update.email))
+  );
+  return submitRSVP(entry.guestId, entry.submission, 'outbox');
+}
+
+/**
+ * The checks POST /api/rsvp could not make for an entry flagged
+ * `recheckCapacity`. Sets the queue places on limited events
+ * (src/lib/event-capacity.ts) when POST could not, counting from when the
+ * guest submitted, and checks the shuttle seats against every other party's
+ * latest response. Returns the submission to write, or the leg it would
+ * overbook. Throws when the data store cannot be read.
+ */
+async function recheckQueuedCapacity(
+  entry: OutboxEntry,
+  partyIds: string[],
+  latest: RSVPResponse | null
+): Promise<{ submission: RSVPSubmission } | { fullLeg: ShuttleLegId }> {
+  let submission = entry.submission;
+  if (!submission.details?.eventsRequestedAt) {
+    const events = (await getGuestEvents(entry.guestId)).filter((event) => event.wedding === submission.event);
+    const places = eventsRequestedAt(submission, events, latest, new Date(entry.receivedAt));
+    if (places) submission = { ...submission, details: { ...submission.details, eventsRequestedAt: places } };
+  }
+
+  const seats = submission.details?.shuttleSeats ?? [];
+  if (seats.length > 0) {
+    const [guests, latestRSVPs] = await Promise.all([fetchAllGuests(), fetchAllLatestRSVPs()]);
+    const others = latestFranceResponses(guests, latestRSVPs).filter(
+      (response) => !response.guestIds.some((id) => partyIds.includes(id))
+    );
+    const fullLeg = fullShuttleLeg(seats, others);
+    if (fullLeg) return { fullLeg };
+  }
+  return { submission };
+}
+
+/** The confirmation POST /api/rsvp held back, to the addresses as submitted. */
+async function sendReplayConfirmation(entry: OutboxEntry): Promise<void> {
+  const submittedEmails = new Map(entry.emailUpdates.map((update) => [update.guestId, update.email]));
+  const party = await getGuestParty(entry.guestId);
+  await sendRSVPConfirmation({
+    guestId: entry.guestId,
+    submission: entry.submission,
+    contacts: party.map((member) => ({
+      id: member.id,
+      name: member.name,
+      email: (submittedEmails.has(member.id) ? submittedEmails.get(member.id) : member.email) ?? undefined,
+    })),
+    travelUrl: entry.confirmation?.travelUrl,
+  });
+}
+
+/**
+ * Replay every due pending entry into the data store. Called by the scheduled
+ * function and the admin endpoint.
+ *
+ * Sequential on purpose: a backlog only exists because Notion was struggling,
+ * and a burst of parallel writes is the fastest way to get rate limited again.
+ */
+export async function replayOutbox(now: number = Date.now()): Promise<OutboxReplayReport> {
+  const pending = await listPendingRSVPs();
+  const report: OutboxReplayReport = {
+    pending: pending.length,
+    replayed: 0,
+    superseded: 0,
+    deferred: 0,
+    failed: 0,
+    deadLettered: 0,
+  };
+
+  for (const entry of pending) {
+    if (Date.parse(entry.nextAttemptAt) > now) {
+      report.deferred++;
+      continue;
+    }
+
+    let submitted: RSVPResponse;
+    let partyIds: string[];
+    try {
+      // Re-resolve the party: the household may have changed since the
+      // submission, and submitRSVP relates the row to the live party anyway.
+      partyIds = (await getGuestParty(entry.guestId)).map((member) => member.id);
+      const latest = await getLatestRSVPForParty(partyIds, entry.submission.event);
+      if (latest && Date.parse(latest.submittedAt) >= Date.parse(entry.receivedAt)) {
+        await completeOutboxEntry(entry);
+        report.superseded++;
+        continue;
+      }
+      let submission = entry.submission;
+      if (entry.recheckCapacity) {
+        const checked = await recheckQueuedCapacity(entry, partyIds, latest);
+        if ('fullLeg' in checked) {
+          console.error(`[rsvp-outbox] Entry ${entry.id} dead-lettered: the ${checked.fullLeg} shuttle is full`);
+          await deadLetter({ ...entry, lastError: `shuttleSeats overbooks the ${checked.fullLeg} shuttle` });
+          report.deadLettered++;
+          continue;
+        }
+        submission = checked.submission;
+      }
+      submitted = await deliver({ ...entry, submission });
+    } catch (err) {
+      console.error(`[rsvp-outbox] Replay failed for ${entry.id}:`, err);
+      const updated = await recordOutboxFailure(entry, err);
+      if (updated.deadLetteredAt) report.deadLettered++;
+      else report.failed++;
+      continue;
+    }
+
+    await completeOutboxEntry(entry);
+    report.replayed++;
+
+    // Seats this answer freed may promote other parties off a waitlist — only
+    // now that it is written (src/lib/event-waitlists.ts). Settled first: the
+    // calendars rebuilt below leave off what the stored allocation waitlists.
+    try {
+      await settleAfterAnswer(entry.submission.event, partyIds, submitted);
+    } catch (err) {
+      console.error(`[rsvp-outbox] Waitlist settle after replay of ${entry.id} failed (non-fatal):`, err);
+    }
+
+    // The guest's calendar still reflects the pre-outage answer — rebuild it
+    // from the response just written (same as POST /api/rsvp).
+    try {
+      await Promise.all(partyIds.map((id) => generateAndStoreICSForGuest(id, submitted)));
+    } catch (err) {
+      console.error(`[rsvp-outbox] ICS regeneration after replay of ${entry.id} failed (non-fatal):`, err);
+    }
+
+    if (entry.confirmation) {
+      try {
+        await sendReplayConfirmation(entry);
+      } catch (err) {
+        console.error(`[rsvp-outbox] Confirmation email after replay of ${entry.id} failed (non-fatal):`, err);
+      }
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,71 @@
+/**
+ * How a submitted RSVP form resolves to a stored response: the overall status
+ * and which party members it says are attending.
+ *
+ * Shared by every WeddingDataStore backend (src/lib/data-store.ts) so the
+ * Notion rows and the local JSON fixtures record exactly the same answer for
+ * the same form — a divergence here would make local runs pass against
+ * behaviour production never has.
+ */
+
+import type { GuestRecord, RSVPSubmission } from '../types';
+import type { RSVPStatus } from './rsvp-attendance';
+import { normalize } from './normalize';
+
+/**
+ * Status for a submission: Declined when nobody attends, Attending when
+ * everyone listed does, Partial otherwise.
+ */
+export function submissionStatus(
+  guestsAttending: RSVPSubmission['guestsAttending']
+): RSVPStatus {
+  const attendingCount = guestsAttending.filter((g) => g.attending).length;
+  if (attendingCount === 0) return 'Declined';
+  if (attendingCount === guestsAttending.length) return 'Attending';
+  return 'Partial';
+}
+
+/** The `Guests Attending` text: comma-separated names of attending entries. */
+export function submissionAttendeeNames(
+  guestsAttending: RSVPSubmission['guestsAttending']
+): string {
+  return guestsAttending
+    .filter((g) => g.attending)
+    .map((g) => g.name)
+    .join(', ');
+}
+
+/**
+ * Whether a party member attends according to a submission.
+ *
+ * Entries are matched by member page ID when the form threads it, so name
+ * edits and attendance resolve to the right member even if the displayed name
+ * was changed on the form. Entries without a guestId (legacy clients) fall
+ * back to normalized-name matching.
+ */
+export function submittedAttendance(
+  guestsAttending: RSVPSubmission['guestsAttending']
+): {
+  byId: Map<string, { name: string; attending: boolean }>;
+  attends: (member: Pick<GuestRecord, 'id' | 'normalizedName'>) => boolean;
+} {
+  const byId = new Map<string, { name: string; attending: boolean }>();
+  for (const entry of guestsAttending) {
+    if (entry.guestId) {
+      byId.set(entry.guestId, { name: entry.name, attending: entry.attending });
+    }
+  }
+  const legacyNames = new Set(
+    guestsAttending
+      .filter((g) => g.attending && !g.guestId)
+      .map((g) => normalize(g.name))
+  );
+  return {
+    byId,
+    attends: (member) => {
+      const entry = byId.get(member.id);
+      if (entry) return entry.attending;
+      return legacyNames.has(member.normalizedName);
+    },
+  };
+}
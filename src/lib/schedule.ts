@@ -0,0 +1,97 @@
+/**
+ * Schedule pages, built from the Event Catalog.
+ *
+ * The France weekend page and the NYC details schedule used to hardcode every
+ * timeline item in strings.ts, while the ICS feed read the same events from the
+ * Event Catalog — so a time changed in Notion moved the calendar but not the
+ * website. Both pages now render these day groups instead.
+ *
+ * An event's day is its `Event Date`, else the date of its Wedding Timeline
+ * `Day` page. Events with neither are kept, in a trailing group with a null
+ * date, rather than silently dropped from the page.
+ */
+
+import type { EventRecord } from '../types';
+import type { Lang } from '../content/strings';
+import { getEventCatalog, getGuestEvents, fetchDayDate } from './data-store';
+import { parseTime } from './calendar';
+
+export interface ScheduleDay {
+  /** YYYY-MM-DD, or null for events not yet given a date. */
+  date: string | null;
+  /** The day's events, by start time. */
+  events: EventRecord[];
+}
+
+/**
+ * Minutes after midnight of a time like "5:30 PM", or null. Display ranges
+ * like "11:30 AM–2:00 PM" count from their first time.
+ */
+export function timeToMinutes(time: string): number | null {
+  const parsed = parseTime(time.split(/[–-]/)[0]);
+  return parsed ? parsed.hour * 60 + parsed.minute : null;
+}
+
+/** When an event starts: its `startTime`, else its display `time`. */
+export function eventStartMinutes(event: EventRecord): number | null {
+  for (const value of [event.startTime, event.time]) {
+    const minutes = value ? timeToMinutes(value) : null;
+    if (minutes !== null) return minutes;
+  }
+  return null;
+}
+
+/**
+ * Group website-visible events into days, earliest first. Within a day, events
+ * without a parseable time sort last.
+ */
+export async function groupEventsByDay(events: EventRecord[]): Promise<ScheduleDay[]> {
+  const byDate = new Map<string | null, EventRecord[]>();
+  for (const event of events) {
+    if (!event.showOnWebsite) continue;
+    const date = event.date ?? (event.dayId ? await fetchDayDate(event.dayId) : undefined) ?? null;
+    byDate.set(date, [...(byDate.get(date) ?? []), event]);
+  }
+
+  const byStart = (a: EventRecord, b: EventRecord) =>
+    (eventStartMinutes(a) ?? Number.MAX_SAFE_INTEGER) -
+    (eventStartMinutes(b) ?? Number.MAX_SAFE_INTEGER);
+
+  return [...byDate.entries()]
+    .sort(([a], [b]) => (a ?? '9999-12-31').localeCompare(b ?? '9999-12-31'))
+    .map(([date, dayEvents]) => ({ date, events: dayEvents.sort(byStart) }));
+}
+
+/**
+ * The wedding's schedule from the Event Catalog. With a guest, only the events
+ * their party is invited to (getGuestEvents) — a dancing-only guest is not
+ * shown a dinner they cannot RSVP to.
+ */
+export async function getScheduleDays(
+  wedding: 'nyc' | 'france',
+  guestId?: string
+): Promise<ScheduleDay[]> {
+  const events = guestId
+    ? (await getGuestEvents(guestId)).filter((event) => event.wedding === wedding)
+    : await getEventCatalog(wedding);
+  return groupEventsByDay(events);
+}
+
+/** Lowercase English weekday ("friday") — keys the per-day copy in strings.ts. */
+export function weekdayKey(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Intl.DateTimeFormat('en-US', { weekday: 'long' })
+    .format(new Date(year, month - 1, day))
+    .toLowerCase();
+}
+
+/** "Friday, May 28" / "Vendredi 28 mai". */
+export function formatDayHeading(date: string, lang: Lang): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const heading = new Intl.DateTimeFormat(lang === 'fr' ? 'fr-FR' : 'en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+  }).format(new Date(year, month - 1, day));
+  return heading.charAt(0).toUpperCase() + heading.slice(1);
+}
@@ -0,0 +1,246 @@
+/**
+ * Shuttle seats between Paris and Village de Sully (France).
+ *
+ * The legs (shuttleLegs) are the coaches we charter: one out on the Friday,
+ * one back on the Sunday. When `features.france.shuttleSeats` is on, the RSVP
+ * form lists every leg with a checkbox per attending member, and the chosen
+ * seats are stored in the response's Details JSON as `shuttleSeats`.
+ *
+ * Unlike the room requests (src/lib/accommodation.ts) a seat is firm: the
+ * form shows the seats left from every other party's latest response, and
+ * /api/rsvp refuses a submission that would put a leg over capacity. A
+ * reserved leg appears in the member's calendar feed (src/lib/ics-generator.ts)
+ * and on the driver's manifest from GET /api/admin/shuttles.
+ */
+
+import type { EventRecord, GuestRecord, RSVPResponse, ShuttleSeat } from '../types';
+import { strings, type Lang } from '../content/strings';
+import { csvSheet } from './csv';
+import { isoDate, text, wholeNumber, withInventoryOverrides } from './inventory-config';
+
+export type ShuttleLegId = 'paris-sully' | 'sully-paris';
+
+export interface ShuttleLeg {
+  id: ShuttleLegId;
+  date: string; // YYYY-MM-DD
+  departureTime: string; // Same format as the Event Catalog's Start Time
+  duration: string; // Same format as the Event Catalog's Duration
+  /** Seats on the coach. */
+  capacity: number;
+}
+
+/**
+ * Our working schedule until the coach operator confirms it.
+ * FRANCE_SHUTTLE_LEGS overrides `date`, `departureTime`, `duration` and
+ * `capacity` per leg (src/lib/inventory-config.ts).
+ */
+export const DEFAULT_SHUTTLE_LEGS: readonly ShuttleLeg[] = [
+  { id: 'paris-sully', date: '2027-05-28', departureTime: '3:00 PM', duration: '1h30m', capacity: 50 },
+  { id: 'sully-paris', date: '2027-05-30', departureTime: '3:00 PM', duration: '1h30m', capacity: 50 },
+];
+
+/** The legs we charter, in form order, with any configured overrides. */
+export function shuttleLegs(): ShuttleLeg[] {
+  return withInventoryOverrides(DEFAULT_SHUTTLE_LEGS, 'FRANCE_SHUTTLE_LEGS', {
+    date: isoDate,
+    departureTime: text,
+    duration: text,
+    capacity: wholeNumber,
+  });
+}
+
+export function shuttleLeg(id: string): ShuttleLeg | undefined {
+  return shuttleLegs().find((leg) => leg.id === id);
+}
+
+export function shuttleLegLabel(id: ShuttleLegId, lang: Lang): string {
+  return strings.france.rsvp.form.transport.shuttle.legs[id].name[lang];
+}
+
+export function shuttleLegPickup(id: ShuttleLegId, lang: Lang): string {
+  return strings.france.rsvp.form.transport.shuttle.legs[id].pickup[lang];
+}
+
+/**
+ * Check a submission's `details.shuttleSeats`: a list of known legs, each
+ * reserved for an attending member at most once. Returns an error message,
+ * or null when the seats are valid (or absent). Capacity is checked
+ * separately by fullShuttleLeg, against everyone else's seats.
+ */
+export function validateShuttleSeats(value: unknown, input: { attendingGuestIds: string[] }): string | null {
+  if (value === undefined) return null;
+  if (!Array.isArray(value)) return 'shuttleSeats must be an array';
+  const attending = new Set(input.attendingGuestIds);
+  const seen = new Set<string>();
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object') return 'shuttleSeats entries must be objects';
+    const { guestId, legId } = entry as Record<string, unknown>;
+    if (typeof legId !== 'string' || !shuttleLeg(legId)) return 'shuttleSeats includes an unknown leg';
+    if (typeof guestId !== 'string' || !attending.has(guestId)) {
+      return 'shuttleSeats includes a guest who is not attending';
+    }
+    const key = `${guestId}:${legId}`;
+    if (seen.has(key)) return 'shuttleSeats reserves a seat twice';
+    seen.add(key);
+  }
+  return null;
+}
+
+/** Seats held by responses that still attend, per leg. */
+function reservedSeats(responses: RSVPResponse[]): Map<string, number> {
+  const reserved = new Map<string, number>();
+  for (const response of responses) {
+    if (response.status === 'Declined') continue;
+    for (const seat of response.details?.shuttleSeats ?? []) {
+      reserved.set(seat.legId, (reserved.get(seat.legId) ?? 0) + 1);
+    }
+  }
+  return reserved;
+}
+
+export interface ShuttleAvailability {
+  id: ShuttleLegId;
+  capacity: number;
+  reserved: number;
+  /** Never below zero, even when a leg was overbooked by hand. */
+  remaining: number;
+}
+
+export function shuttleAvailability(responses: RSVPResponse[]): ShuttleAvailability[] {
+  const reserved = reservedSeats(responses);
+  return shuttleLegs().map((leg) => {
+    const count = reserved.get(leg.id) ?? 0;
+    return { id: leg.id, capacity: leg.capacity, reserved: count, remaining: Math.max(0, leg.capacity - count) };
+  });
+}
+
+/**
+ * The first leg the party's seats would overbook, given every other party's
+ * latest response (`others` must leave the party's own out), or null when
+ * they all fit.
+ */
+export function fullShuttleLeg(seats: ShuttleSeat[], others: RSVPResponse[]): ShuttleLegId | null {
+  const reserved = reservedSeats(others);
+  for (const leg of shuttleLegs()) {
+    const wanted = seats.filter((seat) => seat.legId === leg.id).length;
+    if (wanted > 0 && (reserved.get(leg.id) ?? 0) + wanted > leg.capacity) return leg.id;
+  }
+  return null;
+}
+
+/**
+ * The legs `guestId` holds a seat on in `response`, as calendar events for
+ * buildICS. The caller decides whether the guest attends the response.
+ */
+export function shuttleEventsForGuest(response: RSVPResponse | null, guestId: string): EventRecord[] {
+  if (!response || response.status === 'Declined') return [];
+  const legIds = new Set(
+    (response.details?.shuttleSeats ?? []).filter((seat) => seat.guestId === guestId).map((seat) => seat.legId)
+  );
+  return shuttleLegs().filter((leg) => legIds.has(leg.id)).map((leg) => ({
+    // Stable per leg, so a calendar app updates the entry in place.
+    id: `shuttle-${leg.id}`,
+    name: shuttleLegLabel(leg.id, 'en'),
+    nameFr: shuttleLegLabel(leg.id, 'fr'),
+    // A reserved seat is opt-in, like an optional event.
+    type: 'Optional',
+    wedding: 'france',
+    date: leg.date,
+    startTime: leg.departureTime,
+    duration: leg.duration,
+    location: shuttleLegPickup(leg.id, 'en'),
+    locationFr: shuttleLegPickup(leg.id, 'fr'),
+    showOnWebsite: false,
+    // Time to get to the pickup point
+    reminders: [120],
+  }));
+}
+
+export interface ShuttleManifest {
+  leg: ShuttleLeg;
+  passengers: string[];
+}
+
+/**
+ * One manifest per leg (or just `legId`'s), passengers sorted by name.
+ * `responses` should already leave test guests out (latestFranceResponses);
+ * `guests` supplies current names.
+ */
+export function buildShuttleManifests(
+  responses: RSVPResponse[],
+  guests: Pick<GuestRecord, 'id' | 'name'>[],
+  legId?: string
+): ShuttleManifest[] {
+  const names = new Map(guests.map((guest) => [guest.id, guest.name]));
+  return shuttleLegs().filter((leg) => !legId || leg.id === legId).map((leg) => ({
+    leg,
+    passengers: responses
+      .filter((response) => response.status !== 'Declined')
+      .flatMap((response) => response.details?.shuttleSeats ?? [])
+      .filter((seat) => seat.legId === leg.id)
+      .map((seat) => names.get(seat.guestId) ?? 'Guest')
+      .sort((a, b) => a.localeCompare(b)),
+  }));
+}
+
+/** Every manifest as one CSV sheet, English headers. */
+export function shuttleManifestCsv(manifests: ShuttleManifest[]): string {
+  const lines = [['Leg', 'Date', 'Departs', 'Pickup', 'Seat', 'Passenger']];
+  for (const { leg, passengers } of manifests) {
+    passengers.forEach((name, i) => {
+      lines.push([
+        shuttleLegLabel(leg.id, 'en'),
+        leg.date,
+        leg.departureTime,
+        shuttleLegPickup(leg.id, 'en'),
+        String(i + 1),
+        name,
+      ]);
+    });
+  }
+  return csvSheet(lines);
+}
+
+function escHtml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * The manifests as a standalone page to print for the drivers: one sheet per
+ * leg with a tick box per passenger, in French — the drivers are local.
+ */
+export function shuttleManifestHtml(manifests: ShuttleManifest[]): string {
+  const sheets = manifests.map(({ leg, passengers }) => {
+    const rows = passengers
+      .map((name, i) => `<tr><td>${i + 1}</td><td>${escHtml(name)}</td><td class="tick"></td></tr>`)
+      .join('');
+    return `<section>
+<h1>${escHtml(shuttleLegLabel(leg.id, 'fr'))}</h1>
+<p>${escHtml(leg.date)} · ${escHtml(leg.departureTime)} · ${escHtml(shuttleLegPickup(leg.id, 'fr'))}</p>
+<p>${passengers.length} / ${leg.capacity}</p>
+<table><thead><tr><th>#</th><th>Passager</th><th>✓</th></tr></thead><tbody>${rows}</tbody></table>
+</section>`;
+  });
+  return `<!doctype html>
+<html lang="fr">
+<head>
+<meta charset="utf-8">
+<title>Navettes — Margaux &amp; Sam</title>
+<style>
+body { font-family: sans-serif; margin: 2rem; }
+section { break-after: page; }
+table { width: 100%; border-collapse: collapse; }
+th, td { border: 1px solid #999; padding: 6px 8px; text-align: left; }
+.tick { width: 3rem; }
+</style>
+</head>
+<body>
+${sheets.join('\n')}
+</body>
+</html>
+`;
+}
@@ -1,5 +1,6 @@
 import type { GuestRecord } from '../types';
 import { normalize } from './normalize';
+import { GUEST_LIST } from './notion-schema';
 
 /**
  * Synthetic Notion Guest List party used by Playwright, CI, and
@@ -16,7 +17,7 @@ export const TEST_GUEST_NORMALIZED_NAMES = new Set(
 export function isTestGuestFromNotionProps(
   props: Record<string, { checkbox?: boolean } | unknown>
 ): boolean {
-  const field = props['Test Guest'];
+  const field = props[GUEST_LIST.properties.testGuest.name];
   if (field && typeof field === 'object' && field !== null && 'checkbox' in field) {
     return (field as { checkbox?: boolean }).checkbox === true;
   }
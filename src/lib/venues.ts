@@ -0,0 +1,198 @@
+/**
+ * Where the events happen.
+ *
+ * VENUES are the places we use: a postal address, a map pin once we have
+ * one, French and English names, a note on finding the way in, and public
+ * transit hints.
+ * An Event Catalog row names its venue in the `Venue` select (option names
+ * are the venue IDs below). Its free-text `Location` then only says where on
+ * the venue — "Village Square" — and may be left empty.
+ *
+ * From the venue:
+ * - localizeEvent (src/lib/event-i18n.ts) builds the one-line location every
+ *   calendar and email shows: the space, the venue's name, its address;
+ * - buildICS (src/lib/calendar.ts) adds GEO and Apple's structured location,
+ *   so calendar apps drop a pin instead of geocoding the text;
+ * - the schedule pages link to Apple and Google Maps and say how far it is
+ *   to walk from the day's previous event.
+ *
+ * A venue without a pin is still located by name and address everywhere; it
+ * only goes without GEO, a pinned map link and walks.
+ *
+ * French fields follow the Event Catalog "* FR" rule: unset falls back to
+ * the English one.
+ */
+
+import type { EventRecord } from '../types';
+import type { Lang } from '../content/strings';
+
+export interface Venue {
+  id: string;
+  wedding: 'nyc' | 'france';
+  name: string;
+  nameFr?: string;
+  /** Postal address, one line, as written locally. */
+  address: string;
+  /** The entrance, once confirmed. Unset rather than approximate. */
+  pin?: { latitude: number; longitude: number };
+  /** How to find the way in ("Take the elevator to the 6th floor"). */
+  entranceNote?: string;
+  entranceNoteFr?: string;
+  /** Public transit options, one per line. */
+  transit?: string[];
+  transitFr?: string[];
+}
+
+// TODO(sam/margaux): pin the Village de Sully entrance — until then it has no
+// pin, and the map links search by name and address.
+export const VENUES: readonly Venue[] = [
+  {
+    id: 'wythe-hotel',
+    wedding: 'nyc',
+    name: 'Bar Blondeau at the Wythe Hotel',
+    nameFr: 'Bar Blondeau au Wythe Hotel',
+    address: '80 Wythe Avenue, Brooklyn, NY 11249',
+    pin: { latitude: 40.72235, longitude: -73.95709 },
+    entranceNote: 'Bar Blondeau is on the 6th floor of the Wythe Hotel.',
+    transit: ['NYC Ferry to North Williamsburg', 'L train to Bedford Avenue'],
+  },
+  {
+    id: 'williamsburg',
+    wedding: 'nyc',
+    name: 'Williamsburg',
+    address: 'Williamsburg, Brooklyn, NY',
+    pin: { latitude: 40.7131, longitude: -73.962 },
+  },
+  {
+    id: 'village-de-sully',
+    wedding: 'france',
+    name: 'Village de Sully',
+    address: '78710 Rosny-sur-Seine, France',
+    transit: ['Train from Paris Saint-Lazare to Mantes-la-Jolie, then 10 minutes by taxi'],
+  },
+  {
+    id: 'giverny',
+    wedding: 'france',
+    name: "Claude Monet's House and Gardens",
+    nameFr: 'Maison et jardins de Claude Monet',
+    address: '84 Rue Claude Monet, 27620 Giverny, France',
+    pin: { latitude: 49.0754, longitude: 1.534 },
+  },
+];
+
+/** Roads and paths are rarely straight: walking distance per meter as the crow flies. */
+const ROUTE_FACTOR = 1.3;
+/** Walking pace, meters per minute (about 5 km/h). */
+const WALK_METERS_PER_MINUTE = 80;
+/** Past this, walking is not the way to get there and no walk is shown. */
+const MAX_WALK_METERS = 3000;
+
+export function venueById(id: string | undefined): Venue | undefined {
+  return id ? VENUES.find((venue) => venue.id === id) : undefined;
+}
+
+export function eventVenue(event: Pick<EventRecord, 'venueId'>): Venue | undefined {
+  return venueById(event.venueId);
+}
+
+export interface LocalizedVenue {
+  name: string;
+  address: string;
+  entranceNote?: string;
+  transit: string[];
+}
+
+export function localizeVenue(venue: Venue, lang: Lang): LocalizedVenue {
+  const fr = lang === 'fr';
+  return {
+    name: (fr && venue.nameFr) || venue.name,
+    address: venue.address,
+    entranceNote: (fr && venue.entranceNoteFr) || venue.entranceNote,
+    transit: (fr && venue.transitFr?.length ? venue.transitFr : venue.transit) ?? [],
+  };
+}
+
+/**
+ * The one-line location of an event at `venue`: the space (the event's own
+ * location, if it is not just the venue's name), the venue, its address.
+ */
+export function venueLocation(venue: Venue, space: string | undefined, lang: Lang): string {
+  const { name, address } = localizeVenue(venue, lang);
+  return [space && space !== name ? space : undefined, name, address].filter(Boolean).join(', ');
+}
+
+export function appleMapsUrl(venue: Venue): string {
+  const url = new URL('https://maps.apple.com/');
+  url.searchParams.set('q', venue.name);
+  url.searchParams.set('address', venue.address);
+  if (venue.pin) url.searchParams.set('ll', `${venue.pin.latitude},${venue.pin.longitude}`);
+  return url.toString();
+}
+
+export function googleMapsUrl(venue: Venue): string {
+  const url = new URL('https://www.google.com/maps/search/');
+  url.searchParams.set('api', '1');
+  url.searchParams.set('query', `${venue.name}, ${venue.address}`);
+  return url.toString();
+}
+
+/** Google Maps directions to the venue, from `origin` or wherever the guest is. */
+export function googleDirectionsUrl(venue: Venue, origin?: string): string {
+  const url = new URL('https://www.google.com/maps/dir/');
+  url.searchParams.set('api', '1');
+  if (origin) url.searchParams.set('origin', origin);
+  url.searchParams.set('destination', `${venue.name}, ${venue.address}`);
+  return url.toString();
+}
+
+/** Great-circle distance between two venues, in meters; null unless both are pinned. */
+export function distanceMeters(from: Venue, to: Venue): number | null {
+  if (!from.pin || !to.pin) return null;
+  const a = from.pin;
+  const b = to.pin;
+  const rad = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = rad(b.latitude - a.latitude);
+  const dLng = rad(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.latitude)) * Math.cos(rad(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6_371_000 * Math.asin(Math.sqrt(h));
+}
+
+export interface Walk {
+  meters: number;
+  minutes: number;
+}
+
+/**
+ * An estimate of the walk between two venues; null when they are the same
+ * place, too far apart to walk, or either has no pin.
+ */
+export function walkBetween(from: Venue, to: Venue): Walk | null {
+  if (from.id === to.id) return null;
+  const distance = distanceMeters(from, to);
+  if (distance === null) return null;
+  const meters = distance * ROUTE_FACTOR;
+  if (meters > MAX_WALK_METERS) return null;
+  return { meters, minutes: Math.max(1, Math.round(meters / WALK_METERS_PER_MINUTE)) };
+}
+
+/** "850 m" / "1.2 km" (fr "1,2 km"). */
+export function formatDistance(meters: number, lang: Lang): string {
+  if (meters < 1000) return `${Math.max(50, Math.round(meters / 50) * 50)} m`;
+  return `${(meters / 1000).toLocaleString(lang === 'fr' ? 'fr-FR' : 'en-US', { maximumFractionDigits: 1 })} km`;
+}
+
+/**
+ * The walk to each event from the one before it on the same day, by event ID.
+ * Events without a venue break the chain.
+ */
+export function walksBetweenEvents(events: Pick<EventRecord, 'id' | 'venueId'>[]): Map<string, Walk> {
+  const walks = new Map<string, Walk>();
+  for (let i = 1; i < events.length; i++) {
+    const from = eventVenue(events[i - 1]);
+    const to = eventVenue(events[i]);
+    const walk = from && to ? walkBetween(from, to) : null;
+    if (walk) walks.set(events[i].id, walk);
+  }
+  return walks;
+}
@@ -2,7 +2,7 @@ import { defineMiddleware } from 'astro:middleware';
 import { getAuthenticatedGuest, AUTH_COOKIE_NAME } from './lib/auth';
 import { getPrimaryEventRoute } from './lib/event-routing';
 import { isSiteEnabled, features } from './config/features';
-import { getGuestById } from './lib/notion';
+import { getGuestById } from './lib/data-store';
 import { normalize } from './lib/normalize';
 import { detectLocaleFromAcceptLanguage } from './lib/locale-routing';
 import type { Lang } from './content/strings';
@@ -13,6 +13,7 @@ const PROTECTED_ROUTES = [
   '/france',
   '/couple',
   '/registry',
+  '/travel',
 ];
 
 // Routes that are always public
@@ -0,0 +1,74 @@
+/**
+ * GET /api/admin/accommodation[?format=csv]
+ *
+ * The Village de Sully allocation for France (src/lib/accommodation.ts): every
+ * party's latest room request replayed in queue order against the room
+ * inventory, as rooms left per type and night, and the rooming list —
+ * allocated rooms first, then the waitlist. Test guests are excluded.
+ * Requires Authorization: Bearer {ADMIN_SECRET} header.
+ *
+ * Response: {
+ *   availability: RoomAvailability[],
+ *   rooms: RoomingListRow[],
+ *   totals: { allocated, waitlisted, guests, estimateEur }
+ * }
+ * — or, with format=csv, the rooming list to send to the Village.
+ */
+
+import type { APIRoute } from 'astro';
+import { fetchAllGuests, fetchAllLatestRSVPs } from '../../../lib/data-store';
+import {
+  allocateStays,
+  buildRoomingList,
+  latestFranceResponses,
+  roomAvailability,
+  roomingListCsv,
+} from '../../../lib/accommodation';
+import { requireAdminAuth } from '../../../lib/admin-auth';
+import { checkRateLimit, clientIp, rateLimitResponse } from '../../../lib/rate-limit';
+import { json } from '../../../lib/json-response';
+
+export const GET: APIRoute = async ({ request }) => {
+  const ip = clientIp(request);
+  const limit = checkRateLimit(`admin:${ip}`, 10, 15 * 60 * 1000);
+  if (!limit.ok) return rateLimitResponse(limit.retryAfterSec);
+
+  const unauthorized = requireAdminAuth(request, '/api/admin/accommodation');
+  if (unauthorized) return unauthorized;
+
+  const format = new URL(request.url).searchParams.get('format') ?? 'json';
+  if (format !== 'json' && format !== 'csv') {
+    return json(400, { error: 'Invalid format (must be "json" or "csv")' });
+  }
+
+  try {
+    const [guests, latestRSVPs] = await Promise.all([fetchAllGuests(), fetchAllLatestRSVPs()]);
+    const allocations = allocateStays(latestFranceResponses(guests, latestRSVPs));
+    const rooms = buildRoomingList(allocations, guests);
+
+    if (format === 'csv') {
+      return new Response(roomingListCsv(rooms), {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': 'attachment; filename="rooming-list-france.csv"',
+        },
+      });
+    }
+
+    const allocated = rooms.filter((room) => room.status === 'allocated');
+    return json(200, {
+      availability: roomAvailability(allocations),
+      rooms,
+      totals: {
+        allocated: allocated.length,
+        waitlisted: rooms.length - allocated.length,
+        guests: allocated.reduce((sum, room) => sum + room.guests.length, 0),
+        estimateEur: allocated.reduce((sum, room) => sum + room.estimateEur, 0),
+      },
+    });
+  } catch (err) {
+    console.error('[accommodation] Rooming list failed:', err);
+    return json(500, { error: 'Failed to build rooming list' });
+  }
+};
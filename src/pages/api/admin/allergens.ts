@@ -0,0 +1,72 @@
+/**
+ * GET /api/admin/allergens?event=nyc|france[&format=csv]
+ *
+ * The caterer's allergen matrix for one wedding: for each Event Catalog event,
+ * how many attending guests avoid each of the 14 EU allergens or eat
+ * vegetarian / vegan / halal, who they are, and how many attending guests
+ * have no per-guest answer (src/lib/allergens.ts). Built from each party's
+ * latest response (`details.dietaryByGuest`). Test guests are excluded, and
+ * parties waitlisted for a limited event are left out of its counts.
+ * Requires Authorization: Bearer {ADMIN_SECRET} header.
+ *
+ * Response: { event, matrix: AllergenMatrix[] }
+ *           — or, with format=csv, one CSV sheet with a row per event and guest.
+ */
+
+import type { APIRoute } from 'astro';
+import { fetchAllGuests, fetchAllLatestRSVPs, getEventCatalog } from '../../../lib/data-store';
+import { buildAllergenMatrix, allergenMatrixCsv } from '../../../lib/allergens';
+import { excludeTestGuests } from '../../../lib/test-guests';
+import { allocateEventSeats, latestEventResponses, withoutWaitlisted } from '../../../lib/event-capacity';
+import { requireAdminAuth } from '../../../lib/admin-auth';
+import { checkRateLimit, clientIp, rateLimitResponse } from '../../../lib/rate-limit';
+import { json } from '../../../lib/json-response';
+
+export const GET: APIRoute = async ({ request }) => {
+  const ip = clientIp(request);
+  const limit = checkRateLimit(`admin:${ip}`, 10, 15 * 60 * 1000);
+  if (!limit.ok) return rateLimitResponse(limit.retryAfterSec);
+
+  const unauthorized = requireAdminAuth(request, '/api/admin/allergens');
+  if (unauthorized) return unauthorized;
+
+  const params = new URL(request.url).searchParams;
+  const event = params.get('event');
+  if (event !== 'nyc' && event !== 'france') {
+    return json(400, { error: 'Invalid event (must be "nyc" or "france")' });
+  }
+  const format = params.get('format') ?? 'json';
+  if (format !== 'json' && format !== 'csv') {
+    return json(400, { error: 'Invalid format (must be "json" or "csv")' });
+  }
+
+  try {
+    const [events, guests, latestRSVPs] = await Promise.all([
+      getEventCatalog(event),
+      fetchAllGuests(),
+      fetchAllLatestRSVPs(),
+    ]);
+
+    // Only the guests who hold a place: a party waitlisted for a limited
+    // event is not counted for it, as on the master calendar
+    // (src/lib/event-capacity.ts).
+    const responses = latestEventResponses(guests, latestRSVPs, event);
+    const allocations = allocateEventSeats(responses, events);
+    const holding = responses.map((response) => withoutWaitlisted(response, allocations));
+
+    const matrix = buildAllergenMatrix(events, holding, excludeTestGuests(guests));
+    if (format === 'csv') {
+      return new Response(allergenMatrixCsv(matrix), {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="allergens-${event}.csv"`,
+        },
+      });
+    }
+    return json(200, { event, matrix });
+  } catch (err) {
+    console.error('[allergens] Allergen matrix failed:', err);
+    return json(500, { error: 'Failed to build allergen matrix' });
+  }
+};
@@ -0,0 +1,61 @@
+/**
+ * GET /api/admin/arrivals?event=nyc|france[&type=arrival|departure][&format=csv]
+ *
+ * The arrivals board for airport pickups: every guest flight entered on the
+ * RSVP form or /travel for one wedding, grouped by day, then airport, then
+ * scheduled time (src/lib/flights.ts). `type=departure` gives the same board
+ * for the trip home. Test guests are excluded.
+ * Requires Authorization: Bearer {ADMIN_SECRET} header.
+ *
+ * Response: { event, type, days: FlightBoardDay[] }
+ *           — or, with format=csv, a pickup sheet with a row per guest.
+ */
+
+import type { APIRoute } from 'astro';
+import { fetchAllGuests, fetchAllGuestFlights } from '../../../lib/data-store';
+import { buildFlightBoard, flightBoardCsv } from '../../../lib/flights';
+import { excludeTestGuests } from '../../../lib/test-guests';
+import { requireAdminAuth } from '../../../lib/admin-auth';
+import { checkRateLimit, clientIp, rateLimitResponse } from '../../../lib/rate-limit';
+import { json } from '../../../lib/json-response';
+
+export const GET: APIRoute = async ({ request }) => {
+  const ip = clientIp(request);
+  const limit = checkRateLimit(`admin:${ip}`, 10, 15 * 60 * 1000);
+  if (!limit.ok) return rateLimitResponse(limit.retryAfterSec);
+
+  const unauthorized = requireAdminAuth(request, '/api/admin/arrivals');
+  if (unauthorized) return unauthorized;
+
+  const params = new URL(request.url).searchParams;
+  const event = params.get('event');
+  if (event !== 'nyc' && event !== 'france') {
+    return json(400, { error: 'Invalid event (must be "nyc" or "france")' });
+  }
+  const type = params.get('type') ?? 'arrival';
+  if (type !== 'arrival' && type !== 'departure') {
+    return json(400, { error: 'Invalid type (must be "arrival" or "departure")' });
+  }
+  const format = params.get('format') ?? 'json';
+  if (format !== 'json' && format !== 'csv') {
+    return json(400, { error: 'Invalid format (must be "json" or "csv")' });
+  }
+
+  try {
+    const [guests, flights] = await Promise.all([fetchAllGuests(), fetchAllGuestFlights(event)]);
+    const days = buildFlightBoard(flights, excludeTestGuests(guests), type);
+    if (format === 'csv') {
+      return new Response(flightBoardCsv(days), {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${type}s-${event}.csv"`,
+        },
+      });
+    }
+    return json(200, { event, type, days });
+  } catch (err) {
+    console.error('[arrivals] Arrivals board failed:', err);
+    return json(500, { error: 'Failed to build arrivals board' });
+  }
+};
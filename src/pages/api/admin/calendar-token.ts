@@ -0,0 +1,94 @@
+/**
+ * POST /api/admin/calendar-token
+ *
+ * Revoke a guest's calendar link and issue a new one
+ * (src/lib/calendar-tokens.ts) — for a leaked link, or a guest who asks for a
+ * fresh one. The current link stays valid for `graceHours` (default 48, 0
+ * revokes it at once); with no grace its CDN-cached copies are purged too.
+ * Emails the guest their new link unless `notify` is false or email is off.
+ * Requires Authorization: Bearer {ADMIN_SECRET} header.
+ *
+ * Body: { guestId, graceHours?, notify? }
+ * Response: { guestId, generation, calendarUrl, previousValidUntil, emailed }
+ */
+
+import type { APIRoute } from 'astro';
+import { getGuestById } from '../../../lib/data-store';
+import { calendarCacheTag, signToken } from '../../../lib/calendar';
+import {
+  DEFAULT_GRACE_HOURS,
+  MAX_GRACE_HOURS,
+  calendarLinkReissuedEmail,
+  reissueTokenGeneration,
+} from '../../../lib/calendar-tokens';
+import { sendEmail, withRecipient } from '../../../lib/email';
+import { isEnabled } from '../../../config/features';
+import { requireAdminAuth } from '../../../lib/admin-auth';
+import { checkRateLimit, clientIp, rateLimitResponse } from '../../../lib/rate-limit';
+import { json } from '../../../lib/json-response';
+
+export const POST: APIRoute = async ({ request, cache }) => {
+  const ip = clientIp(request);
+  const limit = checkRateLimit(`admin:${ip}`, 10, 15 * 60 * 1000);
+  if (!limit.ok) return rateLimitResponse(limit.retryAfterSec);
+
+  const unauthorized = requireAdminAuth(request, '/api/admin/calendar-token');
+  if (unauthorized) return unauthorized;
+
+  let body: { guestId?: unknown; graceHours?: unknown; notify?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return json(400, { error: 'Invalid JSON' });
+  }
+
+  const { guestId, graceHours = DEFAULT_GRACE_HOURS, notify = true } = body;
+  if (typeof guestId !== 'string' || !guestId) {
+    return json(400, { error: 'guestId is required' });
+  }
+  if (typeof graceHours !== 'number' || !Number.isInteger(graceHours) || graceHours < 0 || graceHours > MAX_GRACE_HOURS) {
+    return json(400, { error: `graceHours must be a whole number from 0 to ${MAX_GRACE_HOURS}` });
+  }
+  if (typeof notify !== 'boolean') {
+    return json(400, { error: 'notify must be a boolean' });
+  }
+  if (!process.env.CALENDAR_HMAC_SECRET) {
+    return json(503, { error: 'CALENDAR_HMAC_SECRET is not configured' });
+  }
+
+  try {
+    const guest = await getGuestById(guestId);
+    if (!guest) return json(404, { error: 'Guest not found' });
+
+    const state = await reissueTokenGeneration(guestId, graceHours);
+    const calendarUrl = `https://sargaux.com/api/calendar/${signToken(guestId, state.generation)}.ics`;
+    console.log(`[calendar-token] Reissued calendar link for guest ${guestId} (generation ${state.generation}, ${graceHours}h grace)`);
+
+    // A revoked link must stop being served now, not when the CDN copy expires.
+    if (graceHours === 0 && cache.enabled) {
+      await cache.invalidate({ tags: calendarCacheTag(guestId) });
+    }
+
+    let emailed = false;
+    if (notify && guest.email && isEnabled('global.emailEnabled')) {
+      try {
+        await sendEmail(withRecipient({ email: guest.email }, calendarLinkReissuedEmail(guest.name, calendarUrl, state)));
+        emailed = true;
+      } catch (err) {
+        // The new link is already live — report it so the couple can pass it on.
+        console.error('[calendar-token] New link email failed:', err);
+      }
+    }
+
+    return json(200, {
+      guestId,
+      generation: state.generation,
+      calendarUrl,
+      previousValidUntil: state.previous?.validUntil ?? null,
+      emailed,
+    });
+  } catch (err) {
+    console.error('[calendar-token] Reissue failed:', err);
+    return json(500, { error: 'Failed to reissue calendar link' });
+  }
+};
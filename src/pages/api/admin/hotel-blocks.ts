@@ -0,0 +1,60 @@
+/**
+ * GET /api/admin/hotel-blocks?event=nyc|france
+ *
+ * Room-block pickup for one wedding: each Hotel Blocks row with its state at
+ * request time (open / sold-out / closed), the hotel's own held/claimed
+ * counts, and how many parties say on their RSVP that they booked it
+ * (`details.hotelBooked`). Test guests are excluded.
+ * Requires Authorization: Bearer {ADMIN_SECRET} header.
+ *
+ * Response: {
+ *   event,
+ *   blocks: BlockPickup[],
+ *   elsewhere, notYet, unanswered
+ * }
+ */
+
+import type { APIRoute } from 'astro';
+import { fetchAllGuests, fetchAllLatestRSVPs, getHotelBlocks } from '../../../lib/data-store';
+import { summarizeBlockPickup } from '../../../lib/hotel-blocks';
+import { excludeTestGuests } from '../../../lib/test-guests';
+import { requireAdminAuth } from '../../../lib/admin-auth';
+import { checkRateLimit, clientIp, rateLimitResponse } from '../../../lib/rate-limit';
+import { json } from '../../../lib/json-response';
+import type { RSVPResponse } from '../../../types';
+
+export const GET: APIRoute = async ({ request }) => {
+  const ip = clientIp(request);
+  const limit = checkRateLimit(`admin:${ip}`, 10, 15 * 60 * 1000);
+  if (!limit.ok) return rateLimitResponse(limit.retryAfterSec);
+
+  const unauthorized = requireAdminAuth(request, '/api/admin/hotel-blocks');
+  if (unauthorized) return unauthorized;
+
+  const event = new URL(request.url).searchParams.get('event');
+  if (event !== 'nyc' && event !== 'france') {
+    return json(400, { error: 'Invalid event (must be "nyc" or "france")' });
+  }
+
+  try {
+    const [blocks, guests, latestRSVPs] = await Promise.all([
+      getHotelBlocks(event),
+      fetchAllGuests(),
+      fetchAllLatestRSVPs(),
+    ]);
+
+    // fetchAllLatestRSVPs is keyed per guest; a party's response appears once
+    // per member, so collapse to one per response row.
+    const responses = new Map<string, RSVPResponse>();
+    for (const guest of excludeTestGuests(guests)) {
+      for (const rsvp of latestRSVPs.get(guest.id) ?? []) {
+        if (rsvp.event === event) responses.set(rsvp.id, rsvp);
+      }
+    }
+
+    return json(200, { event, ...summarizeBlockPickup(blocks, [...responses.values()]) });
+  } catch (err) {
+    console.error('[hotel-blocks] Pickup report failed:', err);
+    return json(500, { error: 'Failed to build hotel block report' });
+  }
+};
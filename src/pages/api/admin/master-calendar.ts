@@ -0,0 +1,78 @@
+/**
+ * GET  /api/admin/master-calendar
+ * POST /api/admin/master-calendar
+ *
+ * The couple and planner's master calendar subscription URL: every Event
+ * Catalog event of both weddings, Internal ones included, with live headcounts
+ * and dietary notes in each description (src/lib/master-calendar.ts).
+ * GET returns the current URL. POST revokes it and issues a new one — for a
+ * leaked link; the current URL stays valid for `graceHours` (default 48, 0
+ * revokes it at once).
+ * Requires Authorization: Bearer {ADMIN_SECRET} header.
+ *
+ * POST body: { graceHours? }
+ * Response: { calendarUrl } (GET), { generation, calendarUrl, previousValidUntil } (POST)
+ */
+
+import type { APIRoute } from 'astro';
+import {
+  masterCalendarToken,
+  masterCalendarUrl,
+  reissueMasterCalendarToken,
+} from '../../../lib/master-calendar';
+import { DEFAULT_GRACE_HOURS, MAX_GRACE_HOURS } from '../../../lib/calendar-tokens';
+import { requireAdminAuth } from '../../../lib/admin-auth';
+import { checkRateLimit, clientIp, rateLimitResponse } from '../../../lib/rate-limit';
+import { json } from '../../../lib/json-response';
+
+export const GET: APIRoute = async ({ request }) => {
+  const ip = clientIp(request);
+  const limit = checkRateLimit(`admin:${ip}`, 10, 15 * 60 * 1000);
+  if (!limit.ok) return rateLimitResponse(limit.retryAfterSec);
+
+  const unauthorized = requireAdminAuth(request, '/api/admin/master-calendar');
+  if (unauthorized) return unauthorized;
+
+  try {
+    // requireAdminAuth passed, so the admin secret is set.
+    return json(200, { calendarUrl: masterCalendarUrl((await masterCalendarToken())!) });
+  } catch (err) {
+    console.error('[master-calendar] Token lookup failed:', err);
+    return json(500, { error: 'Failed to load the master calendar link' });
+  }
+};
+
+export const POST: APIRoute = async ({ request }) => {
+  const ip = clientIp(request);
+  const limit = checkRateLimit(`admin:${ip}`, 10, 15 * 60 * 1000);
+  if (!limit.ok) return rateLimitResponse(limit.retryAfterSec);
+
+  const unauthorized = requireAdminAuth(request, '/api/admin/master-calendar');
+  if (unauthorized) return unauthorized;
+
+  let body: { graceHours?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return json(400, { error: 'Invalid JSON' });
+  }
+
+  const { graceHours = DEFAULT_GRACE_HOURS } = body;
+  if (typeof graceHours !== 'number' || !Number.isInteger(graceHours) || graceHours < 0 || graceHours > MAX_GRACE_HOURS) {
+    return json(400, { error: `graceHours must be a whole number from 0 to ${MAX_GRACE_HOURS}` });
+  }
+
+  try {
+    // requireAdminAuth passed, so the admin secret is set.
+    const { token, state } = (await reissueMasterCalendarToken(graceHours))!;
+    console.log(`[master-calendar] Reissued master calendar link (generation ${state.generation}, ${graceHours}h grace)`);
+    return json(200, {
+      generation: state.generation,
+      calendarUrl: masterCalendarUrl(token),
+      previousValidUntil: state.previous?.validUntil ?? null,
+    });
+  } catch (err) {
+    console.error('[master-calendar] Reissue failed:', err);
+    return json(500, { error: 'Failed to reissue the master calendar link' });
+  }
+};
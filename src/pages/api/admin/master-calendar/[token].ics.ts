@@ -0,0 +1,45 @@
+/**
+ * GET /api/admin/master-calendar/[token].ics
+ *
+ * The master calendar feed (src/lib/master-calendar.ts), built fresh on every
+ * request so its headcounts are live. The token comes from GET
+ * /api/admin/master-calendar — calendar apps cannot send the admin Bearer
+ * header. Returns 404 for a wrong or revoked token, 503 if the token or the
+ * feed cannot be checked or built (calendar apps retry).
+ */
+
+import type { APIRoute } from 'astro';
+import { buildMasterCalendar, verifyMasterCalendarToken } from '../../../../lib/master-calendar';
+import { logAdminAudit } from '../../../../lib/admin-auth';
+import { checkRateLimit, clientIp, rateLimitResponse } from '../../../../lib/rate-limit';
+
+const ICS_HEADERS = {
+  'Content-Type': 'text/calendar; charset=utf-8',
+  'Content-Disposition': 'inline; filename="sargaux-master.ics"',
+  // Guest names and dietary notes: never on a shared cache.
+  'Cache-Control': 'private, no-store',
+};
+
+export const GET: APIRoute = async ({ params, request }) => {
+  const ip = clientIp(request);
+  const limit = checkRateLimit(`master-calendar:${ip}`, 30, 15 * 60 * 1000);
+  if (!limit.ok) return rateLimitResponse(limit.retryAfterSec);
+
+  let ok: boolean;
+  try {
+    ok = !!params.token && (await verifyMasterCalendarToken(params.token));
+  } catch (err) {
+    // The token store is down — 503 keeps the subscription, a 404 could end it.
+    console.error('[master-calendar] Token check failed:', err);
+    return new Response('Service Unavailable', { status: 503 });
+  }
+  logAdminAudit('/api/admin/master-calendar/[token].ics', ok);
+  if (!ok) return new Response('Not found', { status: 404 });
+
+  try {
+    return new Response(await buildMasterCalendar(), { status: 200, headers: ICS_HEADERS });
+  } catch (err) {
+    console.error('[master-calendar] Feed build failed:', err);
+    return new Response('Service Unavailable', { status: 503 });
+  }
+};
@@ -0,0 +1,53 @@
+/**
+ * GET /api/admin/meals?event=nyc|france
+ *
+ * Caterer totals for one wedding: for each Event Catalog event that offers
+ * meal options, how many attending guests chose each entrée, and how many
+ * attending guests have no recorded choice. Counts come from each party's
+ * latest response (`details.meals`). Test guests, and parties waitlisted for
+ * a limited event, are excluded from it.
+ * Requires Authorization: Bearer {ADMIN_SECRET} header.
+ *
+ * Response: { event, meals: MealTotals[] }
+ */
+
+import type { APIRoute } from 'astro';
+import { fetchAllGuests, fetchAllLatestRSVPs, getEventCatalog } from '../../../lib/data-store';
+import { summarizeMeals } from '../../../lib/meals';
+import { allocateEventSeats, latestEventResponses, withoutWaitlisted } from '../../../lib/event-capacity';
+import { requireAdminAuth } from '../../../lib/admin-auth';
+import { checkRateLimit, clientIp, rateLimitResponse } from '../../../lib/rate-limit';
+import { json } from '../../../lib/json-response';
+
+export const GET: APIRoute = async ({ request }) => {
+  const ip = clientIp(request);
+  const limit = checkRateLimit(`admin:${ip}`, 10, 15 * 60 * 1000);
+  if (!limit.ok) return rateLimitResponse(limit.retryAfterSec);
+
+  const unauthorized = requireAdminAuth(request, '/api/admin/meals');
+  if (unauthorized) return unauthorized;
+
+  const event = new URL(request.url).searchParams.get('event');
+  if (event !== 'nyc' && event !== 'france') {
+    return json(400, { error: 'Invalid event (must be "nyc" or "france")' });
+  }
+
+  try {
+    const [events, guests, latestRSVPs] = await Promise.all([
+      getEventCatalog(event),
+      fetchAllGuests(),
+      fetchAllLatestRSVPs(),
+    ]);
+
+    // Only the guests who hold a place: a party waitlisted for a limited
+    // event is not counted for it (src/lib/event-capacity.ts).
+    const responses = latestEventResponses(guests, latestRSVPs, event);
+    const allocations = allocateEventSeats(responses, events);
+    const holding = responses.map((response) => withoutWaitlisted(response, allocations));
+
+    return json(200, { event, meals: summarizeMeals(events, holding) });
+  } catch (err) {
+    console.error('[meals] Meal totals failed:', err);
+    return json(500, { error: 'Failed to build meal totals' });
+  }
+};
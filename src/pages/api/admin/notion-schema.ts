@@ -0,0 +1,44 @@
+/**
+ * GET /api/admin/notion-schema
+ *
+ * Run the Notion schema doctor (src/lib/notion-schema-doctor.ts) against the
+ * live Guest List, Event Catalog, RSVP Responses, Hotel Blocks and Guest
+ * Flights databases.
+ * Read-only.
+ * Requires Authorization: Bearer {ADMIN_SECRET} header.
+ *
+ * Response: SchemaReport — { ok, checkedAt, databases: [{ label, envVar, checked, issues }] }.
+ * Status 200 whether or not issues were found; `ok` says which.
+ */
+
+import type { APIRoute } from 'astro';
+import { runSchemaDoctor } from '../../../lib/notion-schema-doctor';
+import { isLocalDataStore } from '../../../lib/data-store';
+import { requireAdminAuth } from '../../../lib/admin-auth';
+import { checkRateLimit, clientIp, rateLimitResponse } from '../../../lib/rate-limit';
+
+export const GET: APIRoute = async ({ request }) => {
+  const ip = clientIp(request);
+  const limit = checkRateLimit(`admin:${ip}`, 10, 15 * 60 * 1000);
+  if (!limit.ok) return rateLimitResponse(limit.retryAfterSec);
+
+  const unauthorized = requireAdminAuth(request, '/api/admin/notion-schema');
+  if (unauthorized) return unauthorized;
+
+  // The JSON fixtures have no Notion schema to drift from.
+  if (isLocalDataStore()) {
+    return new Response(
+      JSON.stringify({ error: 'WEDDING_DATA_STORE=local — there is no Notion schema to check' }),
+      { status: 409, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const report = await runSchemaDoctor();
+  if (!report.ok) {
+    console.error('[notion-schema] Schema check found errors:', JSON.stringify(report.databases));
+  }
+  return new Response(JSON.stringify(report), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
@@ -2,17 +2,18 @@
  * POST /api/admin/refresh-calendars
  *
  * Regenerate the stored ICS calendar for every guest (same job as the
- * scheduled ics-refresh functions, triggered on demand), then invalidate the
+ * scheduled ics-refresh function, triggered on demand), then invalidate the
  * CDN-cached calendar URLs so subscriptions pick up the new content promptly.
+ * Like the scheduled job, emails guests what changed when
+ * SCHEDULE_UPDATE_EMAILS=true (src/lib/calendar-revisions.ts).
  * Requires Authorization: Bearer {ADMIN_SECRET} header.
  *
- * Response: { total, succeeded, failed }
+ * Response: { total, succeeded, failed, updated, notified }
  */
 
 import type { APIRoute } from 'astro';
 import { refreshAllICS } from '../../../lib/ics-generator';
-import { clearEventCache, fetchAllGuests } from '../../../lib/notion';
-import { generateToken } from '../../../lib/calendar';
+import { clearEventCache } from '../../../lib/data-store';
 import { requireAdminAuth } from '../../../lib/admin-auth';
 import { checkRateLimit, clientIp, rateLimitResponse } from '../../../lib/rate-limit';
 
@@ -33,16 +34,11 @@ export const POST: APIRoute = async ({ request, cache }) => {
 
     const result = await refreshAllICS();
 
-    // Purge the CDN-cached calendar files (same pattern as POST /api/rsvp) —
-    // otherwise the CDN keeps serving the old ICS for up to an hour.
-    // Guest list is served from the in-memory cache populated by the refresh.
+    // Purge the CDN-cached calendar files — otherwise the CDN keeps serving
+    // the old ICS for up to an hour. Every feed response carries the
+    // 'calendar' tag, whatever token it was requested with.
     if (cache.enabled) {
-      const guests = await fetchAllGuests();
-      await Promise.all(
-        guests.map((guest) =>
-          cache.invalidate({ path: `/api/calendar/${generateToken(guest.id)}.ics` })
-        )
-      );
+      await cache.invalidate({ tags: 'calendar' });
     }
 
     return new Response(JSON.stringify(result), {
@@ -0,0 +1,73 @@
+/**
+ * /api/admin/rsvp-activity
+ *
+ * GET [?event=nyc|france][&since={ISO}] - The couple's RSVP activity feed
+ * (src/lib/rsvp-activity.ts), newest first.
+ * POST { activity: RSVPActivity[] } - Record entries built elsewhere: used by
+ * scripts/record-manual-rsvp.ts, which runs where the feed's blob store is
+ * out of reach. No alert is mailed for these — the couple entered them — but
+ * they appear in the next digest.
+ * Requires Authorization: Bearer {ADMIN_SECRET} header.
+ *
+ * Response: { activity: RSVPActivity[] } (GET), { recorded: number } (POST)
+ */
+
+import type { APIRoute } from 'astro';
+import { isRSVPActivity, listRSVPActivity, recordRSVPActivity } from '../../../lib/rsvp-activity';
+import { requireAdminAuth } from '../../../lib/admin-auth';
+import { checkRateLimit, clientIp, rateLimitResponse } from '../../../lib/rate-limit';
+import { json } from '../../../lib/json-response';
+
+export const GET: APIRoute = async ({ request }) => {
+  const ip = clientIp(request);
+  const limit = checkRateLimit(`admin:${ip}`, 10, 15 * 60 * 1000);
+  if (!limit.ok) return rateLimitResponse(limit.retryAfterSec);
+
+  const unauthorized = requireAdminAuth(request, '/api/admin/rsvp-activity');
+  if (unauthorized) return unauthorized;
+
+  const params = new URL(request.url).searchParams;
+  const event = params.get('event');
+  if (event !== null && event !== 'nyc' && event !== 'france') {
+    return json(400, { error: 'Invalid event (must be "nyc" or "france")' });
+  }
+  const since = params.get('since') ?? undefined;
+  if (since !== undefined && Number.isNaN(Date.parse(since))) {
+    return json(400, { error: 'since must be an ISO date' });
+  }
+
+  try {
+    const activity = await listRSVPActivity({ since, event: event ?? undefined });
+    return json(200, { activity: activity.reverse() });
+  } catch (err) {
+    console.error('[rsvp-activity] Listing failed:', err);
+    return json(500, { error: 'Failed to read RSVP activity' });
+  }
+};
+
+export const POST: APIRoute = async ({ request }) => {
+  const ip = clientIp(request);
+  const limit = checkRateLimit(`admin:${ip}`, 10, 15 * 60 * 1000);
+  if (!limit.ok) return rateLimitResponse(limit.retryAfterSec);
+
+  const unauthorized = requireAdminAuth(request, '/api/admin/rsvp-activity');
+  if (unauthorized) return unauthorized;
+
+  let body: { activity?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return json(400, { error: 'Invalid JSON' });
+  }
+  if (!Array.isArray(body?.activity) || !body.activity.every(isRSVPActivity)) {
+    return json(400, { error: 'activity must be an array of activity entries' });
+  }
+
+  try {
+    for (const entry of body.activity) await recordRSVPActivity(entry);
+    return json(200, { recorded: body.activity.length });
+  } catch (err) {
+    console.error('[rsvp-activity] Recording failed:', err);
+    return json(500, { error: 'Failed to record RSVP activity' });
+  }
+};
@@ -0,0 +1,132 @@
+/**
+ * GET  /api/admin/rsvp-deadline?event=nyc|france
+ * POST /api/admin/rsvp-deadline
+ *
+ * Manage the RSVP deadline (src/lib/rsvp-deadline.ts) for one wedding: the
+ * per-party overrides that reopen the form after the deadline, and the late
+ * responses waiting for the couple's approval.
+ * Requires Authorization: Bearer {ADMIN_SECRET} header.
+ *
+ * GET response: {
+ *   event, deadline: RSVPDeadline, daysLeft,
+ *   overrides: DeadlineOverride[], late: LateRSVP[]
+ * }
+ *
+ * POST body:
+ *   { action: 'grant', event, guestId, until?, note? }
+ *                                   — reopen the form for the guest's party,
+ *                                     until `until` (YYYY-MM-DD, inclusive) or
+ *                                     indefinitely. Response: { override }
+ *   { action: 'revoke', event, guestId }
+ *                                   — remove the override. Response: { revoked: true }
+ *   { action: 'approve', event, guestId }
+ *                                   — approve the party's late response.
+ *                                     Response: { late }
+ */
+
+import type { APIRoute } from 'astro';
+import { getGuestById, getGuestParty } from '../../../lib/data-store';
+import {
+  RSVP_DEADLINES,
+  daysUntilDeadline,
+  grantDeadlineOverride,
+  revokeDeadlineOverride,
+  listDeadlineOverrides,
+  listLateRSVPs,
+  approveLateRSVP,
+} from '../../../lib/rsvp-deadline';
+import { requireAdminAuth } from '../../../lib/admin-auth';
+import { checkRateLimit, clientIp, rateLimitResponse } from '../../../lib/rate-limit';
+import { json } from '../../../lib/json-response';
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export const GET: APIRoute = async ({ request }) => {
+  const ip = clientIp(request);
+  const limit = checkRateLimit(`admin:${ip}`, 10, 15 * 60 * 1000);
+  if (!limit.ok) return rateLimitResponse(limit.retryAfterSec);
+
+  const unauthorized = requireAdminAuth(request, '/api/admin/rsvp-deadline');
+  if (unauthorized) return unauthorized;
+
+  const event = new URL(request.url).searchParams.get('event');
+  if (event !== 'nyc' && event !== 'france') {
+    return json(400, { error: 'Invalid event (must be "nyc" or "france")' });
+  }
+
+  try {
+    const [overrides, late] = await Promise.all([listDeadlineOverrides(event), listLateRSVPs(event)]);
+    return json(200, {
+      event,
+      deadline: RSVP_DEADLINES[event],
+      daysLeft: daysUntilDeadline(event),
+      overrides,
+      late,
+    });
+  } catch (err) {
+    console.error('[rsvp-deadline] Listing failed:', err);
+    return json(500, { error: 'Failed to read RSVP deadline state' });
+  }
+};
+
+export const POST: APIRoute = async ({ request }) => {
+  const ip = clientIp(request);
+  const limit = checkRateLimit(`admin:${ip}`, 10, 15 * 60 * 1000);
+  if (!limit.ok) return rateLimitResponse(limit.retryAfterSec);
+
+  const unauthorized = requireAdminAuth(request, '/api/admin/rsvp-deadline');
+  if (unauthorized) return unauthorized;
+
+  let body: { action?: unknown; event?: unknown; guestId?: unknown; until?: unknown; note?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return json(400, { error: 'Invalid JSON' });
+  }
+
+  const { event, guestId } = body;
+  if (event !== 'nyc' && event !== 'france') {
+    return json(400, { error: 'Invalid event (must be "nyc" or "france")' });
+  }
+  if (typeof guestId !== 'string' || !guestId) {
+    return json(400, { error: 'guestId is required' });
+  }
+
+  try {
+    if (body.action === 'grant') {
+      if (body.until !== undefined && (typeof body.until !== 'string' || !DATE_RE.test(body.until))) {
+        return json(400, { error: 'until must be a YYYY-MM-DD date' });
+      }
+      if (body.note !== undefined && typeof body.note !== 'string') {
+        return json(400, { error: 'note must be a string' });
+      }
+      if (!(await getGuestById(guestId))) return json(404, { error: 'Guest not found' });
+      const override = await grantDeadlineOverride({
+        event,
+        guestId,
+        ...(body.until ? { until: body.until } : {}),
+        ...(body.note ? { note: body.note } : {}),
+      });
+      return json(200, { override });
+    }
+
+    if (body.action === 'revoke') {
+      const revoked = await revokeDeadlineOverride(event, guestId);
+      if (!revoked) return json(404, { error: 'No override for this guest' });
+      return json(200, { revoked: true });
+    }
+
+    if (body.action === 'approve') {
+      if (!(await getGuestById(guestId))) return json(404, { error: 'Guest not found' });
+      const party = await getGuestParty(guestId);
+      const late = await approveLateRSVP(party.map((member) => member.id), event);
+      if (!late) return json(404, { error: 'No late response for this party' });
+      return json(200, { late });
+    }
+
+    return json(400, { error: 'Unknown action (expected "grant", "revoke" or "approve")' });
+  } catch (err) {
+    console.error('[rsvp-deadline] Action failed:', err);
+    return json(500, { error: 'RSVP deadline action failed' });
+  }
+};
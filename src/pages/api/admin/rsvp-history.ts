@@ -0,0 +1,128 @@
+/**
+ * /api/admin/rsvp-history
+ *
+ * GET ?guestId={id}&event=nyc|france[&from={revisionId}&to={revisionId}] - A
+ * party's RSVP revision history (src/lib/rsvp-history.ts) for one event,
+ * resolved from any member's Guest List ID. Each revision carries `changes`:
+ * its diff against the party's previous revision — attendance per member,
+ * events, dietary, message and details.
+ * Requires Authorization: Bearer {ADMIN_SECRET} header.
+ *
+ * With `from` and `to`, also returns `diff` between those two revisions.
+ *
+ * POST { revisions: RSVPRevision[] } - Store revisions recorded elsewhere:
+ * used by scripts/record-manual-rsvp.ts, which runs where the history's blob
+ * store is out of reach, so only `manual` revisions are accepted. Revisions
+ * keep the IDs they were recorded with, and an ID already stored is skipped
+ * rather than overwritten, so posting the same ones twice stores them once.
+ *
+ * Response (GET): {
+ *   party: { id, name }[],
+ *   event,
+ *   revisions: (RSVPRevision & { changes: RSVPRevisionDiff })[],
+ *   diff?: RSVPRevisionDiff
+ * }
+ * Response (POST): { recorded: number, skipped: number }
+ */
+
+import type { APIRoute } from 'astro';
+import { getGuestParty } from '../../../lib/data-store';
+import {
+  listRSVPRevisions,
+  diffRSVPRevisions,
+  isRSVPRevision,
+  storeRSVPRevision,
+} from '../../../lib/rsvp-history';
+import { requireAdminAuth } from '../../../lib/admin-auth';
+import { checkRateLimit, clientIp, rateLimitResponse } from '../../../lib/rate-limit';
+import { json } from '../../../lib/json-response';
+
+export const GET: APIRoute = async ({ request }) => {
+  const ip = clientIp(request);
+  const limit = checkRateLimit(`admin:${ip}`, 10, 15 * 60 * 1000);
+  if (!limit.ok) return rateLimitResponse(limit.retryAfterSec);
+
+  const unauthorized = requireAdminAuth(request, '/api/admin/rsvp-history');
+  if (unauthorized) return unauthorized;
+
+  const url = new URL(request.url);
+  const guestId = url.searchParams.get('guestId');
+  const event = url.searchParams.get('event');
+  const from = url.searchParams.get('from');
+  const to = url.searchParams.get('to');
+
+  if (!guestId) return json(400, { error: 'guestId is required' });
+  if (event !== 'nyc' && event !== 'france') {
+    return json(400, { error: 'Invalid event (must be "nyc" or "france")' });
+  }
+  if (!!from !== !!to) return json(400, { error: 'from and to must be given together' });
+
+  let party;
+  try {
+    party = await getGuestParty(guestId);
+  } catch (err) {
+    console.error('[rsvp-history] Party lookup failed:', err);
+    return json(404, { error: 'Guest not found' });
+  }
+
+  try {
+    const revisions = await listRSVPRevisions(
+      party.map((member) => member.id),
+      event
+    );
+
+    const body: Record<string, unknown> = {
+      party: party.map((member) => ({ id: member.id, name: member.name })),
+      event,
+      revisions: revisions.map((revision, i) => ({
+        ...revision,
+        changes: diffRSVPRevisions(revisions[i - 1] ?? null, revision),
+      })),
+    };
+
+    if (from && to) {
+      const before = revisions.find((revision) => revision.id === from);
+      const after = revisions.find((revision) => revision.id === to);
+      if (!before || !after) return json(404, { error: 'Revision not found for this party' });
+      body.diff = diffRSVPRevisions(before, after);
+    }
+
+    return json(200, body);
+  } catch (err) {
+    console.error('[rsvp-history] Listing failed:', err);
+    return json(500, { error: 'Failed to read RSVP history' });
+  }
+};
+
+export const POST: APIRoute = async ({ request }) => {
+  const ip = clientIp(request);
+  const limit = checkRateLimit(`admin:${ip}`, 10, 15 * 60 * 1000);
+  if (!limit.ok) return rateLimitResponse(limit.retryAfterSec);
+
+  const unauthorized = requireAdminAuth(request, '/api/admin/rsvp-history');
+  if (unauthorized) return unauthorized;
+
+  let body: { revisions?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return json(400, { error: 'Invalid JSON' });
+  }
+  if (!Array.isArray(body?.revisions) || !body.revisions.every(isRSVPRevision)) {
+    return json(400, { error: 'revisions must be an array of RSVP revisions' });
+  }
+  if (body.revisions.some((revision) => revision.source !== 'manual')) {
+    return json(400, { error: 'Only manual revisions can be posted' });
+  }
+
+  try {
+    let recorded = 0;
+    for (const revision of body.revisions) {
+      if (await storeRSVPRevision(revision)) recorded++;
+    }
+    return json(200, { recorded, skipped: body.revisions.length - recorded });
+  } catch (err) {
+    console.error('[rsvp-history] Recording failed:', err);
+    return json(500, { error: 'Failed to record RSVP revisions' });
+  }
+};
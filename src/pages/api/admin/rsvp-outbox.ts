@@ -0,0 +1,81 @@
+/**
+ * GET  /api/admin/rsvp-outbox
+ * POST /api/admin/rsvp-outbox
+ *
+ * Inspect and drive the RSVP outbox (src/lib/rsvp-outbox.ts) — submissions
+ * accepted from guests but not yet written to Notion.
+ * Requires Authorization: Bearer {ADMIN_SECRET} header.
+ *
+ * GET response: { pending: OutboxEntry[], deadLetters: OutboxEntry[] }
+ *
+ * POST body:
+ *   { action: 'replay' }            — replay every due entry now (same as the
+ *                                     scheduled function). Response: OutboxReplayReport
+ *   { action: 'requeue', id }       — move a dead letter (by deadLetterId) back
+ *                                     to pending with a fresh attempt budget.
+ *                                     Response: { requeued: true }
+ */
+
+import type { APIRoute } from 'astro';
+import {
+  listPendingRSVPs,
+  listDeadLetterRSVPs,
+  replayOutbox,
+  requeueDeadLetter,
+} from '../../../lib/rsvp-outbox';
+import { requireAdminAuth } from '../../../lib/admin-auth';
+import { checkRateLimit, clientIp, rateLimitResponse } from '../../../lib/rate-limit';
+import { json } from '../../../lib/json-response';
+
+export const GET: APIRoute = async ({ request }) => {
+  const ip = clientIp(request);
+  const limit = checkRateLimit(`admin:${ip}`, 10, 15 * 60 * 1000);
+  if (!limit.ok) return rateLimitResponse(limit.retryAfterSec);
+
+  const unauthorized = requireAdminAuth(request, '/api/admin/rsvp-outbox');
+  if (unauthorized) return unauthorized;
+
+  try {
+    const [pending, deadLetters] = await Promise.all([listPendingRSVPs(), listDeadLetterRSVPs()]);
+    return json(200, { pending, deadLetters });
+  } catch (err) {
+    console.error('[rsvp-outbox] Listing failed:', err);
+    return json(500, { error: 'Failed to read outbox' });
+  }
+};
+
+export const POST: APIRoute = async ({ request }) => {
+  const ip = clientIp(request);
+  const limit = checkRateLimit(`admin:${ip}`, 10, 15 * 60 * 1000);
+  if (!limit.ok) return rateLimitResponse(limit.retryAfterSec);
+
+  const unauthorized = requireAdminAuth(request, '/api/admin/rsvp-outbox');
+  if (unauthorized) return unauthorized;
+
+  let body: { action?: unknown; id?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return json(400, { error: 'Invalid JSON' });
+  }
+
+  try {
+    if (body.action === 'replay') {
+      return json(200, await replayOutbox());
+    }
+
+    if (body.action === 'requeue') {
+      if (typeof body.id !== 'string' || !body.id) {
+        return json(400, { error: 'id (deadLetterId) is required' });
+      }
+      const requeued = await requeueDeadLetter(body.id);
+      if (!requeued) return json(404, { error: 'Dead letter not found, or superseded by a newer submission' });
+      return json(200, { requeued: true });
+    }
+  } catch (err) {
+    console.error('[rsvp-outbox] Admin action failed:', err);
+    return json(500, { error: 'Outbox action failed' });
+  }
+
+  return json(400, { error: "action must be 'replay' or 'requeue'" });
+};
@@ -14,7 +14,7 @@
  */
 
 import type { APIRoute } from 'astro';
-import { fetchAllGuests } from '../../../lib/notion';
+import { fetchAllGuests } from '../../../lib/data-store';
 import { excludeTestGuests } from '../../../lib/test-guests';
 import { sendToGuests, withRecipient } from '../../../lib/email';
 import { TEMPLATES } from '../../../lib/email-templates';
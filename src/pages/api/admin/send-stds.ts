@@ -9,7 +9,7 @@
  */
 
 import type { APIRoute } from 'astro';
-import { fetchAllGuests, markInviteSent, clearGuestCache } from '../../../lib/notion';
+import { fetchAllGuests, markInviteSent, clearGuestCache } from '../../../lib/data-store';
 import { excludeTestGuests } from '../../../lib/test-guests';
 import { sendToGuests, withRecipient } from '../../../lib/email';
 import { saveTheDateNYC, saveTheDateFrance } from '../../../lib/email-templates';
@@ -0,0 +1,75 @@
+/**
+ * GET /api/admin/shuttles[?leg=paris-sully][&format=csv|html]
+ *
+ * The shuttle seats for France (src/lib/shuttles.ts): every party's latest
+ * response, as seats left per leg and a passenger manifest per leg (or just
+ * `leg`'s). Test guests are excluded.
+ * Requires Authorization: Bearer {ADMIN_SECRET} header.
+ *
+ * Response: {
+ *   availability: ShuttleAvailability[],
+ *   manifests: { leg: ShuttleLeg, passengers: string[] }[]
+ * }
+ * — or, with format=csv, every manifest as one sheet; with format=html, a
+ * printable page per leg for the drivers.
+ */
+
+import type { APIRoute } from 'astro';
+import { fetchAllGuests, fetchAllLatestRSVPs } from '../../../lib/data-store';
+import { latestFranceResponses } from '../../../lib/accommodation';
+import {
+  buildShuttleManifests,
+  shuttleAvailability,
+  shuttleLeg,
+  shuttleManifestCsv,
+  shuttleManifestHtml,
+} from '../../../lib/shuttles';
+import { requireAdminAuth } from '../../../lib/admin-auth';
+import { checkRateLimit, clientIp, rateLimitResponse } from '../../../lib/rate-limit';
+import { json } from '../../../lib/json-response';
+
+export const GET: APIRoute = async ({ request }) => {
+  const ip = clientIp(request);
+  const limit = checkRateLimit(`admin:${ip}`, 10, 15 * 60 * 1000);
+  if (!limit.ok) return rateLimitResponse(limit.retryAfterSec);
+
+  const unauthorized = requireAdminAuth(request, '/api/admin/shuttles');
+  if (unauthorized) return unauthorized;
+
+  const params = new URL(request.url).searchParams;
+  const format = params.get('format') ?? 'json';
+  if (format !== 'json' && format !== 'csv' && format !== 'html') {
+    return json(400, { error: 'Invalid format (must be "json", "csv" or "html")' });
+  }
+  const legId = params.get('leg') ?? undefined;
+  if (legId !== undefined && !shuttleLeg(legId)) {
+    return json(400, { error: 'Unknown leg' });
+  }
+
+  try {
+    const [guests, latestRSVPs] = await Promise.all([fetchAllGuests(), fetchAllLatestRSVPs()]);
+    const responses = latestFranceResponses(guests, latestRSVPs);
+    const manifests = buildShuttleManifests(responses, guests, legId);
+
+    if (format === 'csv') {
+      return new Response(shuttleManifestCsv(manifests), {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="shuttle-manifest-${legId ?? 'france'}.csv"`,
+        },
+      });
+    }
+    if (format === 'html') {
+      return new Response(shuttleManifestHtml(manifests), {
+        status: 200,
+        headers: { 'Content-Type': 'text/html; charset=utf-8' },
+      });
+    }
+
+    return json(200, { availability: shuttleAvailability(responses), manifests });
+  } catch (err) {
+    console.error('[shuttles] Manifest failed:', err);
+    return json(500, { error: 'Failed to build shuttle manifest' });
+  }
+};
@@ -0,0 +1,85 @@
+/**
+ * Calendar reminders API endpoint
+ *
+ * GET /api/calendar-reminders - { enabled: boolean } for the logged-in guest
+ * POST /api/calendar-reminders - { enabled: boolean }: opt in or out of the
+ * reminders in the guest's personalized calendar feed
+ * (src/lib/calendar-preferences.ts), then regenerate the feed.
+ *
+ * The choice is the logged-in guest's own — calendar feeds are per guest.
+ * A failed regeneration leaves the choice saved; the scheduled refresh
+ * applies it.
+ */
+
+import type { APIRoute } from 'astro';
+import { features } from '../../config/features';
+import { loadSessionGuest, type SessionCookies } from '../../lib/guest-session';
+import { calendarCacheTag } from '../../lib/calendar';
+import { remindersEnabled, setRemindersEnabled } from '../../lib/calendar-preferences';
+import { generateAndStoreICSForGuest } from '../../lib/ics-generator';
+import { checkRateLimit, clientIp, rateLimitResponse } from '../../lib/rate-limit';
+import { json } from '../../lib/json-response';
+
+/**
+ * The logged-in guest's ID, or an error response. The session is bound to
+ * the live Guest List record (src/lib/guest-session.ts).
+ */
+async function loadGuest(cookies: SessionCookies): Promise<{ guestId: string } | { error: Response }> {
+  if (!features.global.calendarReminders) {
+    return { error: json(404, { error: 'Calendar reminders are not enabled' }) };
+  }
+  const session = await loadSessionGuest(cookies, { purpose: 'calendar reminders' });
+  if ('error' in session) return session;
+  return { guestId: session.guestId };
+}
+
+export const GET: APIRoute = async ({ cookies }) => {
+  const loaded = await loadGuest(cookies);
+  if ('error' in loaded) return loaded.error;
+
+  try {
+    return json(200, { enabled: await remindersEnabled(loaded.guestId) });
+  } catch (err) {
+    console.error('[calendar-reminders] Failed to read preference:', err);
+    return json(500, { error: 'Failed to read calendar reminders' });
+  }
+};
+
+export const POST: APIRoute = async ({ request, cookies, cache }) => {
+  const ip = clientIp(request);
+  // Each change regenerates the feed.
+  const limit = checkRateLimit(`calendar-reminders:${ip}`, 10, 60_000);
+  if (!limit.ok) return rateLimitResponse(limit.retryAfterSec);
+
+  const loaded = await loadGuest(cookies);
+  if ('error' in loaded) return loaded.error;
+  const { guestId } = loaded;
+
+  let body: { enabled?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return json(400, { error: 'Invalid JSON' });
+  }
+  if (typeof body?.enabled !== 'boolean') {
+    return json(400, { error: 'enabled must be a boolean' });
+  }
+
+  try {
+    await setRemindersEnabled(guestId, body.enabled);
+  } catch (err) {
+    console.error('[calendar-reminders] Failed to save preference:', err);
+    return json(500, { error: 'Failed to save calendar reminders' });
+  }
+
+  try {
+    await generateAndStoreICSForGuest(guestId);
+    if (cache.enabled) {
+      await cache.invalidate({ tags: calendarCacheTag(guestId) });
+    }
+  } catch (err) {
+    console.error('[calendar-reminders] ICS regeneration failed (non-fatal):', err);
+  }
+
+  return json(200, { enabled: body.enabled });
+};
@@ -10,11 +10,13 @@
  * erroring subscription until the next scheduled refresh.
  * Returns 503 only when generation itself fails (calendar apps retry; the
  * scheduled job is the backstop).
- * Returns 404 for invalid tokens (not 401, to avoid leaking information).
+ * Returns 404 for invalid tokens (not 401, to avoid leaking information),
+ * including a revoked generation once its grace window ends
+ * (src/lib/calendar-tokens.ts).
  */
 
 import type { APIRoute } from 'astro';
-import { verifyToken } from '../../../lib/calendar';
+import { calendarCacheTag, verifyToken } from '../../../lib/calendar';
 import { getICS } from '../../../lib/ics-store';
 import { generateAndStoreICSForGuest } from '../../../lib/ics-generator';
 
@@ -39,7 +41,13 @@ export const GET: APIRoute = async ({ params, cache }) => {
     return new Response('Service Unavailable', { status: 503 });
   }
 
-  const guestId = verifyToken(token);
+  let guestId: string | null;
+  try {
+    guestId = await verifyToken(token);
+  } catch (err: unknown) {
+    console.error('Calendar: token store error', err);
+    return new Response('Service Unavailable', { status: 503 });
+  }
   if (!guestId) {
     return new Response('Not found', { status: 404 });
   }
@@ -48,11 +56,12 @@ export const GET: APIRoute = async ({ params, cache }) => {
     const stored = await getICS(guestId);
     if (stored !== null) {
       // Durable CDN cache (Netlify) — each token is a unique per-guest URL, so
-      // path-keyed caching is safe. POST /api/rsvp invalidates this path after
-      // regenerating the guest's ICS. Only successful responses are cached;
+      // path-keyed caching is safe. POST /api/rsvp invalidates the guest's tag
+      // after regenerating the guest's ICS — the tag covers every token the
+      // guest's feed is served under. Only successful responses are cached;
       // 503s below fall through without cache directives.
       if (cache.enabled) {
-        cache.set({ maxAge: 3600, swr: 86400, tags: ['calendar'] });
+        cache.set({ maxAge: 3600, swr: 86400, tags: ['calendar', calendarCacheTag(guestId)] });
       }
       return new Response(stored, { status: 200, headers: ICS_HEADERS });
     }
@@ -62,7 +71,7 @@ export const GET: APIRoute = async ({ params, cache }) => {
     if (process.env.CALENDAR_TEST_MODE !== 'true') {
       const generated = await generateAndStoreICSForGuest(guestId);
       if (cache.enabled) {
-        cache.set({ maxAge: 3600, swr: 86400, tags: ['calendar'] });
+        cache.set({ maxAge: 3600, swr: 86400, tags: ['calendar', calendarCacheTag(guestId)] });
       }
       return new Response(generated, { status: 200, headers: ICS_HEADERS });
     }
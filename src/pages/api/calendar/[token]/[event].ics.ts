@@ -0,0 +1,78 @@
+/**
+ * GET /api/calendar/[token]/[event].ics[?lang=en|fr]
+ *
+ * A single event as an .ics download — the "add to calendar" path for guests
+ * who cannot subscribe to their feed (/api/calendar/[token].ics). The token is
+ * the guest's calendar token, so the link works from the confirmation email
+ * without a session.
+ *
+ * Serves only events the guest is invited to, localized by `lang` (default:
+ * the guest's locale, as for the feed), with reminders only if the guest has
+ * not opted out of them (src/lib/calendar-preferences.ts). Generated on
+ * demand — one event is a single cached catalog read, nothing is stored.
+ * Returns 404 for invalid tokens and events the guest is not invited to,
+ * 503 when the secret or the catalog is unavailable.
+ */
+
+import type { APIRoute } from 'astro';
+import { buildICS, verifyToken } from '../../../../lib/calendar';
+import { fetchDayDate, getGuestById, getGuestEvents } from '../../../../lib/data-store';
+import { getDefaultLocale } from '../../../../lib/locale-routing';
+import { remindersEnabled } from '../../../../lib/calendar-preferences';
+
+export const GET: APIRoute = async ({ params, url }) => {
+  const { token, event: eventId } = params;
+  if (!token || !eventId) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  if (!process.env.CALENDAR_HMAC_SECRET) {
+    console.error('Calendar: CALENDAR_HMAC_SECRET not configured');
+    return new Response('Service Unavailable', { status: 503 });
+  }
+
+  let guestId: string | null;
+  try {
+    guestId = await verifyToken(token);
+  } catch (err: unknown) {
+    console.error('Calendar: token store error', err);
+    return new Response('Service Unavailable', { status: 503 });
+  }
+  if (!guestId) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  try {
+    const invited = (await getGuestEvents(guestId)).find((candidate) => candidate.id === eventId);
+    // Schedule pages date events through their Day relation too; so must this.
+    const date = invited && (invited.date ?? (invited.dayId ? await fetchDayDate(invited.dayId) : undefined));
+    if (!invited || !date) {
+      return new Response('Not found', { status: 404 });
+    }
+    const event = { ...invited, date };
+    const requested = url.searchParams.get('lang');
+    const lang =
+      requested === 'en' || requested === 'fr'
+        ? requested
+        : getDefaultLocale((await getGuestById(guestId))?.country);
+
+    // A preferences outage keeps the default, as for the feed.
+    const reminders = await remindersEnabled(guestId).catch((err) => {
+      console.error(`Calendar: failed to read reminder preference for guest ${guestId}:`, err);
+      return true;
+    });
+
+    const filename = event.name.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'event';
+    return new Response(buildICS([event], lang, { reminders }), {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}.ics"`,
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (err: unknown) {
+    console.error('Calendar: single-event generation error for guest', guestId, err);
+    return new Response('Service Unavailable', { status: 503 });
+  }
+};
@@ -1,5 +1,6 @@
 import type { APIRoute } from 'astro';
 import { checkBlobStoreHealth } from '../../../lib/ics-store';
+import { isLocalDataStore } from '../../../lib/data-store';
 
 /**
  * Calendar subsystem health check.
@@ -7,7 +8,8 @@ import { checkBlobStoreHealth } from '../../../lib/ics-store';
  */
 export const GET: APIRoute = async () => {
   const hasSecret = !!process.env.CALENDAR_HMAC_SECRET;
-  const hasNotionKey = !!process.env.NOTION_API_KEY;
+  // The local JSON data store stands in for Notion (src/lib/data-store.ts)
+  const hasNotionKey = !!process.env.NOTION_API_KEY || isLocalDataStore();
   const blobsOk = await checkBlobStoreHealth();
 
   const ok = hasSecret && hasNotionKey && blobsOk;
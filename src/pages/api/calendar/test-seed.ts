@@ -16,7 +16,7 @@ export const POST: APIRoute = async ({ request }) => {
   }
 
   const { token, ics } = await request.json();
-  const guestId = verifyToken(token);
+  const guestId = await verifyToken(token);
   if (!guestId) {
     return new Response('Bad token', { status: 400 });
   }
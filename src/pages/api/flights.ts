@@ -0,0 +1,158 @@
+/**
+ * Guest flights API endpoint (F-013)
+ *
+ * GET /api/flights?event=nyc|france - The party's arrival/departure legs, for pre-fill
+ * POST /api/flights - Upsert legs: { event, guests: [{ guestId, arrival?, departure? }] }
+ *
+ * Each leg is a FlightLeg ({ airline, flightNumber, date, airport?, time? }),
+ * null to remove it, or absent to keep it (src/lib/flights.ts). Edited legs
+ * have `Flighty Synced` cleared. The logged-in guest may enter flights for
+ * anyone in their party, as on the RSVP form.
+ *
+ * Response (both): { event, guests: [{ guestId, name, arrival, departure }] }
+ * with each leg a GuestFlight or null.
+ */
+
+import type { APIRoute } from 'astro';
+import { getGuestParty, getGuestFlights, upsertGuestFlights } from '../../lib/data-store';
+import { features } from '../../config/features';
+import { loadSessionGuest, type SessionCookies } from '../../lib/guest-session';
+import { parseFlightUpdate, flightsByType } from '../../lib/flights';
+import { fetchWeddingDateRange, type WeddingDates } from '../../lib/refresh-schedule';
+import { checkRateLimit, clientIp, rateLimitResponse } from '../../lib/rate-limit';
+import { json } from '../../lib/json-response';
+import type { GuestFlight, GuestFlightUpdate, GuestRecord } from '../../types';
+
+function isEvent(value: unknown): value is 'nyc' | 'france' {
+  return value === 'nyc' || value === 'france';
+}
+
+/**
+ * The logged-in guest's party, or an error response. The session is bound to
+ * the live Guest List record and its invitations (src/lib/guest-session.ts).
+ */
+async function loadParty(
+  cookies: SessionCookies,
+  event: 'nyc' | 'france'
+): Promise<{ party: GuestRecord[] } | { error: Response }> {
+  if (!features[event].flightCollection) {
+    return { error: json(404, { error: 'Flight collection is not enabled for this event' }) };
+  }
+  const session = await loadSessionGuest(cookies, { purpose: 'flights', event });
+  if ('error' in session) return session;
+
+  try {
+    return { party: await getGuestParty(session.guestId) };
+  } catch (err) {
+    console.error('[flights] Failed to load guest party:', err);
+    return { error: json(500, { error: 'Failed to load guest party details' }) };
+  }
+}
+
+function partyFlights(party: GuestRecord[], flights: Map<string, GuestFlight[]>) {
+  return party.map((member) => {
+    const byType = flightsByType(flights.get(member.id) ?? []);
+    return {
+      guestId: member.id,
+      name: member.name,
+      arrival: byType.arrival ?? null,
+      departure: byType.departure ?? null,
+    };
+  });
+}
+
+/**
+ * GET - Fetch the party's flights for pre-fill
+ */
+export const GET: APIRoute = async ({ request, cookies }) => {
+  const event = new URL(request.url).searchParams.get('event');
+  if (!isEvent(event)) {
+    return json(400, { error: 'Invalid event (must be "nyc" or "france")' });
+  }
+
+  const loaded = await loadParty(cookies, event);
+  if ('error' in loaded) return loaded.error;
+
+  try {
+    const flights = new Map(
+      await Promise.all(
+        loaded.party.map(async (member) => [member.id, await getGuestFlights(member.id, event)] as const)
+      )
+    );
+    return json(200, { event, guests: partyFlights(loaded.party, flights) });
+  } catch (err) {
+    console.error('[flights] Flight fetch failed:', err);
+    return json(500, { error: 'Failed to fetch flights' });
+  }
+};
+
+/**
+ * POST - Upsert the party's flights
+ */
+export const POST: APIRoute = async ({ request, cookies }) => {
+  const ip = clientIp(request);
+  const limit = checkRateLimit(`flights:${ip}`, 30, 60_000);
+  if (!limit.ok) return rateLimitResponse(limit.retryAfterSec);
+
+  let body: { event?: unknown; guests?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return json(400, { error: 'Invalid JSON' });
+  }
+
+  const event = body.event;
+  if (!isEvent(event)) {
+    return json(400, { error: 'Invalid event (must be "nyc" or "france")' });
+  }
+  if (!Array.isArray(body.guests)) {
+    return json(400, { error: 'guests must be an array' });
+  }
+
+  const loaded = await loadParty(cookies, event);
+  if ('error' in loaded) return loaded.error;
+  const partyIds = new Set(loaded.party.map((member) => member.id));
+
+  let dates: WeddingDates | null;
+  try {
+    dates = await fetchWeddingDateRange(event);
+  } catch (err) {
+    console.error('[flights] Failed to load the wedding dates:', err);
+    return json(500, { error: 'Failed to load the wedding dates' });
+  }
+
+  // Validate every entry before writing any, so a bad leg saves nothing.
+  const updates = new Map<string, GuestFlightUpdate>();
+  for (const entry of body.guests) {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      return json(400, { error: 'guests entries must be objects' });
+    }
+    const { guestId } = entry as Record<string, unknown>;
+    if (typeof guestId !== 'string' || !partyIds.has(guestId)) {
+      return json(400, { error: 'guests includes someone outside this party' });
+    }
+    if (updates.has(guestId)) {
+      return json(400, { error: 'guests includes more than one entry for a guest' });
+    }
+    const parsed = parseFlightUpdate(entry as Record<string, unknown>, dates);
+    if ('error' in parsed) return json(400, { error: parsed.error, guestId });
+    updates.set(guestId, parsed.update);
+  }
+
+  try {
+    const flights = new Map<string, GuestFlight[]>();
+    for (const member of loaded.party) {
+      const update = updates.get(member.id);
+      flights.set(
+        member.id,
+        update
+          ? await upsertGuestFlights(member.id, event, update)
+          : await getGuestFlights(member.id, event)
+      );
+    }
+    return json(200, { event, guests: partyFlights(loaded.party, flights) });
+  } catch (err) {
+    console.error('[flights] Flight upsert failed:', err);
+    return json(500, { error: 'Failed to save flights' });
+  }
+};
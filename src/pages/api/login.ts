@@ -10,7 +10,7 @@ import {
   SessionSecretMissingError,
 } from '../../lib/auth';
 import { features } from '../../config/features';
-import { findGuestsByName, findHouseholdByEnvelopeName, getGuestById } from '../../lib/notion';
+import { findGuestsByName, findHouseholdByEnvelopeName, getGuestById } from '../../lib/data-store';
 import { findMatchingHousehold } from '../../lib/envelope-name';
 import type { EventInvitation } from '../../lib/auth';
 import type { GuestRecord } from '../../types';
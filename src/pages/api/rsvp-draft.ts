@@ -0,0 +1,129 @@
+/**
+ * RSVP draft API endpoint
+ *
+ * GET /api/rsvp-draft?event=nyc|france - The party's draft, or { draft: null }
+ * PUT /api/rsvp-draft - Autosave: { event, guestsAttending, eventsAttending, dietary?, message?, details? }
+ * DELETE /api/rsvp-draft?event=nyc|france - Discard the party's draft
+ *
+ * Drafts are shared by the whole party (src/lib/rsvp-drafts.ts) and only
+ * pre-fill the form; POST /api/rsvp discards them once a submission is
+ * accepted.
+ *
+ * Response (GET, PUT): { draft: { savedAt, savedBy } | null }
+ */
+
+import type { APIRoute } from 'astro';
+import { getGuestParty } from '../../lib/data-store';
+import { features } from '../../config/features';
+import { loadSessionGuest, type SessionCookies } from '../../lib/guest-session';
+import { discardDraft, getDraft, parseDraftAnswers, saveDraft } from '../../lib/rsvp-drafts';
+import { checkRateLimit, clientIp, rateLimitResponse } from '../../lib/rate-limit';
+import { json } from '../../lib/json-response';
+import type { GuestRecord } from '../../types';
+
+function isEvent(value: unknown): value is 'nyc' | 'france' {
+  return value === 'nyc' || value === 'france';
+}
+
+/**
+ * The logged-in guest and their party, or an error response. The session is
+ * bound to the live Guest List record and its invitations
+ * (src/lib/guest-session.ts).
+ */
+async function loadParty(
+  cookies: SessionCookies,
+  event: 'nyc' | 'france'
+): Promise<{ guestId: string; party: GuestRecord[] } | { error: Response }> {
+  if (!features.global.rsvpDrafts) {
+    return { error: json(404, { error: 'RSVP drafts are not enabled' }) };
+  }
+  const session = await loadSessionGuest(cookies, { purpose: 'drafts', event });
+  if ('error' in session) return session;
+
+  try {
+    return { guestId: session.guestId, party: await getGuestParty(session.guestId) };
+  } catch (err) {
+    console.error('[rsvp-draft] Failed to load guest party:', err);
+    return { error: json(500, { error: 'Failed to load guest party details' }) };
+  }
+}
+
+/**
+ * GET - The party's draft, without its answers (the page renders those)
+ */
+export const GET: APIRoute = async ({ request, cookies }) => {
+  const event = new URL(request.url).searchParams.get('event');
+  if (!isEvent(event)) {
+    return json(400, { error: 'Invalid event (must be "nyc" or "france")' });
+  }
+
+  const loaded = await loadParty(cookies, event);
+  if ('error' in loaded) return loaded.error;
+
+  try {
+    const draft = await getDraft(loaded.guestId, event);
+    return json(200, { draft: draft ? { savedAt: draft.savedAt, savedBy: draft.savedBy } : null });
+  } catch (err) {
+    console.error('[rsvp-draft] Draft fetch failed:', err);
+    return json(500, { error: 'Failed to fetch draft' });
+  }
+};
+
+/**
+ * PUT - Autosave the form's answers so far
+ */
+export const PUT: APIRoute = async ({ request, cookies }) => {
+  const ip = clientIp(request);
+  // Autosave fires a few seconds after each pause in typing.
+  const limit = checkRateLimit(`rsvp-draft:${ip}`, 60, 60_000);
+  if (!limit.ok) return rateLimitResponse(limit.retryAfterSec);
+
+  let body: { event?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return json(400, { error: 'Invalid JSON' });
+  }
+  if (!isEvent(body?.event)) {
+    return json(400, { error: 'Invalid event (must be "nyc" or "france")' });
+  }
+
+  const loaded = await loadParty(cookies, body.event);
+  if ('error' in loaded) return loaded.error;
+
+  const partyIds = loaded.party.map((member) => member.id);
+  const parsed = parseDraftAnswers(body, partyIds);
+  if ('error' in parsed) return json(400, { error: parsed.error });
+
+  try {
+    const draft = await saveDraft(loaded.guestId, partyIds, parsed.answers);
+    return json(200, { draft: { savedAt: draft.savedAt, savedBy: draft.savedBy } });
+  } catch (err) {
+    console.error('[rsvp-draft] Draft save failed:', err);
+    return json(500, { error: 'Failed to save draft' });
+  }
+};
+
+/**
+ * DELETE - Discard the party's draft and go back to the stored response
+ */
+export const DELETE: APIRoute = async ({ request, cookies }) => {
+  const event = new URL(request.url).searchParams.get('event');
+  if (!isEvent(event)) {
+    return json(400, { error: 'Invalid event (must be "nyc" or "france")' });
+  }
+
+  const loaded = await loadParty(cookies, event);
+  if ('error' in loaded) return loaded.error;
+
+  try {
+    await discardDraft(
+      loaded.party.map((member) => member.id),
+      event
+    );
+    return json(200, { draft: null });
+  } catch (err) {
+    console.error('[rsvp-draft] Draft discard failed:', err);
+    return json(500, { error: 'Failed to discard draft' });
+  }
+};
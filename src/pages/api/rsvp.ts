@@ -9,7 +9,6 @@
 import { promises as dnsPromises } from 'node:dns';
 import type { APIRoute } from 'astro';
 import {
-  getAuthenticatedGuest,
   createSessionToken,
   AUTH_COOKIE_NAME,
   SESSION_MAX_AGE_SECONDS,
@@ -21,18 +20,46 @@ import {
   updateGuestEmail,
   getGuestEvents,
   getGuestParty,
-  getGuestById,
   getGuestByIdUncached,
-} from '../../lib/notion';
+  getHotelBlocks,
+  fetchAllGuests,
+  fetchAllLatestRSVPs,
+  getEventCatalog,
+} from '../../lib/data-store';
 import { isEnabled, features } from '../../config/features';
-import { sendToGuests, withRecipient } from '../../lib/email';
-import { rsvpConfirmation, type EventInfo } from '../../lib/email-templates';
-import { generateToken } from '../../lib/calendar';
+import { calendarCacheTag } from '../../lib/calendar';
+import { sendRSVPConfirmation } from '../../lib/rsvp-confirmation';
 import { generateAndStoreICSForGuest } from '../../lib/ics-generator';
+import {
+  enqueueRSVP,
+  recordOutboxFailure,
+  completeOutboxEntry,
+  withPendingRSVP,
+  type OutboxEntry,
+} from '../../lib/rsvp-outbox';
 import { normalize } from '../../lib/normalize';
+import { loadSessionGuest } from '../../lib/guest-session';
+import { nameEditViolation } from '../../lib/guest-name';
+import { isValidHotelBooked } from '../../lib/hotel-blocks';
+import { validateMealChoices } from '../../lib/meals';
+import { validateDietaryByGuest, formatPartyDietary } from '../../lib/allergens';
+import { validateStayRequest, stayRequestedAt, latestFranceResponses } from '../../lib/accommodation';
+import { validateShuttleSeats, fullShuttleLeg } from '../../lib/shuttles';
+import { submittedAttendance, submissionAttendeeNames, submissionStatus } from '../../lib/rsvp-submission';
+import {
+  allocateEventSeats,
+  eventsRequestedAt,
+  latestEventResponses,
+  limitedEvents,
+  partyWaitlist,
+} from '../../lib/event-capacity';
+import { settleAfterAnswer, settleEventWaitlists } from '../../lib/event-waitlists';
+import { discardDraft } from '../../lib/rsvp-drafts';
+import { buildRSVPActivity, recordRSVPActivity, sendRSVPActivityAlert } from '../../lib/rsvp-activity';
+import { isDeadlinePassed, resolvePartyAccess, recordLateRSVP } from '../../lib/rsvp-deadline';
 import { verifyAdminBearer } from '../../lib/admin-auth';
 import { checkRateLimit, clientIp, rateLimitResponse } from '../../lib/rate-limit';
-import type { RSVPSubmission } from '../../types';
+import type { EventRecord, GuestRecord, RSVPResponse, RSVPSubmission } from '../../types';
 
 const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/i;
 /** Hard cap on JSON-serialized `details` blob to prevent oversized Notion writes. */
@@ -70,29 +97,6 @@ function jsonError(status: number, error: string, extra?: Record<string, unknown
   });
 }
 
-/**
- * Bind session cookie identity to the live Notion record.
- * Rejects forged notionId + mismatched display name.
- */
-async function bindSessionToNotion(
-  auth: NonNullable<ReturnType<typeof getAuthenticatedGuest>>,
-  guestId: string
-): Promise<Response | null> {
-  try {
-    const record = await getGuestById(guestId);
-    if (!record) {
-      return jsonError(401, 'Invalid session');
-    }
-    if (normalize(auth.guest) !== record.normalizedName) {
-      return jsonError(401, 'Invalid session');
-    }
-  } catch (error) {
-    console.error('Session Notion bind failed:', error);
-    return jsonError(500, 'Failed to verify session');
-  }
-  return null;
-}
-
 /**
  * POST - Submit or update an RSVP
  */
@@ -101,23 +105,9 @@ export const POST: APIRoute = async ({ request, cookies, cache }) => {
   const limit = checkRateLimit(`rsvp:${ip}`, 30, 60_000);
   if (!limit.ok) return rateLimitResponse(limit.retryAfterSec);
 
-  const authCookie = cookies.get('sargaux_auth');
-  if (!authCookie) {
-    return jsonError(401, 'Unauthorized');
-  }
-
-  const auth = getAuthenticatedGuest(cookies);
-  if (!auth) {
-    return jsonError(401, 'Invalid session');
-  }
-
-  const guestId = auth.notionId;
-  if (!guestId) {
-    return jsonError(400, 'Notion backend required for RSVPs');
-  }
-
-  const bindError = await bindSessionToNotion(auth, guestId);
-  if (bindError) return bindError;
+  const session = await loadSessionGuest(cookies, { purpose: 'RSVPs' });
+  if ('error' in session) return session.error;
+  const { auth, guestId } = session;
 
   let body: RSVPSubmission;
   try {
@@ -172,7 +162,11 @@ export const POST: APIRoute = async ({ request, cookies, cache }) => {
     }
   }
 
-  const sendConfirmation = body.sendConfirmation === true;
+  // Whether and how to confirm by email once the answer is saved.
+  const confirmation =
+    isEnabled('global.emailEnabled') && body.sendConfirmation === true
+      ? { travelUrl: features[body.event].flightCollection ? 'https://sargaux.com/travel' : undefined }
+      : undefined;
 
   let party;
   try {
@@ -190,6 +184,42 @@ export const POST: APIRoute = async ({ request, cookies, cache }) => {
     return jsonError(403, 'Forbidden for this event');
   }
 
+  // The party's answer before this one — a submission still queued in the
+  // RSVP outbox is newer than Notion's copy — read at most once, and only by
+  // the checks below that need it. It must be read before this submission
+  // joins the outbox, which would otherwise stand in for it.
+  const partyIds = party.map((member) => member.id);
+  let previousLookup: Promise<RSVPResponse | null> | undefined;
+  const loadPreviousRSVP = () =>
+    (previousLookup ??= getLatestRSVPForParty(partyIds, body.event).then(
+      async (stored) => (await withPendingRSVP(stored, partyIds, body.event)).rsvp
+    ));
+
+  // RSVP deadline (src/lib/rsvp-deadline.ts): after it, an existing response
+  // is read-only and a first response is refused or flagged late, unless the
+  // couple reopened the form for this party. Nothing extra is looked up before
+  // the deadline.
+  let lateSubmission = false;
+  if (isDeadlinePassed(body.event)) {
+    let hasResponse: boolean;
+    try {
+      hasResponse = (await loadPreviousRSVP()) !== null;
+    } catch (error) {
+      console.error('Failed to load existing RSVP for deadline check:', error);
+      return jsonError(500, 'Failed to verify RSVP deadline');
+    }
+    const { access } = await resolvePartyAccess(party, body.event, hasResponse);
+    if (access === 'read-only') {
+      return jsonError(403, 'The RSVP deadline has passed; this response can no longer be changed', {
+        code: 'rsvp_closed',
+      });
+    }
+    if (access === 'closed') {
+      return jsonError(403, 'The RSVP deadline has passed', { code: 'rsvp_closed' });
+    }
+    lateSubmission = access === 'late';
+  }
+
   // Validate guestsAttending. When an entry carries a guestId it must belong to
   // this party (that member's name may be edited on the form and persisted);
   // otherwise the name must match the party roster (legacy clients without ids).
@@ -234,13 +264,31 @@ export const POST: APIRoute = async ({ request, cookies, cache }) => {
     }
   }
 
+  // Name edits may correct anyone in the party and name an unnamed plus-one,
+  // but the logged-in guest cannot become someone else, nor hand their name
+  // to another member (src/lib/guest-name.ts).
+  const typedNames = new Map(
+    body.guestsAttending
+      .filter((entry) => typeof entry.guestId === 'string')
+      .map((entry) => [entry.guestId!, entry.name])
+  );
+  const nameViolation = nameEditViolation(party, typedNames, guestId);
+  if (nameViolation) {
+    return jsonError(
+      400,
+      nameViolation.reason === 'self'
+        ? 'guestsAttending changes your own name to a different person'
+        : 'guestsAttending gives two party members the same name',
+      { code: 'name_identity', nameGuestId: nameViolation.guestId }
+    );
+  }
+
   // eventsAttending must be ⊆ events the guest is invited to
+  let invitedEvents: EventRecord[];
   let invitedEventIds: Set<string>;
   try {
-    const invitedEvents = await getGuestEvents(guestId);
-    invitedEventIds = new Set(
-      invitedEvents.filter((e) => e.wedding === body.event).map((e) => e.id)
-    );
+    invitedEvents = (await getGuestEvents(guestId)).filter((e) => e.wedding === body.event);
+    invitedEventIds = new Set(invitedEvents.map((e) => e.id));
   } catch (error) {
     console.error('Failed to load guest events for RSVP validation:', error);
     return jsonError(500, 'Failed to validate events');
@@ -252,6 +300,24 @@ export const POST: APIRoute = async ({ request, cookies, cache }) => {
     }
   }
 
+  // "Which hotel did you book?" must name one of this wedding's blocks, or
+  // one of the fixed answers — it feeds the admin block-pickup report. Blocks
+  // are only loaded when the question was answered, so a Hotel Blocks outage
+  // never blocks an RSVP that didn't use it.
+  const hotelBooked: unknown = body.details?.hotelBooked;
+  if (hotelBooked !== undefined) {
+    let blocks;
+    try {
+      blocks = await getHotelBlocks(body.event);
+    } catch (error) {
+      console.error('Failed to load hotel blocks for RSVP validation:', error);
+      return jsonError(500, 'Failed to validate hotel');
+    }
+    if (!isValidHotelBooked(hotelBooked, blocks)) {
+      return jsonError(400, 'hotelBooked is not a valid hotel');
+    }
+  }
+
   // A submission that attends zero events is a decline for the whole party,
   // even when the per-guest toggles were left in their default checked state —
   // the per-event dropdowns are the authoritative signal (the form's submit
@@ -270,6 +336,129 @@ export const POST: APIRoute = async ({ request, cookies, cache }) => {
     body.eventsAttending = [];
   }
 
+  // Each attending member picks an entrée for every attended event that
+  // offers one (src/lib/meals.ts). Checked after the decline normalization
+  // above, so a party that declines owes no choices.
+  const { attends } = submittedAttendance(body.guestsAttending);
+  const attendingGuestIds = party.filter(attends).map((member) => member.id);
+  const mealError = validateMealChoices(body.details?.meals, {
+    events: invitedEvents,
+    eventsAttending: body.eventsAttending,
+    attendingGuestIds,
+  });
+  if (mealError) {
+    return jsonError(400, mealError);
+  }
+
+  // Per-guest allergens (France, src/lib/allergens.ts) replace the free-text
+  // note: the party text written to the response row and the confirmation
+  // email is composed from them, under the names as submitted.
+  const dietaryError = validateDietaryByGuest(body.details?.dietaryByGuest, { attendingGuestIds });
+  if (dietaryError) {
+    return jsonError(400, dietaryError);
+  }
+  if (body.details?.dietaryByGuest) {
+    const submittedName = new Map(
+      body.guestsAttending.filter((entry) => entry.guestId).map((entry) => [entry.guestId!, entry.name])
+    );
+    const named = party.map((member) => ({ id: member.id, name: submittedName.get(member.id) ?? member.name }));
+    body.dietary = formatPartyDietary(body.details.dietaryByGuest, named) || undefined;
+  }
+
+  // The France room request (src/lib/accommodation.ts) is rebuilt from the
+  // checked fields, so a client cannot pick its own place in the queue:
+  // `requestedAt` carries over from the party's previous request while the
+  // nights and room type stay the same.
+  if (body.details?.stay !== undefined && (body.event !== 'france' || !features.france.accommodationRequest)) {
+    return jsonError(400, 'stay is not accepted for this event');
+  }
+  const stayError = validateStayRequest(body.details?.stay, {
+    accommodation: body.details?.accommodation,
+    attendingGuestIds,
+  });
+  if (stayError) {
+    return jsonError(400, stayError);
+  }
+  if (body.details?.stay) {
+    const { nights, roomType, guestIds } = body.details.stay;
+    let previous: RSVPResponse | null = null;
+    try {
+      previous = await loadPreviousRSVP();
+    } catch (error) {
+      // Joins the queue as a new request rather than failing the RSVP.
+      console.error('Failed to load the previous room request:', error);
+    }
+    body.details.stay = {
+      nights,
+      roomType,
+      guestIds,
+      requestedAt: stayRequestedAt({ nights, roomType }, previous),
+    };
+  }
+
+  // Every party's latest answer, for the shuttle and event capacity checks
+  // below: one full read of the Guest List and RSVP Responses, shared by both
+  // and made only when one of them needs it. When it fails the answer is not
+  // refused — it is queued unwritten, and the outbox replay makes the checks
+  // before writing it (src/lib/rsvp-outbox.ts).
+  let responsesLookup: Promise<[GuestRecord[], Map<string, RSVPResponse[]>]> | undefined;
+  const loadAllResponses = () => (responsesLookup ??= Promise.all([fetchAllGuests(), fetchAllLatestRSVPs()]));
+  let recheckCapacity = false;
+
+  // Shuttle seats (France, src/lib/shuttles.ts) are firm, so capacity is
+  // checked against every other party's latest response — the party's own
+  // seats, stored or queued, must not count against it.
+  if (
+    body.details?.shuttleSeats !== undefined &&
+    (body.event !== 'france' || !features.france.shuttleSeats)
+  ) {
+    return jsonError(400, 'shuttleSeats is not accepted for this event');
+  }
+  const shuttleError = validateShuttleSeats(body.details?.shuttleSeats, { attendingGuestIds });
+  if (shuttleError) {
+    return jsonError(400, shuttleError);
+  }
+  if (body.details?.shuttleSeats && body.details.shuttleSeats.length > 0) {
+    const seats = body.details.shuttleSeats.map(({ guestId, legId }) => ({ guestId, legId }));
+    let fullLeg: string | null = null;
+    try {
+      const [guests, latestRSVPs] = await loadAllResponses();
+      const others = latestFranceResponses(guests, latestRSVPs).filter(
+        (response) => !response.guestIds.some((id) => partyIds.includes(id))
+      );
+      fullLeg = fullShuttleLeg(seats, others);
+    } catch (error) {
+      console.error('Failed to load shuttle seats for RSVP validation (checked on replay):', error);
+      recheckCapacity = true;
+    }
+    if (fullLeg) {
+      return jsonError(409, 'shuttleSeats overbooks a shuttle', { code: 'shuttle_full', legId: fullLeg });
+    }
+    body.details.shuttleSeats = seats;
+  }
+
+  // Optional events with a capacity (src/lib/event-capacity.ts) never refuse
+  // an answer: a party that does not fit joins the event's waitlist. The
+  // queue place for each limited event is set here, never by the client. The
+  // invited events cover every event this answer can take a seat on.
+  if (body.details) delete body.details.eventsRequestedAt;
+  let capacity: { guests: GuestRecord[]; others: RSVPResponse[] } | null = null;
+  if (limitedEvents(invitedEvents).length > 0) {
+    try {
+      const previous = await loadPreviousRSVP();
+      const places = eventsRequestedAt(body, invitedEvents, previous);
+      if (places) body.details = { ...body.details, eventsRequestedAt: places };
+      const [guests, latestRSVPs] = await loadAllResponses();
+      const others = latestEventResponses(guests, latestRSVPs, body.event).filter(
+        (response) => !response.guestIds.some((id) => partyIds.includes(id))
+      );
+      capacity = { guests, others };
+    } catch (error) {
+      console.error('Failed to load event capacity for RSVP (checked on replay):', error);
+      recheckCapacity = true;
+    }
+  }
+
   const partyById = new Map(party.map((guest) => [guest.id, guest]));
   const submittedGuestEmails = new Map<string, string | undefined>();
 
@@ -341,142 +530,233 @@ export const POST: APIRoute = async ({ request, cookies, cache }) => {
     });
   }
 
-  let submitted: Awaited<ReturnType<typeof submitRSVP>>;
-  try {
-    await Promise.all(
-      partyContacts
-        .filter((guest) => submittedGuestEmails.has(guest.id) && guest.email !== guest.currentEmail)
-        .map((guest) => updateGuestEmail(guest.id, guest.email ?? null))
-    );
+  const emailUpdates = partyContacts
+    .filter((guest) => submittedGuestEmails.has(guest.id) && guest.email !== guest.currentEmail)
+    .map((guest) => ({ guestId: guest.id, email: guest.email ?? null }));
 
-    submitted = await submitRSVP(guestId, body);
-  } catch (error) {
-    console.error('RSVP submission error:', error);
-    return jsonError(500, 'Failed to submit RSVP');
+  // The party's answer before this one, for the couple's activity feed
+  // (src/lib/rsvp-activity.ts). Left undefined when the read fails, so a
+  // change is never reported as a first answer.
+  let previousRSVP: RSVPResponse | null | undefined;
+  if (features.global.rsvpActivity) {
+    try {
+      previousRSVP = await loadPreviousRSVP();
+    } catch (error) {
+      console.error('Failed to load the previous RSVP for the activity feed (non-fatal):', error);
+    }
   }
-  const responseId = submitted.id;
 
-  // If the authenticated guest renamed themselves, the session cookie's display
-  // name no longer matches the live Notion record — re-sign it so subsequent
-  // requests (bindSessionToNotion) don't fail closed with a 401. Read uncached:
-  // a cache-layer read here can race the blob delete submitRSVP just issued and
-  // serve the pre-rename record, silently skipping the re-sign — after which
-  // the middleware's session binding logs the guest out mid-session.
+  // Durable first: the accepted submission goes to the outbox before Notion
+  // sees it, so a failed write below can be replayed instead of lost (see
+  // src/lib/rsvp-outbox.ts). A Blobs failure here only costs that safety net —
+  // the Notion write is still attempted.
+  let outboxEntry: OutboxEntry | null = null;
   try {
-    const refreshed = await getGuestByIdUncached(guestId);
-    if (refreshed && normalize(refreshed.name) !== normalize(auth.guest)) {
-      cookies.set(
-        AUTH_COOKIE_NAME,
-        createSessionToken(refreshed.name, guestId, auth.eventInvitations, auth.country),
-        {
-          path: '/',
-          httpOnly: true,
-          secure: import.meta.env.PROD,
-          sameSite: 'lax',
-          maxAge: SESSION_MAX_AGE_SECONDS,
-        }
-      );
-    }
-  } catch (err) {
-    console.error('Post-RSVP session re-sign failed (non-fatal):', err);
+    outboxEntry = await enqueueRSVP({
+      guestId,
+      partyIds: party.map((member) => member.id),
+      submission: body,
+      emailUpdates,
+      confirmation,
+      recheckCapacity,
+    });
+  } catch (error) {
+    console.error('RSVP outbox write failed (continuing without it):', error);
+  }
+  // Unchecked answers are only ever written by the replay, after its checks.
+  if (recheckCapacity && !outboxEntry) {
+    return jsonError(500, 'Failed to check capacity');
   }
 
-  try {
-    // Regenerate from the response just written, not a fresh Notion query —
-    // the query index can lag the write, which would rebuild every party
-    // member's calendar from the answer the guest just replaced.
-    await Promise.all(
-      party.map((member) => generateAndStoreICSForGuest(member.id, submitted))
-    );
+  if (lateSubmission) {
+    try {
+      await recordLateRSVP({
+        event: body.event,
+        guestId,
+        partyIds: party.map((member) => member.id),
+      });
+    } catch (error) {
+      console.error('Late RSVP flag write failed (non-fatal):', error);
+    }
+  }
 
-    if (cache.enabled) {
+  let submitted: Awaited<ReturnType<typeof submitRSVP>> | null = null;
+  if (!recheckCapacity) {
+    try {
       await Promise.all(
-        party.map((member) =>
-          cache.invalidate({ path: `/api/calendar/${generateToken(member.id)}.ics` })
-        )
+        emailUpdates.map((update) => updateGuestEmail(update.guestId, update.email))
       );
+
+      submitted = await submitRSVP(guestId, body);
+    } catch (error) {
+      console.error('RSVP submission error:', error);
+      if (!outboxEntry) {
+        return jsonError(500, 'Failed to submit RSVP');
+      }
+      // The answers are safe in the outbox — tell the guest they were received
+      // and let the scheduled replay write them. Counts as the first attempt.
+      try {
+        await recordOutboxFailure(outboxEntry, error);
+      } catch (err) {
+        console.error('RSVP outbox failure bookkeeping failed (non-fatal):', err);
+      }
     }
-  } catch (err) {
-    console.error('ICS regeneration after RSVP failed (non-fatal):', err);
   }
 
-  if (isEnabled('global.emailEnabled') && sendConfirmation) {
-    const recipients = Array.from(
-      partyContacts
-        .filter((guest) => guest.email)
-        .reduce((map, guest) => {
-          const key = guest.email!.toLowerCase();
-          if (!map.has(key)) {
-            map.set(key, { id: guest.id, email: guest.email!, name: guest.name });
-          }
-          return map;
-        }, new Map<string, { id: string; email: string; name: string }>())
-        .values()
-    );
+  if (submitted && outboxEntry) {
+    try {
+      await completeOutboxEntry(outboxEntry);
+    } catch (err) {
+      // Harmless: replay finds the response already in Notion and drops it.
+      console.error('RSVP outbox cleanup failed (non-fatal):', err);
+    }
+  }
 
-    if (recipients.length > 0) {
+  // The answers are saved (or safely queued), so the party's draft
+  // (src/lib/rsvp-drafts.ts) is spent. A draft left behind by a failed delete
+  // is older than this response and never pre-fills ahead of it.
+  if (features.global.rsvpDrafts) {
+    try {
+      await discardDraft(
+        party.map((member) => member.id),
+        body.event
+      );
+    } catch (err) {
+      console.error('RSVP draft discard failed (non-fatal):', err);
+    }
+  }
+
+  // Saved or queued, the answer is news for the couple: declines and changed
+  // answers are mailed now, everything else waits for the daily digest.
+  if (previousRSVP !== undefined) {
+    const activity = buildRSVPActivity(previousRSVP, body, { party, submittedBy: guestId, source: 'website' });
+    if (activity) {
       try {
-        const attending = (body.guestsAttending ?? []).some((g: { attending?: boolean }) => g.attending);
-        const guestsAttendingStr = (body.guestsAttending ?? [])
-          .filter((g: { attending?: boolean }) => g.attending)
-          .map((g: { name: string }) => g.name)
-          .join(', ');
-
-        let coreEvents: EventInfo[] | undefined;
-        let optionalEvents: EventInfo[] | undefined;
-        const attendingEventIds = new Set(body.eventsAttending ?? []);
-        if (attendingEventIds.size > 0) {
-          try {
-            const allEvents = await getGuestEvents(guestId);
-            const attended = allEvents.filter((e) => attendingEventIds.has(e.id));
-            coreEvents = attended
-              .filter((e) => e.type === 'Core')
-              .map((e): EventInfo => ({ name: e.name, time: e.time, location: e.location }));
-            optionalEvents = attended
-              .filter((e) => e.type === 'Optional')
-              .map((e): EventInfo => ({ name: e.name, time: e.time, location: e.location }));
-          } catch (err) {
-            console.error('Failed to fetch event names for confirmation email:', err);
-          }
+        await recordRSVPActivity(activity);
+        if (activity.immediate && isEnabled('global.emailEnabled')) {
+          await sendRSVPActivityAlert(activity);
         }
+      } catch (err) {
+        console.error('RSVP activity record failed (non-fatal):', err);
+      }
+    }
+  }
+
+  // Where this answer left the party on limited events' waitlists. A queued
+  // answer is replayed as submitted, so the allocation is the same.
+  let waitlisted: string[] = [];
+  if (capacity) {
+    const answered: RSVPResponse = submitted ?? {
+      id: 'queued',
+      guestId,
+      guestIds: partyIds,
+      event: body.event,
+      submittedAt: new Date().toISOString(),
+      status: submissionStatus(body.guestsAttending),
+      guestsAttending: submissionAttendeeNames(body.guestsAttending),
+      attendanceById: Object.fromEntries(party.map((member) => [member.id, attends(member)])),
+      eventsAttending: body.eventsAttending,
+      details: body.details,
+    };
+    const allocations = allocateEventSeats([...capacity.others, answered], invitedEvents);
+    waitlisted = partyWaitlist(allocations, partyIds).map((allocation) => allocation.eventId);
+  }
+
+  // Tell the parties the seats this answer freed promoted off a waitlist
+  // (src/lib/event-waitlists.ts). Settled before the calendars below are
+  // rebuilt, which read the stored allocation. A queued answer is settled by
+  // the replay once it is written.
+  if (capacity && submitted) {
+    try {
+      await settleEventWaitlists(
+        body.event,
+        {
+          guests: capacity.guests,
+          responses: [...capacity.others, submitted],
+          events: await getEventCatalog(body.event),
+        },
+        { answeredBy: partyIds }
+      );
+    } catch (err) {
+      console.error('Waitlist settle after RSVP failed (non-fatal):', err);
+    }
+  }
 
-        const updateUrl = `https://sargaux.com/${body.event}/rsvp`;
-        await sendToGuests(recipients, (recipient) => {
-          // Calendar links are per-guest capability URLs whose ICS holds only
-          // that guest's attending events — each recipient must get their own,
-          // never the submitter's (a Partial RSVP would show a partner the
-          // wrong schedule, permanently, in their subscribed calendar).
-          let calendarUrl: string | undefined;
-          try {
-            calendarUrl = `https://sargaux.com/api/calendar/${generateToken(recipient.id)}.ics`;
-          } catch {
-            // CALENDAR_HMAC_SECRET not set — omit calendar link gracefully
+  // A queued submission has not reached Notion yet: no rename to re-sign for,
+  // and the calendar is rebuilt by the replay once it lands.
+  if (submitted) {
+    const written = submitted;
+    // If the authenticated guest renamed themselves, the session cookie's display
+    // name no longer matches the live Notion record — re-sign it so subsequent
+    // requests (bindSessionToNotion) don't fail closed with a 401. Read uncached:
+    // a cache-layer read here can race the blob delete submitRSVP just issued and
+    // serve the pre-rename record, silently skipping the re-sign — after which
+    // the middleware's session binding logs the guest out mid-session.
+    try {
+      const refreshed = await getGuestByIdUncached(guestId);
+      if (refreshed && normalize(refreshed.name) !== normalize(auth.guest)) {
+        cookies.set(
+          AUTH_COOKIE_NAME,
+          createSessionToken(refreshed.name, guestId, auth.eventInvitations, auth.country),
+          {
+            path: '/',
+            httpOnly: true,
+            secure: import.meta.env.PROD,
+            sameSite: 'lax',
+            maxAge: SESSION_MAX_AGE_SECONDS,
           }
+        );
+      }
+    } catch (err) {
+      console.error('Post-RSVP session re-sign failed (non-fatal):', err);
+    }
 
-          const template = rsvpConfirmation({
-            guestName: recipient.name,
-            event: body.event,
-            attending,
-            guestsAttending: guestsAttendingStr,
-            coreEvents,
-            optionalEvents,
-            dietary: body.dietary,
-            updateUrl,
-            calendarUrl,
-          });
-
-          return withRecipient(recipient, template);
-        });
-      } catch (err) {
-        console.error('Failed to send RSVP confirmation email:', err);
+    try {
+      // Regenerate from the response just written, not a fresh Notion query —
+      // the query index can lag the write, which would rebuild every party
+      // member's calendar from the answer the guest just replaced.
+      await Promise.all(party.map((member) => generateAndStoreICSForGuest(member.id, written)));
+
+      if (cache.enabled) {
+        await Promise.all(party.map((member) => cache.invalidate({ tags: calendarCacheTag(member.id) })));
       }
+    } catch (err) {
+      console.error('ICS regeneration after RSVP failed (non-fatal):', err);
+    }
+  }
+
+  // A queued answer is confirmed by the outbox replay once it is saved.
+  if (submitted && confirmation) {
+    try {
+      await sendRSVPConfirmation({ guestId, submission: body, contacts: partyContacts, ...confirmation });
+    } catch (err) {
+      console.error('Failed to send RSVP confirmation email:', err);
     }
   }
 
+  if (!submitted) {
+    return new Response(
+      JSON.stringify({
+        success: true,
+        queued: true,
+        responseId: null,
+        ...(lateSubmission ? { late: true } : {}),
+        ...(waitlisted.length > 0 ? { waitlisted } : {}),
+        message: 'RSVP received — syncing',
+      }),
+      {
+        status: 202,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
   return new Response(
     JSON.stringify({
       success: true,
-      responseId,
+      responseId: submitted.id,
+      ...(lateSubmission ? { late: true } : {}),
+      ...(waitlisted.length > 0 ? { waitlisted } : {}),
       message: 'RSVP submitted successfully',
     }),
     {
@@ -490,23 +770,9 @@ export const POST: APIRoute = async ({ request, cookies, cache }) => {
  * GET - Fetch existing RSVP for pre-fill
  */
 export const GET: APIRoute = async ({ request, cookies }) => {
-  const authCookie = cookies.get('sargaux_auth');
-  if (!authCookie) {
-    return jsonError(401, 'Unauthorized');
-  }
-
-  const auth = getAuthenticatedGuest(cookies);
-  if (!auth) {
-    return jsonError(401, 'Invalid session');
-  }
-
-  const guestId = auth.notionId;
-  if (!guestId) {
-    return jsonError(400, 'Notion backend required for RSVPs');
-  }
-
-  const bindError = await bindSessionToNotion(auth, guestId);
-  if (bindError) return bindError;
+  const session = await loadSessionGuest(cookies, { purpose: 'RSVPs' });
+  if ('error' in session) return session.error;
+  const { guestId } = session;
 
   const url = new URL(request.url);
   const event = url.searchParams.get('event');
@@ -522,8 +788,10 @@ export const GET: APIRoute = async ({ request, cookies }) => {
       return jsonError(403, 'Forbidden for this event');
     }
 
-    const rsvp = await getLatestRSVPForParty(
-      party.map((member) => member.id),
+    const partyIds = party.map((member) => member.id);
+    const { rsvp } = await withPendingRSVP(
+      await getLatestRSVPForParty(partyIds, event as 'nyc' | 'france'),
+      partyIds,
       event as 'nyc' | 'france'
     );
 
@@ -555,23 +823,9 @@ export const DELETE: APIRoute = async ({ request, cookies }) => {
     return jsonError(403, 'RSVP delete is disabled');
   }
 
-  const authCookie = cookies.get('sargaux_auth');
-  if (!authCookie) {
-    return jsonError(401, 'Unauthorized');
-  }
-
-  const auth = getAuthenticatedGuest(cookies);
-  if (!auth) {
-    return jsonError(401, 'Invalid session');
-  }
-
-  const guestId = auth.notionId;
-  if (!guestId) {
-    return jsonError(400, 'Notion backend required for RSVPs');
-  }
-
-  const bindError = await bindSessionToNotion(auth, guestId);
-  if (bindError) return bindError;
+  const session = await loadSessionGuest(cookies, { purpose: 'RSVPs' });
+  if ('error' in session) return session.error;
+  const { guestId } = session;
 
   const url = new URL(request.url);
   const event = url.searchParams.get('event');
@@ -581,8 +835,9 @@ export const DELETE: APIRoute = async ({ request, cookies }) => {
   }
 
   // Live invitations — never trust stale cookie eventInvitations
+  let party: GuestRecord[];
   try {
-    const party = await getGuestParty(guestId);
+    party = await getGuestParty(guestId);
     const primaryGuest = party.find((member) => member.id === guestId);
     if (!primaryGuest?.eventInvitations.includes(event as 'nyc' | 'france')) {
       return jsonError(403, 'Forbidden for this event');
@@ -605,6 +860,17 @@ export const DELETE: APIRoute = async ({ request, cookies }) => {
       );
     }
 
+    // The party's seats on limited events are free again.
+    try {
+      await settleAfterAnswer(
+        event as 'nyc' | 'france',
+        party.map((member) => member.id),
+        null
+      );
+    } catch (err) {
+      console.error('Waitlist settle after RSVP delete failed (non-fatal):', err);
+    }
+
     return new Response(
       JSON.stringify({ success: true, message: 'RSVP deleted successfully' }),
       {
@@ -1,5 +1,5 @@
 import type { APIRoute } from 'astro';
-import { clearGuestCache, fetchAllGuests } from '../../lib/notion';
+import { clearGuestCache, fetchAllGuests } from '../../lib/data-store';
 import { features } from '../../config/features';
 import { requireAdminAuth } from '../../lib/admin-auth';
 
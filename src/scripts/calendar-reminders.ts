@@ -0,0 +1,42 @@
+/**
+ * Client script for the calendar reminders opt-out
+ * (src/components/CalendarReminders.astro): saves each change straight away
+ * and puts the checkbox back if the save fails.
+ */
+
+export function initCalendarReminders(): void {
+  document.querySelectorAll<HTMLElement>('[data-calendar-reminders]').forEach((container) => {
+    if (container.dataset.calendarRemindersInitialized) return;
+    container.dataset.calendarRemindersInitialized = 'true';
+
+    const toggle = container.querySelector<HTMLInputElement>('.calendar-reminders-toggle');
+    const status = container.querySelector<HTMLElement>('.calendar-reminders-status');
+    if (!toggle) return;
+
+    const showStatus = (message: string) => {
+      if (!status) return;
+      status.textContent = message;
+      status.hidden = false;
+    };
+
+    toggle.addEventListener('change', async () => {
+      const enabled = toggle.checked;
+      toggle.disabled = true;
+      try {
+        const response = await fetch('/api/calendar-reminders', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ enabled }),
+        });
+        if (!response.ok) throw new Error(`Calendar reminders not saved (${response.status})`);
+        showStatus(container.dataset.saved ?? '');
+      } catch (error) {
+        console.warn(error);
+        toggle.checked = !enabled;
+        showStatus(container.dataset.error ?? '');
+      } finally {
+        toggle.disabled = false;
+      }
+    });
+  });
+}
@@ -10,6 +10,16 @@
  * build time, and the `export` keeps it a module rather than a global script.
  */
 
+import { collectFlights, initFlightInputs, saveFlights } from './travel-form';
+import { collectStayRequest, initStayRequest, readStayRequest, updateStayRequest, type StayEntry } from './stay-request';
+import {
+  collectShuttleSeats,
+  initShuttleSeats,
+  readShuttleSeats,
+  setShuttleError,
+  type ShuttleSeatEntry,
+} from './shuttle-seats';
+
 export function initRsvpForm(): void {
   const form = document.getElementById('rsvp-form');
   if (!form || form.dataset.rsvpInitialized) return;
@@ -28,6 +38,10 @@ export function initRsvpForm(): void {
   const emailRequiredShort = form.dataset.emailRequiredShort ?? 'Required';
   const emailInvalid = form.dataset.emailInvalid ?? 'Invalid email';
   const sessionExpired = form.dataset.sessionExpired ?? 'Your session has expired — please log in again.';
+  const deadlinePassed = form.dataset.deadlinePassed ?? 'The RSVP deadline has passed.';
+  const plusOneNameRequired = form.dataset.plusOneNameRequired ?? "Please tell us your guest's name";
+  const nameIdentity = form.dataset.nameIdentity ?? "This name can't be used here.";
+  const flightIncomplete = form.dataset.flightIncomplete ?? 'Please complete each flight.';
   const isLocalDev = form.dataset.isLocalDev === 'true';
 
   const submitButton = form.querySelector<HTMLButtonElement>('button[type="submit"]');
@@ -61,6 +75,8 @@ export function initRsvpForm(): void {
       // A toggle the guest sets by hand wins over the automatic restore.
       preDeclineToggles?.delete(checkbox);
       updateGuestStatus(row);
+      syncMealChoices();
+      syncGuestBlocks();
     });
   });
 
@@ -108,6 +124,8 @@ export function initRsvpForm(): void {
       });
       preDeclineToggles = null;
     }
+    syncMealChoices();
+    syncGuestBlocks();
   };
 
   const setEventError = (select: HTMLSelectElement, hasError: boolean) => {
@@ -121,11 +139,79 @@ export function initRsvpForm(): void {
     if (errorEl) errorEl.hidden = !hasError;
   };
 
+  // Meal pickers (src/components/MealChoices.astro): an event's block shows
+  // while it is answered "yes", and within it one row per attending member.
+  const mealBlocks = Array.from(form.querySelectorAll<HTMLElement>('.meal-choices'));
+  const visibleMealSelects = () =>
+    mealBlocks
+      .filter((block) => !block.hidden)
+      .flatMap((block) => Array.from(block.querySelectorAll<HTMLElement>('[data-meal-guest-id]')))
+      .filter((row) => !row.hidden)
+      .map((row) => row.querySelector<HTMLSelectElement>('select.meal-select'))
+      .filter((select): select is HTMLSelectElement => select !== null);
+
+  const setMealError = (select: HTMLSelectElement, hasError: boolean) => {
+    select.classList.toggle('has-error', hasError);
+    if (hasError) {
+      select.setAttribute('aria-invalid', 'true');
+    } else {
+      select.removeAttribute('aria-invalid');
+    }
+    const errorEl = select.closest('[data-meal-guest-id]')?.querySelector<HTMLElement>('.meal-choice-error');
+    if (errorEl) errorEl.hidden = !hasError;
+  };
+
+  const syncMealChoices = () => {
+    mealBlocks.forEach((block) => {
+      const eventSelect = eventSelects.find((select) => select.dataset.eventId === block.dataset.mealEventId);
+      block.hidden = eventSelect?.value !== 'yes';
+      block.querySelectorAll<HTMLElement>('[data-meal-guest-id]').forEach((row) => {
+        const toggle = form
+          .querySelector(`[data-guest-row][data-guest-id="${row.dataset.mealGuestId}"]`)
+          ?.querySelector<HTMLInputElement>('.guest-attending');
+        row.hidden = toggle ? !toggle.checked : false;
+      });
+    });
+  };
+
+  form.querySelectorAll<HTMLSelectElement>('select.meal-select').forEach((select) =>
+    select.addEventListener('change', () => setMealError(select, false))
+  );
+
+  // Per-guest allergens (src/components/DietaryChoices.astro, France),
+  // flights (src/components/TravelDetails.astro), roommates
+  // (src/components/StayRequest.astro, France) and shuttle seats
+  // (src/components/ShuttleSeats.astro, France): one block per member, shown
+  // while their toggle is on.
+  const dietaryBlocks = Array.from(form.querySelectorAll<HTMLElement>('[data-dietary-guest-id]'));
+  const travelDetails = form.querySelector<HTMLElement>('[data-travel-details]');
+  const travelBlocks = Array.from(form.querySelectorAll<HTMLElement>('[data-travel-guest-id]'));
+  const stayRequest = form.querySelector<HTMLElement>('[data-stay-request]');
+  const roommateBlocks = Array.from(form.querySelectorAll<HTMLElement>('[data-stay-guest-id]'));
+  const shuttleSeats = form.querySelector<HTMLElement>('[data-shuttle-seats]');
+  const shuttleBlocks = Array.from(form.querySelectorAll<HTMLElement>('[data-shuttle-guest-id]'));
+  const syncGuestBlocks = () => {
+    [...dietaryBlocks, ...travelBlocks, ...roommateBlocks, ...shuttleBlocks].forEach((block) => {
+      const guestId =
+        block.dataset.dietaryGuestId ??
+        block.dataset.travelGuestId ??
+        block.dataset.stayGuestId ??
+        block.dataset.shuttleGuestId;
+      const toggle = form
+        .querySelector(`[data-guest-row][data-guest-id="${guestId}"]`)
+        ?.querySelector<HTMLInputElement>('.guest-attending');
+      block.hidden = toggle ? !toggle.checked : false;
+    });
+    if (stayRequest) updateStayRequest(stayRequest);
+  };
+  if (travelDetails) initFlightInputs(travelDetails);
+  if (shuttleSeats) initShuttleSeats(shuttleSeats);
+
   // querySelector returns the first match in document order, so the scroll
   // always lands on the highest error on the page.
   const scrollToFirstError = () => {
     form
-      .querySelector('.event-select.has-error, select[name="accommodation"].has-error, .group-email-input.has-error')
+      .querySelector('.guest-name.has-error, .event-select.has-error, .meal-select.has-error, select[name="accommodation"].has-error, .flight-input.has-error, .stay-room-type.has-error, .shuttle-leg.has-error, .group-email-input.has-error')
       ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
   };
 
@@ -143,6 +229,20 @@ export function initRsvpForm(): void {
   };
 
   accommodationSelect?.addEventListener('change', () => setAccommodationError(false));
+  if (stayRequest && accommodationSelect) initStayRequest(stayRequest, accommodationSelect);
+
+  // An unnamed plus-one (src/lib/guest-name.ts) renders an empty name field
+  // for the host to fill in; it must be named before they can attend.
+  const setNameError = (input: HTMLInputElement, hasError: boolean) => {
+    input.classList.toggle('has-error', hasError);
+    if (hasError) {
+      input.setAttribute('aria-invalid', 'true');
+    } else {
+      input.removeAttribute('aria-invalid');
+    }
+  };
+  const nameInputs = Array.from(form.querySelectorAll<HTMLInputElement>('input.guest-name'));
+  nameInputs.forEach((input) => input.addEventListener('input', () => setNameError(input, false)));
 
   eventSelects.forEach((select) =>
     select.addEventListener('change', () => {
@@ -154,6 +254,140 @@ export function initRsvpForm(): void {
   updateSubmitLabel();
   syncTogglesToDecline();
 
+  // The answers as the API takes them, read straight from the form. Shared by
+  // the submit handler (after validation) and the draft autosave (as they are).
+  const collectAnswers = (stay: StayEntry | undefined, seats: ShuttleSeatEntry[] | undefined) => {
+    const anyAttending = Array.from(form.querySelectorAll<HTMLInputElement>('.guest-attending')).some((checkbox) => checkbox.checked);
+
+    const guestsAttending = Array.from(form.querySelectorAll<HTMLElement>('[data-guest-row]')).map((row) => {
+      const nameInput = row.querySelector<HTMLInputElement>('.guest-name');
+      const checkbox = row.querySelector<HTMLInputElement>('.guest-attending');
+      // An emptied name field falls back to the stored name, not a
+      // placeholder: the API requires a non-empty name, and sending one would
+      // persist as a real rename — clearing the box would silently overwrite
+      // that guest's Guest List row with "Guest". An unnamed plus-one renders
+      // empty, so the stored name is carried in `data-stored-name`.
+      const typedName = nameInput?.value?.trim();
+    return {
+      guestId: row.dataset.guestId || undefined,
+      name: typedName || nameInput?.dataset.storedName?.trim() || nameInput?.defaultValue?.trim() || 'Guest',
+      attending: checkbox?.checked === true,
+    };
+  });
+
+  const attendingEventIds = eventSelects
+    .filter((select) => select.value === 'yes')
+    .map((select) => select.dataset.eventId)
+    .filter(Boolean);
+
+  // France collects this as `allergens` (EU labelling), NYC as `dietary`.
+  // Only one exists per page; both map to the same Notion field. With the
+  // per-guest allergen blocks there is no textarea — the API writes the
+  // party text from `dietaryByGuest`.
+  const allergensField = form.querySelector<HTMLTextAreaElement>('textarea[name="allergens"]');
+  const dietaryField = form.querySelector<HTMLTextAreaElement>('textarea[name="dietary"]');
+  const dietaryText = (allergensField ?? dietaryField)?.value?.trim();
+  // Rendered only when the wedding has hotel blocks.
+  const hotelSelect = form.querySelector<HTMLSelectElement>('select[name="hotelBooked"]');
+
+  const dietaryByGuest = dietaryBlocks
+    .filter((block) => !block.hidden)
+    .map((block) => {
+      const flagChecked = (flag: string) =>
+        block.querySelector<HTMLInputElement>(`input[data-diet-flag="${flag}"]`)?.checked === true;
+      const note = block.querySelector<HTMLInputElement>('input.dietary-note')?.value?.trim();
+      return {
+        guestId: block.dataset.dietaryGuestId,
+        allergens: Array.from(block.querySelectorAll<HTMLInputElement>('input[data-allergen]:checked')).map(
+          (input) => input.dataset.allergen
+        ),
+        ...(flagChecked('vegetarian') ? { vegetarian: true } : {}),
+        ...(flagChecked('vegan') ? { vegan: true } : {}),
+        ...(flagChecked('halal') ? { halal: true } : {}),
+        ...(note ? { note } : {}),
+      };
+    });
+
+  const meals = visibleMealSelects().map((select) => ({
+    guestId: select.dataset.guestId,
+    eventId: select.dataset.eventId,
+    optionId: select.value,
+  }));
+
+    return {
+      event: weddingEvent,
+      guestsAttending,
+      eventsAttending: anyAttending ? attendingEventIds : [],
+      dietary: dietaryText || undefined,
+      message: form.querySelector<HTMLTextAreaElement>('textarea[name="message"]')?.value?.trim() || undefined,
+      details: {
+        ...(accommodationSelect ? { accommodation: accommodationSelect.value || undefined } : {}),
+        ...(allergensField ? { allergens: dietaryText || undefined } : {}),
+        ...(hotelSelect ? { hotelBooked: hotelSelect.value || undefined } : {}),
+        ...(mealBlocks.length > 0 ? { meals } : {}),
+        ...(dietaryBlocks.length > 0 ? { dietaryByGuest } : {}),
+        ...(stay ? { stay } : {}),
+        ...(seats ? { shuttleSeats: seats } : {}),
+      },
+    };
+  };
+
+  // Draft autosave (src/lib/rsvp-drafts.ts): the answers as they stand, a
+  // moment after the guest stops editing, so any party member can pick the
+  // form up on another device. A failed save is only logged — the form
+  // itself is unaffected. Paused while a submission is in flight; the API
+  // discards the draft once the RSVP is accepted.
+  const draftsEnabled = form.dataset.rsvpDrafts === 'true';
+  let draftTimer: number | undefined;
+  let draftSave: Promise<void> | null = null;
+  let submitting = false;
+
+  const saveDraft = () => {
+    draftTimer = undefined;
+    if (submitting) return;
+    const answers = collectAnswers(
+      stayRequest ? readStayRequest(stayRequest) : undefined,
+      shuttleSeats ? readShuttleSeats(shuttleSeats) : undefined
+    );
+    draftSave = fetch('/api/rsvp-draft', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(answers),
+    })
+      .then((response) => {
+        if (!response.ok) console.warn(`RSVP draft not saved (${response.status})`);
+      })
+      .catch((error) => console.warn('RSVP draft not saved', error))
+      .finally(() => {
+        draftSave = null;
+      });
+  };
+
+  if (draftsEnabled) {
+    const scheduleDraft = () => {
+      if (submitting) return;
+      window.clearTimeout(draftTimer);
+      draftTimer = window.setTimeout(saveDraft, 2000);
+    };
+    form.addEventListener('input', scheduleDraft);
+    form.addEventListener('change', scheduleDraft);
+  }
+
+  // "Discard changes" on the draft banner (src/components/RsvpDraftBanner.astro):
+  // drop the draft and reload onto the stored response.
+  document.querySelector<HTMLButtonElement>('[data-rsvp-draft-discard]')?.addEventListener('click', async (event) => {
+    const button = event.currentTarget as HTMLButtonElement;
+    button.disabled = true;
+    window.clearTimeout(draftTimer);
+    submitting = true;
+    await draftSave;
+    try {
+      await fetch(`/api/rsvp-draft?event=${weddingEvent}`, { method: 'DELETE' });
+    } finally {
+      window.location.reload();
+    }
+  });
+
   const restoreSubmitButton = () => {
     if (!submitButton) return;
     submitButton.disabled = false;
@@ -177,47 +411,65 @@ export function initRsvpForm(): void {
     form.querySelectorAll('.group-email-input').forEach((el) => el.classList.remove('has-error'));
     form.querySelectorAll<HTMLElement>('.group-email-error').forEach((el) => { el.hidden = true; });
     eventSelects.forEach((select) => setEventError(select, false));
+    form.querySelectorAll<HTMLSelectElement>('select.meal-select').forEach((select) => setMealError(select, false));
     setAccommodationError(false);
+    nameInputs.forEach((input) => setNameError(input, false));
 
-    // Every event needs an explicit Attending / Not attending choice, and
+    // Every event needs an explicit Attending / Not attending choice, every
+    // attending member a meal for each attended event that offers one, and
     // the accommodation question needs an active answer.
     const missingSelections = eventSelects.filter((select) => !select.value);
+    const missingMeals = visibleMealSelects().filter((select) => !select.value);
     const accommodationMissing = accommodationSelect && !accommodationSelect.value;
-    if (missingSelections.length > 0 || accommodationMissing) {
+    if (missingSelections.length > 0 || missingMeals.length > 0 || accommodationMissing) {
       missingSelections.forEach((select) => setEventError(select, true));
+      missingMeals.forEach((select) => setMealError(select, true));
       if (accommodationMissing) setAccommodationError(true);
       scrollToFirstError();
       restoreSubmitButton();
       return;
     }
 
-    const anyAttending = Array.from(form.querySelectorAll<HTMLInputElement>('.guest-attending')).some((checkbox) => checkbox.checked);
+    const unnamedAttending = nameInputs.filter(
+      (input) =>
+        input.dataset.unnamedPlusOne === 'true' &&
+        !input.value.trim() &&
+        input.closest('[data-guest-row]')?.querySelector<HTMLInputElement>('.guest-attending')?.checked === true
+    );
+    if (unnamedAttending.length > 0) {
+      unnamedAttending.forEach((input) => setNameError(input, true));
+      showError(plusOneNameRequired);
+      scrollToFirstError();
+      restoreSubmitButton();
+      return;
+    }
 
-    const guestsAttending = Array.from(form.querySelectorAll<HTMLElement>('[data-guest-row]')).map((row) => {
-      const nameInput = row.querySelector<HTMLInputElement>('.guest-name');
-      const checkbox = row.querySelector<HTMLInputElement>('.guest-attending');
-      // An emptied name field falls back to the server-rendered value
-      // (`defaultValue`), not a placeholder: the API requires a non-empty name,
-      // and sending one would persist as a real rename — clearing the box would
-      // silently overwrite that guest's Guest List row with "Guest".
-      const typedName = nameInput?.value?.trim();
-      return {
-        guestId: row.dataset.guestId || undefined,
-        name: typedName || nameInput?.defaultValue?.trim() || 'Guest',
-        attending: checkbox?.checked === true,
-      };
-    });
+    // Flights are saved on their own after the RSVP, but a half-filled leg is
+    // caught now so the guest can finish it before leaving the page.
+    const flights = travelDetails ? collectFlights(travelDetails) : [];
+    if (!flights) {
+      showError(flightIncomplete);
+      scrollToFirstError();
+      restoreSubmitButton();
+      return;
+    }
 
-    const attendingEventIds = eventSelects
-      .filter((select) => select.value === 'yes')
-      .map((select) => select.dataset.eventId)
-      .filter(Boolean);
+    // The room request (France) needs nights, a room type and roommates who
+    // fit in the room; the message sits under the request itself.
+    const stay = stayRequest ? collectStayRequest(stayRequest) : undefined;
+    if (stay === null) {
+      scrollToFirstError();
+      restoreSubmitButton();
+      return;
+    }
 
-    // France collects this as `allergens` (EU labelling), NYC as `dietary`.
-    // Only one exists per page; both map to the same Notion field.
-    const allergensField = form.querySelector<HTMLTextAreaElement>('textarea[name="allergens"]');
-    const dietaryField = form.querySelector<HTMLTextAreaElement>('textarea[name="dietary"]');
-    const dietaryText = (allergensField ?? dietaryField)?.value?.trim();
+    // Shuttle seats (France): no more per leg than were left at page load.
+    const seats = shuttleSeats ? collectShuttleSeats(shuttleSeats) : undefined;
+    if (seats === null) {
+      scrollToFirstError();
+      restoreSubmitButton();
+      return;
+    }
 
     const sendConfirmationCheckbox = form.querySelector<HTMLInputElement>('input[name="sendConfirmation"]');
     const guestEmails = Array.from(form.querySelectorAll<HTMLInputElement>('[data-guest-email-id]')).map((input) => ({
@@ -256,17 +508,15 @@ export function initRsvpForm(): void {
       }
     }
 
+    // A draft save still in flight would otherwise land after the API
+    // discarded the draft and resurrect it.
+    submitting = true;
+    window.clearTimeout(draftTimer);
+    await draftSave;
+
     const payload = {
-      event: form.dataset.event,
-      guestsAttending,
+      ...collectAnswers(stay, seats),
       guestEmails,
-      eventsAttending: anyAttending ? attendingEventIds : [],
-      dietary: dietaryText || undefined,
-      message: form.querySelector<HTMLTextAreaElement>('textarea[name="message"]')?.value?.trim() || undefined,
-      details: {
-        ...(accommodationSelect ? { accommodation: accommodationSelect.value || undefined } : {}),
-        ...(allergensField ? { allergens: dietaryText || undefined } : {}),
-      },
       sendConfirmation: sendConfirmationCheckbox?.checked === true,
     };
 
@@ -286,11 +536,34 @@ export function initRsvpForm(): void {
           scrollToFirstError();
         }
         // The API's error strings are English-only, so surface a translated
-        // message instead: the one server rejection a guest can plausibly hit
-        // is an expired session (401); everything else the form pre-validates.
+        // message instead: the server rejections a guest can plausibly hit are
+        // an expired session (401), a deadline that passed while the form was
+        // open, a name edit the identity guard refuses, and a shuttle that
+        // filled up after the page loaded; everything else the form
+        // pre-validates.
+        if (data?.code === 'rsvp_closed') throw new Error(deadlinePassed);
+        if (data?.code === 'name_identity') {
+          const input = form.querySelector<HTMLInputElement>(
+            `[data-guest-row][data-guest-id="${data.nameGuestId}"] input.guest-name`
+          );
+          if (input) setNameError(input, true);
+          scrollToFirstError();
+          throw new Error(nameIdentity);
+        }
+        if (data?.code === 'shuttle_full' && shuttleSeats) {
+          const leg = shuttleSeats.querySelector<HTMLElement>(`[data-shuttle-leg="${data.legId}"]`);
+          if (leg) setShuttleError(leg, shuttleSeats.dataset.shuttleTooMany ?? '');
+          scrollToFirstError();
+          throw new Error(shuttleSeats.dataset.shuttleFull ?? defaultErrorMessage);
+        }
         throw new Error(response.status === 401 ? sessionExpired : defaultErrorMessage);
       }
 
+      // A failed flight save leaves the RSVP standing; /travel can retry.
+      if (!(await saveFlights(weddingEvent, flights))) {
+        console.warn('RSVP saved, but the travel details could not be saved');
+      }
+
       window.location.href = `/${weddingEvent}/rsvp/confirmed`;
     } catch (error) {
       showError(error instanceof Error ? error.message : defaultErrorMessage);
@@ -302,6 +575,7 @@ export function initRsvpForm(): void {
         return;
       }
 
+      submitting = false;
       restoreSubmitButton();
     }
   });
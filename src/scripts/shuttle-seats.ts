@@ -0,0 +1,66 @@
+/**
+ * Client script for the shuttle seats (src/components/ShuttleSeats.astro).
+ *
+ * Seats left come from the page render, so the form can only stop a party
+ * from taking more than were free when the page loaded; the server
+ * (/api/rsvp) checks capacity again and answers 409 `shuttle_full` with the
+ * leg that filled up in the meantime.
+ */
+
+export interface ShuttleSeatEntry {
+  guestId: string;
+  legId: string;
+}
+
+/** Members still shown (their toggle is on) and ticked on `leg`. */
+function checkedSeats(leg: HTMLElement): string[] {
+  return Array.from(leg.querySelectorAll<HTMLElement>('[data-shuttle-guest-id]'))
+    .filter((label) => !label.hidden)
+    .filter((label) => label.querySelector<HTMLInputElement>('input[data-shuttle-seat]')?.checked)
+    .map((label) => label.dataset.shuttleGuestId ?? '');
+}
+
+/** Show `message` under `leg`, or clear it with null. */
+export function setShuttleError(leg: HTMLElement, message: string | null): void {
+  leg.classList.toggle('has-error', message !== null);
+  const error = leg.querySelector<HTMLElement>('.shuttle-error');
+  if (error) {
+    error.textContent = message ?? '';
+    error.hidden = message === null;
+  }
+}
+
+export function initShuttleSeats(container: HTMLElement): void {
+  container.addEventListener('change', (event) => {
+    const leg = (event.target as HTMLElement).closest<HTMLElement>('[data-shuttle-leg]');
+    if (leg) setShuttleError(leg, null);
+  });
+}
+
+/**
+ * The seats to submit as `details.shuttleSeats`, or null (with the error
+ * shown) when a leg has fewer seats left than the party ticked.
+ */
+export function collectShuttleSeats(container: HTMLElement): ShuttleSeatEntry[] | null {
+  const seats: ShuttleSeatEntry[] = [];
+  let full = false;
+  container.querySelectorAll<HTMLElement>('[data-shuttle-leg]').forEach((leg) => {
+    setShuttleError(leg, null);
+    const legId = leg.dataset.shuttleLeg ?? '';
+    const guestIds = checkedSeats(leg);
+    const remaining = leg.dataset.remaining === undefined ? Infinity : Number(leg.dataset.remaining);
+    if (guestIds.length > remaining) {
+      setShuttleError(leg, container.dataset.shuttleTooMany ?? '');
+      full = true;
+    }
+    for (const guestId of guestIds) seats.push({ guestId, legId });
+  });
+  return full ? null : seats;
+}
+
+/** The seats ticked so far, unchecked against seats left, for the draft autosave. */
+export function readShuttleSeats(container: HTMLElement): ShuttleSeatEntry[] {
+  return Array.from(container.querySelectorAll<HTMLElement>('[data-shuttle-leg]')).flatMap((leg) =>
+    checkedSeats(leg).map((guestId) => ({ guestId, legId: leg.dataset.shuttleLeg ?? '' }))
+  );
+}
@@ -0,0 +1,107 @@
+/**
+ * Client script for the France room request (src/components/StayRequest.astro).
+ *
+ * The block shows while the accommodation answer is "yes". The estimate and
+ * the waitlist note follow the nights, room type and roommates chosen; rooms
+ * left come from the page render, so the note can only say the guest will be
+ * waitlisted, never promise a room. The server (/api/rsvp) validates the
+ * request again and decides its place in the queue.
+ */
+
+export interface StayEntry {
+  nights: string[];
+  roomType: string;
+  guestIds: string[];
+}
+
+function checkedNights(container: ParentNode): string[] {
+  return Array.from(container.querySelectorAll<HTMLInputElement>('input[data-stay-night]:checked')).map(
+    (input) => input.dataset.stayNight ?? ''
+  );
+}
+
+/** Roommates still shown (their toggle is on) and ticked. */
+function checkedRoommates(container: ParentNode): string[] {
+  return Array.from(container.querySelectorAll<HTMLElement>('[data-stay-guest-id]'))
+    .filter((label) => !label.hidden)
+    .filter((label) => label.querySelector<HTMLInputElement>('input[data-stay-roommate]')?.checked)
+    .map((label) => label.dataset.stayGuestId ?? '');
+}
+
+function setStayError(container: HTMLElement, message: string | null): void {
+  const error = container.querySelector<HTMLElement>('.stay-error');
+  if (error) {
+    error.textContent = message ?? '';
+    error.hidden = message === null;
+  }
+  const select = container.querySelector<HTMLSelectElement>('select.stay-room-type');
+  select?.classList.toggle('has-error', message !== null);
+}
+
+/** Recompute the estimate and the waitlist note from the current choices. */
+export function updateStayRequest(container: HTMLElement): void {
+  const rate = Number(container.dataset.rate ?? 0);
+  const nights = checkedNights(container);
+  const estimate = container.querySelector<HTMLElement>('[data-stay-estimate]');
+  if (estimate) {
+    estimate.textContent = new Intl.NumberFormat(container.dataset.lang === 'fr' ? 'fr-FR' : 'en-US', {
+      style: 'currency',
+      currency: 'EUR',
+      maximumFractionDigits: 0,
+    }).format(nights.length * checkedRoommates(container).length * rate);
+  }
+
+  const option = container.querySelector<HTMLSelectElement>('select.stay-room-type')?.selectedOptions[0];
+  const full = container.querySelector<HTMLElement>('.stay-full');
+  if (full) {
+    full.hidden = !option?.value || !nights.some((night) => option.getAttribute(`data-remaining-${night}`) === '0');
+  }
+}
+
+/** Show the block while `accommodationSelect` reads "yes", and keep it current. */
+export function initStayRequest(container: HTMLElement, accommodationSelect: HTMLSelectElement): void {
+  const sync = () => {
+    container.hidden = accommodationSelect.value !== 'yes';
+  };
+  accommodationSelect.addEventListener('change', sync);
+  container.addEventListener('change', () => {
+    setStayError(container, null);
+    updateStayRequest(container);
+  });
+  sync();
+  updateStayRequest(container);
+}
+
+/**
+ * The request to submit as `details.stay`: undefined while the block is
+ * hidden, null (with the error shown) when it is incomplete or the room is
+ * too small for the roommates.
+ */
+export function collectStayRequest(container: HTMLElement): StayEntry | undefined | null {
+  setStayError(container, null);
+  if (container.hidden) return undefined;
+
+  const nights = checkedNights(container);
+  const select = container.querySelector<HTMLSelectElement>('select.stay-room-type');
+  const guestIds = checkedRoommates(container);
+  if (nights.length === 0 || !select?.value || guestIds.length === 0) {
+    setStayError(container, container.dataset.stayRequired ?? '');
+    return null;
+  }
+  const sleeps = Number(select.selectedOptions[0]?.dataset.sleeps ?? 0);
+  if (sleeps > 0 && guestIds.length > sleeps) {
+    setStayError(container, container.dataset.stayTooMany ?? '');
+    return null;
+  }
+  return { nights, roomType: select.value, guestIds };
+}
+
+/**
+ * The request as it stands, unchecked, for the draft autosave: undefined
+ * while the block is hidden.
+ */
+export function readStayRequest(container: HTMLElement): StayEntry | undefined {
+  if (container.hidden) return undefined;
+  const select = container.querySelector<HTMLSelectElement>('select.stay-room-type');
+  return { nights: checkedNights(container), roomType: select?.value ?? '', guestIds: checkedRoommates(container) };
+}
@@ -0,0 +1,154 @@
+/**
+ * Client script for the Travel Details fields (src/components/TravelDetails.astro).
+ *
+ * The RSVP forms call collectFlights before submitting and saveFlights after
+ * the RSVP is saved — flights are a separate write, so a problem with them
+ * never costs the guest their RSVP. /travel runs initTravelPage, where each
+ * wedding's section is its own form.
+ *
+ * The server (/api/flights) normalizes and validates every leg; the checks
+ * here only catch a half-filled leg and what the inputs' own constraints
+ * (pattern, min/max) reject, so the guest can fix it in place.
+ */
+
+const REQUIRED_FIELDS = ['airline', 'flightNumber', 'date'];
+const FIELDS = [...REQUIRED_FIELDS, 'airport', 'time'];
+
+export interface FlightEntry {
+  guestId: string;
+  arrival?: Record<string, string> | null;
+  departure?: Record<string, string> | null;
+}
+
+function setFlightError(input: HTMLInputElement, hasError: boolean): void {
+  input.classList.toggle('has-error', hasError);
+  if (hasError) {
+    input.setAttribute('aria-invalid', 'true');
+  } else {
+    input.removeAttribute('aria-invalid');
+  }
+}
+
+/** Clear a flight input's error as soon as the guest edits it. */
+export function initFlightInputs(container: ParentNode): void {
+  container.querySelectorAll<HTMLInputElement>('.flight-input').forEach((input) =>
+    input.addEventListener('input', () => setFlightError(input, false))
+  );
+}
+
+/**
+ * Read the visible guest blocks into /api/flights entries. A leg left blank
+ * is omitted, or sent as null when it had been saved before (the guest
+ * cleared it). Returns null, with the offending inputs marked, when a leg is
+ * incomplete or invalid.
+ */
+export function collectFlights(container: ParentNode): FlightEntry[] | null {
+  let valid = true;
+  const entries: FlightEntry[] = [];
+
+  container.querySelectorAll<HTMLElement>('[data-travel-guest-id]').forEach((block) => {
+    if (block.hidden) return;
+    const entry: FlightEntry = { guestId: block.dataset.travelGuestId ?? '' };
+
+    block.querySelectorAll<HTMLElement>('[data-flight-leg]').forEach((legEl) => {
+      const type = legEl.dataset.flightLeg as 'arrival' | 'departure';
+      const inputs = new Map(
+        FIELDS.map((field) => [
+          field,
+          legEl.querySelector<HTMLInputElement>(`input[data-flight-field="${field}"]`),
+        ])
+      );
+      inputs.forEach((input) => input && setFlightError(input, false));
+
+      const values = Object.fromEntries(
+        FIELDS.map((field) => [field, inputs.get(field)?.value.trim() ?? ''])
+      );
+      if (FIELDS.every((field) => !values[field])) {
+        if (legEl.dataset.stored === 'true') entry[type] = null;
+        return;
+      }
+
+      const invalid = FIELDS.flatMap((field) => {
+        const input = inputs.get(field);
+        if (!input) return [];
+        return (REQUIRED_FIELDS.includes(field) && !values[field]) || !input.checkValidity() ? [input] : [];
+      });
+      if (invalid.length > 0) {
+        invalid.forEach((input) => setFlightError(input, true));
+        valid = false;
+        return;
+      }
+      entry[type] = Object.fromEntries(FIELDS.filter((field) => values[field]).map((field) => [field, values[field]]));
+    });
+
+    if (entry.arrival !== undefined || entry.departure !== undefined) entries.push(entry);
+  });
+
+  return valid ? entries : null;
+}
+
+/** POST the entries to /api/flights. Resolves false on any failure. */
+export async function saveFlights(event: 'nyc' | 'france', entries: FlightEntry[]): Promise<boolean> {
+  if (entries.length === 0) return true;
+  try {
+    const response = await fetch('/api/flights', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ event, guests: entries }),
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+/** Wire up each wedding's form on /travel. */
+export function initTravelPage(): void {
+  document.querySelectorAll<HTMLFormElement>('form.travel-form').forEach((form) => {
+    if (form.dataset.travelInitialized) return;
+    const event = form.dataset.event;
+    if (event !== 'nyc' && event !== 'france') return;
+    form.dataset.travelInitialized = 'true';
+
+    const submitButton = form.querySelector<HTMLButtonElement>('button[type="submit"]');
+    const success = form.querySelector<HTMLElement>('.travel-success');
+    const error = form.querySelector<HTMLElement>('.travel-error');
+
+    initFlightInputs(form);
+
+    form.addEventListener('submit', async (submitEvent) => {
+      submitEvent.preventDefault();
+      if (success) success.hidden = true;
+      if (error) error.hidden = true;
+
+      const entries = collectFlights(form);
+      if (!entries) {
+        if (error) {
+          error.textContent = form.dataset.flightIncomplete ?? '';
+          error.hidden = false;
+        }
+        form.querySelector('.flight-input.has-error')?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        return;
+      }
+
+      if (submitButton) submitButton.disabled = true;
+      const saved = await saveFlights(event, entries);
+      if (submitButton) submitButton.disabled = false;
+
+      if (saved) {
+        // Cleared legs are gone now, so a later blank leg is "never saved".
+        form.querySelectorAll<HTMLElement>('[data-flight-leg]').forEach((legEl) => {
+          const filled = Array.from(legEl.querySelectorAll<HTMLInputElement>('.flight-input')).some(
+            (input) => input.value.trim()
+          );
+          if (filled) legEl.dataset.stored = 'true';
+          else delete legEl.dataset.stored;
+        });
+        if (success) success.hidden = false;
+      } else if (error) {
+        error.textContent = form.dataset.flightError ?? '';
+        error.hidden = false;
+      }
+    });
+  });
+}
@@ -1,12 +1,21 @@
 export interface EventRecord {
   id: string; // Notion page ID
   name: string; // Event title
-  type: 'Core' | 'Optional';
+  // Internal events (vendor arrival, setup, rehearsal) are for the couple and
+  // planner only: getEventCatalog leaves them out, so no guest ever sees one.
+  type: 'Core' | 'Optional' | 'Internal';
   wedding: 'nyc' | 'france';
   time?: string; // Display-only time string (e.g. "6:00 PM")
   startTime?: string; // ICS start time (e.g. "7:00 PM") — authoritative for calendar
   duration?: string; // ICS duration (e.g. "3h", "2h30m", "90m")
   date?: string; // YYYY-MM-DD
+  // When an event ends past its start day, or not at Start Time + Duration:
+  // the end of the Event Date range (YYYY-MM-DD) and "End Time" (e.g.
+  // "1:00 AM") — see eventWindow in src/lib/calendar.ts.
+  endDate?: string;
+  endTime?: string;
+  // Where on the venue ("Village Square"); the whole location when the event
+  // names no venue.
   location?: string;
   description?: string;
   // French display variants ("* FR" rich_text properties in the Event
@@ -18,5 +27,23 @@ export interface EventRecord {
   locationFr?: string;
   descriptionFr?: string;
   dayId?: string; // Wedding Timeline page ID (optional)
+  // "Venue" select — an ID in VENUES (src/lib/venues.ts): address, map pin,
+  // entrance note and transit hints.
+  venueId?: string;
   showOnWebsite: boolean;
+  // Entrées guests choose between ("Meal Options" / "Meal Options FR", one
+  // per line). Unset for events without a seated meal — see src/lib/meals.ts.
+  mealOptions?: MealOption[];
+  // Most guests an Optional event takes ("Capacity"). Unset = no limit;
+  // ignored on Core events — see src/lib/event-capacity.ts.
+  capacity?: number;
+  // Calendar alarms, in minutes before the start ("Reminders", e.g.
+  // "1 day, 2 hours") — see parseReminders in src/lib/calendar.ts.
+  reminders?: number[];
+}
+
+export interface MealOption {
+  id: string; // Derived from the English label (mealOptionId)
+  label: string;
+  labelFr?: string;
 }
@@ -0,0 +1,30 @@
+export type FlightLegType = 'arrival' | 'departure';
+
+/** One flight a guest enters on the RSVP form or /travel page. */
+export interface FlightLeg {
+  type: FlightLegType;
+  airline: string; // As typed: "Air France" or an IATA code like "AF"
+  flightNumber: string; // Normalized "AF 7" — carrier code, space, number
+  date: string; // Flight date, YYYY-MM-DD (Flighty looks up the schedule)
+  airport?: string; // IATA code: where an arrival lands / a departure leaves from
+  time?: string; // Scheduled local time, HH:MM — optional, helps plan pickups
+}
+
+/** A stored Guest Flights row: one leg for one guest and wedding. */
+export interface GuestFlight extends FlightLeg {
+  id: string; // Notion page ID
+  guestId: string; // Guest List page ID
+  event: 'nyc' | 'france';
+  // Cleared whenever the site creates or edits the row, so the Mac Mini
+  // Flighty sync (F-013) picks the flight up again.
+  flightySynced: boolean;
+}
+
+/**
+ * A guest's submission for one wedding. A leg left out is kept as stored;
+ * null removes it.
+ */
+export interface GuestFlightUpdate {
+  arrival?: FlightLeg | null;
+  departure?: FlightLeg | null;
+}
@@ -6,6 +6,10 @@ export interface GuestRecord {
   country?: string | null; // Country select (e.g. 'USA', 'FRANCE') — drives registry destination; always set by parseGuestPage, optional for mocks
   isPlusOne: boolean;
   relatedGuestIds: string[]; // Notion IDs of party members
+  // 'Events Invited' relation → Event Catalog page IDs: the exact events this
+  // guest may RSVP to. Empty/undefined = no explicit list, which falls back to
+  // the Core events (see src/lib/event-invitations.ts).
+  eventsInvited?: string[];
   email?: string; // Guest email address (optional — may not be on file)
   // Name parts and household envelope strings, used by envelope-name login
   // (src/lib/envelope-name.ts). Undefined for mocks and for pre-v2 cache blobs.
@@ -0,0 +1,19 @@
+export interface HotelBlock {
+  id: string; // Notion page ID
+  wedding: 'nyc' | 'france';
+  name: string; // Hotel name
+  address?: string;
+  mapUrl?: string; // Link behind the address
+  // One-line introduction shown before the address ("Just down the street
+  // from the Wythe at"), with an optional French variant — same fallback rule
+  // as the Event Catalog "* FR" fields.
+  blurb?: string;
+  blurbFr?: string;
+  checkIn?: string; // Block dates, YYYY-MM-DD
+  checkOut?: string;
+  bookingUrl?: string;
+  cutoffDate?: string; // Last day the block rate can be booked, YYYY-MM-DD (wedding time zone)
+  roomsHeld?: number; // Rooms in the block
+  roomsClaimed?: number; // Rooms picked up, per the hotel's latest report
+  sortOrder?: number; // Display order on the travel page (ascending)
+}
@@ -1,3 +1,5 @@
 export type { GuestRecord } from './guest';
-export type { EventRecord } from './event';
-export type { RSVPSubmission, RSVPGuestEmail, RSVPDetails, RSVPResponse } from './rsvp';
+export type { EventRecord, MealOption } from './event';
+export type { HotelBlock } from './hotel';
+export type { RSVPSubmission, RSVPGuestEmail, RSVPDetails, RSVPResponse, MealChoice, GuestDietary, EUAllergen, DietFlag, StayNight, StayRequest, ShuttleSeat } from './rsvp';
+export type { FlightLegType, FlightLeg, GuestFlight, GuestFlightUpdate } from './flight';
@@ -29,8 +29,74 @@ export interface RSVPGuestEmail {
 export interface RSVPDetails {
   // France-specific
   accommodation?: 'yes' | 'no' | 'unsure';
-  allergens?: string; // EU allergen requirements
+  allergens?: string; // Party-wide free text — superseded by dietaryByGuest
   transport?: 'yes' | 'no' | 'unsure';
+  // Both weddings: the Hotel Blocks row ID the party booked, or 'elsewhere' /
+  // 'not-yet' (src/lib/hotel-blocks.ts)
+  hotelBooked?: string;
+  // Both weddings: each attending member's entrée for every attended event
+  // that offers a choice (src/lib/meals.ts)
+  meals?: MealChoice[];
+  // France: each attending member's EU allergens and diet flags
+  // (src/lib/allergens.ts)
+  dietaryByGuest?: GuestDietary[];
+  // France: the on-site room request when accommodation is 'yes'
+  // (src/lib/accommodation.ts)
+  stay?: StayRequest;
+  // France: the shuttle seats reserved per attending member and leg
+  // (src/lib/shuttles.ts)
+  shuttleSeats?: ShuttleSeat[];
+  // When the party first chose each capacity-limited optional event: its
+  // place in that event's queue (src/lib/event-capacity.ts)
+  eventsRequestedAt?: Record<string, string>;
+}
+
+export interface ShuttleSeat {
+  guestId: string;
+  legId: string; // ShuttleLeg.id
+}
+
+export type StayNight = 'friday' | 'saturday';
+
+export interface StayRequest {
+  nights: StayNight[];
+  roomType: string; // RoomType.id
+  guestIds: string[]; // The roommates: attending party members sharing the room
+  requestedAt?: string; // ISO datetime, set by the server — the party's place in the queue
+}
+
+export interface MealChoice {
+  guestId: string;
+  eventId: string;
+  optionId: string; // MealOption.id
+}
+
+/** The 14 allergens of EU Regulation 1169/2011, Annex II. */
+export type EUAllergen =
+  | 'gluten'
+  | 'crustaceans'
+  | 'eggs'
+  | 'fish'
+  | 'peanuts'
+  | 'soy'
+  | 'milk'
+  | 'nuts'
+  | 'celery'
+  | 'mustard'
+  | 'sesame'
+  | 'sulphites'
+  | 'lupin'
+  | 'molluscs';
+
+export type DietFlag = 'vegetarian' | 'vegan' | 'halal';
+
+export interface GuestDietary {
+  guestId: string;
+  allergens: EUAllergen[];
+  vegetarian?: boolean;
+  vegan?: boolean;
+  halal?: boolean;
+  note?: string;
 }
 
 /**
@@ -0,0 +1,221 @@
+import { test, expect } from '@playwright/test';
+import {
+  allocateStays,
+  buildRoomingList,
+  latestFranceResponses,
+  roomAvailability,
+  roomingListCsv,
+  stayCost,
+  stayRequestedAt,
+  validateStayRequest,
+  roomTypes,
+} from '../src/lib/accommodation';
+import type { GuestRecord, RSVPResponse, StayRequest } from '../src/types';
+import { mockRSVPResponse } from './fixtures';
+
+/**
+ * Unit-style tests for the Village de Sully room requests: validation, the
+ * queue order, allocation against the inventory and the rooming list.
+ */
+
+function response(id: string, stay: Partial<StayRequest> | null, overrides: Partial<RSVPResponse> = {}): RSVPResponse {
+  return mockRSVPResponse({
+    id,
+    guestId: `${id}-guest`,
+    guestIds: [`${id}-guest`],
+    details: {
+      accommodation: 'yes',
+      ...(stay
+        ? { stay: { nights: ['friday', 'saturday'], roomType: 'louisiana', guestIds: [`${id}-guest`], ...stay } }
+        : {}),
+    },
+    ...overrides,
+  });
+}
+
+function guest(id: string, name: string): GuestRecord {
+  return {
+    id,
+    name,
+    normalizedName: name.toLowerCase(),
+    eventInvitations: ['france'],
+    isPlusOne: false,
+    relatedGuestIds: [],
+  };
+}
+
+const louisianaRooms = roomTypes().find((type) => type.id === 'louisiana')!.rooms;
+
+test.describe('stay request validation', () => {
+  const input = { accommodation: 'yes', attendingGuestIds: ['a', 'b', 'c'] };
+  const valid = { nights: ['friday'], roomType: 'village', guestIds: ['a', 'b'] };
+
+  test('accepts a request for attending members who fit in the room', () => {
+    expect(validateStayRequest(valid, input)).toBeNull();
+    expect(validateStayRequest(undefined, { ...input, accommodation: 'no' })).toBeNull();
+  });
+
+  test('rejects requests the Village could not honour', () => {
+    expect(validateStayRequest(valid, { ...input, accommodation: 'unsure' })).toBe('stay requires accommodation "yes"');
+    expect(validateStayRequest({ ...valid, nights: [] }, input)).toBe('stay must include at least one night');
+    expect(validateStayRequest({ ...valid, nights: ['sunday'] }, input)).toBe('stay includes an unknown night');
+    expect(validateStayRequest({ ...valid, nights: ['friday', 'friday'] }, input)).toBe('stay lists a night twice');
+    expect(validateStayRequest({ ...valid, roomType: 'suite' }, input)).toBe('stay includes an unknown room type');
+    expect(validateStayRequest({ ...valid, guestIds: ['z'] }, input)).toBe('stay includes a guest who is not attending');
+    expect(validateStayRequest({ ...valid, guestIds: ['a', 'b', 'c'] }, input)).toBe(
+      'stay has more guests than the room sleeps'
+    );
+  });
+
+  test('estimates every roommate for every night', () => {
+    expect(stayCost({ nights: ['friday', 'saturday'], guestIds: ['a', 'b'] })).toBe(300);
+    expect(stayCost({ nights: ['saturday'], guestIds: ['a'] })).toBe(75);
+  });
+});
+
+test.describe('stay queue order', () => {
+  const now = new Date('2027-01-10T09:00:00.000Z');
+
+  test('keeps the previous place while the nights and room type are unchanged', () => {
+    const previous = response('p', { requestedAt: '2026-11-01T08:00:00.000Z' });
+    expect(stayRequestedAt({ nights: ['saturday', 'friday'], roomType: 'louisiana' }, previous, now)).toBe(
+      '2026-11-01T08:00:00.000Z'
+    );
+    // Rows written before requestedAt existed queue from their submission.
+    expect(stayRequestedAt({ nights: ['friday', 'saturday'], roomType: 'louisiana' }, response('q', {}), now)).toBe(
+      '2026-12-01T12:00:00.000Z'
+    );
+  });
+
+  test('joins the back of the queue when the request changes', () => {
+    const previous = response('p', { requestedAt: '2026-11-01T08:00:00.000Z' });
+    expect(stayRequestedAt({ nights: ['friday'], roomType: 'louisiana' }, previous, now)).toBe(now.toISOString());
+    expect(stayRequestedAt({ nights: ['friday', 'saturday'], roomType: 'orient' }, previous, now)).toBe(
+      now.toISOString()
+    );
+    expect(stayRequestedAt({ nights: ['friday'], roomType: 'village' }, null, now)).toBe(now.toISOString());
+  });
+});
+
+test.describe('stay allocation', () => {
+  const queued = (count: number, nights: StayRequest['nights'] = ['friday', 'saturday']) =>
+    Array.from({ length: count }, (_, i) =>
+      response(`r${String(i).padStart(2, '0')}`, { nights, requestedAt: `2026-11-${String(i + 1).padStart(2, '0')}T00:00:00.000Z` })
+    );
+
+  test('allocates in queue order and waitlists once a room type is full', () => {
+    const responses = queued(louisianaRooms + 2).reverse();
+    const allocations = allocateStays(responses);
+    expect(allocations.filter((a) => a.status === 'allocated').map((a) => a.responseId)).toEqual(
+      queued(louisianaRooms).map((r) => r.id)
+    );
+    expect(allocations.filter((a) => a.status === 'waitlisted').map((a) => a.waitlistPosition)).toEqual([1, 2]);
+
+    const louisiana = roomAvailability(allocations).find((entry) => entry.id === 'louisiana')!;
+    expect(louisiana.remaining).toEqual({ friday: 0, saturday: 0 });
+    expect(louisiana.waitlisted).toBe(2);
+  });
+
+  test('gives a later one-night request a room a two-night request could not take', () => {
+    const fridays = queued(louisianaRooms, ['friday']);
+    const weekend = response('weekend', { requestedAt: '2026-12-01T00:00:00.000Z' });
+    const saturday = response('saturday', { nights: ['saturday'], requestedAt: '2026-12-02T00:00:00.000Z' });
+    const status = new Map(
+      allocateStays([...fridays, weekend, saturday]).map((allocation) => [allocation.responseId, allocation.status])
+    );
+    expect(status.get('weekend')).toBe('waitlisted');
+    expect(status.get('saturday')).toBe('allocated');
+  });
+
+  test('ignores declined parties and requests without accommodation "yes"', () => {
+    const allocations = allocateStays([
+      response('declined', {}, { status: 'Declined' }),
+      response('no', {}, { details: { accommodation: 'no', stay: { nights: ['friday'], roomType: 'village', guestIds: [] } } }),
+      response('none', null),
+    ]);
+    expect(allocations).toEqual([]);
+  });
+});
+
+test.describe('rooming list', () => {
+  test('lists allocated rooms by type, then the waitlist, with current names', () => {
+    const rows = buildRoomingList(
+      [
+        {
+          responseId: 'w',
+          stay: { nights: ['saturday'], roomType: 'village', guestIds: ['c'] },
+          requestedAt: '2026-11-03T00:00:00.000Z',
+          status: 'waitlisted',
+          waitlistPosition: 1,
+        },
+        {
+          responseId: 'l',
+          stay: { nights: ['friday', 'saturday'], roomType: 'louisiana', guestIds: ['a', 'b'] },
+          requestedAt: '2026-11-02T00:00:00.000Z',
+          status: 'allocated',
+        },
+        {
+          responseId: 'v',
+          stay: { nights: ['saturday', 'friday'], roomType: 'village', guestIds: ['c'] },
+          requestedAt: '2026-11-04T00:00:00.000Z',
+          status: 'allocated',
+        },
+      ],
+      [guest('a', 'Ana'), guest('b', 'Ben, Jr.'), guest('c', 'Cléo')]
+    );
+    expect(rows.map((row) => [row.status, row.roomType, row.nights, row.guests])).toEqual([
+      ['allocated', 'village', ['friday', 'saturday'], ['Cléo']],
+      ['allocated', 'louisiana', ['friday', 'saturday'], ['Ana', 'Ben, Jr.']],
+      ['waitlisted', 'village', ['saturday'], ['Cléo']],
+    ]);
+    expect(roomingListCsv(rows).split('\n')).toEqual([
+      'Status,Waitlist,Room Type,Friday,Saturday,Guests,Estimate (EUR),Requested At',
+      'Allocated,,Village Rooms (Limited Availability),x,x,Cléo,150,2026-11-04T00:00:00.000Z',
+      'Allocated,,Louisiana Train Cars,x,x,"Ana; Ben, Jr.",300,2026-11-02T00:00:00.000Z',
+      'Waitlisted,1,Village Rooms (Limited Availability),,x,Cléo,75,2026-11-03T00:00:00.000Z',
+      '',
+    ]);
+  });
+
+  test('collapses party responses and leaves test guests out', () => {
+    const shared = response('shared', {}, { guestIds: ['a', 'b'] });
+    const latest = new Map<string, RSVPResponse[]>([
+      ['a', [shared]],
+      ['b', [shared, response('nyc', null, { event: 'nyc' })]],
+      ['t', [response('test', {})]],
+    ]);
+    const responses = latestFranceResponses(
+      [guest('a', 'Ana'), guest('b', 'Ben'), guest('t', 'Alex Rivera')],
+      latest
+    );
+    expect(responses.map((r) => r.id)).toEqual(['shared']);
+  });
+});
+
+test.describe('room inventory', () => {
+  test.afterEach(() => {
+    delete process.env.FRANCE_ROOM_INVENTORY;
+  });
+
+  test('takes confirmed counts from FRANCE_ROOM_INVENTORY, keeping the defaults elsewhere', () => {
+    process.env.FRANCE_ROOM_INVENTORY = JSON.stringify({ louisiana: { rooms: 1, sleeps: 3 } });
+    expect(roomTypes()).toEqual([
+      { id: 'village', sleeps: 2, rooms: 10 },
+      { id: 'orient', sleeps: 2, rooms: 8 },
+      { id: 'louisiana', sleeps: 3, rooms: 1 },
+    ]);
+    const allocations = allocateStays([response('r1', {}), response('r2', {})]);
+    expect(allocations.map((allocation) => allocation.status)).toEqual(['allocated', 'waitlisted']);
+    expect(roomAvailability(allocations).find((type) => type.id === 'louisiana')?.remaining).toEqual({
+      friday: 0,
+      saturday: 0,
+    });
+  });
+
+  test('ignores a malformed setting', () => {
+    process.env.FRANCE_ROOM_INVENTORY = JSON.stringify({ village: { rooms: -1, view: 'sea' }, attic: { rooms: 2 } });
+    expect(roomTypes().find((type) => type.id === 'village')?.rooms).toBe(10);
+    process.env.FRANCE_ROOM_INVENTORY = '{not json';
+    expect(roomTypes().map((type) => type.rooms)).toEqual([10, 8, 6]);
+  });
+});
@@ -4,6 +4,7 @@
  * Tests auth enforcement and input validation for:
  *   POST /api/admin/send-stds
  *   POST /api/admin/send-email
+ *   GET  /api/admin/allergens, arrivals, accommodation, shuttles (the exports)
  *
  * Actual email delivery is skipped because FEATURE_GLOBAL_EMAIL_ENABLED
  * is not set in the test environment (defaults to false), so the endpoints
@@ -11,12 +12,12 @@
  */
 
 import { test, expect } from '@playwright/test';
+import { LOCAL_DATA_STORE } from './fixtures';
 
 // Admin endpoints require Notion backend to fetch guests
 const notionRequired =
   process.env.FEATURE_GLOBAL_NOTION_BACKEND !== 'true' ||
-  !process.env.NOTION_API_KEY ||
-  !process.env.NOTION_GUEST_LIST_DB;
+  (!LOCAL_DATA_STORE && (!process.env.NOTION_API_KEY || !process.env.NOTION_GUEST_LIST_DB));
 
 const ADMIN_SECRET = process.env.RESEND_ADMIN_SECRET ?? 'test-secret-not-set';
 
@@ -129,3 +130,42 @@ test.describe('Admin: send-email', () => {
     expect(typeof body.noEmail).toBe('number');
   });
 });
+
+// The caterer, pickup, Village and coach operator exports: each takes an
+// optional format=csv and rejects anything it does not know before reading.
+const EXPORTS = [
+  { path: '/api/admin/allergens?event=france', invalid: '/api/admin/allergens?event=invalid', csv: 'allergens-france.csv' },
+  { path: '/api/admin/arrivals?event=france', invalid: '/api/admin/arrivals?event=france&type=layover', csv: 'arrivals-france.csv' },
+  { path: '/api/admin/accommodation', invalid: '/api/admin/accommodation?format=xlsx', csv: 'rooming-list-france.csv' },
+  { path: '/api/admin/shuttles', invalid: '/api/admin/shuttles?leg=nowhere', csv: 'shuttle-manifest-france.csv' },
+];
+
+test.describe('Admin: exports', () => {
+  test.skip(notionRequired, 'Notion backend required for admin endpoint tests');
+
+  for (const { path, invalid, csv } of EXPORTS) {
+    test(`${path} returns 401 without the admin secret`, async ({ request }) => {
+      expect((await request.get(path)).status()).toBe(401);
+      const res = await request.get(path, { headers: { Authorization: 'Bearer wrong-secret' } });
+      expect(res.status()).toBe(401);
+    });
+
+    test(`${path} returns 400 for ${invalid.split('?')[1]}`, async ({ request }) => {
+      const res = await request.get(invalid, { headers: { Authorization: `Bearer ${ADMIN_SECRET}` } });
+      expect(res.status()).toBe(400);
+      expect((await res.json()).error).toBeTruthy();
+    });
+
+    test(`${path} returns JSON, and CSV with format=csv`, async ({ request }) => {
+      const headers = { Authorization: `Bearer ${ADMIN_SECRET}` };
+      const res = await request.get(path, { headers });
+      expect(res.status()).toBe(200);
+      expect(res.headers()['content-type']).toContain('application/json');
+
+      const sheet = await request.get(`${path}${path.includes('?') ? '&' : '?'}format=csv`, { headers });
+      expect(sheet.status()).toBe(200);
+      expect(sheet.headers()['content-type']).toContain('text/csv');
+      expect(sheet.headers()['content-disposition']).toContain(csv);
+    });
+  }
+});
@@ -0,0 +1,132 @@
+import { test, expect } from '@playwright/test';
+import {
+  EU_ALLERGENS,
+  formatDietaryNeeds,
+  formatPartyDietary,
+  validateDietaryByGuest,
+  buildAllergenMatrix,
+  allergenMatrixCsv,
+} from '../src/lib/allergens';
+import type { EventRecord, GuestDietary } from '../src/types';
+import { mockPartyRSVPResponse } from './fixtures';
+
+/**
+ * Unit-style tests for per-guest EU allergens: validating a submission,
+ * the Dietary Needs text written back to Notion, and the caterer's matrix.
+ */
+
+const DINNER: EventRecord = {
+  id: 'dinner',
+  name: 'Dinner & Dancing',
+  type: 'Core',
+  wedding: 'france',
+  showOnWebsite: true,
+};
+const BRUNCH: EventRecord = {
+  id: 'brunch',
+  name: 'Farewell Brunch',
+  type: 'Core',
+  wedding: 'france',
+  showOnWebsite: true,
+};
+
+const PARTY = [
+  { id: 'a', name: 'Ana' },
+  { id: 'b', name: 'Ben' },
+];
+
+test.describe('dietary text', () => {
+  test('covers all 14 EU allergens', () => {
+    expect(new Set(EU_ALLERGENS).size).toBe(14);
+  });
+
+  test('summarize one guest in Annex II order, localized', () => {
+    const entry: GuestDietary = { guestId: 'a', allergens: ['milk', 'peanuts'], vegetarian: true, note: ' no coriander ' };
+    expect(formatDietaryNeeds(entry)).toBe('Vegetarian; Allergens: Peanuts, Milk; no coriander');
+    expect(formatDietaryNeeds(entry, 'fr')).toBe('Végétarien; Allergènes: Arachides, Lait; no coriander');
+    expect(formatDietaryNeeds({ guestId: 'a', allergens: [] })).toBe('');
+    expect(formatDietaryNeeds(undefined)).toBe('');
+  });
+
+  test('summarize a party in party order, skipping members with no needs', () => {
+    const entries: GuestDietary[] = [
+      { guestId: 'b', allergens: ['sesame'], halal: true },
+      { guestId: 'a', allergens: [] },
+    ];
+    expect(formatPartyDietary(entries, PARTY)).toBe('Ben: Halal; Allergens: Sesame');
+    expect(formatPartyDietary(undefined, PARTY)).toBe('');
+  });
+});
+
+test.describe('dietary validation', () => {
+  const input = { attendingGuestIds: ['a', 'b'] };
+
+  test('accepts entries for some or all attending members', () => {
+    expect(validateDietaryByGuest(undefined, input)).toBeNull();
+    expect(validateDietaryByGuest([], input)).toBeNull();
+    expect(
+      validateDietaryByGuest([{ guestId: 'a', allergens: ['eggs'], vegan: true, note: 'Severe' }], input)
+    ).toBeNull();
+  });
+
+  test('rejects other guests, unknown allergens and malformed entries', () => {
+    expect(validateDietaryByGuest({ a: [] }, input)).toMatch(/array/);
+    expect(validateDietaryByGuest([{ guestId: 'z', allergens: [] }], input)).toMatch(/not attending/);
+    expect(
+      validateDietaryByGuest([{ guestId: 'a', allergens: [] }, { guestId: 'a', allergens: [] }], input)
+    ).toMatch(/more than one/);
+    expect(validateDietaryByGuest([{ guestId: 'a', allergens: ['kiwi'] }], input)).toMatch(/unknown allergen/);
+    expect(validateDietaryByGuest([{ guestId: 'a', allergens: ['fish', 'fish'] }], input)).toMatch(/twice/);
+    expect(validateDietaryByGuest([{ guestId: 'a', allergens: [], halal: 'yes' }], input)).toMatch(/halal/);
+    expect(validateDietaryByGuest([{ guestId: 'a', allergens: [], note: 'x'.repeat(501) }], input)).toMatch(/too long/);
+  });
+});
+
+test.describe('allergen matrix', () => {
+  const responses = [
+    mockPartyRSVPResponse({
+      id: 'r1',
+      details: {
+        dietaryByGuest: [
+          { guestId: 'a', allergens: ['peanuts', 'milk'] },
+          { guestId: 'b', allergens: [], vegetarian: true, note: 'No "spicy", please' },
+        ],
+      },
+    }),
+    // Cy skips brunch, and Dee is not attending — her stale entry is ignored.
+    mockPartyRSVPResponse({
+      id: 'r2',
+      eventsAttending: ['dinner'],
+      attendanceById: { c: true, d: false },
+      details: {
+        dietaryByGuest: [
+          { guestId: 'c', allergens: ['peanuts'] },
+          { guestId: 'd', allergens: ['fish'] },
+        ],
+      },
+    }),
+    // Free-text response from before per-guest allergens.
+    mockPartyRSVPResponse({ id: 'r3', attendanceById: { e: true }, dietary: 'Nut allergy' }),
+    mockPartyRSVPResponse({ id: 'r4', status: 'Declined', eventsAttending: [] }),
+  ];
+  const guests = [...PARTY, { id: 'c', name: 'Cy' }, { id: 'd', name: 'Dee' }, { id: 'e', name: 'Eve' }];
+
+  test('count attending guests per allergen and diet, per event', () => {
+    const [dinner, brunch] = buildAllergenMatrix([DINNER, BRUNCH], responses, guests);
+
+    expect(dinner.totals).toMatchObject({ peanuts: 2, milk: 1, fish: 0, vegetarian: 1, halal: 0 });
+    expect(dinner.guests.map((row) => row.name)).toEqual(['Ana', 'Ben', 'Cy']);
+    expect(dinner.unanswered).toBe(1);
+
+    expect(brunch.totals.peanuts).toBe(1);
+    expect(brunch.guests.map((row) => row.name)).toEqual(['Ana', 'Ben']);
+  });
+
+  test('export one CSV row per event and guest', () => {
+    const csv = allergenMatrixCsv(buildAllergenMatrix([DINNER], responses, guests));
+    const lines = csv.trim().split('\n');
+    expect(lines[0]).toMatch(/^Event,Guest,Gluten,Crustaceans,.*,Vegetarian,Vegan,Halal,Note$/);
+    expect(lines).toHaveLength(4);
+    expect(lines[2]).toBe('Dinner & Dancing,Ben,,,,,,,,,,,,,,,x,,,"No ""spicy"", please"');
+  });
+});
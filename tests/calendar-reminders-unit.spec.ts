@@ -0,0 +1,81 @@
+import { test, expect } from '@playwright/test';
+import { buildICS, parseReminders, type EventWithDate } from '../src/lib/calendar';
+import {
+  reminderOptOuts,
+  remindersEnabled,
+  resetCalendarPreferencesTestStore,
+  setRemindersEnabled,
+} from '../src/lib/calendar-preferences';
+
+/**
+ * Unit-style tests for calendar reminders: reading the Event Catalog's
+ * Reminders, the VALARMs buildICS emits, and the guest opt-out store.
+ */
+
+const CEREMONY: EventWithDate = {
+  id: 'event-ceremony',
+  name: 'Ceremony',
+  nameFr: 'Cérémonie',
+  type: 'Core',
+  wedding: 'france',
+  date: '2027-05-29',
+  startTime: '4:00 PM',
+  showOnWebsite: true,
+  reminders: [1440, 150],
+};
+
+test.afterEach(() => {
+  delete process.env.CALENDAR_TEST_MODE;
+  resetCalendarPreferencesTestStore();
+});
+
+test.describe('parseReminders', () => {
+  test('reads days, hours and minutes, longest first', () => {
+    expect(parseReminders('2 hours before, 1 day before')).toEqual([1440, 120]);
+    expect(parseReminders('30m\n1w')).toEqual([10080, 30]);
+    expect(parseReminders('1d, 24h')).toEqual([1440]);
+  });
+
+  test('an empty cell has none; one unreadable entry voids the list', () => {
+    expect(parseReminders(undefined)).toBeUndefined();
+    expect(parseReminders('  ')).toBeUndefined();
+    expect(parseReminders('1 day, soon')).toBeUndefined();
+    expect(parseReminders('0h')).toBeUndefined();
+  });
+});
+
+test.describe('buildICS reminders', () => {
+  test('emits one display VALARM per reminder inside the VEVENT', () => {
+    const ics = buildICS([CEREMONY]);
+    expect(ics.match(/BEGIN:VALARM/g)).toHaveLength(2);
+    expect(ics).toContain('TRIGGER:-P1D');
+    expect(ics).toContain('TRIGGER:-PT2H30M');
+    expect(ics).toContain('ACTION:DISPLAY');
+    expect(ics).toContain('DESCRIPTION:Reminder: Ceremony');
+    expect(ics.indexOf('END:VALARM')).toBeLessThan(ics.indexOf('END:VEVENT'));
+  });
+
+  test('alarm text follows the calendar language', () => {
+    expect(buildICS([CEREMONY], 'fr')).toContain(': Cérémonie');
+  });
+
+  test('an opted-out guest gets no alarms', () => {
+    expect(buildICS([CEREMONY], 'en', { reminders: false })).not.toContain('VALARM');
+  });
+});
+
+test.describe('reminder opt-outs', () => {
+  test('guests get reminders until they opt out, and can opt back in', async () => {
+    process.env.CALENDAR_TEST_MODE = 'true';
+    expect(await remindersEnabled('ana')).toBe(true);
+
+    await setRemindersEnabled('ana', false);
+    await setRemindersEnabled('ben', false);
+    expect(await remindersEnabled('ana')).toBe(false);
+    expect(await reminderOptOuts()).toEqual(new Set(['ana', 'ben']));
+
+    await setRemindersEnabled('ana', true);
+    expect(await remindersEnabled('ana')).toBe(true);
+    expect(await reminderOptOuts()).toEqual(new Set(['ben']));
+  });
+});
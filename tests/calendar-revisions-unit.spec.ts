@@ -0,0 +1,102 @@
+import { test, expect } from '@playwright/test';
+import { buildICS, type EventWithDate } from '../src/lib/calendar';
+import { describeChange, reviseCalendar, scheduleUpdatedEmail } from '../src/lib/calendar-revisions';
+
+/**
+ * Unit-style tests for calendar change tracking: SEQUENCE bumps, cancelled
+ * events, and the "Schedule updated" email lines.
+ */
+
+const DINNER: EventWithDate = {
+  id: 'dinner',
+  name: 'Welcome Dinner',
+  type: 'Core',
+  wedding: 'france',
+  date: '2027-05-28',
+  startTime: '7:00 PM',
+  duration: '3h',
+  location: 'Village Square',
+  showOnWebsite: true,
+};
+const BRUNCH: EventWithDate = {
+  id: 'brunch',
+  name: 'Brunch',
+  nameFr: 'Brunch du dimanche',
+  type: 'Optional',
+  wedding: 'france',
+  date: '2027-05-30',
+  showOnWebsite: true,
+};
+
+const T0 = new Date('2027-04-01T00:00:00Z');
+const T1 = new Date('2027-04-02T00:00:00Z');
+const T2 = new Date('2027-04-03T00:00:00Z');
+
+test.describe('reviseCalendar', () => {
+  test('the first build is a baseline at SEQUENCE 0', () => {
+    const { revisions, changes } = reviseCalendar(null, [DINNER, BRUNCH], T0);
+    expect(changes).toEqual([]);
+    expect(revisions.history).toEqual([]);
+    expect(revisions.events.dinner).toMatchObject({ sequence: 0, lastModified: T0.toISOString() });
+  });
+
+  test('a new time or location bumps SEQUENCE; a new name alone does not', () => {
+    const base = reviseCalendar(null, [DINNER], T0).revisions;
+    const renamed = reviseCalendar(base, [{ ...DINNER, name: 'Dinner on the Square' }], T1);
+    expect(renamed.changes).toEqual([]);
+    expect(renamed.revisions.events.dinner).toMatchObject({ sequence: 0, snapshot: { name: 'Dinner on the Square' } });
+
+    const moved = reviseCalendar(base, [{ ...DINNER, startTime: '8:00 PM' }], T1);
+    expect(moved.changes.map((change) => change.kind)).toEqual(['updated']);
+    expect(moved.revisions.events.dinner).toMatchObject({ sequence: 1, lastModified: T1.toISOString() });
+    expect(moved.revisions.history).toHaveLength(1);
+  });
+
+  test('a dropped event is cancelled, and bumped again if it returns', () => {
+    const base = reviseCalendar(null, [DINNER, BRUNCH], T0).revisions;
+    const dropped = reviseCalendar(base, [DINNER], T1);
+    expect(dropped.changes).toMatchObject([{ eventId: 'brunch', kind: 'cancelled' }]);
+    expect(dropped.revisions.events.brunch).toMatchObject({ sequence: 1, cancelled: true });
+
+    // Unchanged again: nothing new to report, still cancelled
+    expect(reviseCalendar(dropped.revisions, [DINNER], T2).changes).toEqual([]);
+
+    const back = reviseCalendar(dropped.revisions, [DINNER, BRUNCH], T2);
+    expect(back.changes).toMatchObject([{ eventId: 'brunch', kind: 'added' }]);
+    expect(back.revisions.events.brunch).toMatchObject({ sequence: 2 });
+    expect(back.revisions.events.brunch.cancelled).toBeUndefined();
+  });
+});
+
+test.describe('buildICS with revisions', () => {
+  test('carries SEQUENCE and LAST-MODIFIED, and emits cancelled events', () => {
+    const base = reviseCalendar(null, [DINNER, BRUNCH], T0).revisions;
+    const { revisions } = reviseCalendar(base, [{ ...DINNER, location: 'Town Hall' }], T1);
+    const ics = buildICS([{ ...DINNER, location: 'Town Hall' }], 'fr', { revisions });
+
+    expect(ics).toContain('SEQUENCE:1');
+    expect(ics).toContain('LAST-MODIFIED:20270402T000000Z');
+    const cancelled = ics.slice(ics.indexOf('UID:brunch@sargaux.com'));
+    expect(cancelled).toContain('STATUS:CANCELLED');
+    expect(cancelled).toContain('SUMMARY:Brunch du dimanche');
+    expect(cancelled).toContain('DTSTART;VALUE=DATE:20270530');
+  });
+
+  test('without revisions the feed is unchanged', () => {
+    expect(buildICS([DINNER])).not.toContain('SEQUENCE');
+  });
+});
+
+test.describe('schedule update email', () => {
+  test('lists exactly what changed', () => {
+    const base = reviseCalendar(null, [DINNER, BRUNCH], T0).revisions;
+    const { changes } = reviseCalendar(base, [{ ...DINNER, startTime: '8:00 PM', location: 'Town Hall' }], T1);
+    expect(changes.map(describeChange)).toEqual([
+      'Changed: Welcome Dinner — Fri, May 28, 7:00 PM → Fri, May 28, 8:00 PM; Village Square → Town Hall',
+      'Removed: Brunch (was Sun, May 30)',
+    ]);
+    const email = scheduleUpdatedEmail('Ana Martin', changes);
+    expect(email.subject).toBe('Schedule updated');
+    expect(email.text).toContain('Removed: Brunch');
+  });
+});
@@ -0,0 +1,100 @@
+import { test, expect } from '@playwright/test';
+import { generateToken, signToken, verifyToken } from '../src/lib/calendar';
+import {
+  acceptsGeneration,
+  calendarLinkReissuedEmail,
+  reissueTokenGeneration,
+  resetCalendarTokensTestStore,
+} from '../src/lib/calendar-tokens';
+
+/**
+ * Unit-style tests for calendar token rotation: per-guest generations, the
+ * grace window after a reissue, and the key ring for the global secret.
+ */
+
+const SECRET = 'test-hmac-secret-for-unit-tests';
+const GUEST_ID = 'abc123-test-notion-page-id';
+const T0 = new Date('2027-04-01T12:00:00Z');
+
+test.beforeEach(() => {
+  process.env.CALENDAR_TEST_MODE = 'true';
+  process.env.CALENDAR_HMAC_SECRET = SECRET;
+});
+
+test.afterEach(() => {
+  delete process.env.CALENDAR_TEST_MODE;
+  delete process.env.CALENDAR_HMAC_PREVIOUS_SECRETS;
+  process.env.CALENDAR_HMAC_SECRET = SECRET;
+  resetCalendarTokensTestStore();
+});
+
+test.describe('Token generations', () => {
+  test('a guest never reissued keeps the original token format', async () => {
+    const token = await generateToken(GUEST_ID);
+    expect(token.split('.')).toHaveLength(2);
+    expect(token).toBe(signToken(GUEST_ID, 0));
+  });
+
+  test('a reissue signs a new generation and keeps the old one for the grace window', async () => {
+    const original = await generateToken(GUEST_ID);
+    const state = await reissueTokenGeneration(GUEST_ID, 48, T0);
+    expect(state).toMatchObject({ generation: 1, previous: { generation: 0, validUntil: '2027-04-03T12:00:00.000Z' } });
+
+    const reissued = await generateToken(GUEST_ID);
+    expect(reissued.split('.')[1]).toBe('1');
+    expect(await verifyToken(reissued, T0)).toBe(GUEST_ID);
+    expect(await verifyToken(original, new Date('2027-04-03T11:59:00Z'))).toBe(GUEST_ID);
+    expect(await verifyToken(original, new Date('2027-04-03T12:00:00Z'))).toBeNull();
+  });
+
+  test('a revocation with no grace ends the old link at once; older generations never return', async () => {
+    const original = await generateToken(GUEST_ID);
+    await reissueTokenGeneration(GUEST_ID, 0, T0);
+    expect(await verifyToken(original, T0)).toBeNull();
+
+    const first = await generateToken(GUEST_ID);
+    const state = await reissueTokenGeneration(GUEST_ID, 48, T0);
+    expect(state.generation).toBe(2);
+    expect(await verifyToken(first, T0)).toBe(GUEST_ID);
+    expect(acceptsGeneration(state, 0, T0)).toBe(false);
+  });
+
+  test('a generation can not be forged or written as zero', async () => {
+    const token = signToken(GUEST_ID, 1);
+    const [encoded, , hmac] = token.split('.');
+    expect(await verifyToken(`${encoded}.2.${hmac}`)).toBeNull();
+    expect(await verifyToken(`${encoded}.0.${signToken(GUEST_ID, 0).split('.')[1]}`)).toBeNull();
+    // Not yet reissued: generation 1 is not the guest's current one
+    expect(await verifyToken(token)).toBeNull();
+  });
+});
+
+test.describe('Key ring', () => {
+  test('links signed with a retired secret keep verifying; new links use the current one', async () => {
+    const old = await generateToken(GUEST_ID);
+    process.env.CALENDAR_HMAC_PREVIOUS_SECRETS = SECRET;
+    process.env.CALENDAR_HMAC_SECRET = 'rotated-secret';
+
+    expect(await verifyToken(old)).toBe(GUEST_ID);
+    const current = await generateToken(GUEST_ID);
+    expect(current).not.toBe(old);
+    expect(await verifyToken(current)).toBe(GUEST_ID);
+
+    delete process.env.CALENDAR_HMAC_PREVIOUS_SECRETS;
+    expect(await verifyToken(old)).toBeNull();
+  });
+});
+
+test.describe('New link email', () => {
+  test('says when the previous link stops working', async () => {
+    const withGrace = await reissueTokenGeneration(GUEST_ID, 48, T0);
+    const email = calendarLinkReissuedEmail('Ana Martin', 'https://sargaux.com/api/calendar/x.ics', withGrace);
+    expect(email.subject).toBe('Your new calendar link');
+    expect(email.text).toContain('keeps working until Sat, 03 Apr 2027 12:00:00 GMT');
+
+    const revoked = await reissueTokenGeneration(GUEST_ID, 0, T0);
+    expect(calendarLinkReissuedEmail('Ana Martin', 'https://sargaux.com/api/calendar/x.ics', revoked).text).toContain(
+      'Your previous link no longer works.'
+    );
+  });
+});
@@ -4,8 +4,17 @@
  */
 
 import { test, expect } from '@playwright/test';
-import { generateToken, verifyToken, buildICS, parseTime, parseDuration } from '../src/lib/calendar';
+import {
+  generateToken,
+  signToken,
+  verifyToken,
+  buildICS,
+  parseTime,
+  parseDuration,
+  eventCalendarLinks,
+} from '../src/lib/calendar';
 import type { EventWithDate } from '../src/lib/calendar';
+import { localizeEvent } from '../src/lib/event-i18n';
 
 const TEST_SECRET = 'test-hmac-secret-for-unit-tests';
 const TEST_GUEST_ID = 'abc123-test-notion-page-id';
@@ -103,10 +112,34 @@ test.describe('buildICS', () => {
     expect(ics).toContain('DTEND;TZID=America/New_York:20261011T233000');
   });
 
-  test('a midnight-crossing event is clamped to 23:59', () => {
+  test('a midnight-crossing duration ends the next morning', () => {
     const allNighter: EventWithDate = { ...NYC_EVENT, startTime: '11:00 PM', duration: '3h' };
     const ics = buildICS([allNighter]);
-    expect(ics).toContain('DTEND;TZID=America/New_York:20261011T235900');
+    expect(ics).toContain('DTEND;TZID=America/New_York:20261012T020000');
+  });
+
+  test('an End Time before the start is the next morning, in the event TZID', () => {
+    const reception: EventWithDate = { ...FRANCE_EVENT, startTime: '6:30 PM', endTime: '2:00 AM', duration: '5h' };
+    const ics = buildICS([reception]);
+    expect(ics).toContain('DTSTART;TZID=Europe/Paris:20270528T183000');
+    expect(ics).toContain('DTEND;TZID=Europe/Paris:20270529T020000');
+  });
+
+  test('an End Date spans several days, timed or all-day', () => {
+    const stay: EventWithDate = { ...FRANCE_EVENT, startTime: '3:00 PM', endDate: '2027-05-30', endTime: '11:00 AM' };
+    expect(buildICS([stay])).toContain('DTEND;TZID=Europe/Paris:20270530T110000');
+
+    // No End Time: through the end of the End Date
+    const open: EventWithDate = { ...stay, endTime: undefined };
+    expect(buildICS([open])).toContain('DTEND;TZID=Europe/Paris:20270531T000000');
+
+    const allDay: EventWithDate = { ...FRANCE_EVENT, endDate: '2027-05-30' };
+    const ics = buildICS([allDay]);
+    expect(ics).toContain('DTSTART;VALUE=DATE:20270528');
+    expect(ics).toContain('DTEND;VALUE=DATE:20270531');
+
+    // An End Date before the start is ignored
+    expect(buildICS([{ ...FRANCE_EVENT, endDate: '2027-05-27' }])).toContain('DTEND;VALUE=DATE:20270529');
   });
 
   test('emits a VTIMEZONE for each TZID actually referenced', () => {
@@ -201,25 +234,73 @@ test.describe('buildICS — French localization', () => {
   });
 });
 
+test.describe('eventCalendarLinks', () => {
+  test('Google links keep local times in the event time zone', () => {
+    const links = eventCalendarLinks(NYC_EVENT, 'en', null)!;
+    const google = new URL(links.google);
+    expect(google.searchParams.get('text')).toBe('Wedding Dinner');
+    expect(google.searchParams.get('dates')).toBe('20261011T180000/20261011T210000');
+    expect(google.searchParams.get('ctz')).toBe('America/New_York');
+    expect(google.searchParams.get('location')).toBe('The Venue, New York');
+  });
+
+  test('Outlook links carry UTC instants; all-day events stay dates', () => {
+    const outlook = new URL(eventCalendarLinks(NYC_EVENT, 'en', null)!.outlook);
+    expect(outlook.host).toBe('outlook.live.com');
+    expect(outlook.searchParams.get('startdt')).toBe('2026-10-11T22:00:00.000Z');
+    expect(outlook.searchParams.get('enddt')).toBe('2026-10-12T01:00:00.000Z');
+
+    const allDay = new URL(eventCalendarLinks(FRANCE_EVENT, 'en', null)!.office365);
+    expect(allDay.host).toBe('outlook.office.com');
+    expect(allDay.searchParams.get('startdt')).toBe('2027-05-28');
+    expect(allDay.searchParams.get('enddt')).toBe('2027-05-29');
+    expect(allDay.searchParams.get('allday')).toBe('true');
+  });
+
+  test('the .ics download is signed with the guest token and keeps the language', () => {
+    const token = signToken(TEST_GUEST_ID, 0);
+    expect(eventCalendarLinks(FRANCE_EVENT, 'fr', token)!.ics).toBe(
+      `https://sargaux.com/api/calendar/${token}/event-france-1.ics?lang=fr`
+    );
+    expect(eventCalendarLinks(FRANCE_EVENT, 'fr', null)!.ics).toBeNull();
+  });
+
+  test('links are localized and undated events get none', () => {
+    const google = new URL(
+      eventCalendarLinks({ ...NYC_EVENT, nameFr: 'Dîner de mariage' }, 'fr', null)!.google
+    );
+    expect(google.searchParams.get('text')).toBe('Dîner de mariage');
+    expect(eventCalendarLinks({ ...NYC_EVENT, date: undefined }, 'en', null)).toBeNull();
+  });
+});
+
 test.describe('generateToken / verifyToken', () => {
-  test('verifyToken recovers the guestId from a valid token', () => {
-    const token = generateToken(TEST_GUEST_ID);
-    expect(verifyToken(token)).toBe(TEST_GUEST_ID);
+  // Token generations are read from the in-memory store
+  test.beforeEach(() => {
+    process.env.CALENDAR_TEST_MODE = 'true';
+  });
+  test.afterEach(() => {
+    delete process.env.CALENDAR_TEST_MODE;
+  });
+
+  test('verifyToken recovers the guestId from a valid token', async () => {
+    const token = await generateToken(TEST_GUEST_ID);
+    expect(await verifyToken(token)).toBe(TEST_GUEST_ID);
   });
 
-  test('verifyToken returns null for a tampered HMAC', () => {
-    const token = generateToken(TEST_GUEST_ID);
+  test('verifyToken returns null for a tampered HMAC', async () => {
+    const token = await generateToken(TEST_GUEST_ID);
     const dot = token.indexOf('.');
     const tampered = token.slice(0, dot + 1) + 'a'.repeat(32);
-    expect(verifyToken(tampered)).toBeNull();
+    expect(await verifyToken(tampered)).toBeNull();
   });
 
-  test('verifyToken returns null for a token with no dot', () => {
-    expect(verifyToken('notavalidtoken')).toBeNull();
+  test('verifyToken returns null for a token with no dot', async () => {
+    expect(await verifyToken('notavalidtoken')).toBeNull();
   });
 
-  test('verifyToken returns null for an empty string', () => {
-    expect(verifyToken('')).toBeNull();
+  test('verifyToken returns null for an empty string', async () => {
+    expect(await verifyToken('')).toBeNull();
   });
 });
 
@@ -267,3 +348,24 @@ test.describe('parseDuration', () => {
     expect(parseDuration('invalid')).toBeUndefined();
   });
 });
+
+test.describe('localizeEvent time ranges', () => {
+  test('an event past midnight shows where it ends', () => {
+    const dancing: EventWithDate = { ...NYC_EVENT, time: '9:30 PM', timeFr: '21 h 30', startTime: '9:30 PM', endTime: '1:00 AM' };
+    expect(localizeEvent(dancing, 'en').time).toBe('9:30 PM – 1:00 AM');
+    expect(localizeEvent(dancing, 'fr').time).toBe('21 h 30 – 1 h');
+    // Ending the same day, or written as a range already: shown as written
+    expect(localizeEvent({ ...dancing, endTime: '11:30 PM' }, 'en').time).toBe('9:30 PM');
+    expect(localizeEvent({ ...dancing, time: '9:30 PM–1 AM' }, 'en').time).toBe('9:30 PM–1 AM');
+  });
+
+  test('a multi-day event shows its last day', () => {
+    const stay: EventWithDate = { ...FRANCE_EVENT, time: '3:00 PM', startTime: '3:00 PM', endDate: '2027-05-30', endTime: '11:00 AM' };
+    expect(localizeEvent(stay, 'en').time).toBe('3:00 PM – Sun, May 30, 11:00 AM');
+    expect(localizeEvent({ ...stay, endTime: undefined }, 'en').time).toBe('3:00 PM – Sun, May 30');
+
+    const allDay: EventWithDate = { ...FRANCE_EVENT, endDate: '2027-05-30' };
+    expect(localizeEvent(allDay, 'en').time).toBe('Fri, May 28 – Sun, May 30');
+    expect(localizeEvent(allDay, 'fr').time).toBe('ven. 28 mai – dim. 30 mai');
+  });
+});
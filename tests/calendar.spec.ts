@@ -39,8 +39,8 @@ test.describe('Calendar endpoint (mock blob store)', () => {
   let unknownToken: string;
 
   test.beforeAll(async ({ request }) => {
-    validToken = generateToken(TEST_GUEST_ID);
-    unknownToken = generateToken(UNKNOWN_GUEST_ID);
+    validToken = await generateToken(TEST_GUEST_ID);
+    unknownToken = await generateToken(UNKNOWN_GUEST_ID);
     const testICS = buildICS([TEST_EVENT]);
 
     // Seed the mock blob store via the test-seed endpoint
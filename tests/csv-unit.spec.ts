@@ -0,0 +1,30 @@
+import { test, expect } from '@playwright/test';
+import { csvCell, csvSheet } from '../src/lib/csv';
+
+/**
+ * Unit-style tests for the CSV sheets behind the admin exports: quoting, and
+ * guest-typed text that a spreadsheet would otherwise run as a formula.
+ */
+
+test.describe('CSV', () => {
+  test('quotes cells holding a quote, comma or line break', () => {
+    expect(csvCell('Ana')).toBe('Ana');
+    expect(csvCell('Ben, Jr.')).toBe('"Ben, Jr."');
+    expect(csvCell('No "spicy"')).toBe('"No ""spicy"""');
+    expect(csvCell('two\nlines')).toBe('"two\nlines"');
+  });
+
+  test('writes would-be formulas as text', () => {
+    expect(csvCell('=HYPERLINK("https://example.com","x")')).toBe('"\'=HYPERLINK(""https://example.com"",""x"")"');
+    expect(csvCell('+33 6 12 34 56 78')).toBe("'+33 6 12 34 56 78");
+    expect(csvCell('-2+3')).toBe("'-2+3");
+    expect(csvCell('@SUM(A1)')).toBe("'@SUM(A1)");
+    expect(csvCell('\t=1')).toBe("'\t=1");
+    // Only a leading sign starts a formula
+    expect(csvCell('Ana-Maria')).toBe('Ana-Maria');
+  });
+
+  test('a sheet is one line per row, ending in a newline', () => {
+    expect(csvSheet([['Guest', 'Note'], ['Ana', '=1+1']])).toBe("Guest,Note\nAna,'=1+1\n");
+  });
+});
@@ -0,0 +1,155 @@
+import { test, expect } from '@playwright/test';
+import {
+  allocateEventSeats,
+  eventAvailability,
+  eventPlacesForParty,
+  eventsRequestedAt,
+  limitedEvents,
+  demotedAllocations,
+  promotedAllocations,
+  waitlistDemotionEmails,
+  waitlistPromotionEmails,
+  withoutWaitlisted,
+} from '../src/lib/event-capacity';
+import type { EventRecord, GuestRecord, RSVPResponse } from '../src/types';
+import { mockRSVPResponse } from './fixtures';
+
+/**
+ * Unit-style tests for optional-event capacity: queue places, the whole-party
+ * seat replay, and the promotions it produces when a place frees up.
+ */
+
+const TASTING: EventRecord = {
+  id: 'tasting',
+  name: 'Cider Tasting',
+  wedding: 'france',
+  type: 'Optional',
+  date: '2026-09-25',
+  showOnWebsite: true,
+  capacity: 4,
+};
+const CEREMONY: EventRecord = {
+  id: 'ceremony',
+  name: 'Ceremony',
+  wedding: 'france',
+  type: 'Core',
+  date: '2026-09-26',
+  showOnWebsite: true,
+};
+const EVENTS = [TASTING, CEREMONY];
+
+function response(id: string, guestIds: string[], requestedAt: string, extra: Partial<RSVPResponse> = {}): RSVPResponse {
+  return mockRSVPResponse({
+    id,
+    guestId: guestIds[0],
+    guestIds,
+    submittedAt: requestedAt,
+    guestsAttending: guestIds.join(', '),
+    eventsAttending: ['tasting', 'ceremony'],
+    details: { eventsRequestedAt: { tasting: requestedAt } },
+    ...extra,
+  });
+}
+
+/** A submission choosing `eventsAttending`, with `attending` members coming (three, as `early`). */
+function answer(eventsAttending: string[], attending = 3) {
+  return {
+    eventsAttending,
+    guestsAttending: Array.from({ length: attending }, (_, i) => ({ name: `Guest ${i + 1}`, attending: true })),
+  };
+}
+
+const early = response('r1', ['a1', 'a2', 'a3'], '2026-06-01T10:00:00.000Z');
+const pair = response('r2', ['b1', 'b2'], '2026-06-02T10:00:00.000Z');
+const single = response('r3', ['c1'], '2026-06-03T10:00:00.000Z');
+
+test.describe('Event capacity', () => {
+  test('only Optional events with a capacity are limited', () => {
+    expect(limitedEvents([...EVENTS, { ...CEREMONY, id: 'open', type: 'Optional' }, { ...CEREMONY, capacity: 10 }])).toEqual([
+      TASTING,
+    ]);
+  });
+
+  test('a re-submission keeps its queue place; a newly chosen event joins the back', () => {
+    const now = new Date('2026-07-01T00:00:00.000Z');
+    expect(eventsRequestedAt(answer(['tasting', 'ceremony']), EVENTS, early, now)).toEqual({
+      tasting: '2026-06-01T10:00:00.000Z',
+    });
+    expect(eventsRequestedAt(answer(['tasting']), EVENTS, { ...early, eventsAttending: ['ceremony'] }, now)).toEqual({
+      tasting: '2026-07-01T00:00:00.000Z',
+    });
+    expect(eventsRequestedAt(answer(['ceremony']), EVENTS, early, now)).toBeUndefined();
+  });
+
+  test('a re-submission with more attending members joins the back', () => {
+    const now = new Date('2026-07-01T00:00:00.000Z');
+    // `early` holds three seats; a fourth member would take one ahead of the queue
+    expect(eventsRequestedAt(answer(['tasting'], 4), EVENTS, early, now)).toEqual({
+      tasting: '2026-07-01T00:00:00.000Z',
+    });
+    expect(eventsRequestedAt(answer(['tasting'], 2), EVENTS, early, now)).toEqual({
+      tasting: '2026-06-01T10:00:00.000Z',
+    });
+  });
+
+  test('waitlists whole parties in queue order; a smaller party can take the last seats', () => {
+    const allocations = allocateEventSeats([single, pair, early], EVENTS);
+    expect(allocations.map((allocation) => [allocation.responseId, allocation.status, allocation.waitlistPosition])).toEqual([
+      ['r1', 'confirmed', undefined],
+      ['r2', 'waitlisted', 1],
+      ['r3', 'confirmed', undefined],
+    ]);
+    expect(eventAvailability(allocations, EVENTS)).toEqual([
+      { id: 'tasting', capacity: 4, confirmed: 4, remaining: 0, waitlisted: 1 },
+    ]);
+  });
+
+  test('a decline promotes the next party and its calendar gains the event', () => {
+    const before = allocateEventSeats([early, pair, single], EVENTS);
+    expect(withoutWaitlisted(pair, before).eventsAttending).toEqual(['ceremony']);
+
+    const after = allocateEventSeats([{ ...early, status: 'Declined', eventsAttending: [] }, pair, single], EVENTS);
+    expect(promotedAllocations(before, after).map((allocation) => allocation.responseId)).toEqual(['r2']);
+    expect(withoutWaitlisted(pair, after)).toBe(pair);
+  });
+
+  test('a smaller capacity demotes the last party in the queue', () => {
+    const before = allocateEventSeats([early, single], EVENTS);
+    const after = allocateEventSeats([early, single], [{ ...TASTING, capacity: 3 }, CEREMONY]);
+    const demoted = demotedAllocations(before, after);
+    expect(demoted.map((allocation) => [allocation.responseId, allocation.waitlistPosition])).toEqual([['r3', 1]]);
+    expect(promotedAllocations(before, after)).toEqual([]);
+
+    const member = { eventInvitations: ['france' as const], isPlusOne: false, relatedGuestIds: [] };
+    const guests: GuestRecord[] = [
+      { ...member, id: 'c1', name: 'Cy Lemaire', normalizedName: 'cy lemaire', email: 'cy@example.com' },
+    ];
+    const [email] = waitlistDemotionEmails(demoted, guests, EVENTS);
+    expect(email.template.subject).toBe('Now on the waitlist: Cider Tasting');
+  });
+
+  test('the form counts places without the party and shows its waitlist place', () => {
+    const places = eventPlacesForParty([early, pair, single], ['b1', 'b2'], pair, EVENTS);
+    expect(places.availability[0]).toMatchObject({ confirmed: 4, remaining: 0 });
+    expect(places.waitlist.get('tasting')).toBe(1);
+
+    const own = eventPlacesForParty([early, pair], ['a1'], early, EVENTS);
+    expect(own.availability[0]).toMatchObject({ confirmed: 2, remaining: 2 });
+    expect(own.waitlist.size).toBe(0);
+  });
+
+  test('promotion emails go once per shared address', () => {
+    const member = { eventInvitations: ['france' as const], isPlusOne: false, relatedGuestIds: [] };
+    const guests: GuestRecord[] = [
+      { ...member, id: 'b1', name: 'Bea Roux', normalizedName: 'bea roux', email: 'roux@example.com' },
+      { ...member, id: 'b2', name: 'Bo Roux', normalizedName: 'bo roux', email: 'ROUX@example.com' },
+    ];
+    const promoted = promotedAllocations(
+      allocateEventSeats([early, pair], EVENTS),
+      allocateEventSeats([pair], EVENTS)
+    );
+    const emails = waitlistPromotionEmails(promoted, guests, EVENTS);
+    expect(emails).toHaveLength(1);
+    expect(emails[0].template.subject).toBe('A place opened up: Cider Tasting');
+  });
+});
@@ -0,0 +1,50 @@
+import { test, expect } from '@playwright/test';
+import { scopeInvitedEvents } from '../src/lib/event-invitations';
+import type { EventRecord } from '../src/types';
+
+function event(id: string, wedding: 'nyc' | 'france', type: 'Core' | 'Optional'): EventRecord {
+  return { id, name: id, wedding, type, showOnWebsite: true };
+}
+
+const CATALOG = [
+  event('nyc-cocktails', 'nyc', 'Core'),
+  event('nyc-dancing', 'nyc', 'Optional'),
+  event('fr-ceremony', 'france', 'Core'),
+  event('fr-giverny', 'france', 'Optional'),
+];
+
+function ids(events: EventRecord[]): string[] {
+  return events.map((e) => e.id);
+}
+
+test.describe('scopeInvitedEvents', () => {
+  test('a party with no explicit list gets every Core event and no optional ones', () => {
+    expect(ids(scopeInvitedEvents(CATALOG, [{}, { eventsInvited: [] }]))).toEqual([
+      'nyc-cocktails',
+      'fr-ceremony',
+    ]);
+  });
+
+  test('an explicit list replaces the fallback for its wedding only', () => {
+    expect(ids(scopeInvitedEvents(CATALOG, [{ eventsInvited: ['nyc-dancing'] }]))).toEqual([
+      'nyc-dancing',
+      'fr-ceremony',
+    ]);
+  });
+
+  test('lists are unioned across the party', () => {
+    const party = [{ eventsInvited: ['nyc-cocktails'] }, { eventsInvited: ['nyc-dancing'] }];
+    expect(ids(scopeInvitedEvents(CATALOG, party))).toEqual([
+      'nyc-cocktails',
+      'nyc-dancing',
+      'fr-ceremony',
+    ]);
+  });
+
+  test('an ID that is not in the catalog does not count as a list', () => {
+    expect(ids(scopeInvitedEvents(CATALOG, [{ eventsInvited: ['deleted-event'] }]))).toEqual([
+      'nyc-cocktails',
+      'fr-ceremony',
+    ]);
+  });
+});
@@ -0,0 +1,119 @@
+import { test, expect } from '@playwright/test';
+import { resetEventWaitlistTestStore, settleEventWaitlists } from '../src/lib/event-waitlists';
+import { generateAndStoreICSForGuest } from '../src/lib/ics-generator';
+import { getEventCatalog } from '../src/lib/data-store';
+import { resetLocalDataStore } from '../src/lib/local-store';
+import type { EventRecord, RSVPResponse } from '../src/types';
+import { mockRSVPResponse } from './fixtures';
+
+/**
+ * Unit-style tests for settling waitlists: the allocation last seen is
+ * compared with the current one, whatever changed it, against the local data
+ * store and an in-memory allocation store.
+ */
+
+const TASTING: EventRecord = {
+  id: 'tasting',
+  name: 'Cider Tasting',
+  wedding: 'france',
+  type: 'Optional',
+  date: '2026-09-25',
+  showOnWebsite: true,
+  capacity: 2,
+};
+
+const ALEX = 'local-guest-alex-rivera';
+const JORDAN = 'local-guest-jordan-chen';
+const SAMIR = 'local-guest-samir-benoit';
+const ODETTE = 'local-guest-odette-vaillant';
+
+function response(id: string, guestIds: string[], requestedAt: string, extra: Partial<RSVPResponse> = {}): RSVPResponse {
+  return mockRSVPResponse({
+    id,
+    guestId: guestIds[0],
+    guestIds,
+    submittedAt: requestedAt,
+    guestsAttending: guestIds.join(', '),
+    eventsAttending: ['tasting'],
+    details: { eventsRequestedAt: { tasting: requestedAt } },
+    ...extra,
+  });
+}
+
+const first = response('r1', [ALEX, JORDAN], '2026-06-01T10:00:00.000Z');
+const second = response('r2', [SAMIR, ODETTE], '2026-06-02T10:00:00.000Z');
+const declined = { ...first, status: 'Declined' as const, eventsAttending: [] };
+
+function settle(responses: RSVPResponse[], answeredBy?: string[], events = [TASTING]) {
+  return settleEventWaitlists('france', { guests: [], responses, events }, { answeredBy });
+}
+
+const unchanged = { promoted: [], demoted: [] };
+
+test.describe('Event waitlists', () => {
+  test.beforeEach(() => {
+    process.env.WEDDING_DATA_STORE = 'local';
+    process.env.CALENDAR_TEST_MODE = 'true';
+    delete process.env.WEDDING_DATA_DIR;
+    resetLocalDataStore();
+    resetEventWaitlistTestStore();
+  });
+
+  test.afterEach(() => {
+    delete process.env.WEDDING_DATA_STORE;
+    delete process.env.CALENDAR_TEST_MODE;
+    resetLocalDataStore();
+    resetEventWaitlistTestStore();
+  });
+
+  test('the first settle only records the allocation', async () => {
+    expect(await settle([declined, second])).toEqual(unchanged);
+  });
+
+  test('a freed seat promotes the next party once, whatever freed it', async () => {
+    await settle([first, second]);
+    const { promoted } = await settle([declined, second]);
+    expect(promoted.map((allocation) => [allocation.responseId, allocation.eventId])).toEqual([['r2', 'tasting']]);
+    // Already told: the next settle finds nothing new
+    expect(await settle([declined, second])).toEqual(unchanged);
+  });
+
+  test('the party that made the change is not told about its own seat', async () => {
+    await settle([first, second]);
+    expect(await settle([declined, second], [SAMIR, ODETTE])).toEqual(unchanged);
+  });
+
+  test('a smaller capacity demotes the party that last took a place', async () => {
+    const roomy = { ...TASTING, capacity: 4 };
+    await settle([first, second], undefined, [roomy]);
+    const { promoted, demoted } = await settle([first, second]);
+    expect(promoted).toEqual([]);
+    expect(demoted.map((allocation) => [allocation.responseId, allocation.waitlistPosition])).toEqual([['r2', 1]]);
+  });
+
+  test('a wedding without limited events stores nothing', async () => {
+    const open = { ...TASTING, capacity: undefined };
+    expect(
+      await settleEventWaitlists('france', { guests: [], responses: [first, second], events: [open] })
+    ).toEqual(unchanged);
+    expect(await settle([declined, second])).toEqual(unchanged);
+  });
+
+  test('calendars leave off an event the settled allocation waitlists the party for', async () => {
+    const giverny = 'local-event-france-giverny';
+    const events = (await getEventCatalog('france')).map((event) =>
+      event.id === giverny ? { ...event, capacity: 2 } : event
+    );
+    const onGiverny = (answer: RSVPResponse) => ({
+      ...answer,
+      eventsAttending: [giverny],
+      details: { eventsRequestedAt: { [giverny]: answer.submittedAt } },
+    });
+    const alex = onGiverny(first);
+    const samir = onGiverny(second);
+    await settleEventWaitlists('france', { guests: [], responses: [alex, samir], events });
+
+    expect(await generateAndStoreICSForGuest(ALEX, alex)).toContain('Giverny');
+    expect(await generateAndStoreICSForGuest(SAMIR, samir)).not.toContain('Giverny');
+  });
+});
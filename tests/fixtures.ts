@@ -1,4 +1,4 @@
-import type { GuestRecord, EventRecord, RSVPSubmission } from '../src/types';
+import type { GuestRecord, EventRecord, RSVPResponse, RSVPSubmission } from '../src/types';
 
 export const mockGuest: GuestRecord = {
   id: 'notion-1',
@@ -96,6 +96,36 @@ export function mockRSVPSubmission(event: 'nyc' | 'france'): RSVPSubmission {
   };
 }
 
+// A stored France response from a party of one, for the unit specs that build
+// the answers a summary or allocation is derived from. Specs pass only the
+// fields their test is about.
+export function mockRSVPResponse(overrides: Partial<RSVPResponse> = {}): RSVPResponse {
+  return {
+    id: 'rsvp',
+    guestId: 'guest',
+    guestIds: ['guest'],
+    event: 'france',
+    submittedAt: '2026-12-01T12:00:00.000Z',
+    status: 'Attending',
+    guestsAttending: 'Guest',
+    ...overrides,
+  };
+}
+
+// The same from a party of two, Ana (`a`) and Ben (`b`), both attending the
+// `dinner` and `brunch` events — the caterer's summaries count per member.
+export function mockPartyRSVPResponse(overrides: Partial<RSVPResponse> = {}): RSVPResponse {
+  return mockRSVPResponse({
+    guestId: 'a',
+    guestIds: ['a', 'b'],
+    submittedAt: '2027-03-01T12:00:00.000Z',
+    guestsAttending: 'Ana, Ben',
+    eventsAttending: ['dinner', 'brunch'],
+    attendanceById: { a: true, b: true },
+    ...overrides,
+  });
+}
+
 // Dedicated synthetic test guest that exists BOTH in the Notion Guest List
 // (party of two with Jordan Chen, invited to NYC + France, Country USA;
 // created 2026-07-11) AND in the hardcoded dev fallback list in
@@ -132,3 +162,9 @@ export const TEST_GUEST_PARTNER_AKA = 'Jordan Delacroix';
 // Never point these tests at a real guest: their Country is real data that can
 // change, and a real guest's name must never appear in this public repo.
 export const TEST_GUEST_FRANCE_NAME = 'Riley Dubois';
+
+// True when the server under test reads the JSON fixtures in
+// fixtures/wedding-data/ instead of Notion (WEDDING_DATA_STORE=local, see
+// src/lib/data-store.ts). Suites that need "a real backend" accept either.
+// The seed carries the same synthetic party as TEST_GUEST_NAME.
+export const LOCAL_DATA_STORE = process.env.WEDDING_DATA_STORE === 'local';
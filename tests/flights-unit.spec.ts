@@ -0,0 +1,202 @@
+import { test, expect } from '@playwright/test';
+import {
+  buildFlightBoard,
+  flightBoardCsv,
+  flightDateRange,
+  normalizeFlightNumber,
+  parseFlightLeg,
+  parseFlightUpdate,
+  planFlightUpsert,
+} from '../src/lib/flights';
+import { getGuestFlights, upsertGuestFlights, fetchAllGuestFlights } from '../src/lib/data-store';
+import { resetLocalDataStore } from '../src/lib/local-store';
+import type { WeddingDates } from '../src/lib/refresh-schedule';
+import type { GuestFlight } from '../src/types';
+
+/**
+ * Unit-style tests for guest flight collection: leg validation, the upsert
+ * plan both backends apply, and the admin arrivals board.
+ */
+
+const FRANCE: WeddingDates = { wedding: 'france', first: '2027-05-28', last: '2027-05-30' };
+
+function flight(overrides: Partial<GuestFlight>): GuestFlight {
+  return {
+    id: 'flight',
+    guestId: 'guest',
+    event: 'france',
+    type: 'arrival',
+    airline: 'Air France',
+    flightNumber: 'AF 7',
+    date: '2027-05-27',
+    flightySynced: true,
+    ...overrides,
+  };
+}
+
+test.describe('flight legs', () => {
+  test('normalizes flight numbers and rejects anything else', () => {
+    expect(normalizeFlightNumber('af7')).toBe('AF 7');
+    expect(normalizeFlightNumber(' af-007 ')).toBe('AF 007');
+    expect(normalizeFlightNumber('u2 8012')).toBe('U2 8012');
+    expect(normalizeFlightNumber('BAW117A')).toBe('BAW 117A');
+    expect(normalizeFlightNumber('AF')).toBeNull();
+    expect(normalizeFlightNumber('AF 12345')).toBeNull();
+    expect(normalizeFlightNumber('flight 7')).toBeNull();
+  });
+
+  test('bounds dates to a window around the wedding', () => {
+    expect(flightDateRange(FRANCE, 'arrival')).toEqual({ min: '2027-04-28', max: '2027-05-30' });
+    expect(flightDateRange(FRANCE, 'departure')).toEqual({ min: '2027-05-28', max: '2027-06-29' });
+    // The window follows the catalog when the wedding moves
+    const moved: WeddingDates = { wedding: 'nyc', first: '2026-11-07', last: '2026-11-07' };
+    expect(flightDateRange(moved, 'arrival')).toEqual({ min: '2026-10-08', max: '2026-11-07' });
+    // No dated events yet: no window
+    expect(flightDateRange(null, 'arrival')).toBeNull();
+    const parsed = parseFlightLeg({ airline: 'Delta', flightNumber: 'DL 264', date: '2031-01-01' }, 'arrival', null);
+    expect('leg' in parsed).toBe(true);
+  });
+
+  test('parses a leg, uppercasing the airport', () => {
+    const parsed = parseFlightLeg(
+      { airline: ' Air France ', flightNumber: 'af7', date: '2027-05-27', airport: 'cdg', time: '07:45' },
+      'arrival',
+      FRANCE
+    );
+    expect(parsed).toEqual({
+      leg: { type: 'arrival', airline: 'Air France', flightNumber: 'AF 7', date: '2027-05-27', airport: 'CDG', time: '07:45' },
+    });
+  });
+
+  test('rejects incomplete or implausible legs', () => {
+    const base = { airline: 'Air France', flightNumber: 'AF 7', date: '2027-05-27' };
+    const error = (value: Record<string, unknown>) => {
+      const parsed = parseFlightLeg(value, 'arrival', FRANCE);
+      return 'error' in parsed ? parsed.error : null;
+    };
+    expect(error(base)).toBeNull();
+    expect(error({ ...base, airline: ' ' })).toBe('arrival airline is required');
+    expect(error({ ...base, airline: 'BA' })).toBe('arrival airline does not match the flight number');
+    expect(error({ ...base, flightNumber: 'seven' })).toBe('arrival flight number is not valid');
+    expect(error({ ...base, date: '2027-02-30' })).toBe('arrival date must be YYYY-MM-DD');
+    expect(error({ ...base, date: '2026-05-27' })).toBe('arrival date is outside the wedding dates');
+    expect(error({ ...base, airport: 'Paris' })).toBe('arrival airport must be a 3-letter code');
+    expect(error({ ...base, time: '7:45pm' })).toBe('arrival time must be HH:MM');
+  });
+
+  test('keeps absent legs, removes null ones and refuses a departure before the arrival', () => {
+    const arrival = { airline: 'Delta', flightNumber: 'DL 264', date: '2027-05-27' };
+    expect(parseFlightUpdate({ departure: null }, FRANCE)).toEqual({ update: { departure: null } });
+    expect(
+      parseFlightUpdate({ arrival: { ...arrival, date: '2027-05-29' }, departure: { ...arrival, date: '2027-05-28' } }, FRANCE)
+    ).toEqual({ error: 'departure is before arrival' });
+  });
+});
+
+test.describe('flight upsert plan', () => {
+  const stored = flight({ id: 'row-arrival', airport: 'CDG' });
+  const leg = { type: 'arrival' as const, airline: 'Air France', flightNumber: 'AF 7', date: '2027-05-27', airport: 'CDG' };
+
+  test('writes nothing for an unchanged leg', () => {
+    expect(planFlightUpsert([stored], { arrival: leg })).toEqual({ create: [], update: [], remove: [] });
+  });
+
+  test('rewrites a changed leg and creates a new one', () => {
+    const departure = { ...leg, type: 'departure' as const, flightNumber: 'AF 8', date: '2027-05-31' };
+    expect(planFlightUpsert([stored], { arrival: { ...leg, time: '07:45' }, departure })).toEqual({
+      create: [departure],
+      update: [{ id: 'row-arrival', leg: { ...leg, time: '07:45' } }],
+      remove: [],
+    });
+  });
+
+  test('removes cleared legs and duplicate rows, leaving absent legs alone', () => {
+    const duplicate = flight({ id: 'row-duplicate', airport: 'CDG' });
+    const departure = flight({ id: 'row-departure', type: 'departure', date: '2027-05-31' });
+    expect(planFlightUpsert([stored, duplicate, departure], { arrival: leg })).toEqual({
+      create: [],
+      update: [],
+      remove: ['row-duplicate'],
+    });
+    expect(planFlightUpsert([stored, departure], { departure: null }).remove).toEqual(['row-departure']);
+  });
+});
+
+test.describe('arrivals board', () => {
+  const guests = [
+    { id: 'ana', name: 'Ana' },
+    { id: 'ben', name: 'Ben' },
+    { id: 'cleo', name: 'Cléo' },
+  ];
+  const flights = [
+    flight({ id: '1', guestId: 'ben', airport: 'CDG', time: '10:05', airline: 'Delta', flightNumber: 'DL 264' }),
+    flight({ id: '2', guestId: 'ana', airport: 'CDG', time: '07:45' }),
+    flight({ id: '3', guestId: 'cleo', date: '2027-05-26' }),
+    flight({ id: '4', guestId: 'ana', type: 'departure', date: '2027-05-31' }),
+    flight({ id: '5', guestId: 'test-guest', airport: 'ORY' }),
+  ];
+
+  test('groups arrivals by day, airport and time, dropping unlisted guests', () => {
+    const board = buildFlightBoard(flights, guests);
+    expect(board.map((day) => [day.date, day.guests])).toEqual([
+      ['2027-05-26', 1],
+      ['2027-05-27', 2],
+    ]);
+    expect(board[0].airports).toEqual([
+      { airport: null, guests: [{ guestId: 'cleo', name: 'Cléo', airline: 'Air France', flightNumber: 'AF 7' }] },
+    ]);
+    expect(board[1].airports[0].guests.map((g) => g.name)).toEqual(['Ana', 'Ben']);
+    expect(buildFlightBoard(flights, guests, 'departure').map((day) => day.date)).toEqual(['2027-05-31']);
+  });
+
+  test('exports the board as a pickup sheet', () => {
+    expect(flightBoardCsv(buildFlightBoard(flights, guests))).toBe(
+      [
+        'Date,Airport,Time,Guest,Airline,Flight',
+        '2027-05-26,,,Cléo,Air France,AF 7',
+        '2027-05-27,CDG,07:45,Ana,Air France,AF 7',
+        '2027-05-27,CDG,10:05,Ben,Delta,DL 264',
+        '',
+      ].join('\n')
+    );
+  });
+});
+
+test.describe('guest flights — local data store', () => {
+  test.beforeEach(() => {
+    process.env.WEDDING_DATA_STORE = 'local';
+    delete process.env.WEDDING_DATA_DIR;
+    resetLocalDataStore();
+  });
+
+  test.afterEach(() => {
+    delete process.env.WEDDING_DATA_STORE;
+    resetLocalDataStore();
+  });
+
+  test('leaves unchanged legs synced and clears the flag on edited ones', async () => {
+    const samir = 'local-guest-samir-benoit';
+    const [arrival] = await getGuestFlights(samir, 'france');
+    expect(arrival.flightySynced).toBe(true);
+
+    const unchanged = await upsertGuestFlights(samir, 'france', {
+      arrival: { type: 'arrival', airline: 'Air France', flightNumber: 'AF 7', date: '2027-05-27', airport: 'CDG', time: '07:45' },
+    });
+    expect(unchanged).toEqual([arrival]);
+
+    const edited = await upsertGuestFlights(samir, 'france', {
+      arrival: { type: 'arrival', airline: 'Air France', flightNumber: 'AF 9', date: '2027-05-27', airport: 'CDG' },
+      departure: { type: 'departure', airline: 'Air France', flightNumber: 'AF 8', date: '2027-05-31' },
+    });
+    expect(edited.map((f) => [f.type, f.flightNumber, f.flightySynced])).toEqual([
+      ['arrival', 'AF 9', false],
+      ['departure', 'AF 8', false],
+    ]);
+
+    await upsertGuestFlights(samir, 'france', { departure: null });
+    expect((await fetchAllGuestFlights('france')).filter((f) => f.guestId === samir).map((f) => f.type)).toEqual([
+      'arrival',
+    ]);
+    expect(await fetchAllGuestFlights('nyc')).toEqual([]);
+  });
+});
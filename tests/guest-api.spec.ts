@@ -0,0 +1,174 @@
+/**
+ * Guest API endpoint tests
+ *
+ * Tests auth, validation and the happy path for the endpoints behind the
+ * RSVP and travel pages:
+ *   GET/POST        /api/flights
+ *   GET/PUT/DELETE  /api/rsvp-draft
+ *   GET/POST        /api/calendar-reminders
+ *
+ * Logged in as the synthetic test party (TEST_GUEST_NAME, see fixtures.ts).
+ * Writes that would land in Notion — saving a flight — run against the local
+ * data store only; drafts and calendar preferences live in blob storage
+ * (in memory under CALENDAR_TEST_MODE) and are put back as found.
+ */
+
+import { test, expect, type APIRequestContext } from '@playwright/test';
+import { LOCAL_DATA_STORE, TEST_GUEST_FRANCE_NAME, TEST_GUEST_NAME } from './fixtures';
+
+const notionRequired =
+  process.env.FEATURE_GLOBAL_NOTION_BACKEND !== 'true' ||
+  (!LOCAL_DATA_STORE && (!process.env.NOTION_API_KEY || !process.env.NOTION_GUEST_LIST_DB));
+
+test.describe('Guest API endpoints', () => {
+  // Serial: the draft and reminder tests read back what the one before wrote.
+  test.describe.configure({ mode: 'serial' });
+  test.skip(notionRequired, 'Notion backend required for guest API tests');
+
+  let authHeaders: Record<string, string> = {};
+  let partyGuestIds: string[] = [];
+
+  // Logs in over the API and returns the headers that carry the session.
+  // The cookie is sent explicitly: the request-context jar will not attach the
+  // Secure auth cookie over plain http (see rsvp-api.spec.ts).
+  async function login(request: APIRequestContext, name: string): Promise<Record<string, string>> {
+    const res = await request.post('/api/login', { form: { name } });
+    const cookie = res.headersArray().find(
+      (header) => header.name.toLowerCase() === 'set-cookie' && header.value.startsWith('sargaux_auth=')
+    );
+    expect(cookie).toBeTruthy();
+    return { Cookie: cookie!.value.split(';')[0] };
+  }
+
+  test.beforeAll(async ({ playwright }) => {
+    const context = await playwright.request.newContext({ baseURL: 'http://127.0.0.1:1213' });
+    authHeaders = await login(context, TEST_GUEST_NAME);
+
+    const flights = await context.get('/api/flights?event=france', { headers: authHeaders });
+    expect(flights.status()).toBe(200);
+    partyGuestIds = (await flights.json()).guests.map((guest: { guestId: string }) => guest.guestId);
+    expect(partyGuestIds.length).toBe(2);
+
+    await context.dispose();
+  });
+
+  async function expectUnauthorized(request: APIRequestContext, method: 'get' | 'post' | 'put' | 'delete', path: string, data?: unknown) {
+    const res = await request[method](path, { data });
+    expect(res.status()).toBe(401);
+    // A cookie that was never signed by the site is refused the same way
+    const forged = await request[method](path, { data, headers: { Cookie: 'sargaux_auth=not-a-token' } });
+    expect(forged.status()).toBe(401);
+  }
+
+  test('/api/flights - requires authentication', async ({ request }) => {
+    await expectUnauthorized(request, 'get', '/api/flights?event=france');
+    await expectUnauthorized(request, 'post', '/api/flights', { event: 'france', guests: [] });
+  });
+
+  test('/api/flights - refuses a wedding the guest is not invited to', async ({ request }) => {
+    // Riley Dubois is invited to France only
+    const headers = await login(request, TEST_GUEST_FRANCE_NAME);
+    expect((await request.get('/api/flights?event=nyc', { headers })).status()).toBe(403);
+    const res = await request.post('/api/flights', { headers, data: { event: 'nyc', guests: [] } });
+    expect(res.status()).toBe(403);
+  });
+
+  test('/api/flights - validates event, guests and legs', async ({ request }) => {
+    expect((await request.get('/api/flights?event=invalid', { headers: authHeaders })).status()).toBe(400);
+
+    const post = (data: unknown) => request.post('/api/flights', { headers: authHeaders, data });
+    expect((await post({ event: 'france', guests: 'not an array' })).status()).toBe(400);
+
+    const outsider = await post({ event: 'france', guests: [{ guestId: 'local-guest-nobody', arrival: null }] });
+    expect(outsider.status()).toBe(400);
+    expect((await outsider.json()).error).toContain('outside this party');
+
+    const badLeg = await post({
+      event: 'france',
+      guests: [{ guestId: partyGuestIds[0], arrival: { airline: 'Air France', flightNumber: 'AF 1', date: 'soon' } }],
+    });
+    expect(badLeg.status()).toBe(400);
+    expect(await badLeg.json()).toEqual({ error: 'arrival date must be YYYY-MM-DD', guestId: partyGuestIds[0] });
+  });
+
+  test('/api/flights - saves a leg and removes it again', async ({ request }) => {
+    test.skip(!LOCAL_DATA_STORE, 'Writes Guest Flights rows — local data store only');
+    const [guestId] = partyGuestIds;
+    const arrival = { airline: 'Air France', flightNumber: 'af 7', date: '2027-05-27', airport: 'cdg', time: '07:30' };
+
+    const saved = await request.post('/api/flights', {
+      headers: authHeaders,
+      data: { event: 'france', guests: [{ guestId, arrival }] },
+    });
+    expect(saved.status()).toBe(200);
+    const member = (await saved.json()).guests.find((guest: { guestId: string }) => guest.guestId === guestId);
+    expect(member.arrival).toMatchObject({ airline: 'Air France', flightNumber: 'AF 7', airport: 'CDG' });
+
+    const removed = await request.post('/api/flights', {
+      headers: authHeaders,
+      data: { event: 'france', guests: [{ guestId, arrival: null }] },
+    });
+    expect(removed.status()).toBe(200);
+    const after = (await removed.json()).guests.find((guest: { guestId: string }) => guest.guestId === guestId);
+    expect(after.arrival).toBeNull();
+  });
+
+  test('/api/rsvp-draft - requires authentication', async ({ request }) => {
+    await expectUnauthorized(request, 'get', '/api/rsvp-draft?event=france');
+    await expectUnauthorized(request, 'put', '/api/rsvp-draft', { event: 'france' });
+    await expectUnauthorized(request, 'delete', '/api/rsvp-draft?event=france');
+  });
+
+  test('/api/rsvp-draft - validates the event', async ({ request }) => {
+    expect((await request.get('/api/rsvp-draft?event=invalid', { headers: authHeaders })).status()).toBe(400);
+    expect((await request.put('/api/rsvp-draft', { headers: authHeaders, data: { event: 'invalid' } })).status()).toBe(400);
+    expect((await request.delete('/api/rsvp-draft?event=invalid', { headers: authHeaders })).status()).toBe(400);
+  });
+
+  test('/api/rsvp-draft - saves, reads back and discards the party draft', async ({ request }) => {
+    const saved = await request.put('/api/rsvp-draft', {
+      headers: authHeaders,
+      data: {
+        event: 'france',
+        guestsAttending: partyGuestIds.map((guestId) => ({ guestId, name: 'Guest', attending: true })),
+        eventsAttending: [],
+        message: 'Draft from the API tests',
+      },
+    });
+    expect(saved.status()).toBe(200);
+    const { draft } = await saved.json();
+    expect(partyGuestIds).toContain(draft.savedBy);
+
+    const read = await request.get('/api/rsvp-draft?event=france', { headers: authHeaders });
+    expect(await read.json()).toEqual({ draft });
+
+    const discarded = await request.delete('/api/rsvp-draft?event=france', { headers: authHeaders });
+    expect(await discarded.json()).toEqual({ draft: null });
+    const gone = await request.get('/api/rsvp-draft?event=france', { headers: authHeaders });
+    expect(await gone.json()).toEqual({ draft: null });
+  });
+
+  test('/api/calendar-reminders - requires authentication', async ({ request }) => {
+    await expectUnauthorized(request, 'get', '/api/calendar-reminders');
+    await expectUnauthorized(request, 'post', '/api/calendar-reminders', { enabled: false });
+  });
+
+  test('/api/calendar-reminders - validates enabled', async ({ request }) => {
+    const res = await request.post('/api/calendar-reminders', { headers: authHeaders, data: { enabled: 'no' } });
+    expect(res.status()).toBe(400);
+    expect((await res.json()).error).toBe('enabled must be a boolean');
+  });
+
+  test('/api/calendar-reminders - turns reminders off and back on', async ({ request }) => {
+    const current = await request.get('/api/calendar-reminders', { headers: authHeaders });
+    expect(current.status()).toBe(200);
+    const { enabled } = await current.json();
+
+    for (const next of [!enabled, enabled]) {
+      const res = await request.post('/api/calendar-reminders', { headers: authHeaders, data: { enabled: next } });
+      expect(await res.json()).toEqual({ enabled: next });
+      const read = await request.get('/api/calendar-reminders', { headers: authHeaders });
+      expect(await read.json()).toEqual({ enabled: next });
+    }
+  });
+});
@@ -1,5 +1,12 @@
 import { test, expect } from '@playwright/test';
-import { splitGuestName, guestNameEdit, preserveFormerName } from '../src/lib/guest-name';
+import {
+  splitGuestName,
+  guestNameEdit,
+  preserveFormerName,
+  isUnnamedPlusOne,
+  isSameIdentity,
+  nameEditViolation,
+} from '../src/lib/guest-name';
 
 /**
  * The RSVP name write-back. `tests/rsvp-api.spec.ts` exercises the guestId
@@ -135,6 +142,11 @@ test.describe('preserveFormerName', () => {
     expect(preserveFormerName('Philippa + 1', undefined)).toBeNull();
   });
 
+  test('does not preserve the bare "Guest" older plus-one rows carry', () => {
+    expect(preserveFormerName('Guest', undefined)).toBeNull();
+    expect(preserveFormerName(' guest ', ['Bitsy'])).toBeNull();
+  });
+
   test('does not duplicate a name already listed', () => {
     expect(preserveFormerName('Camille Muller', ['Camille Muller'])).toBeNull();
     expect(preserveFormerName('Camille Muller', ['camille muller'])).toBeNull();
@@ -144,3 +156,68 @@ test.describe('preserveFormerName', () => {
     expect(preserveFormerName('   ', ['Bitsy'])).toBeNull();
   });
 });
+
+test.describe('isUnnamedPlusOne', () => {
+  test('recognises the placeholder names a plus-one row is created with', () => {
+    expect(isUnnamedPlusOne({ name: 'Philippa +1', isPlusOne: true })).toBe(true);
+    expect(isUnnamedPlusOne({ name: 'Guest', isPlusOne: true })).toBe(true);
+    expect(isUnnamedPlusOne({ name: 'Marcus Reed', isPlusOne: true })).toBe(false);
+    // Only rows flagged as a plus-one are placeholders
+    expect(isUnnamedPlusOne({ name: 'Guest', isPlusOne: false })).toBe(false);
+  });
+});
+
+test.describe('isSameIdentity', () => {
+  test('accepts corrections that keep a name in common', () => {
+    expect(isSameIdentity('Jerome Vasseur', 'Jérôme Vasseur')).toBe(true);
+    expect(isSameIdentity('Matthew Gavin', 'Matt Gavin')).toBe(true);
+    expect(isSameIdentity('Camille Muller', 'Camille Laurent')).toBe(true);
+    expect(isSameIdentity('Matthew Gavin', 'Matt')).toBe(true);
+  });
+
+  test('accepts a name already listed as an alternate', () => {
+    expect(isSameIdentity('Camille Muller', 'Bitsy Laurent', ['Bitsy'])).toBe(true);
+  });
+
+  test('rejects an unrelated person', () => {
+    expect(isSameIdentity('Matthew Gavin', 'Wren Calloway')).toBe(false);
+    // Two-letter tokens are not treated as shortened names
+    expect(isSameIdentity('Al Gavin', 'Alexandra Reed')).toBe(false);
+  });
+});
+
+test.describe('nameEditViolation', () => {
+  const party = [
+    { id: 'host', name: 'Philippa Marsh', isPlusOne: false },
+    { id: 'partner', name: 'Oren Marsh', isPlusOne: false },
+    { id: 'plus-one', name: 'Philippa Marsh +1', isPlusOne: true },
+  ];
+  const typed = (names: Record<string, string>) => new Map(Object.entries(names));
+
+  test('lets the host name their plus-one and correct anyone', () => {
+    expect(nameEditViolation(party, typed({ 'plus-one': 'Marcus Reed' }), 'host')).toBeNull();
+    expect(nameEditViolation(party, typed({ host: 'Pippa Marsh', partner: 'Wren Calloway' }), 'host')).toBeNull();
+    expect(nameEditViolation(party, typed({ host: 'Philippa Marsh' }), 'host')).toBeNull();
+  });
+
+  test('refuses to turn the logged-in guest into someone else', () => {
+    expect(nameEditViolation(party, typed({ host: 'Marcus Reed' }), 'host')).toEqual({
+      guestId: 'host',
+      reason: 'self',
+    });
+    // The same edit by their partner is a correction of someone else's row
+    expect(nameEditViolation(party, typed({ host: 'Marcus Reed' }), 'partner')).toBeNull();
+  });
+
+  test('refuses to give two members the same name', () => {
+    expect(nameEditViolation(party, typed({ 'plus-one': 'philippa marsh' }), 'host')).toEqual({
+      guestId: 'plus-one',
+      reason: 'duplicate',
+    });
+    // A swap leaves the final names distinct, but each takes a name the
+    // other held
+    expect(
+      nameEditViolation(party, typed({ host: 'Oren Marsh', partner: 'Philippa Marsh' }), 'partner')
+    ).toEqual({ guestId: 'host', reason: 'duplicate' });
+  });
+});
@@ -0,0 +1,67 @@
+import { test, expect } from '@playwright/test';
+import { createSessionToken } from '../src/lib/auth';
+import { loadSessionGuest } from '../src/lib/guest-session';
+import { resetLocalDataStore } from '../src/lib/local-store';
+
+/**
+ * Unit-style tests for binding a session cookie to the live Guest List record,
+ * against the local data store.
+ */
+
+function cookies(value?: string) {
+  return { get: (name: string) => (name === 'sargaux_auth' && value ? { value } : undefined) };
+}
+
+async function status(value: string | undefined, options: Parameters<typeof loadSessionGuest>[1]) {
+  const session = await loadSessionGuest(cookies(value), options);
+  return 'error' in session ? session.error.status : 200;
+}
+
+test.describe('Guest session', () => {
+  test.beforeEach(() => {
+    process.env.WEDDING_DATA_STORE = 'local';
+    delete process.env.WEDDING_DATA_DIR;
+    resetLocalDataStore();
+  });
+
+  test.afterEach(() => {
+    delete process.env.WEDDING_DATA_STORE;
+    resetLocalDataStore();
+  });
+
+  test('binds a signed cookie to the live record', async () => {
+    const session = await loadSessionGuest(
+      cookies(createSessionToken('Casey Morgan', 'local-guest-casey-morgan', ['nyc'])),
+      { purpose: 'flights', event: 'nyc' }
+    );
+    expect('error' in session).toBe(false);
+    if (!('error' in session)) {
+      expect(session.guestId).toBe('local-guest-casey-morgan');
+      expect(session.record.name).toBe('Casey Morgan');
+    }
+  });
+
+  test('rejects missing, unsigned and forged sessions', async () => {
+    const options = { purpose: 'flights' };
+    expect(await status(undefined, options)).toBe(401);
+    expect(await status('not-a-token', options)).toBe(401);
+    // Someone else's record under a name of the attacker's choosing
+    expect(await status(createSessionToken('Attacker Name', 'local-guest-casey-morgan'), options)).toBe(401);
+    expect(await status(createSessionToken('Casey Morgan', 'local-guest-nobody'), options)).toBe(401);
+  });
+
+  test('needs a data store login, named for the feature', async () => {
+    const session = await loadSessionGuest(cookies(createSessionToken('Casey Morgan')), { purpose: 'flights' });
+    expect('error' in session && session.error.status).toBe(400);
+    if ('error' in session) {
+      expect(await session.error.json()).toEqual({ error: 'Notion backend required for flights' });
+    }
+  });
+
+  test('checks the live invitations, not the cookie', async () => {
+    // The cookie claims France; the Guest List says NYC only
+    const token = createSessionToken('Casey Morgan', 'local-guest-casey-morgan', ['nyc', 'france']);
+    expect(await status(token, { purpose: 'flights', event: 'france' })).toBe(403);
+    expect(await status(token, { purpose: 'flights', event: 'nyc' })).toBe(200);
+  });
+});
@@ -0,0 +1,128 @@
+import { test, expect } from '@playwright/test';
+import {
+  hotelBlockState,
+  hotelBlurb,
+  isValidHotelBooked,
+  roomsRemaining,
+  summarizeBlockPickup,
+  HOTEL_BOOKED_ELSEWHERE,
+  HOTEL_BOOKED_NOT_YET,
+} from '../src/lib/hotel-blocks';
+import { getHotelBlocks } from '../src/lib/data-store';
+import { resetLocalDataStore } from '../src/lib/local-store';
+import type { HotelBlock, RSVPResponse } from '../src/types';
+import { mockRSVPResponse } from './fixtures';
+
+/**
+ * Unit-style tests for the hotel room blocks on the travel pages: request-time
+ * sold-out / cutoff state and the admin pickup report.
+ */
+
+function block(overrides: Partial<HotelBlock>): HotelBlock {
+  return {
+    id: 'block',
+    wedding: 'nyc',
+    name: 'Hotel',
+    cutoffDate: '2026-09-10',
+    roomsHeld: 10,
+    roomsClaimed: 0,
+    ...overrides,
+  };
+}
+
+function response(overrides: Partial<RSVPResponse>): RSVPResponse {
+  return mockRSVPResponse({ event: 'nyc', submittedAt: '2026-08-01T12:00:00.000Z', ...overrides });
+}
+
+test.describe('hotel block state', () => {
+  test('is open until the cutoff date has passed in the wedding time zone', () => {
+    // 02:00 UTC on Sep 11 is still Sep 10 in New York, but Sep 11 in Paris.
+    const now = new Date('2026-09-11T02:00:00Z');
+    expect(hotelBlockState(block({ wedding: 'nyc' }), now)).toBe('open');
+    expect(hotelBlockState(block({ wedding: 'france' }), now)).toBe('closed');
+    expect(hotelBlockState(block({ wedding: 'nyc' }), new Date('2026-09-11T05:00:00Z'))).toBe('closed');
+    expect(hotelBlockState(block({ cutoffDate: undefined }), now)).toBe('open');
+  });
+
+  test('is sold out once every held room is claimed, whatever the cutoff', () => {
+    const now = new Date('2026-08-01T12:00:00Z');
+    expect(hotelBlockState(block({ roomsClaimed: 10 }), now)).toBe('sold-out');
+    expect(hotelBlockState(block({ roomsClaimed: 12, cutoffDate: '2026-01-01' }), now)).toBe('sold-out');
+    expect(hotelBlockState(block({ roomsHeld: undefined, roomsClaimed: 3 }), now)).toBe('open');
+    expect(roomsRemaining(block({ roomsClaimed: 4 }))).toBe(6);
+    expect(roomsRemaining(block({ roomsHeld: undefined }))).toBeNull();
+  });
+
+  test('falls back to the English blurb', () => {
+    expect(hotelBlurb(block({ blurb: 'Near the venue', blurbFr: 'Près du lieu' }), 'fr')).toBe('Près du lieu');
+    expect(hotelBlurb(block({ blurb: 'Near the venue' }), 'fr')).toBe('Near the venue');
+  });
+});
+
+test.describe('hotel block pickup', () => {
+  test('accepts block IDs and the fixed answers only', () => {
+    const blocks = [block({ id: 'arlo' })];
+    expect(isValidHotelBooked('arlo', blocks)).toBe(true);
+    expect(isValidHotelBooked(HOTEL_BOOKED_ELSEWHERE, blocks)).toBe(true);
+    expect(isValidHotelBooked(HOTEL_BOOKED_NOT_YET, blocks)).toBe(true);
+    expect(isValidHotelBooked('wythe', blocks)).toBe(false);
+    expect(isValidHotelBooked(3, blocks)).toBe(false);
+  });
+
+  test('counts reporting parties and their attending guests per block', () => {
+    const now = new Date('2026-08-01T12:00:00Z');
+    const summary = summarizeBlockPickup(
+      [block({ id: 'seville', name: 'Seville', sortOrder: 2 }), block({ id: 'arlo', name: 'Arlo', sortOrder: 1, roomsClaimed: 10 })],
+      [
+        response({ id: 'a', details: { hotelBooked: 'arlo' }, attendanceById: { g1: true, g2: true, g3: false } }),
+        response({ id: 'b', details: { hotelBooked: 'arlo' }, guestsAttending: 'Solo Guest' }),
+        response({ id: 'c', details: { hotelBooked: HOTEL_BOOKED_ELSEWHERE } }),
+        response({ id: 'd', details: { hotelBooked: HOTEL_BOOKED_NOT_YET } }),
+        response({ id: 'e' }),
+        response({ id: 'f', status: 'Declined', details: { hotelBooked: 'seville' } }),
+      ],
+      now
+    );
+
+    expect(summary.blocks).toEqual([
+      expect.objectContaining({ id: 'arlo', state: 'sold-out', roomsRemaining: 0, reportedParties: 2, reportedGuests: 3 }),
+      expect.objectContaining({ id: 'seville', state: 'open', roomsRemaining: 10, reportedParties: 0, reportedGuests: 0 }),
+    ]);
+    expect(summary).toMatchObject({ elsewhere: 1, notYet: 1, unanswered: 1 });
+  });
+});
+
+test.describe('hotel blocks — local data store', () => {
+  test.beforeEach(() => {
+    process.env.WEDDING_DATA_STORE = 'local';
+    delete process.env.WEDDING_DATA_DIR;
+    resetLocalDataStore();
+  });
+
+  test.afterEach(() => {
+    delete process.env.WEDDING_DATA_STORE;
+    resetLocalDataStore();
+  });
+
+  test('serves each wedding its own blocks in sort order', async () => {
+    const nyc = await getHotelBlocks('nyc');
+    expect(nyc.map((b) => b.name)).toEqual(['Wythe Hotel', 'Arlo Williamsburg', 'Hotel Seville NoMad']);
+    expect((await getHotelBlocks('france')).every((b) => b.wedding === 'france')).toBe(true);
+  });
+});
+
+test.describe('hotel blocks — Notion store without the database', () => {
+  test('lists the three NYC hotels, open, until NOTION_HOTEL_BLOCKS_DB is set', async () => {
+    const before = process.env.NOTION_HOTEL_BLOCKS_DB;
+    delete process.env.NOTION_HOTEL_BLOCKS_DB;
+    try {
+      const nyc = await getHotelBlocks('nyc');
+      expect(nyc.map((b) => b.name)).toEqual(['Wythe Hotel', 'Arlo Williamsburg', 'Hotel Seville NoMad']);
+      expect(nyc.every((b) => hotelBlockState(b) === 'open')).toBe(true);
+      expect(nyc[1].bookingUrl).toContain('synxis.com');
+      expect(await getHotelBlocks('france')).toEqual([]);
+    } finally {
+      if (before !== undefined) process.env.NOTION_HOTEL_BLOCKS_DB = before;
+    }
+  });
+});
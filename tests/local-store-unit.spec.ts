@@ -0,0 +1,230 @@
+import { test, expect } from '@playwright/test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  getDataStore,
+  getGuestParty,
+  findGuestsByName,
+  findHouseholdByEnvelopeName,
+  getEventCatalog,
+  getGuestEvents,
+  getAttendingEvents,
+  submitRSVP,
+  getLatestRSVPForParty,
+  fetchAllLatestRSVPs,
+  deleteRSVP,
+  fetchDayDate,
+} from '../src/lib/data-store';
+import { resetLocalDataStore } from '../src/lib/local-store';
+import { getICS, setICS } from '../src/lib/ics-store';
+import type { RSVPSubmission } from '../src/types';
+
+/**
+ * Unit-style tests for the file-backed WeddingDataStore, exercised through the
+ * same data-store API the pages and endpoints call. Runs against the committed
+ * seed in fixtures/wedding-data/ — synthetic guests only.
+ *
+ * Each test gets a scratch WEDDING_DATA_DIR so writes never touch the seed and
+ * never leak between tests.
+ */
+
+const ALEX = 'local-guest-alex-rivera';
+const JORDAN = 'local-guest-jordan-chen';
+const CASEY = 'local-guest-casey-morgan';
+const CASEY_PLUS_ONE = 'local-guest-casey-morgan-plus-one';
+const RILEY = 'local-guest-riley-dubois';
+const FREDERICA = 'local-guest-frederica-okonkwo';
+
+const NYC_COCKTAILS = 'local-event-nyc-cocktails';
+const NYC_AFTER_PARTY = 'local-event-nyc-after-party';
+
+let scratchDir: string;
+
+test.beforeEach(() => {
+  process.env.WEDDING_DATA_STORE = 'local';
+  scratchDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wedding-data-'));
+  process.env.WEDDING_DATA_DIR = scratchDir;
+  resetLocalDataStore();
+});
+
+test.afterEach(() => {
+  delete process.env.WEDDING_DATA_STORE;
+  delete process.env.WEDDING_DATA_DIR;
+  resetLocalDataStore();
+  fs.rmSync(scratchDir, { recursive: true, force: true });
+});
+
+function nycSubmission(
+  entries: { guestId: string; name: string; attending: boolean }[],
+  eventsAttending: string[] = [NYC_COCKTAILS]
+): RSVPSubmission {
+  return { event: 'nyc', guestsAttending: entries, eventsAttending, sendConfirmation: false };
+}
+
+test.describe('Local data store — selection', () => {
+  test('WEDDING_DATA_STORE=local selects the JSON backend', () => {
+    expect(getDataStore().kind).toBe('local');
+  });
+
+  test('anything else falls back to Notion, never to fixtures', () => {
+    process.env.WEDDING_DATA_STORE = 'Local ';
+    expect(getDataStore().kind).toBe('notion');
+    delete process.env.WEDDING_DATA_STORE;
+    expect(getDataStore().kind).toBe('notion');
+  });
+
+  test('calendar files are kept in memory, outside the Netlify runtime', async () => {
+    await setICS(ALEX, 'BEGIN:VCALENDAR');
+    expect(await getICS(ALEX)).toBe('BEGIN:VCALENDAR');
+  });
+});
+
+test.describe('Local data store — Guest List', () => {
+  test('resolves login names and envelope names like the Notion backend', async () => {
+    const [alex] = await findGuestsByName('alex rivera');
+    expect(alex?.id).toBe(ALEX);
+    expect(alex?.isTestGuest).toBe(true);
+
+    const household = await findHouseholdByEnvelopeName('The Rivera Family');
+    expect(household?.map((guest) => guest.id).sort()).toEqual([ALEX, JORDAN].sort());
+  });
+
+  test('party puts the primary guest first and plus-ones last', async () => {
+    const fromPlusOne = await getGuestParty(CASEY_PLUS_ONE);
+    expect(fromPlusOne.map((guest) => guest.id)).toEqual([CASEY_PLUS_ONE, CASEY]);
+
+    const fromHost = await getGuestParty(CASEY);
+    expect(fromHost.map((guest) => guest.id)).toEqual([CASEY, CASEY_PLUS_ONE]);
+  });
+
+  test('unknown guest IDs throw, as a missing Notion page does', async () => {
+    await expect(getGuestParty('local-guest-nobody')).rejects.toThrow('Guest not found');
+  });
+});
+
+test.describe('Local data store — Event Catalog', () => {
+  test('catalog is per wedding and chronological', async () => {
+    const france = await getEventCatalog('france');
+    expect(france.every((event) => event.wedding === 'france')).toBe(true);
+    const keys = france.map((event) => `${event.date}`);
+    expect(keys).toEqual([...keys].sort());
+    // Same day: the 10 AM excursion comes before the 5 PM ceremony
+    const saturday = france.filter((event) => event.date === '2027-05-29').map((e) => e.startTime);
+    expect(saturday).toEqual(['10:00 AM', '5:00 PM', '6:30 PM']);
+  });
+
+  test('guest events follow the wedding invitations', async () => {
+    const events = await getGuestEvents(RILEY);
+    expect(events.length).toBeGreaterThan(0);
+    expect(events.every((event) => event.wedding === 'france')).toBe(true);
+  });
+
+  test('guest events follow the party\'s Events Invited lists, else the Core events', async () => {
+    // No list anywhere in the party: Core events only
+    const riley = await getGuestEvents(RILEY);
+    expect(riley.every((event) => event.type === 'Core')).toBe(true);
+
+    // Alex's list covers Jordan too, optional events included
+    const jordan = (await getGuestEvents(JORDAN)).map((event) => event.id);
+    expect(jordan).toContain(NYC_AFTER_PARTY);
+
+    // A dancing-only invite: just the after party in NYC, Core events in France
+    const frederica = await getGuestEvents(FREDERICA);
+    expect(frederica.filter((event) => event.wedding === 'nyc').map((event) => event.id)).toEqual([
+      NYC_AFTER_PARTY,
+    ]);
+    expect(
+      frederica.filter((event) => event.wedding === 'france').every((event) => event.type === 'Core')
+    ).toBe(true);
+  });
+
+  test('day dates resolve from the wedding timeline fixture', async () => {
+    expect(await fetchDayDate('local-day-nyc-sunday')).toBe('2026-10-11');
+    expect(await fetchDayDate('local-day-missing')).toBeUndefined();
+  });
+});
+
+test.describe('Local data store — RSVP Responses', () => {
+  test('one row per party + event, found from any member and updated in place', async () => {
+    const first = await submitRSVP(
+      ALEX,
+      nycSubmission([
+        { guestId: ALEX, name: 'Alex Rivera', attending: true },
+        { guestId: JORDAN, name: 'Jordan Chen', attending: true },
+      ])
+    );
+    expect(first.status).toBe('Attending');
+    expect(first.guestIds.sort()).toEqual([ALEX, JORDAN].sort());
+
+    const fromPartner = await getLatestRSVPForParty([JORDAN], 'nyc');
+    expect(fromPartner?.id).toBe(first.id);
+
+    const second = await submitRSVP(
+      JORDAN,
+      nycSubmission([
+        { guestId: JORDAN, name: 'Jordan Chen', attending: true },
+        { guestId: ALEX, name: 'Alex Rivera', attending: false },
+      ])
+    );
+    expect(second.id).toBe(first.id);
+    expect(second.status).toBe('Partial');
+    expect(second.attendanceById).toEqual({ [JORDAN]: true, [ALEX]: false });
+  });
+
+  test('calendar events follow per-member attendance', async () => {
+    await submitRSVP(
+      ALEX,
+      nycSubmission(
+        [
+          { guestId: ALEX, name: 'Alex Rivera', attending: false },
+          { guestId: JORDAN, name: 'Jordan Chen', attending: true },
+        ],
+        [NYC_COCKTAILS, NYC_AFTER_PARTY]
+      )
+    );
+
+    expect(await getAttendingEvents(ALEX)).toEqual([]);
+    const jordanEvents = await getAttendingEvents(JORDAN);
+    expect(jordanEvents.map((event) => event.id)).toEqual([NYC_COCKTAILS, NYC_AFTER_PARTY]);
+  });
+
+  test('naming a plus-one renames the record so they can log in', async () => {
+    await submitRSVP(
+      CASEY,
+      nycSubmission([
+        { guestId: CASEY, name: 'Casey Morgan', attending: true },
+        { guestId: CASEY_PLUS_ONE, name: 'Robin Ashby', attending: true },
+      ])
+    );
+
+    const [named] = await findGuestsByName('Robin Ashby');
+    expect(named?.id).toBe(CASEY_PLUS_ONE);
+    // "<host> +1" is a slot, not a name — it is not kept as an alias
+    expect(named?.aka ?? []).toEqual([]);
+  });
+
+  test('seeded responses are indexed under every related guest', async () => {
+    const all = await fetchAllLatestRSVPs();
+    expect(all.get('local-guest-samir-benoit')?.[0]?.event).toBe('france');
+    expect(all.get('local-guest-odette-vaillant')?.[0]?.guestId).toBe('local-guest-odette-vaillant');
+  });
+
+  test('writes persist to WEDDING_DATA_DIR and survive a reload', async () => {
+    await submitRSVP(RILEY, {
+      event: 'france',
+      guestsAttending: [{ guestId: RILEY, name: 'Riley Dubois', attending: true }],
+      eventsAttending: ['local-event-france-ceremony'],
+      dietary: 'No shellfish',
+    });
+    expect(fs.existsSync(path.join(scratchDir, 'rsvp-responses.json'))).toBe(true);
+
+    resetLocalDataStore();
+    const reloaded = await getLatestRSVPForParty([RILEY], 'france');
+    expect(reloaded?.dietary).toBe('No shellfish');
+
+    expect(await deleteRSVP(RILEY, 'france')).toBe(true);
+    expect(await getLatestRSVPForParty([RILEY], 'france')).toBeNull();
+    expect(await deleteRSVP(RILEY, 'france')).toBe(false);
+  });
+});
@@ -0,0 +1,233 @@
+import { test, expect } from '@playwright/test';
+import {
+  buildMasterCalendar,
+  eventHeadcounts,
+  masterCalendarToken,
+  masterEventDescription,
+  reissueMasterCalendarToken,
+  verifyMasterCalendarToken,
+} from '../src/lib/master-calendar';
+import { buildAllergenMatrix } from '../src/lib/allergens';
+import { resetCalendarTokensTestStore } from '../src/lib/calendar-tokens';
+import { getEventCatalog, getInternalEvents } from '../src/lib/data-store';
+import { resetLocalDataStore } from '../src/lib/local-store';
+import type { EventRecord, GuestRecord, RSVPResponse } from '../src/types';
+
+/**
+ * Unit-style tests for the master calendar: per-event headcounts, the
+ * description each event carries, the URL token, and the feed built from the
+ * local data store with its Internal event.
+ */
+
+const CEREMONY: EventRecord = {
+  id: 'ceremony',
+  name: 'Ceremony',
+  wedding: 'france',
+  type: 'Core',
+  date: '2027-05-29',
+  startTime: '5:00 PM',
+  showOnWebsite: true,
+  description: 'In the garden',
+};
+const TASTING: EventRecord = { ...CEREMONY, id: 'tasting', name: 'Cider Tasting', type: 'Optional' };
+const SETUP: EventRecord = {
+  ...CEREMONY,
+  id: 'setup',
+  name: 'Rentals Setup',
+  type: 'Internal',
+  description: 'Planner on site',
+};
+
+function guest(id: string, name: string, extra: Partial<GuestRecord> = {}): GuestRecord {
+  return {
+    id,
+    name,
+    normalizedName: name.toLowerCase(),
+    eventInvitations: ['france'],
+    isPlusOne: false,
+    relatedGuestIds: [],
+    ...extra,
+  };
+}
+
+const GUESTS = [
+  guest('a1', 'Ana Roux', { relatedGuestIds: ['a2'], eventsInvited: ['ceremony', 'tasting'] }),
+  guest('a2', 'Alain Roux', { relatedGuestIds: ['a1'] }),
+  guest('b1', 'Bea Martin'),
+  guest('c1', 'Cy Dubois'),
+  guest('t1', 'Test Guest', { isTestGuest: true }),
+];
+
+const ROUX: RSVPResponse = {
+  id: 'r1',
+  guestId: 'a1',
+  guestIds: ['a1', 'a2'],
+  event: 'france',
+  submittedAt: '2027-01-10T10:00:00.000Z',
+  status: 'Attending',
+  guestsAttending: 'Ana Roux',
+  attendanceById: { a1: true, a2: false },
+  dietary: 'Ana Roux: Vegetarian',
+  message: '',
+  eventsAttending: ['ceremony'],
+  details: { dietaryByGuest: [{ guestId: 'a1', allergens: ['peanuts'], vegetarian: true, note: 'no coriander' }] },
+};
+const MARTIN: RSVPResponse = {
+  ...ROUX,
+  id: 'r2',
+  guestId: 'b1',
+  guestIds: ['b1'],
+  guestsAttending: '',
+  attendanceById: { b1: false },
+  status: 'Declined',
+  eventsAttending: [],
+  details: {},
+};
+
+const LATEST = new Map<string, RSVPResponse[]>([
+  ['a1', [ROUX]],
+  ['a2', [ROUX]],
+  ['b1', [MARTIN]],
+]);
+
+test.describe('Master calendar', () => {
+  test('counts invited guests by answer; test guests and uninvited events are left out', () => {
+    const counts = eventHeadcounts([CEREMONY, TASTING], GUESTS, LATEST);
+    // Ana attends, Alain stayed home, Bea declined, Cy has not answered
+    expect(counts.get('ceremony')).toEqual({ attending: 1, declined: 2, pending: 1, waitlisted: 0 });
+    // Only the Roux household is invited to the tasting, and did not choose it
+    expect(counts.get('tasting')).toEqual({ attending: 0, declined: 2, pending: 0, waitlisted: 0 });
+  });
+
+  test('waitlisted guests are counted apart from those attending', () => {
+    const full = { ...TASTING, capacity: 1 };
+    const early: RSVPResponse = {
+      ...ROUX,
+      id: 'r0',
+      guestId: 'c1',
+      guestIds: ['c1'],
+      attendanceById: { c1: true },
+      eventsAttending: ['tasting'],
+      details: { eventsRequestedAt: { tasting: '2027-01-01T00:00:00.000Z' } },
+    };
+    const roux: RSVPResponse = {
+      ...ROUX,
+      eventsAttending: ['ceremony', 'tasting'],
+      details: { eventsRequestedAt: { tasting: '2027-01-10T10:00:00.000Z' } },
+    };
+    const guests = GUESTS.map((g) => (g.id === 'c1' ? { ...g, eventsInvited: ['tasting'] } : g));
+    const latest = new Map([...LATEST, ['a1', [roux]], ['a2', [roux]], ['c1', [early]]]);
+    expect(eventHeadcounts([CEREMONY, full], guests, latest).get('tasting')).toEqual({
+      attending: 1,
+      declined: 1,
+      pending: 0,
+      waitlisted: 1,
+    });
+  });
+
+  test('the description leads with headcounts and dietary needs, then the catalog text', () => {
+    const [matrix] = buildAllergenMatrix([CEREMONY], [ROUX], GUESTS);
+    const description = masterEventDescription(
+      CEREMONY,
+      { attending: 1, declined: 2, pending: 1, waitlisted: 0 },
+      matrix,
+      ["Bea Martin's party: no shellfish"]
+    );
+    expect(description.split('\n')).toEqual([
+      'Attending: 1 · Declined: 2 · Pending: 1',
+      'Dietary: Vegetarian 1, Peanuts 1',
+      'Notes:',
+      '• Ana Roux: Vegetarian; Allergens: Peanuts; no coriander',
+      "• Bea Martin's party: no shellfish",
+      '',
+      'In the garden',
+    ]);
+    expect(masterEventDescription(SETUP, undefined, undefined)).toBe(
+      'Internal — not on any guest calendar.\n\nPlanner on site'
+    );
+  });
+
+  test('the feed token is signed with the admin secret', async () => {
+    const before = process.env.RESEND_ADMIN_SECRET;
+    process.env.CALENDAR_TEST_MODE = 'true';
+    resetCalendarTokensTestStore();
+    try {
+      delete process.env.RESEND_ADMIN_SECRET;
+      expect(await masterCalendarToken()).toBeNull();
+      expect(await verifyMasterCalendarToken('anything')).toBe(false);
+
+      process.env.RESEND_ADMIN_SECRET = 'admin-secret';
+      const token = (await masterCalendarToken())!;
+      expect(token).toMatch(/^[0-9a-f]{32}$/);
+      expect(await verifyMasterCalendarToken(token)).toBe(true);
+      expect(await verifyMasterCalendarToken(token.replace(/.$/, (c) => (c === '0' ? '1' : '0')))).toBe(false);
+
+      process.env.RESEND_ADMIN_SECRET = 'rotated';
+      expect(await verifyMasterCalendarToken(token)).toBe(false);
+    } finally {
+      if (before === undefined) delete process.env.RESEND_ADMIN_SECRET;
+      else process.env.RESEND_ADMIN_SECRET = before;
+      delete process.env.CALENDAR_TEST_MODE;
+      resetCalendarTokensTestStore();
+    }
+  });
+
+  test('a reissued feed token retires the old one after its grace window', async () => {
+    const before = process.env.RESEND_ADMIN_SECRET;
+    process.env.CALENDAR_TEST_MODE = 'true';
+    process.env.RESEND_ADMIN_SECRET = 'admin-secret';
+    resetCalendarTokensTestStore();
+    try {
+      const original = (await masterCalendarToken())!;
+      const now = new Date('2026-09-01T12:00:00Z');
+      const { token, state } = (await reissueMasterCalendarToken(48, now))!;
+      expect(state.generation).toBe(1);
+      expect(token).toMatch(/^1\.[0-9a-f]{32}$/);
+      expect(await masterCalendarToken()).toBe(token);
+
+      // Same admin secret, new link: the leaked one stops working
+      expect(await verifyMasterCalendarToken(token, now)).toBe(true);
+      expect(await verifyMasterCalendarToken(original, now)).toBe(true);
+      expect(await verifyMasterCalendarToken(original, new Date('2026-09-03T12:00:01Z'))).toBe(false);
+
+      const { token: revoked } = (await reissueMasterCalendarToken(0, now))!;
+      expect(await verifyMasterCalendarToken(token, now)).toBe(false);
+      expect(await verifyMasterCalendarToken(revoked, now)).toBe(true);
+    } finally {
+      if (before === undefined) delete process.env.RESEND_ADMIN_SECRET;
+      else process.env.RESEND_ADMIN_SECRET = before;
+      delete process.env.CALENDAR_TEST_MODE;
+      resetCalendarTokensTestStore();
+    }
+  });
+});
+
+test.describe('Master calendar — local data store', () => {
+  test.beforeEach(() => {
+    process.env.WEDDING_DATA_STORE = 'local';
+    delete process.env.WEDDING_DATA_DIR;
+    resetLocalDataStore();
+  });
+
+  test.afterEach(() => {
+    delete process.env.WEDDING_DATA_STORE;
+    resetLocalDataStore();
+  });
+
+  test('Internal events stay out of the guest catalog', async () => {
+    const internal = await getInternalEvents('france');
+    expect(internal.map((event) => event.id)).toEqual(['local-event-france-setup']);
+    const catalog = await getEventCatalog('france');
+    expect(catalog.some((event) => event.type === 'Internal')).toBe(false);
+  });
+
+  test('the feed lists every event of both weddings, Internal ones included', async () => {
+    const ics = await buildMasterCalendar();
+    expect(ics).toContain('X-WR-CALNAME:Sargaux Wedding — Master');
+    expect(ics).toContain('UID:master-local-event-nyc-cocktails@sargaux.com');
+    expect(ics).toContain('UID:master-local-event-france-ceremony@sargaux.com');
+    expect(ics).toContain('SUMMARY:[Internal] Florist & Rentals Setup');
+    expect(ics).toMatch(/DESCRIPTION:Attending: \d+ · Declined: \d+ · Pending: \d+/);
+    expect(ics).not.toContain('BEGIN:VALARM');
+  });
+});
@@ -0,0 +1,162 @@
+import { test, expect } from '@playwright/test';
+import {
+  mealOptionId,
+  parseMealOptions,
+  mealOptionLabel,
+  describeMealChoices,
+  validateMealChoices,
+  summarizeMeals,
+} from '../src/lib/meals';
+import { getEventCatalog } from '../src/lib/data-store';
+import { resetLocalDataStore } from '../src/lib/local-store';
+import type { EventRecord } from '../src/types';
+import { mockPartyRSVPResponse } from './fixtures';
+
+/**
+ * Unit-style tests for per-attendee meal selection: parsing the Event Catalog
+ * options, validating a submission's choices, and the caterer totals.
+ */
+
+const DINNER: EventRecord = {
+  id: 'dinner',
+  name: 'Dinner & Dancing',
+  type: 'Core',
+  wedding: 'france',
+  showOnWebsite: true,
+  mealOptions: parseMealOptions('Beef tenderloin\nSea bass\nRisotto', 'Filet de bœuf\nBar de ligne'),
+};
+const BRUNCH: EventRecord = {
+  id: 'brunch',
+  name: 'Farewell Brunch',
+  type: 'Core',
+  wedding: 'france',
+  showOnWebsite: true,
+};
+
+test.describe('meal options', () => {
+  test('parse one option per line, pairing French lines by position', () => {
+    expect(DINNER.mealOptions).toEqual([
+      { id: 'beef-tenderloin', label: 'Beef tenderloin', labelFr: 'Filet de bœuf' },
+      { id: 'sea-bass', label: 'Sea bass', labelFr: 'Bar de ligne' },
+      { id: 'risotto', label: 'Risotto' },
+    ]);
+    expect(mealOptionLabel(DINNER.mealOptions![2], 'fr')).toBe('Risotto');
+    expect(parseMealOptions('  \n', 'Poisson')).toBeUndefined();
+    expect(parseMealOptions(undefined)).toBeUndefined();
+  });
+
+  test('derive stable IDs from the English label', () => {
+    expect(mealOptionId('Crème Brûlée & Co.')).toBe('creme-brulee-co');
+    expect(parseMealOptions('Fish\nfish\nVeg')?.map((option) => option.id)).toEqual(['fish', 'veg']);
+  });
+
+  test('describe a party’s choices in party order', () => {
+    const party = [{ id: 'a', name: 'Ana' }, { id: 'b', name: 'Ben' }, { id: 'c', name: 'Cy' }];
+    const choices = [
+      { guestId: 'b', eventId: 'dinner', optionId: 'sea-bass' },
+      { guestId: 'a', eventId: 'dinner', optionId: 'beef-tenderloin' },
+    ];
+    expect(describeMealChoices(DINNER, choices, party, 'fr')).toEqual([
+      { guestId: 'a', name: 'Ana', meal: 'Filet de bœuf' },
+      { guestId: 'b', name: 'Ben', meal: 'Bar de ligne' },
+    ]);
+  });
+});
+
+test.describe('meal choice validation', () => {
+  const input = { events: [DINNER, BRUNCH], eventsAttending: ['dinner', 'brunch'], attendingGuestIds: ['a', 'b'] };
+
+  test('requires a choice for every attending member at an attended meal event', () => {
+    const complete = [
+      { guestId: 'a', eventId: 'dinner', optionId: 'sea-bass' },
+      { guestId: 'b', eventId: 'dinner', optionId: 'risotto' },
+    ];
+    expect(validateMealChoices(complete, input)).toBeNull();
+    expect(validateMealChoices(complete.slice(0, 1), input)).toMatch(/required/);
+    expect(validateMealChoices(undefined, input)).toMatch(/required/);
+    // Nothing owed when the meal event is declined, or nobody attends.
+    expect(validateMealChoices(undefined, { ...input, eventsAttending: ['brunch'] })).toBeNull();
+    expect(validateMealChoices([], { ...input, attendingGuestIds: [] })).toBeNull();
+  });
+
+  test('rejects choices for other guests, events or options', () => {
+    const choice = (overrides: Record<string, unknown>) => [
+      { guestId: 'a', eventId: 'dinner', optionId: 'sea-bass' },
+      { guestId: 'b', eventId: 'dinner', optionId: 'sea-bass', ...overrides },
+    ];
+    expect(validateMealChoices(choice({ guestId: 'z' }), input)).toMatch(/not attending/);
+    expect(validateMealChoices(choice({ eventId: 'brunch' }), input)).toMatch(/no meal choice/);
+    expect(validateMealChoices(choice({ optionId: 'lobster' }), input)).toMatch(/unknown option/);
+    expect(validateMealChoices(choice({ guestId: 'a' }), input)).toMatch(/more than one/);
+    expect(validateMealChoices({ a: 'sea-bass' }, input)).toMatch(/array/);
+  });
+});
+
+test.describe('meal totals', () => {
+  test('count attending guests per option and flag missing choices', () => {
+    const totals = summarizeMeals(
+      [DINNER, BRUNCH],
+      [
+        mockPartyRSVPResponse({
+          id: 'r1',
+          details: {
+            meals: [
+              { guestId: 'a', eventId: 'dinner', optionId: 'sea-bass' },
+              { guestId: 'b', eventId: 'dinner', optionId: 'sea-bass' },
+            ],
+          },
+        }),
+        // Partial party: only Cy's choice counts, Dee's is stale.
+        mockPartyRSVPResponse({
+          id: 'r2',
+          attendanceById: { c: true, d: false },
+          details: {
+            meals: [
+              { guestId: 'c', eventId: 'dinner', optionId: 'risotto' },
+              { guestId: 'd', eventId: 'dinner', optionId: 'beef-tenderloin' },
+            ],
+          },
+        }),
+        // Answered before meals existed.
+        mockPartyRSVPResponse({ id: 'r3', attendanceById: { e: true } }),
+        mockPartyRSVPResponse({ id: 'r4', eventsAttending: ['brunch'] }),
+        mockPartyRSVPResponse({ id: 'r5', status: 'Declined', eventsAttending: [] }),
+      ]
+    );
+
+    expect(totals).toEqual([
+      {
+        eventId: 'dinner',
+        eventName: 'Dinner & Dancing',
+        options: [
+          { id: 'beef-tenderloin', label: 'Beef tenderloin', count: 0 },
+          { id: 'sea-bass', label: 'Sea bass', count: 2 },
+          { id: 'risotto', label: 'Risotto', count: 1 },
+        ],
+        missing: 1,
+      },
+    ]);
+  });
+});
+
+test.describe('meal options — local data store', () => {
+  test.beforeEach(() => {
+    process.env.WEDDING_DATA_STORE = 'local';
+    delete process.env.WEDDING_DATA_DIR;
+    resetLocalDataStore();
+  });
+
+  test.afterEach(() => {
+    delete process.env.WEDDING_DATA_STORE;
+    resetLocalDataStore();
+  });
+
+  test('the France reception fixture offers a choice of entrée', async () => {
+    const reception = (await getEventCatalog('france')).find((event) => event.id === 'local-event-france-reception');
+    expect(reception?.mealOptions?.map((option) => option.id)).toEqual([
+      'beef-tenderloin',
+      'sea-bass',
+      'wild-mushroom-risotto',
+    ]);
+  });
+});
@@ -0,0 +1,145 @@
+import { test, expect } from '@playwright/test';
+import {
+  GUEST_LIST,
+  EVENT_CATALOG,
+  RSVP_RESPONSES,
+  NOTION_DATABASES,
+  type DatabaseSpec,
+} from '../src/lib/notion-schema';
+import {
+  checkDatabaseSchema,
+  runSchemaDoctor,
+  type LivePropertyDefinition,
+} from '../src/lib/notion-schema-doctor';
+import { parseRSVPPage } from '../src/lib/notion';
+
+/**
+ * Unit tests for the Notion schema doctor's comparison logic, against live
+ * property definitions synthesized from the declared schema.
+ */
+
+/** A live database that matches the declared schema exactly. */
+function liveFrom(spec: DatabaseSpec): Record<string, LivePropertyDefinition> {
+  return Object.fromEntries(
+    Object.values(spec.properties).map((property) => {
+      const def: LivePropertyDefinition = { name: property.name, type: property.type };
+      if (property.options) {
+        const options = { options: property.options.map((name) => ({ name })) };
+        if (property.type === 'select') def.select = options;
+        if (property.type === 'multi_select') def.multi_select = options;
+        if (property.type === 'status') def.status = options;
+      }
+      return [property.name, def];
+    })
+  );
+}
+
+test.describe('Notion schema doctor', () => {
+  test('a database matching the declared schema has no issues', () => {
+    for (const spec of [GUEST_LIST, EVENT_CATALOG, RSVP_RESPONSES]) {
+      expect(checkDatabaseSchema(spec, liveFrom(spec))).toEqual([]);
+    }
+  });
+
+  test('a renamed property is reported with its likely new name', () => {
+    const live = liveFrom(GUEST_LIST);
+    live['Related guests'] = live['Related Guests'];
+    delete live['Related Guests'];
+
+    const [issue] = checkDatabaseSchema(GUEST_LIST, live);
+    expect(issue).toMatchObject({ kind: 'renamed', severity: 'error', property: 'Related Guests' });
+    expect(issue.message).toContain('"Related guests"');
+  });
+
+  test('a missing optional property is only a warning', () => {
+    const live = liveFrom(GUEST_LIST);
+    delete live['Also Known As'];
+    expect(checkDatabaseSchema(GUEST_LIST, live)).toEqual([
+      expect.objectContaining({ kind: 'missing', severity: 'warning', property: 'Also Known As' }),
+    ]);
+  });
+
+  test('a property of the wrong type is reported as mistyped', () => {
+    const live = liveFrom(GUEST_LIST);
+    live['Guest Email'] = { name: 'Guest Email', type: 'rich_text' };
+    expect(checkDatabaseSchema(GUEST_LIST, live)).toEqual([
+      expect.objectContaining({ kind: 'mistyped', severity: 'error', property: 'Guest Email' }),
+    ]);
+  });
+
+  test('select options: missing ones are errors, unexpected ones warnings', () => {
+    const live = liveFrom(RSVP_RESPONSES);
+    live['Event'] = {
+      name: 'Event',
+      type: 'select',
+      select: { options: [{ name: 'NYC' }, { name: 'Paris' }] },
+    };
+    const issues = checkDatabaseSchema(RSVP_RESPONSES, live);
+    expect(issues).toEqual([
+      expect.objectContaining({ kind: 'missing-option', severity: 'error', property: 'Event' }),
+      expect.objectContaining({ kind: 'unexpected-option', severity: 'warning', property: 'Event' }),
+    ]);
+  });
+
+  test('workflow states on status columns are not flagged', () => {
+    const live = liveFrom(GUEST_LIST);
+    live['NYC Invite Sent'].status!.options!.push({ name: 'Not started' }, { name: 'Sent' });
+    expect(checkDatabaseSchema(GUEST_LIST, live)).toEqual([]);
+  });
+
+  test('an unset optional database is only a warning', async () => {
+    const envVars = [
+      ...NOTION_DATABASES.map((spec) => spec.envVar),
+      'FEATURE_NYC_FLIGHT_COLLECTION',
+      'FEATURE_FRANCE_FLIGHT_COLLECTION',
+    ];
+    const saved = envVars.map((envVar) => [envVar, process.env[envVar]] as const);
+    for (const envVar of envVars) delete process.env[envVar];
+    try {
+      let { databases } = await runSchemaDoctor();
+      const issue = (label: string) => databases.find((db) => db.label === label)?.issues[0];
+      expect(issue('Guest List')).toMatchObject({ kind: 'unconfigured', severity: 'error' });
+      expect(issue('Hotel Blocks')).toMatchObject({ kind: 'unconfigured', severity: 'warning' });
+      expect(issue('Guest Flights')).toMatchObject({ kind: 'unconfigured', severity: 'warning' });
+
+      // Guest Flights is needed once either wedding collects flights
+      process.env.FEATURE_FRANCE_FLIGHT_COLLECTION = 'true';
+      ({ databases } = await runSchemaDoctor());
+      expect(issue('Guest Flights')).toMatchObject({ kind: 'unconfigured', severity: 'error' });
+    } finally {
+      for (const [envVar, value] of saved) {
+        if (value === undefined) delete process.env[envVar];
+        else process.env[envVar] = value;
+      }
+    }
+  });
+});
+
+test.describe('Notion schema — parsers read through it', () => {
+  test('parseRSVPPage reads the declared RSVP Responses properties', () => {
+    const R = RSVP_RESPONSES.properties;
+    const text = (content: string) => ({ rich_text: [{ plain_text: content }] });
+    const page = {
+      object: 'page',
+      id: 'response-1',
+      properties: {
+        [R.submittedAt.name]: { date: { start: '2026-09-01T12:00:00.000Z' } },
+        [R.status.name]: { select: { name: 'Partial' } },
+        [R.guestsAttending.name]: text('Alex Rivera'),
+        [R.dietaryNeeds.name]: text('Vegetarian'),
+        [R.message.name]: text('See you there'),
+        [R.details.name]: text('{"eventsAttending":["event-1"]}'),
+        [R.guest.name]: { relation: [{ id: 'guest-1' }, { id: 'guest-2' }] },
+      },
+    };
+
+    expect(parseRSVPPage(page, 'guest-1', 'nyc')).toMatchObject({
+      status: 'Partial',
+      guestsAttending: 'Alex Rivera',
+      dietary: 'Vegetarian',
+      message: 'See you there',
+      eventsAttending: ['event-1'],
+      guestIds: ['guest-1', 'guest-2'],
+    });
+  });
+});
@@ -106,8 +106,7 @@ test.describe('NYC Travel page — hotels section', () => {
     await expect(page.locator('text=By Subway')).toBeVisible();
   });
 
-  test('Wythe Hotel is visible by default', async () => {
-    test.skip(process.env.FEATURE_NYC_WYTHE_SOLD_OUT === 'true', 'Wythe is marked sold out — hotel is expected to be hidden');
+  test('Wythe Hotel is visible', async () => {
     await expect(page.locator('.nyc-info-key', { hasText: 'Wythe Hotel' })).toBeVisible();
   });
 });
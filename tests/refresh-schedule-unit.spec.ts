@@ -0,0 +1,77 @@
+import { test, expect } from '@playwright/test';
+import {
+  fetchWeddingDates,
+  refreshCadence,
+  refreshDue,
+  refreshLeadTimes,
+  type WeddingDates,
+} from '../src/lib/refresh-schedule';
+import { resetLocalDataStore } from '../src/lib/local-store';
+
+/**
+ * Unit-style tests for the scheduled calendar refresh: cadence windows derived
+ * from the wedding dates, and which hourly runs actually refresh.
+ */
+
+const WEDDINGS: WeddingDates[] = [
+  { wedding: 'nyc', first: '2026-10-11', last: '2026-10-11' },
+  { wedding: 'france', first: '2027-05-28', last: '2027-05-30' },
+];
+const LEAD = { dailyLeadDays: 14, hourlyLeadDays: 1 };
+
+test.afterEach(() => {
+  delete process.env.ICS_REFRESH_DAILY_LEAD_DAYS;
+  delete process.env.ICS_REFRESH_HOURLY_LEAD_DAYS;
+});
+
+test.describe('Refresh cadence', () => {
+  test('weekly far out, daily from the lead time, hourly over the wedding weekend', () => {
+    const at = (iso: string) => refreshCadence(WEDDINGS, LEAD, new Date(iso));
+    expect(at('2026-09-26T23:59:00Z')).toBe('weekly');
+    expect(at('2026-09-27T00:00:00Z')).toBe('daily');
+    expect(at('2026-10-10T00:00:00Z')).toBe('hourly');
+    expect(at('2026-10-12T23:59:00Z')).toBe('hourly');
+    expect(at('2026-10-13T00:00:00Z')).toBe('weekly');
+    expect(at('2027-05-20T12:00:00Z')).toBe('daily');
+    expect(at('2027-05-31T12:00:00Z')).toBe('hourly');
+  });
+
+  test('the windows move with the wedding date', () => {
+    const moved: WeddingDates[] = [{ wedding: 'nyc', first: '2026-11-07', last: '2026-11-07' }];
+    expect(refreshCadence(moved, LEAD, new Date('2026-10-11T12:00:00Z'))).toBe('weekly');
+    expect(refreshCadence(moved, LEAD, new Date('2026-11-06T12:00:00Z'))).toBe('hourly');
+    expect(refreshCadence([], LEAD, new Date('2026-10-11T12:00:00Z'))).toBe('weekly');
+  });
+
+  test('daily and weekly runs happen at 03:00 UTC, weekly only on Sundays', () => {
+    expect(refreshDue('hourly', new Date('2026-10-11T17:00:00Z'))).toBe(true);
+    expect(refreshDue('daily', new Date('2026-10-01T03:00:00Z'))).toBe(true);
+    expect(refreshDue('daily', new Date('2026-10-01T04:00:00Z'))).toBe(false);
+    expect(refreshDue('weekly', new Date('2026-08-02T03:00:00Z'))).toBe(true); // Sunday
+    expect(refreshDue('weekly', new Date('2026-08-03T03:00:00Z'))).toBe(false);
+  });
+
+  test('lead times come from the environment, ignoring unusable values', () => {
+    expect(refreshLeadTimes()).toEqual(LEAD);
+    process.env.ICS_REFRESH_DAILY_LEAD_DAYS = '21';
+    process.env.ICS_REFRESH_HOURLY_LEAD_DAYS = 'soon';
+    expect(refreshLeadTimes()).toEqual({ dailyLeadDays: 21, hourlyLeadDays: 1 });
+  });
+});
+
+test.describe('Wedding dates — local data store', () => {
+  test.beforeEach(() => {
+    process.env.WEDDING_DATA_STORE = 'local';
+    delete process.env.WEDDING_DATA_DIR;
+    resetLocalDataStore();
+  });
+
+  test.afterEach(() => {
+    delete process.env.WEDDING_DATA_STORE;
+    resetLocalDataStore();
+  });
+
+  test('spans each wedding from its first to its last catalog event', async () => {
+    expect(await fetchWeddingDates()).toEqual(WEDDINGS);
+  });
+});
@@ -0,0 +1,156 @@
+import { test, expect } from '@playwright/test';
+import {
+  buildRSVPActivity,
+  isRSVPActivity,
+  listRSVPActivity,
+  recordRSVPActivity,
+  resetActivityTestStore,
+  sendRSVPActivityDigest,
+} from '../src/lib/rsvp-activity';
+import { rsvpActivityAlert, rsvpActivityDigest } from '../src/lib/email-templates';
+import type { RSVPResponse, RSVPSubmission } from '../src/types';
+
+/**
+ * Unit-style tests for the couple's RSVP activity feed: what counts as news,
+ * which entries are mailed straight away, and the feed's in-memory store.
+ */
+
+const PARTY = [
+  { id: 'ana', name: 'Ana Martin', normalizedName: 'ana martin' },
+  { id: 'ben', name: 'Ben Martin', normalizedName: 'ben martin' },
+];
+const meta = { party: PARTY, submittedBy: 'ana', source: 'website' as const, now: new Date('2026-11-01T10:00:00Z') };
+
+function submission(attending: { ana: boolean; ben: boolean }, extra: Partial<RSVPSubmission> = {}): RSVPSubmission {
+  return {
+    event: 'france',
+    guestsAttending: [
+      { guestId: 'ana', name: 'Ana Martin', attending: attending.ana },
+      { guestId: 'ben', name: 'Ben Martin', attending: attending.ben },
+    ],
+    eventsAttending: attending.ana || attending.ben ? ['ceremony'] : [],
+    sendConfirmation: false,
+    ...extra,
+  };
+}
+
+const previous: RSVPResponse = {
+  id: 'row',
+  guestId: 'ana',
+  guestIds: ['ana', 'ben'],
+  event: 'france',
+  submittedAt: '2026-10-01T10:00:00.000Z',
+  status: 'Attending',
+  guestsAttending: 'Ana Martin, Ben Martin',
+  attendanceById: { ana: true, ben: true },
+  dietary: 'Ben: no nuts',
+  message: 'See you there',
+};
+
+test.afterEach(() => {
+  delete process.env.CALENDAR_TEST_MODE;
+  delete process.env.FEATURE_GLOBAL_EMAIL_ENABLED;
+  resetActivityTestStore();
+});
+
+test.describe('RSVP activity entries', () => {
+  test('a first answer goes to the digest unless it is a decline', () => {
+    const yes = buildRSVPActivity(null, submission({ ana: true, ben: true }), meta);
+    expect(yes).toMatchObject({ kind: 'new', status: 'Attending', attendingCount: 2, changes: [], immediate: false });
+    expect(isRSVPActivity(yes)).toBe(true);
+
+    const no = buildRSVPActivity(null, submission({ ana: false, ben: false }), meta);
+    expect(no).toMatchObject({ kind: 'new', status: 'Declined', immediate: true });
+  });
+
+  test('a changed answer lists what changed and is mailed at once', () => {
+    const activity = buildRSVPActivity(
+      previous,
+      submission({ ana: true, ben: false }, { dietary: 'Ana: vegan', message: 'See you there' }),
+      meta
+    );
+    expect(activity).toMatchObject({
+      kind: 'changed',
+      changes: ['Status: Attending → Partial', 'Party size: 2 → 1', 'Dietary: Ana: vegan'],
+      immediate: true,
+    });
+    expect(activity).not.toHaveProperty('message');
+  });
+
+  test('a new message alone is digest news; an identical answer is none', () => {
+    const same = { dietary: 'Ben: no nuts', message: 'See you there' };
+    expect(buildRSVPActivity(previous, submission({ ana: true, ben: true }, same), meta)).toBeNull();
+
+    const note = buildRSVPActivity(
+      previous,
+      submission({ ana: true, ben: true }, { ...same, message: 'Can we bring the dog?' }),
+      meta
+    );
+    expect(note).toMatchObject({ changes: [], message: 'Can we bring the dog?', immediate: false });
+  });
+
+  test('test guests never reach the feed', () => {
+    const bots = [
+      { id: 'alex', name: 'Alex Rivera', normalizedName: 'alex rivera' },
+      { id: 'jordan', name: 'Jordan Chen', normalizedName: 'jordan chen', isTestGuest: true },
+    ];
+    expect(buildRSVPActivity(null, submission({ ana: false, ben: false }), { ...meta, party: bots })).toBeNull();
+  });
+});
+
+test.describe('RSVP activity feed', () => {
+  test('lists entries oldest first, filtered by time and event', async () => {
+    process.env.CALENDAR_TEST_MODE = 'true';
+    const at = (iso: string, extra: Partial<RSVPSubmission> = {}) =>
+      buildRSVPActivity(null, submission({ ana: true, ben: true }, extra), { ...meta, now: new Date(iso) })!;
+    await recordRSVPActivity(at('2026-11-02T09:00:00Z'));
+    await recordRSVPActivity(at('2026-11-01T09:00:00Z'));
+    await recordRSVPActivity(at('2026-11-03T09:00:00Z', { event: 'nyc' }));
+
+    expect((await listRSVPActivity()).map((entry) => entry.recordedAt)).toEqual([
+      '2026-11-01T09:00:00.000Z',
+      '2026-11-02T09:00:00.000Z',
+      '2026-11-03T09:00:00.000Z',
+    ]);
+    expect(await listRSVPActivity({ since: '2026-11-01T09:00:00.000Z', event: 'france' })).toHaveLength(1);
+  });
+
+  test('entries recorded before `since` are skipped by key, without being read', async () => {
+    process.env.CALENDAR_TEST_MODE = 'true';
+    const entry = buildRSVPActivity(null, submission({ ana: true, ben: true }), {
+      ...meta,
+      now: new Date('2026-11-05T09:00:00Z'),
+    })!;
+    // Filed under an older key than its recordedAt: only the key is checked
+    const olderKey = String(Date.parse('2026-10-01T00:00:00Z')).padStart(15, '0');
+    await recordRSVPActivity({ ...entry, id: entry.id.replace(/^\d{15}/, olderKey) });
+
+    expect(await listRSVPActivity()).toHaveLength(1);
+    expect(await listRSVPActivity({ since: '2026-11-01T00:00:00.000Z' })).toEqual([]);
+  });
+
+  test('the digest holds its entries while site email is off', async () => {
+    process.env.CALENDAR_TEST_MODE = 'true';
+    process.env.FEATURE_GLOBAL_EMAIL_ENABLED = 'false';
+    await recordRSVPActivity(buildRSVPActivity(null, submission({ ana: true, ben: true }), meta)!);
+
+    const now = new Date('2026-11-01T13:00:00Z');
+    expect(await sendRSVPActivityDigest(now)).toEqual({ sent: false, count: 1 });
+    // The mark did not move: the next run still sees the same entry
+    expect(await sendRSVPActivityDigest(new Date('2026-11-01T20:00:00Z'))).toEqual({ sent: false, count: 1 });
+  });
+
+  test('renders an alert and a digest for the couple', () => {
+    const declined = buildRSVPActivity(previous, submission({ ana: false, ben: false }), meta)!;
+    expect(rsvpActivityAlert(declined).subject).toBe(
+      'RSVP: Ana Martin, Ben Martin changed their answer to Declined — France'
+    );
+    const digest = rsvpActivityDigest({
+      activity: [declined],
+      since: '2026-10-31T13:00:00.000Z',
+      until: '2026-11-01T13:00:00.000Z',
+    });
+    expect(digest.subject).toBe('RSVP digest: 1 update (2026-10-31 – 2026-11-01)');
+    expect(digest.text).toContain('  - Party size: 2 → 0');
+  });
+});
@@ -0,0 +1,148 @@
+import { test, expect } from '@playwright/test';
+import {
+  RSVP_DEADLINES,
+  daysUntilDeadline,
+  countdownDays,
+  rsvpAccess,
+  grantDeadlineOverride,
+  revokeDeadlineOverride,
+  getPartyOverride,
+  listDeadlineOverrides,
+  recordLateRSVP,
+  listLateRSVPs,
+  approveLateRSVP,
+  resolvePartyAccess,
+  resetDeadlineTestStore,
+  type DeadlineOverride,
+} from '../src/lib/rsvp-deadline';
+import { RSVP_DEADLINE_NYC, RSVP_DEADLINE_FRANCE } from '../src/content/strings';
+
+/**
+ * Unit-style tests for server-enforced RSVP deadlines: date arithmetic in the
+ * wedding time zone, the access rules, and the in-memory override / late
+ * response store.
+ */
+
+const AFTER_NYC = new Date('2026-10-01T12:00:00Z');
+
+function localDate(display: string): string {
+  const date = new Date(display);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+test.describe('deadline dates', () => {
+  test('match the display copy in strings.ts', () => {
+    expect(localDate(RSVP_DEADLINE_NYC.en)).toBe(RSVP_DEADLINES.nyc.date);
+    expect(localDate(RSVP_DEADLINE_FRANCE.en)).toBe(RSVP_DEADLINES.france.date);
+  });
+
+  test('count days in the wedding time zone', () => {
+    // 03:00 UTC on Sep 2 is still Sep 1 — the deadline day — in New York.
+    expect(daysUntilDeadline('nyc', new Date('2026-09-02T03:00:00Z'))).toBe(0);
+    expect(daysUntilDeadline('nyc', new Date('2026-09-02T05:00:00Z'))).toBe(-1);
+    expect(daysUntilDeadline('nyc', new Date('2026-08-30T12:00:00Z'))).toBe(2);
+    // 23:30 UTC on Apr 1 is already Apr 2 in Paris.
+    expect(daysUntilDeadline('france', new Date('2027-04-01T21:30:00Z'))).toBe(0);
+    expect(daysUntilDeadline('france', new Date('2027-04-01T23:30:00Z'))).toBe(-1);
+  });
+
+  test('show the countdown only in the last days before the deadline', () => {
+    expect(countdownDays('nyc', 'open', new Date('2026-07-01T12:00:00Z'))).toBeNull();
+    expect(countdownDays('nyc', 'open', new Date('2026-08-25T12:00:00Z'))).toBe(7);
+    expect(countdownDays('nyc', 'open', new Date('2026-09-01T12:00:00Z'))).toBe(0);
+    expect(countdownDays('nyc', 'open', AFTER_NYC)).toBeNull();
+    expect(countdownDays('nyc', 'read-only', new Date('2026-08-25T12:00:00Z'))).toBeNull();
+  });
+});
+
+test.describe('deadline access', () => {
+  const override = (overrides: Partial<DeadlineOverride> = {}): DeadlineOverride => ({
+    event: 'nyc',
+    guestId: 'guest',
+    grantedAt: '2026-09-05T00:00:00.000Z',
+    ...overrides,
+  });
+
+  test('is open for everyone before the deadline', () => {
+    const now = new Date('2026-08-01T12:00:00Z');
+    expect(rsvpAccess({ event: 'nyc', hasResponse: true, now })).toBe('open');
+    expect(rsvpAccess({ event: 'nyc', hasResponse: false, now })).toBe('open');
+  });
+
+  test('makes responses read-only and flags new ones afterwards', () => {
+    expect(rsvpAccess({ event: 'nyc', hasResponse: true, now: AFTER_NYC })).toBe('read-only');
+    expect(rsvpAccess({ event: 'nyc', hasResponse: false, now: AFTER_NYC })).toBe('late');
+    expect(rsvpAccess({ event: 'nyc', hasResponse: true, testParty: true, now: AFTER_NYC })).toBe('open');
+  });
+
+  test('refuses new responses when the wedding says so', () => {
+    const previous = RSVP_DEADLINES.nyc.afterDeadline;
+    RSVP_DEADLINES.nyc.afterDeadline = 'refuse';
+    try {
+      expect(rsvpAccess({ event: 'nyc', hasResponse: false, now: AFTER_NYC })).toBe('closed');
+    } finally {
+      RSVP_DEADLINES.nyc.afterDeadline = previous;
+    }
+  });
+
+  test('reopens the form through the last day of an override', () => {
+    const until = override({ until: '2026-10-01' });
+    expect(rsvpAccess({ event: 'nyc', hasResponse: true, override: until, now: AFTER_NYC })).toBe('open');
+    expect(
+      rsvpAccess({ event: 'nyc', hasResponse: true, override: until, now: new Date('2026-10-02T12:00:00Z') })
+    ).toBe('read-only');
+    expect(
+      rsvpAccess({ event: 'nyc', hasResponse: true, override: override(), now: new Date('2027-01-01T12:00:00Z') })
+    ).toBe('open');
+  });
+});
+
+test.describe('deadline store', () => {
+  test.beforeEach(() => {
+    process.env.CALENDAR_TEST_MODE = 'true';
+    resetDeadlineTestStore();
+  });
+
+  test.afterEach(() => {
+    delete process.env.CALENDAR_TEST_MODE;
+    resetDeadlineTestStore();
+  });
+
+  test("any member's override opens the whole party", async () => {
+    await grantDeadlineOverride({ event: 'nyc', guestId: 'b', note: 'Called us' });
+    expect(await getPartyOverride(['a', 'b'], 'nyc', AFTER_NYC)).toMatchObject({ guestId: 'b', note: 'Called us' });
+    expect(await getPartyOverride(['a', 'b'], 'france', AFTER_NYC)).toBeNull();
+    expect(await listDeadlineOverrides('nyc')).toHaveLength(1);
+
+    expect(await revokeDeadlineOverride('nyc', 'b')).toBe(true);
+    expect(await revokeDeadlineOverride('nyc', 'b')).toBe(false);
+    expect(await getPartyOverride(['a', 'b'], 'nyc', AFTER_NYC)).toBeNull();
+  });
+
+  test('records late responses for approval', async () => {
+    await recordLateRSVP({ event: 'nyc', guestId: 'a', partyIds: ['a', 'b'] });
+    expect(await listLateRSVPs('nyc')).toEqual([expect.objectContaining({ guestId: 'a', status: 'pending' })]);
+
+    // Party order does not matter — late responses are keyed like the outbox.
+    expect(await approveLateRSVP(['b', 'a'], 'nyc')).toMatchObject({ status: 'approved' });
+    expect(await approveLateRSVP(['c'], 'nyc')).toBeNull();
+  });
+
+  test('resolves party access from the stored override and late flag', async () => {
+    const party = [
+      { id: 'a', normalizedName: 'camille martin' },
+      { id: 'b', normalizedName: 'theo martin' },
+    ];
+    expect(await resolvePartyAccess(party, 'nyc', true, AFTER_NYC)).toEqual({ access: 'read-only', late: null });
+
+    await recordLateRSVP({ event: 'nyc', guestId: 'a', partyIds: ['a', 'b'] });
+    await grantDeadlineOverride({ event: 'nyc', guestId: 'a' });
+    const resolved = await resolvePartyAccess(party, 'nyc', true, AFTER_NYC);
+    expect(resolved.access).toBe('open');
+    expect(resolved.late).toMatchObject({ status: 'pending' });
+
+    const testParty = [{ id: 't', normalizedName: 'alex rivera' }];
+    expect(await resolvePartyAccess(testParty, 'nyc', true, AFTER_NYC)).toEqual({ access: 'open', late: null });
+  });
+});
@@ -0,0 +1,137 @@
+import { test, expect } from '@playwright/test';
+import {
+  DRAFT_MAX_BYTES,
+  discardDraft,
+  draftAsResponse,
+  getDraft,
+  parseDraftAnswers,
+  resetDraftTestStore,
+  saveDraft,
+} from '../src/lib/rsvp-drafts';
+import type { RSVPResponse } from '../src/types';
+
+/**
+ * Unit-style tests for the shared RSVP drafts, run against the drafts'
+ * in-memory backend — no Blobs needed.
+ */
+
+const PARTY = ['alex', 'jordan'];
+
+test.beforeEach(() => {
+  process.env.CALENDAR_TEST_MODE = 'true';
+  resetDraftTestStore();
+});
+
+test.afterEach(() => {
+  delete process.env.CALENDAR_TEST_MODE;
+  resetDraftTestStore();
+});
+
+function answers() {
+  const parsed = parseDraftAnswers(
+    {
+      event: 'france',
+      guestsAttending: [
+        { guestId: 'alex', name: 'Alex', attending: true },
+        { guestId: 'jordan', name: 'Jordan', attending: false },
+      ],
+      eventsAttending: ['ceremony'],
+      message: 'À bientôt',
+    },
+    PARTY
+  );
+  if ('error' in parsed) throw new Error(parsed.error);
+  return parsed.answers;
+}
+
+function stored(submittedAt: string): RSVPResponse {
+  return {
+    id: 'stored',
+    guestId: 'alex',
+    guestIds: PARTY,
+    event: 'france',
+    submittedAt,
+    status: 'Declined',
+    guestsAttending: '',
+  };
+}
+
+test.describe('draft answers', () => {
+  test('keep only well-typed answers for party members', () => {
+    const parsed = parseDraftAnswers(
+      {
+        event: 'france',
+        guestsAttending: [
+          { guestId: 'alex', name: 'Alex', attending: true },
+          { guestId: 'stranger', name: 'Someone', attending: true },
+          'nonsense',
+        ],
+        eventsAttending: ['ceremony', 42],
+        sendConfirmation: true,
+        guestEmails: [{ guestId: 'alex', email: 'alex@example.com' }],
+        details: {
+          accommodation: 'maybe',
+          transport: 'yes',
+          dietaryByGuest: [{ guestId: 'alex', allergens: ['gluten', 'glitter'], vegan: 'yes' }],
+          stay: { nights: ['friday', 'sunday'], roomType: 'double', guestIds: ['alex'] },
+          shuttleSeats: [{ guestId: 'alex', legId: 'paris-sully' }, { guestId: 'alex' }],
+        },
+      },
+      PARTY
+    );
+    if ('error' in parsed) throw new Error(parsed.error);
+    expect(parsed.answers.guestsAttending).toEqual([{ guestId: 'alex', name: 'Alex', attending: true }]);
+    expect(parsed.answers.eventsAttending).toEqual(['ceremony']);
+    expect(parsed.answers).not.toHaveProperty('guestEmails');
+    expect(parsed.answers.details).toEqual({
+      transport: 'yes',
+      dietaryByGuest: [{ guestId: 'alex', allergens: ['gluten'] }],
+      stay: { nights: ['friday'], roomType: 'double', guestIds: ['alex'] },
+      shuttleSeats: [{ guestId: 'alex', legId: 'paris-sully' }],
+    });
+  });
+
+  test('refuse a bad event or an oversized draft', () => {
+    expect(parseDraftAnswers({ event: 'paris' }, PARTY)).toEqual({
+      error: 'Invalid event (must be "nyc" or "france")',
+    });
+    expect(parseDraftAnswers([], PARTY)).toEqual({ error: 'Draft must be an object' });
+    expect(parseDraftAnswers({ event: 'nyc', message: 'x'.repeat(DRAFT_MAX_BYTES) }, PARTY)).toEqual({
+      error: 'Draft is too large',
+    });
+  });
+});
+
+test.describe('draft store', () => {
+  test('shares one draft across the party', async () => {
+    await saveDraft('alex', PARTY, answers(), new Date('2026-11-01T10:00:00.000Z'));
+    const draft = await getDraft('jordan', 'france');
+    expect(draft?.savedBy).toBe('alex');
+    expect(draft?.answers.message).toBe('À bientôt');
+    expect(await getDraft('jordan', 'nyc')).toBeNull();
+  });
+
+  test('discards every copy, including members who left the party', async () => {
+    await saveDraft('alex', [...PARTY, 'sam'], answers());
+    await discardDraft(PARTY, 'france');
+    expect(await getDraft('alex', 'france')).toBeNull();
+    expect(await getDraft('jordan', 'france')).toBeNull();
+    expect(await getDraft('sam', 'france')).toBeNull();
+  });
+});
+
+test.describe('draft pre-fill', () => {
+  test('wins over an older stored response only', async () => {
+    const draft = await saveDraft('alex', PARTY, answers(), new Date('2026-11-01T10:00:00.000Z'));
+
+    const prefill = draftAsResponse(draft, stored('2026-10-01T10:00:00.000Z'));
+    expect(prefill?.submittedAt).toBe('2026-11-01T10:00:00.000Z');
+    expect(prefill?.status).toBe('Partial');
+    expect(prefill?.eventsAttending).toEqual(['ceremony']);
+    expect(prefill?.attendanceById).toEqual({ alex: true, jordan: false });
+    expect(draftAsResponse(draft, null)?.id).toBe('draft:france');
+
+    expect(draftAsResponse(draft, stored('2026-11-02T10:00:00.000Z'))).toBeNull();
+    expect(draftAsResponse(null, null)).toBeNull();
+  });
+});
@@ -0,0 +1,168 @@
+import { test, expect } from '@playwright/test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { submitRSVP } from '../src/lib/data-store';
+import { resetLocalDataStore } from '../src/lib/local-store';
+import {
+  collectRSVPRevisions,
+  isRSVPRevision,
+  listRSVPRevisions,
+  diffRSVPRevisions,
+  resetHistoryTestStore,
+  storeRSVPRevision,
+} from '../src/lib/rsvp-history';
+import type { RSVPSubmission } from '../src/types';
+
+/**
+ * Unit-style tests for the RSVP revision history, recorded by the local data
+ * store's submitRSVP into the history's in-memory backend.
+ */
+
+const ALEX = 'local-guest-alex-rivera';
+const JORDAN = 'local-guest-jordan-chen';
+const SAMIR = 'local-guest-samir-benoit';
+const ODETTE = 'local-guest-odette-vaillant';
+
+const NYC_COCKTAILS = 'local-event-nyc-cocktails';
+const NYC_AFTER_PARTY = 'local-event-nyc-after-party';
+
+let scratchDir: string;
+
+test.beforeEach(() => {
+  process.env.WEDDING_DATA_STORE = 'local';
+  scratchDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wedding-data-'));
+  process.env.WEDDING_DATA_DIR = scratchDir;
+  resetLocalDataStore();
+  resetHistoryTestStore();
+});
+
+test.afterEach(() => {
+  delete process.env.WEDDING_DATA_STORE;
+  delete process.env.WEDDING_DATA_DIR;
+  resetLocalDataStore();
+  resetHistoryTestStore();
+  fs.rmSync(scratchDir, { recursive: true, force: true });
+});
+
+function nycSubmission(
+  jordanAttending: boolean,
+  eventsAttending: string[],
+  extra: Partial<RSVPSubmission> = {}
+): RSVPSubmission {
+  return {
+    event: 'nyc',
+    guestsAttending: [
+      { guestId: ALEX, name: 'Alex Rivera', attending: true },
+      { guestId: JORDAN, name: 'Jordan Chen', attending: jordanAttending },
+    ],
+    eventsAttending,
+    ...extra,
+  };
+}
+
+test.describe('RSVP history — recording', () => {
+  test('every submission is kept, with submitter and source', async () => {
+    await submitRSVP(ALEX, nycSubmission(true, [NYC_COCKTAILS]));
+    await submitRSVP(JORDAN, nycSubmission(false, [NYC_COCKTAILS]), 'manual');
+
+    const revisions = await listRSVPRevisions([JORDAN], 'nyc');
+    expect(revisions).toHaveLength(2);
+    expect(revisions.map((r) => r.status)).toEqual(['Attending', 'Partial']);
+    expect(revisions.map((r) => r.submittedBy.guestId)).toEqual([ALEX, JORDAN]);
+    expect(revisions.map((r) => r.source)).toEqual(['website', 'manual']);
+    // Same response row, updated in place — the history keeps both answers
+    expect(revisions[0].responseId).toBe(revisions[1].responseId);
+
+    expect(await listRSVPRevisions([ALEX], 'france')).toEqual([]);
+  });
+
+  test('a split household records the detach on the row it leaves behind', async () => {
+    // Unlink the seeded Benoit/Vaillant household, as a Guest List edit would
+    const guests = JSON.parse(
+      fs.readFileSync(path.join('fixtures/wedding-data', 'guest-list.json'), 'utf8')
+    );
+    for (const guest of guests) {
+      if (guest.id === SAMIR || guest.id === ODETTE) guest.relatedGuestIds = [];
+    }
+    fs.writeFileSync(path.join(scratchDir, 'guest-list.json'), JSON.stringify(guests));
+    resetLocalDataStore();
+
+    await submitRSVP(SAMIR, {
+      event: 'france',
+      guestsAttending: [{ guestId: SAMIR, name: 'Samir Benoit', attending: false }],
+      eventsAttending: [],
+    });
+
+    const odette = await listRSVPRevisions([ODETTE], 'france');
+    expect(odette).toHaveLength(1);
+    expect(odette[0]).toMatchObject({
+      kind: 'detach',
+      responseId: 'local-rsvp-benoit-vaillant-france',
+      guestIds: [ODETTE],
+      status: 'Declined',
+      submittedBy: { guestId: SAMIR },
+    });
+
+    const samir = await listRSVPRevisions([SAMIR], 'france');
+    expect(samir.map((r) => r.kind)).toEqual(['submission']);
+    expect(samir[0].responseId).not.toBe('local-rsvp-benoit-vaillant-france');
+  });
+
+  test('a script collects its revisions to post them to production', async () => {
+    const collected = collectRSVPRevisions();
+    await submitRSVP(ALEX, nycSubmission(true, [NYC_COCKTAILS]), 'manual');
+    expect(collected).toHaveLength(1);
+    expect(isRSVPRevision(JSON.parse(JSON.stringify(collected[0])))).toBe(true);
+    // Held back, not written, until POST /api/admin/rsvp-history stores it
+    expect(await listRSVPRevisions([ALEX], 'nyc')).toEqual([]);
+
+    expect(await storeRSVPRevision(collected[0])).toBe(true);
+    // Revisions are immutable: the same ID again is skipped, not overwritten
+    expect(await storeRSVPRevision({ ...collected[0], message: 'Rewritten' })).toBe(false);
+    expect(await listRSVPRevisions([ALEX], 'nyc')).toEqual(collected);
+
+    expect(isRSVPRevision({ ...collected[0], id: 'not-time-ordered' })).toBe(false);
+    // An ID backdated away from when the revision says it was recorded
+    expect(isRSVPRevision({ ...collected[0], id: `000000000000001${collected[0].id.slice(15)}` })).toBe(false);
+    expect(isRSVPRevision({ ...collected[0], source: 'email' })).toBe(false);
+  });
+});
+
+test.describe('RSVP history — diff', () => {
+  test('reports attendance per member, events, dietary, message and details', async () => {
+    await submitRSVP(
+      ALEX,
+      nycSubmission(true, [NYC_COCKTAILS], { dietary: 'Vegetarian', details: { transport: 'yes' } })
+    );
+    await submitRSVP(
+      ALEX,
+      nycSubmission(false, [NYC_COCKTAILS, NYC_AFTER_PARTY], {
+        dietary: 'Vegetarian',
+        message: 'Jordan has a conflict',
+        details: { transport: 'no' },
+      })
+    );
+
+    const [first, second] = await listRSVPRevisions([ALEX], 'nyc');
+    const diff = diffRSVPRevisions(first, second);
+    expect(diff.status).toEqual({ before: 'Attending', after: 'Partial' });
+    expect(diff.attendance).toEqual([
+      { guestId: JORDAN, name: 'Jordan Chen', before: true, after: false },
+    ]);
+    expect(diff.eventsAdded).toEqual([NYC_AFTER_PARTY]);
+    expect(diff.eventsRemoved).toEqual([]);
+    expect(diff.dietary).toBeUndefined();
+    expect(diff.message).toEqual({ before: null, after: 'Jordan has a conflict' });
+    expect(diff.details).toEqual([{ key: 'transport', before: 'yes', after: 'no' }]);
+  });
+
+  test('a first answer diffs against nothing', async () => {
+    await submitRSVP(ALEX, nycSubmission(true, [NYC_COCKTAILS]));
+    const [first] = await listRSVPRevisions([ALEX], 'nyc');
+    const diff = diffRSVPRevisions(null, first);
+    expect(diff.status).toEqual({ before: null, after: 'Attending' });
+    expect(diff.attendance.map((change) => change.before)).toEqual([null, null]);
+    expect(diff.eventsAdded).toEqual([NYC_COCKTAILS]);
+  });
+});
@@ -0,0 +1,251 @@
+import { test, expect } from '@playwright/test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  MAX_ATTEMPTS,
+  enqueueRSVP,
+  completeOutboxEntry,
+  recordOutboxFailure,
+  listPendingRSVPs,
+  listDeadLetterRSVPs,
+  requeueDeadLetter,
+  withPendingRSVP,
+  replayOutbox,
+  retryDelayMs,
+  resetOutboxTestStore,
+} from '../src/lib/rsvp-outbox';
+import { getLatestRSVPForParty, submitRSVP } from '../src/lib/data-store';
+import { resetLocalDataStore } from '../src/lib/local-store';
+import type { RSVPSubmission } from '../src/types';
+
+/**
+ * Unit-style tests for the RSVP outbox, run against the local data store and
+ * the outbox's in-memory backend — no Blobs or Notion needed.
+ */
+
+const ALEX = 'local-guest-alex-rivera';
+const JORDAN = 'local-guest-jordan-chen';
+const PARTY = [ALEX, JORDAN];
+const NYC_COCKTAILS = 'local-event-nyc-cocktails';
+const GIVERNY = 'local-event-france-giverny';
+const SAMIR = 'local-guest-samir-benoit';
+
+let scratchDir: string;
+
+test.beforeEach(() => {
+  process.env.WEDDING_DATA_STORE = 'local';
+  process.env.CALENDAR_TEST_MODE = 'true';
+  scratchDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wedding-data-'));
+  process.env.WEDDING_DATA_DIR = scratchDir;
+  resetLocalDataStore();
+  resetOutboxTestStore();
+});
+
+test.afterEach(() => {
+  delete process.env.WEDDING_DATA_STORE;
+  delete process.env.CALENDAR_TEST_MODE;
+  delete process.env.WEDDING_DATA_DIR;
+  resetLocalDataStore();
+  resetOutboxTestStore();
+  fs.rmSync(scratchDir, { recursive: true, force: true });
+});
+
+function submission(alexAttending: boolean): RSVPSubmission {
+  return {
+    event: 'nyc',
+    guestsAttending: [
+      { guestId: ALEX, name: 'Alex Rivera', attending: alexAttending },
+      { guestId: JORDAN, name: 'Jordan Chen', attending: true },
+    ],
+    eventsAttending: [NYC_COCKTAILS],
+    sendConfirmation: false,
+  };
+}
+
+function enqueue(alexAttending = true, guestId = ALEX) {
+  return enqueueRSVP({ guestId, partyIds: PARTY, submission: submission(alexAttending), emailUpdates: [] });
+}
+
+test.describe('RSVP outbox — queueing', () => {
+  test('one entry per party + event: a resubmission replaces the queued one', async () => {
+    const first = await enqueue(true);
+    const second = await enqueueRSVP({
+      guestId: JORDAN,
+      partyIds: [JORDAN, ALEX],
+      submission: submission(false),
+      emailUpdates: [],
+    });
+    expect(second.id).toBe(first.id);
+
+    const pending = await listPendingRSVPs();
+    expect(pending).toHaveLength(1);
+    expect(pending[0].guestId).toBe(JORDAN);
+  });
+
+  test('completing a replaced entry leaves the newer submission queued', async () => {
+    const first = await enqueue(true);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await enqueue(false);
+
+    await completeOutboxEntry(first);
+    expect(await listPendingRSVPs()).toHaveLength(1);
+
+    const [current] = await listPendingRSVPs();
+    await completeOutboxEntry(current);
+    expect(await listPendingRSVPs()).toHaveLength(0);
+  });
+
+  test('a queued submission is shown as syncing until it lands', async () => {
+    await enqueue(false);
+    const { rsvp, syncing } = await withPendingRSVP(null, PARTY, 'nyc');
+    expect(syncing).toBe(true);
+    expect(rsvp?.status).toBe('Partial');
+    expect(rsvp?.attendanceById).toEqual({ [ALEX]: false, [JORDAN]: true });
+
+    expect(await withPendingRSVP(null, PARTY, 'france')).toEqual({ rsvp: null, syncing: false });
+  });
+});
+
+test.describe('RSVP outbox — failures', () => {
+  test('failures back off exponentially, capped', () => {
+    expect(retryDelayMs(1)).toBe(5 * 60 * 1000);
+    expect(retryDelayMs(2)).toBe(10 * 60 * 1000);
+    expect(retryDelayMs(20)).toBe(6 * 60 * 60 * 1000);
+  });
+
+  test('an entry is dead-lettered after MAX_ATTEMPTS and can be requeued', async () => {
+    let entry = await enqueue();
+    for (let i = 0; i < MAX_ATTEMPTS; i++) {
+      entry = await recordOutboxFailure(entry, new Error('Notion 503'));
+    }
+    expect(entry.deadLetteredAt).toBeTruthy();
+    expect(await listPendingRSVPs()).toHaveLength(0);
+
+    const [dead] = await listDeadLetterRSVPs();
+    expect(dead.lastError).toBe('Notion 503');
+
+    expect(await requeueDeadLetter(dead.deadLetterId!)).toBe(true);
+    const [requeued] = await listPendingRSVPs();
+    expect(requeued.attempts).toBe(0);
+    expect(await listDeadLetterRSVPs()).toHaveLength(0);
+    expect(await requeueDeadLetter(dead.deadLetterId!)).toBe(false);
+  });
+
+  test('a failure on a replaced entry does not overwrite the newer one', async () => {
+    const first = await enqueue(true);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const second = await enqueue(false);
+
+    await recordOutboxFailure(first, new Error('timeout'));
+    const [pending] = await listPendingRSVPs();
+    expect(pending.receivedAt).toBe(second.receivedAt);
+    expect(pending.attempts).toBe(0);
+  });
+});
+
+test.describe('RSVP outbox — replay', () => {
+  test('due entries are written to the data store and removed', async () => {
+    await enqueue(false);
+    const report = await replayOutbox();
+    expect(report).toMatchObject({ pending: 1, replayed: 1, failed: 0 });
+    expect(await listPendingRSVPs()).toHaveLength(0);
+
+    const stored = await getLatestRSVPForParty(PARTY, 'nyc');
+    expect(stored?.status).toBe('Partial');
+  });
+
+  test('a held-back confirmation is sent after the write, and never fails the replay', async () => {
+    const before = process.env.RESEND_API_KEY;
+    delete process.env.RESEND_API_KEY;
+    try {
+      const entry = await enqueueRSVP({
+        guestId: ALEX,
+        partyIds: PARTY,
+        submission: { ...submission(true), sendConfirmation: true },
+        emailUpdates: [],
+        confirmation: {},
+      });
+      expect(entry.confirmation).toEqual({});
+      // No Resend key: the send throws after the answer is already written
+      const report = await replayOutbox();
+      expect(report).toMatchObject({ replayed: 1, failed: 0 });
+      expect((await getLatestRSVPForParty(PARTY, 'nyc'))?.status).toBe('Attending');
+    } finally {
+      if (before !== undefined) process.env.RESEND_API_KEY = before;
+    }
+  });
+
+  test('entries not yet due are deferred, failing ones rescheduled', async () => {
+    const entry = await enqueueRSVP({
+      guestId: 'local-guest-nobody',
+      partyIds: ['local-guest-nobody'],
+      submission: submission(true),
+      emailUpdates: [],
+    });
+
+    const first = await replayOutbox();
+    expect(first).toMatchObject({ pending: 1, failed: 1 });
+
+    const second = await replayOutbox(Date.parse(entry.receivedAt) + 60 * 1000);
+    expect(second).toMatchObject({ pending: 1, deferred: 1, failed: 0 });
+    expect((await listPendingRSVPs())[0].attempts).toBe(1);
+  });
+
+  test('an entry older than the stored response is dropped, not replayed', async () => {
+    await enqueue(true);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    // The guest resubmitted successfully after the outage cleared
+    await submitRSVP(ALEX, submission(false));
+
+    const report = await replayOutbox();
+    expect(report).toMatchObject({ superseded: 1, replayed: 0 });
+    expect((await getLatestRSVPForParty(PARTY, 'nyc'))?.status).toBe('Partial');
+  });
+
+  test('an unchecked entry gets its event places from when the guest submitted', async () => {
+    const entry = await enqueueRSVP({
+      guestId: ALEX,
+      partyIds: PARTY,
+      submission: { ...submission(true), event: 'france', eventsAttending: [GIVERNY] },
+      emailUpdates: [],
+      recheckCapacity: true,
+    });
+    expect(entry.recheckCapacity).toBe(true);
+
+    expect(await replayOutbox()).toMatchObject({ replayed: 1 });
+    const stored = await getLatestRSVPForParty(PARTY, 'france');
+    expect(stored?.details?.eventsRequestedAt).toEqual({ [GIVERNY]: entry.receivedAt });
+  });
+
+  test('an unchecked entry whose shuttle seats no longer fit is dead-lettered, not written', async () => {
+    process.env.FRANCE_SHUTTLE_LEGS = JSON.stringify({ 'paris-sully': { capacity: 1 } });
+    try {
+      await submitRSVP(SAMIR, {
+        event: 'france',
+        guestsAttending: [{ guestId: SAMIR, name: 'Samir Benoit', attending: true }],
+        eventsAttending: [],
+        details: { shuttleSeats: [{ guestId: SAMIR, legId: 'paris-sully' }] },
+      });
+      await enqueueRSVP({
+        guestId: ALEX,
+        partyIds: PARTY,
+        submission: {
+          ...submission(true),
+          event: 'france',
+          eventsAttending: [],
+          details: { shuttleSeats: [{ guestId: ALEX, legId: 'paris-sully' }] },
+        },
+        emailUpdates: [],
+        recheckCapacity: true,
+      });
+
+      expect(await replayOutbox()).toMatchObject({ replayed: 0, deadLettered: 1 });
+      expect(await getLatestRSVPForParty(PARTY, 'france')).toBeNull();
+      const [dead] = await listDeadLetterRSVPs();
+      expect(dead.lastError).toContain('paris-sully');
+    } finally {
+      delete process.env.FRANCE_SHUTTLE_LEGS;
+    }
+  });
+});
@@ -1,14 +1,15 @@
 import { test, expect, type BrowserContext, type Page, type APIRequestContext } from '@playwright/test';
-import { TEST_GUEST_NAME } from './fixtures';
+import { TEST_GUEST_NAME, LOCAL_DATA_STORE } from './fixtures';
 
 const notionRequired =
   process.env.FEATURE_GLOBAL_NOTION_BACKEND !== 'true' ||
   process.env.FEATURE_NYC_RSVP_ENABLED !== 'true' ||
   process.env.FEATURE_FRANCE_RSVP_ENABLED !== 'true' ||
-  !process.env.NOTION_API_KEY ||
-  !process.env.NOTION_GUEST_LIST_DB ||
-  !process.env.NOTION_EVENT_CATALOG_DB ||
-  !process.env.NOTION_RSVP_RESPONSES_DB;
+  (!LOCAL_DATA_STORE &&
+    (!process.env.NOTION_API_KEY ||
+      !process.env.NOTION_GUEST_LIST_DB ||
+      !process.env.NOTION_EVENT_CATALOG_DB ||
+      !process.env.NOTION_RSVP_RESPONSES_DB));
 
 async function login(page: Page) {
   await page.goto('/');
@@ -25,13 +26,19 @@ async function loginAndNavigateToRSVP(page: Page, event: 'nyc' | 'france') {
 }
 
 // Every event dropdown is required (blank by default when no RSVP exists),
-// so tests must pick an option before the form will submit.
+// so tests must pick an option before the form will submit — and so is a
+// meal for each attending guest at an event that offers one.
 async function fillEventSelections(page: Page, value: 'yes' | 'no' = 'yes') {
   const selects = page.locator('select.event-attending');
   const count = await selects.count();
   for (let i = 0; i < count; i++) {
     await selects.nth(i).selectOption(value);
   }
+  const meals = page.locator('select.meal-select:visible');
+  const mealCount = await meals.count();
+  for (let i = 0; i < mealCount; i++) {
+    await meals.nth(i).selectOption({ index: 1 });
+  }
 }
 
 async function getAuthCookie(context: BrowserContext): Promise<string> {
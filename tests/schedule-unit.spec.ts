@@ -0,0 +1,74 @@
+import { test, expect } from '@playwright/test';
+import {
+  getScheduleDays,
+  groupEventsByDay,
+  eventStartMinutes,
+  timeToMinutes,
+  weekdayKey,
+  formatDayHeading,
+} from '../src/lib/schedule';
+import { resetLocalDataStore } from '../src/lib/local-store';
+import type { EventRecord } from '../src/types';
+
+/**
+ * Unit-style tests for the schedule day grouping behind /france/schedule and
+ * the NYC details schedule, run against the committed local fixtures.
+ */
+
+test.beforeEach(() => {
+  process.env.WEDDING_DATA_STORE = 'local';
+  delete process.env.WEDDING_DATA_DIR;
+  resetLocalDataStore();
+});
+
+test.afterEach(() => {
+  delete process.env.WEDDING_DATA_STORE;
+  resetLocalDataStore();
+});
+
+function event(overrides: Partial<EventRecord>): EventRecord {
+  return {
+    id: 'event',
+    name: 'Event',
+    type: 'Core',
+    wedding: 'france',
+    showOnWebsite: true,
+    ...overrides,
+  };
+}
+
+test.describe('schedule', () => {
+  test('groups the France catalog into days ordered by start time', async () => {
+    const days = await getScheduleDays('france');
+
+    expect(days.map((day) => day.date)).toEqual(['2027-05-28', '2027-05-29', '2027-05-30']);
+    expect(days[1].events.map((e) => e.id)).toEqual([
+      'local-event-france-giverny',
+      'local-event-france-ceremony',
+      'local-event-france-reception',
+    ]);
+  });
+
+  test('resolves missing dates through the Day relation and keeps undated events last', async () => {
+    const days = await groupEventsByDay([
+      event({ id: 'undated', startTime: '9:00 AM' }),
+      event({ id: 'late', startTime: '9:30 PM', dayId: 'local-day-france-friday' }),
+      event({ id: 'hidden', date: '2027-05-28', showOnWebsite: false }),
+      event({ id: 'early', time: '11:30 AM–2:00 PM', date: '2027-05-28' }),
+    ]);
+
+    expect(days).toEqual([
+      { date: '2027-05-28', events: [expect.objectContaining({ id: 'early' }), expect.objectContaining({ id: 'late' })] },
+      { date: null, events: [expect.objectContaining({ id: 'undated' })] },
+    ]);
+  });
+
+  test('reads start times and day labels', () => {
+    expect(timeToMinutes('6:23 PM')).toBe(18 * 60 + 23);
+    expect(timeToMinutes('Evening')).toBeNull();
+    expect(eventStartMinutes(event({ startTime: 'TBD', time: '11:30 AM–2:00 PM' }))).toBe(690);
+    expect(weekdayKey('2027-05-29')).toBe('saturday');
+    expect(formatDayHeading('2027-05-28', 'en')).toBe('Friday, May 28');
+    expect(formatDayHeading('2027-05-28', 'fr')).toBe('Vendredi 28 mai');
+  });
+});
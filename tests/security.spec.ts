@@ -6,12 +6,11 @@
 import { test, expect } from '@playwright/test';
 import { createSessionToken, parseSessionToken, SESSION_MAX_AGE_SECONDS } from '../src/lib/auth';
 import { hmacSha256Hex } from '../src/lib/hmac';
-import { TEST_GUEST_NAME } from './fixtures';
+import { TEST_GUEST_NAME, LOCAL_DATA_STORE } from './fixtures';
 
 const notionRequired =
   process.env.FEATURE_GLOBAL_NOTION_BACKEND !== 'true' ||
-  !process.env.NOTION_API_KEY ||
-  !process.env.NOTION_GUEST_LIST_DB;
+  (!LOCAL_DATA_STORE && (!process.env.NOTION_API_KEY || !process.env.NOTION_GUEST_LIST_DB));
 
 test.describe('Security — Session tokens', () => {
   test('unsigned legacy cookies are rejected by parseSessionToken', () => {
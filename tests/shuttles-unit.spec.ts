@@ -0,0 +1,176 @@
+import { test, expect } from '@playwright/test';
+import {
+  buildShuttleManifests,
+  fullShuttleLeg,
+  shuttleAvailability,
+  shuttleEventsForGuest,
+  shuttleManifestCsv,
+  shuttleManifestHtml,
+  validateShuttleSeats,
+  shuttleLegs,
+} from '../src/lib/shuttles';
+import { buildICS } from '../src/lib/calendar';
+import type { RSVPResponse, ShuttleSeat } from '../src/types';
+import { mockRSVPResponse } from './fixtures';
+
+/**
+ * Unit-style tests for the Paris ↔ Village shuttle seats: validation,
+ * capacity, the calendar entries and the drivers' manifests.
+ */
+
+function response(id: string, seats: ShuttleSeat[], overrides: Partial<RSVPResponse> = {}): RSVPResponse {
+  return mockRSVPResponse({
+    id,
+    guestId: `${id}-guest`,
+    guestIds: [`${id}-guest`],
+    details: { shuttleSeats: seats },
+    ...overrides,
+  });
+}
+
+const outbound = shuttleLegs().find((leg) => leg.id === 'paris-sully')!;
+
+test.describe('shuttle seat validation', () => {
+  const input = { attendingGuestIds: ['a', 'b'] };
+
+  test('accepts seats for attending members on known legs', () => {
+    expect(
+      validateShuttleSeats(
+        [
+          { guestId: 'a', legId: 'paris-sully' },
+          { guestId: 'b', legId: 'paris-sully' },
+          { guestId: 'a', legId: 'sully-paris' },
+        ],
+        input
+      )
+    ).toBeNull();
+    expect(validateShuttleSeats([], input)).toBeNull();
+    expect(validateShuttleSeats(undefined, input)).toBeNull();
+  });
+
+  test('rejects seats the coaches could not honour', () => {
+    expect(validateShuttleSeats({}, input)).toBe('shuttleSeats must be an array');
+    expect(validateShuttleSeats([{ guestId: 'a', legId: 'paris-lyon' }], input)).toBe(
+      'shuttleSeats includes an unknown leg'
+    );
+    expect(validateShuttleSeats([{ guestId: 'z', legId: 'paris-sully' }], input)).toBe(
+      'shuttleSeats includes a guest who is not attending'
+    );
+    expect(
+      validateShuttleSeats(
+        [
+          { guestId: 'a', legId: 'paris-sully' },
+          { guestId: 'a', legId: 'paris-sully' },
+        ],
+        input
+      )
+    ).toBe('shuttleSeats reserves a seat twice');
+  });
+});
+
+test.describe('shuttle capacity', () => {
+  const filled = (count: number) =>
+    Array.from({ length: count }, (_, i) => response(`r${i}`, [{ guestId: `r${i}-guest`, legId: 'paris-sully' }]));
+
+  test('counts seats of attending parties only', () => {
+    const availability = shuttleAvailability([
+      ...filled(3),
+      response('declined', [{ guestId: 'declined-guest', legId: 'paris-sully' }], { status: 'Declined' }),
+    ]);
+    expect(availability.find((entry) => entry.id === 'paris-sully')).toEqual({
+      id: 'paris-sully',
+      capacity: outbound.capacity,
+      reserved: 3,
+      remaining: outbound.capacity - 3,
+    });
+    expect(availability.find((entry) => entry.id === 'sully-paris')?.reserved).toBe(0);
+  });
+
+  test('refuses the seats that would overbook a leg', () => {
+    const others = filled(outbound.capacity - 1);
+    const one = [{ guestId: 'a', legId: 'paris-sully' }];
+    const two = [...one, { guestId: 'b', legId: 'paris-sully' }];
+    expect(fullShuttleLeg(one, others)).toBeNull();
+    expect(fullShuttleLeg(two, others)).toBe('paris-sully');
+    expect(fullShuttleLeg([{ guestId: 'a', legId: 'sully-paris' }], others)).toBeNull();
+  });
+});
+
+test.describe('shuttle calendar entries', () => {
+  const seats = [
+    { guestId: 'a', legId: 'sully-paris' },
+    { guestId: 'b', legId: 'paris-sully' },
+  ];
+
+  test('lists only the legs the guest holds a seat on', () => {
+    const events = shuttleEventsForGuest(response('p', seats), 'a');
+    expect(events.map((event) => event.id)).toEqual(['shuttle-sully-paris']);
+    expect(shuttleEventsForGuest(response('p', seats, { status: 'Declined' }), 'a')).toEqual([]);
+    expect(shuttleEventsForGuest(null, 'a')).toEqual([]);
+  });
+
+  test('render as timed events in Paris time', () => {
+    const ics = buildICS(shuttleEventsForGuest(response('p', seats), 'b'));
+    expect(ics).toContain('UID:shuttle-paris-sully@sargaux.com');
+    expect(ics).toContain('DTSTART;TZID=Europe/Paris:20270528T150000');
+    expect(ics).toContain('DTEND;TZID=Europe/Paris:20270528T163000');
+  });
+});
+
+test.describe('shuttle manifests', () => {
+  const responses = [
+    response('p', [
+      { guestId: 'b', legId: 'paris-sully' },
+      { guestId: 'a', legId: 'paris-sully' },
+    ]),
+    response('q', [{ guestId: 'c', legId: 'sully-paris' }]),
+    response('declined', [{ guestId: 'd', legId: 'paris-sully' }], { status: 'Declined' }),
+  ];
+  const guests = [
+    { id: 'a', name: 'Ana' },
+    { id: 'b', name: 'Ben, Jr.' },
+    { id: 'c', name: 'Cléo <3' },
+    { id: 'd', name: 'Dee' },
+  ];
+
+  test('lists each leg with its passengers by name', () => {
+    expect(buildShuttleManifests(responses, guests).map((m) => [m.leg.id, m.passengers])).toEqual([
+      ['paris-sully', ['Ana', 'Ben, Jr.']],
+      ['sully-paris', ['Cléo <3']],
+    ]);
+    expect(buildShuttleManifests(responses, guests, 'sully-paris').map((m) => m.leg.id)).toEqual(['sully-paris']);
+  });
+
+  test('exports a CSV sheet and a printable page', () => {
+    const manifests = buildShuttleManifests(responses, guests);
+    expect(shuttleManifestCsv(manifests).split('\n')[0]).toBe('Leg,Date,Departs,Pickup,Seat,Passenger');
+    expect(shuttleManifestCsv(manifests)).toContain(',1,Ana\n');
+    expect(shuttleManifestCsv(manifests)).toContain(',2,"Ben, Jr."\n');
+
+    const html = shuttleManifestHtml(manifests);
+    expect(html).toContain('<td>Cléo &lt;3</td>');
+    expect(html).toContain(`2 / ${outbound.capacity}`);
+  });
+});
+
+test.describe('shuttle schedule', () => {
+  test.afterEach(() => {
+    delete process.env.FRANCE_SHUTTLE_LEGS;
+  });
+
+  test('takes the confirmed departure and coach size from FRANCE_SHUTTLE_LEGS', () => {
+    process.env.FRANCE_SHUTTLE_LEGS = JSON.stringify({ 'paris-sully': { departureTime: '2:30 PM', capacity: 1 } });
+    expect(shuttleLegs().find((leg) => leg.id === 'paris-sully')).toMatchObject({ departureTime: '2:30 PM', capacity: 1 });
+    expect(shuttleLegs().find((leg) => leg.id === 'sully-paris')?.capacity).toBe(outbound.capacity);
+    expect(fullShuttleLeg([{ guestId: 'a', legId: 'paris-sully' }], [response('r', [{ guestId: 'r', legId: 'paris-sully' }])])).toBe(
+      'paris-sully'
+    );
+    const ics = buildICS(shuttleEventsForGuest(response('p', [{ guestId: 'a', legId: 'paris-sully' }]), 'a'));
+    expect(ics).toContain('DTSTART;TZID=Europe/Paris:20270528T143000');
+  });
+
+  test('keeps the default for a value of the wrong shape', () => {
+    process.env.FRANCE_SHUTTLE_LEGS = JSON.stringify({ 'paris-sully': { date: 'Friday', capacity: '40' } });
+    expect(shuttleLegs()[0]).toEqual(outbound);
+  });
+});
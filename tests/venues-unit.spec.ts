@@ -0,0 +1,136 @@
+import { test, expect } from '@playwright/test';
+import {
+  appleMapsUrl,
+  formatDistance,
+  googleDirectionsUrl,
+  googleMapsUrl,
+  venueById,
+  walkBetween,
+  walksBetweenEvents,
+  type Venue,
+} from '../src/lib/venues';
+import { buildICS } from '../src/lib/calendar';
+import { describeChange, reviseCalendar } from '../src/lib/calendar-revisions';
+import { localizeEvent } from '../src/lib/event-i18n';
+import type { EventRecord } from '../src/types';
+
+/**
+ * Unit-style tests for venues: the one-line location events get from them,
+ * GEO in the calendar feed, map links, and walks between consecutive events.
+ */
+
+const WYTHE = venueById('wythe-hotel')!;
+const WILLIAMSBURG = venueById('williamsburg')!;
+
+const DINNER: EventRecord = {
+  id: 'dinner',
+  name: 'Welcome Dinner',
+  nameFr: 'Dîner de bienvenue',
+  type: 'Core',
+  wedding: 'france',
+  date: '2027-05-28',
+  startTime: '7:00 PM',
+  location: 'Village Square',
+  locationFr: 'La Place du Village',
+  venueId: 'village-de-sully',
+  showOnWebsite: true,
+};
+
+test.describe('Venues', () => {
+  test('an event at a venue is located by space, venue and address', () => {
+    expect(localizeEvent(DINNER, 'en').location).toBe('Village Square, Village de Sully, 78710 Rosny-sur-Seine, France');
+    expect(localizeEvent(DINNER, 'fr').location).toBe(
+      'La Place du Village, Village de Sully, 78710 Rosny-sur-Seine, France'
+    );
+    // No space: the venue alone, in the guest's language
+    const cocktails = { ...DINNER, location: undefined, locationFr: undefined, venueId: 'wythe-hotel' };
+    expect(localizeEvent(cocktails, 'fr').location).toBe('Bar Blondeau au Wythe Hotel, 80 Wythe Avenue, Brooklyn, NY 11249');
+    // An unknown venue leaves the free-text location
+    expect(localizeEvent({ ...DINNER, venueId: 'nowhere' }, 'en').location).toBe('Village Square');
+  });
+
+  test('the feed pins events at a venue with GEO and a structured location', () => {
+    const tour = { ...DINNER, id: 'tour', location: undefined, locationFr: undefined, venueId: 'giverny' };
+    const ics = buildICS([tour, { ...tour, id: 'plain', venueId: undefined }], 'en');
+    expect(ics.match(/^GEO:/gm)).toEqual(['GEO:']);
+    expect(ics).toContain('GEO:49.0754;1.534');
+    const unfolded = ics.replace(/\r\n /g, '');
+    expect(unfolded).toContain(
+      'X-APPLE-STRUCTURED-LOCATION;VALUE=URI;X-ADDRESS="84 Rue Claude Monet, 27620 Giverny, France";X-APPLE-RADIUS=100;' +
+        'X-TITLE="Claude Monet\'s House and Gardens":geo:49.0754,1.534'
+    );
+  });
+
+  test('a venue without a pin is located by name and address only', () => {
+    const ics = buildICS([DINNER], 'en');
+    expect(ics).toContain('LOCATION:Village Square\\, Village de Sully\\, 78710 Rosny-sur-Seine\\, France');
+    expect(ics).not.toContain('GEO:');
+    expect(ics).not.toContain('X-APPLE-STRUCTURED-LOCATION');
+
+    const sully = venueById('village-de-sully')!;
+    expect(new URL(appleMapsUrl(sully)).searchParams.has('ll')).toBe(false);
+    expect(walkBetween(sully, { ...sully, id: 'next-door' })).toBeNull();
+  });
+
+  test('moving an event to another venue is a change of location', () => {
+    const { revisions } = reviseCalendar(null, [DINNER]);
+    const { changes } = reviseCalendar(revisions, [{ ...DINNER, venueId: 'giverny' }]);
+    expect(changes.map((change) => change.kind)).toEqual(['updated']);
+    expect(changes[0].after?.venueId).toBe('giverny');
+    expect(describeChange(changes[0])).toBe(
+      'Changed: Welcome Dinner — Village Square, Village de Sully, 78710 Rosny-sur-Seine, France → ' +
+        "Village Square, Claude Monet's House and Gardens, 84 Rue Claude Monet, 27620 Giverny, France"
+    );
+  });
+
+  test('a venue set on an event already in the feed is not a change', () => {
+    const { revisions } = reviseCalendar(null, [{ ...DINNER, venueId: undefined }]);
+    const { revisions: after, changes } = reviseCalendar(revisions, [DINNER]);
+    expect(changes).toEqual([]);
+    expect(after.events.dinner.sequence).toBe(0);
+    expect(after.events.dinner.snapshot.venueId).toBe('village-de-sully');
+  });
+
+  test('map links search by name and address', () => {
+    const apple = new URL(appleMapsUrl(WYTHE));
+    expect(apple.origin).toBe('https://maps.apple.com');
+    expect(apple.searchParams.get('q')).toBe('Bar Blondeau at the Wythe Hotel');
+    expect(apple.searchParams.get('address')).toBe('80 Wythe Avenue, Brooklyn, NY 11249');
+    expect(apple.searchParams.get('ll')).toBe('40.72235,-73.95709');
+
+    const google = new URL(googleMapsUrl(WYTHE));
+    expect(google.searchParams.get('api')).toBe('1');
+    expect(google.searchParams.get('query')).toBe('Bar Blondeau at the Wythe Hotel, 80 Wythe Avenue, Brooklyn, NY 11249');
+
+    const directions = new URL(googleDirectionsUrl(WYTHE, 'JFK Airport'));
+    expect(directions.pathname).toBe('/maps/dir/');
+    expect(directions.searchParams.get('origin')).toBe('JFK Airport');
+  });
+
+  test('walks are estimated between nearby venues only', () => {
+    const walk = walkBetween(WYTHE, WILLIAMSBURG)!;
+    expect(Math.round(walk.meters / 100) * 100).toBe(1400);
+    expect(walk.minutes).toBe(18);
+    expect(walkBetween(WYTHE, WYTHE)).toBeNull();
+    const far: Venue = { ...WILLIAMSBURG, id: 'far', pin: { latitude: 40.8, longitude: -73.962 } };
+    expect(walkBetween(WYTHE, far)).toBeNull();
+  });
+
+  test('each event gets the walk from the one before it', () => {
+    const walks = walksBetweenEvents([
+      { id: 'cocktails', venueId: 'wythe-hotel' },
+      { id: 'toast', venueId: 'wythe-hotel' },
+      { id: 'dancing', venueId: 'williamsburg' },
+      { id: 'nightcap' },
+      { id: 'breakfast', venueId: 'wythe-hotel' },
+    ]);
+    expect([...walks.keys()]).toEqual(['dancing']);
+  });
+
+  test('distances read in meters, then kilometers', () => {
+    expect(formatDistance(20, 'en')).toBe('50 m');
+    expect(formatDistance(840, 'en')).toBe('850 m');
+    expect(formatDistance(1420, 'en')).toBe('1.4 km');
+    expect(formatDistance(1420, 'fr')).toBe('1,4 km');
+  });
+});